@@ -0,0 +1,33 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import typescript from 'rollup-plugin-typescript2';
+import cleanup from 'rollup-plugin-cleanup';
+import { builtinModules } from 'module';
+
+export default {
+  input: 'src/cli/bin.ts',
+  output: {
+    file: 'build/cli/audiences.js',
+    format: 'esm',
+    banner: '#!/usr/bin/env node',
+  },
+  external: ['js-yaml', ...builtinModules],
+  plugins: [
+    cleanup({ comments: 'none', extensions: ['.ts'] }),
+    typescript(),
+  ],
+  context: 'globalThis',
+};
@@ -14,15 +14,275 @@
  * limitations under the License.
  */
 
+import { CONFIG } from '../config';
 import { UriUtil } from '../util/uri';
 
 /**
  * @fileoverview This file contains base functionality to access any Google API
- * using the built-in Google Apps Script service {@link UrlFetchApp}.
+ * using the built-in Google Apps Script service {@link UrlFetchApp}. The HTTP
+ * client and the OAuth token provider can be replaced, e.g. to access the API
+ * from Node.js.
  *
  * @see appsscript.json for a list of enabled advanced services and API scopes.
  */
 
+/**
+ * The subset of an HTTP response used by {@link BaseApi}, as returned by
+ * {@link UrlFetchApp}.
+ */
+export type HttpResponse = Pick<
+  GoogleAppsScript.URL_Fetch.HTTPResponse,
+  'getResponseCode' | 'getContentText'
+> & {
+  getHeaders?: () => object;
+};
+
+/**
+ * HttpClient representing the synchronous HTTP access used by
+ * {@link BaseApi}.
+ */
+export interface HttpClient {
+  /**
+   * Executes an HTTP request. Responses with error status codes are returned
+   * rather than thrown.
+   *
+   * @param {string} url The URL of the request
+   * @param {!Object} params The options of the request, as supported by
+   *     {@link UrlFetchApp}
+   * @returns {!HttpResponse} The HTTP response
+   */
+  fetch(url: string, params: Record<string, unknown>): HttpResponse;
+
+  /**
+   * Blocks for the given amount of time, e.g. before retrying a request.
+   *
+   * @param {number} millis The delay in milliseconds
+   */
+  sleep(millis: number): void;
+}
+
+/**
+ * TokenProvider representing a source of OAuth2 access tokens.
+ */
+export interface TokenProvider {
+  /**
+   * Returns a valid OAuth2 access token.
+   *
+   * @returns {string} The access token
+   */
+  getToken(): string;
+}
+
+/**
+ * UrlFetchAppClient representing the {@link HttpClient} backed by the
+ * built-in Google Apps Script services.
+ */
+export class UrlFetchAppClient implements HttpClient {
+  /**
+   * Executes an HTTP request using {@link UrlFetchApp}.
+   *
+   * @param {string} url The URL of the request
+   * @param {!Object} params The options of the request
+   * @returns {!HttpResponse} The HTTP response
+   */
+  fetch(url: string, params: Record<string, unknown>) {
+    return UrlFetchApp.fetch(url, params);
+  }
+
+  /**
+   * Blocks using {@link Utilities#sleep}.
+   *
+   * @param {number} millis The delay in milliseconds
+   */
+  sleep(millis: number) {
+    Utilities.sleep(millis);
+  }
+}
+
+/**
+ * ScriptAppTokenProvider representing the {@link TokenProvider} returning the
+ * OAuth2 token of the user running the script.
+ */
+export class ScriptAppTokenProvider implements TokenProvider {
+  /**
+   * Returns the OAuth2 token from {@link ScriptApp}.
+   *
+   * @returns {string} The access token
+   */
+  getToken() {
+    return ScriptApp.getOAuthToken();
+  }
+}
+
+/**
+ * The replaceable dependencies of {@link BaseApi}.
+ */
+export interface ApiOptions {
+  httpClient?: HttpClient;
+  tokenProvider?: TokenProvider;
+  baseUrl?: string;
+}
+
+/**
+ * ApiError representing a failed API request, exposing the HTTP status code
+ * and the (parsed) error payload returned by the API.
+ */
+export class ApiError extends Error {
+  status_: number;
+  payload_: unknown;
+  retryAfterMillis_?: number;
+
+  /**
+   * @constructs an instance of ApiError.
+   *
+   * @param {string} message The error message
+   * @param {number} status The HTTP status code, or 0 if the request did not
+   *     yield a response (e.g. network errors)
+   * @param {*=} payload The error payload returned by the API
+   * @param {number=} retryAfterMillis The delay requested by the API via the
+   *     'Retry-After' header
+   */
+  constructor(
+    message: string,
+    status: number,
+    payload?: unknown,
+    retryAfterMillis?: number
+  ) {
+    super(message);
+    this.name = 'ApiError';
+
+    /** @private @const {number} */
+    this.status_ = status;
+
+    /** @private @const {*} */
+    this.payload_ = payload;
+
+    /** @private @const {number|undefined} */
+    this.retryAfterMillis_ = retryAfterMillis;
+  }
+
+  /**
+   * Creates an ApiError from the given failed HTTP response.
+   *
+   * @param {!HttpResponse} response The response
+   * @returns {!ApiError} The created ApiError instance
+   */
+  static fromResponse(response: HttpResponse) {
+    const status = response.getResponseCode();
+    const content = response.getContentText();
+    let payload: unknown = content;
+
+    try {
+      payload = content ? JSON.parse(content) : undefined;
+    } catch (err) {
+      // Keep the raw content as payload
+    }
+    const apiMessage = (payload as { error?: { message?: string } })?.error
+      ?.message;
+    const message = `Request failed with status ${status}${
+      apiMessage ? `: ${apiMessage}` : ''
+    }`;
+
+    return new ApiError(
+      message,
+      status,
+      payload,
+      ApiError.parseRetryAfter(
+        (response.getHeaders?.() ?? {}) as Record<string, unknown>
+      )
+    );
+  }
+
+  /**
+   * Parses the 'Retry-After' header, which holds either a number of seconds
+   * or an HTTP date, into a delay in milliseconds.
+   *
+   * @param {!Object<string, string>} headers The response headers
+   * @returns {number|undefined} The delay in milliseconds, or undefined if the
+   *     header is missing or invalid
+   */
+  static parseRetryAfter(headers: Record<string, unknown>) {
+    const key = Object.keys(headers).find(
+      header => header.toLowerCase() === 'retry-after'
+    );
+    if (!key) {
+      return undefined;
+    }
+    const value = String(headers[key]).trim();
+
+    if (/^\d+$/.test(value)) {
+      return Number(value) * 1000;
+    }
+    const date = Date.parse(value);
+
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Whether the failed request may succeed if retried, i.e. for network
+   * errors, rate limiting, exhausted quota and server errors.
+   *
+   * @param {{
+   *     retryableStatusCodes: !Array<number>,
+   *     retryableReasons: !Array<string>,
+   *     retryableErrorStatuses: !Array<string>,
+   * }=} params
+   * @returns {boolean}
+   */
+  isRetryable({
+    retryableStatusCodes = CONFIG.api.retryableStatusCodes,
+    retryableReasons = CONFIG.api.retryableReasons,
+    retryableErrorStatuses = CONFIG.api.retryableErrorStatuses,
+  } = {}) {
+    if (
+      this.status_ === 0 ||
+      this.status_ >= 500 ||
+      retryableStatusCodes.includes(this.status_)
+    ) {
+      return true;
+    }
+    const error = (
+      this.payload_ as {
+        error?: { status?: string; errors?: Array<{ reason?: string }> };
+      }
+    )?.error;
+
+    return (
+      retryableErrorStatuses.includes(error?.status ?? '') ||
+      (error?.errors ?? []).some(({ reason }) =>
+        retryableReasons.includes(reason ?? '')
+      )
+    );
+  }
+
+  /**
+   * Returns the HTTP status code.
+   *
+   * @returns {number}
+   */
+  getStatus() {
+    return this.status_;
+  }
+
+  /**
+   * Returns the error payload returned by the API.
+   *
+   * @returns {*}
+   */
+  getPayload() {
+    return this.payload_;
+  }
+
+  /**
+   * Returns the delay requested by the API before retrying, if any.
+   *
+   * @returns {number|undefined}
+   */
+  getRetryAfterMillis() {
+    return this.retryAfterMillis_;
+  }
+}
+
 /**
  * BaseApi representing an abstraction over API access with
  * {@link UrlFetchApp}.
@@ -30,19 +290,42 @@ import { UriUtil } from '../util/uri';
 export class BaseApi {
   apiScope_: string;
   apiVersion_: string;
+  httpClient_: HttpClient;
+  tokenProvider_: TokenProvider;
+  baseUrl_: string;
 
   /**
    * @constructs an instance of BaseApi.
    *
    * @param {string} apiScope The API scope
    * @param {string} apiVersion The API version
+   * @param {!ApiOptions=} options The HTTP client and token provider to use
+   *     instead of the built-in Google Apps Script services, and the base URL
+   *     of the API
    */
-  constructor(apiScope: string, apiVersion: string) {
+  constructor(
+    apiScope: string,
+    apiVersion: string,
+    {
+      httpClient = new UrlFetchAppClient(),
+      tokenProvider = new ScriptAppTokenProvider(),
+      baseUrl = CONFIG.api.baseUrl,
+    }: ApiOptions = {}
+  ) {
     /** @private @const {string} */
     this.apiScope_ = apiScope;
 
     /** @private @const {string} */
     this.apiVersion_ = apiVersion;
+
+    /** @private @const {!HttpClient} */
+    this.httpClient_ = httpClient;
+
+    /** @private @const {!TokenProvider} */
+    this.tokenProvider_ = tokenProvider;
+
+    /** @private @const {string} */
+    this.baseUrl_ = baseUrl;
   }
 
   /**
@@ -93,50 +376,115 @@ export class BaseApi {
 
   /**
    * Executes a request to the API while handling errors and response
-   * data parsing. Re-attempts failed executions up to the value of
-   * 'maxRetries'.
+   * data parsing. Re-attempts retryable failed executions (network errors,
+   * rate limiting and server errors) up to the value of 'maxRetries', backing
+   * off exponentially between attempts or as requested by the API via the
+   * 'Retry-After' header. Fails right away if the requested delay exceeds the
+   * max backoff.
    *
    * @param {string} requestUri The URI of the request
    * @param {?Object} requestParams The options to use for the request
    * @param {boolean} retryOnFailure Whether the operation should be retried
    *     in case of failure or not
    * @param {number=} operationCount The number of failed attempts made.
+   * @param {number=} maxRetries The max number of retries
    * @returns {!Object} The parsed JSON response data, or an empty object for
    *     empty responses
+   * @throws {!ApiError} If the request failed and was not retried, or all
+   *     retries have been exhausted
    */
   executeApiRequest(
     requestUri: string,
     requestParams?: Record<string, unknown>,
     retryOnFailure?: boolean,
-    operationCount: number | undefined = 0
+    operationCount: number | undefined = 0,
+    maxRetries = CONFIG.api.maxRetries
   ): Record<string, any> | undefined {
     const url = this.buildApiUrl(requestUri);
     const params = this.buildApiParams(requestParams);
-    const maxRetries = 3;
+    let error: ApiError;
 
     try {
-      const response = UrlFetchApp.fetch(url, params);
-      const result = response.getContentText()
-        ? JSON.parse(response.getContentText())
-        : {};
-      return result;
-    } catch (err: unknown) {
-      const error = err as Error;
-      console.error(`Operation failed with exception: ${err}`);
-
-      if (retryOnFailure && operationCount < maxRetries) {
-        console.info(`Retrying operation for a max of ${maxRetries} times...`);
-        this.refreshAuthToken(params);
-        operationCount++;
-        this.executeApiRequest(url, params, retryOnFailure, operationCount);
-      } else {
-        console.warn(
-          'Retry on failure not supported or all retries ' +
-            'have been exhausted... Failing!'
-        );
-        throw new Error(error.message);
+      const response = this.httpClient_.fetch(url, {
+        ...params,
+        muteHttpExceptions: true,
+      });
+      const status = response.getResponseCode();
+
+      if (status >= 200 && status < 300) {
+        return response.getContentText()
+          ? JSON.parse(response.getContentText())
+          : {};
       }
+      error = ApiError.fromResponse(response);
+    } catch (err: unknown) {
+      error = new ApiError((err as Error).message, 0);
+    }
+    console.error(`Operation failed with exception: ${error}`);
+    const delay = this.getBackoffDelay(
+      operationCount,
+      error.getRetryAfterMillis()
+    );
+
+    if (
+      retryOnFailure &&
+      error.isRetryable() &&
+      operationCount < maxRetries &&
+      delay !== undefined
+    ) {
+      console.info(
+        `Retrying operation in ${delay}ms for a max of ${maxRetries} times...`
+      );
+      this.httpClient_.sleep(delay);
+      this.refreshAuthToken(params);
+      operationCount++;
+      return this.executeApiRequest(
+        url,
+        params,
+        retryOnFailure,
+        operationCount,
+        maxRetries
+      );
     }
+    console.warn(
+      'Retry on failure not supported, error not retryable, requested delay ' +
+        'too long or all retries have been exhausted... Failing!'
+    );
+    throw error;
+  }
+
+  /**
+   * Calculates the delay before the next retry attempt using exponential
+   * backoff with jitter, unless the API requested a specific delay. Delays
+   * requested by the API are honoured in full, but not waited for at all if
+   * they exceed the max backoff.
+   *
+   * @param {number} operationCount The number of failed attempts made
+   * @param {number=} retryAfterMillis The delay requested by the API
+   * @param {{
+   *     initialBackoffMillis: number,
+   *     maxBackoffMillis: number
+   * }=} params
+   * @returns {number|undefined} The delay in milliseconds, or undefined if
+   *     the request should not be retried
+   */
+  getBackoffDelay(
+    operationCount: number,
+    retryAfterMillis?: number,
+    {
+      initialBackoffMillis = CONFIG.api.initialBackoffMillis,
+      maxBackoffMillis = CONFIG.api.maxBackoffMillis,
+    } = {}
+  ) {
+    if (retryAfterMillis !== undefined) {
+      return retryAfterMillis <= maxBackoffMillis
+        ? retryAfterMillis
+        : undefined;
+    }
+    const backoff = initialBackoffMillis * Math.pow(2, operationCount);
+    const jitter = Math.floor(Math.random() * initialBackoffMillis);
+
+    return Math.min(backoff + jitter, maxBackoffMillis);
   }
 
   /**
@@ -147,12 +495,10 @@ export class BaseApi {
    * @returns {string} The fully-qualified API URL
    */
   buildApiUrl(requestUri: string): string {
-    const protocolAndDomain = 'https://www.googleapis.com/';
-
-    if (requestUri.startsWith(protocolAndDomain)) {
+    if (requestUri.startsWith(this.baseUrl_)) {
       return requestUri;
     }
-    return `${protocolAndDomain}${this.apiScope_}/${this.apiVersion_}/${requestUri}`;
+    return `${this.baseUrl_}${this.apiScope_}/${this.apiVersion_}/${requestUri}`;
   }
 
   /**
@@ -165,7 +511,7 @@ export class BaseApi {
   buildApiParams(
     requestParams?: Record<string, unknown>
   ): Record<string, unknown> {
-    const token = ScriptApp.getOAuthToken();
+    const token = this.tokenProvider_.getToken();
     const baseParams = {
       contentType: 'application/json',
       headers: { Authorization: `Bearer ${token}`, Accept: 'application/json' },
@@ -203,13 +549,13 @@ export class BaseApi {
 
   /**
    * Refreshes the OAuth2 client token used for authentication by fetching it
-   * from the underlying @link {ScriptApp} and modifying the given params of the
+   * from the underlying {@link TokenProvider} and modifying the given params of the
    * request directly (i.e. there is no return value for this method).
    *
    * @param {!{ headers?: { Authorization?: string } }} params The options to use for the request
    */
   refreshAuthToken(params: { headers?: { Authorization?: string } }) {
-    const token = ScriptApp.getOAuthToken();
+    const token = this.tokenProvider_.getToken();
 
     if (!params.headers) {
       params.headers = {};
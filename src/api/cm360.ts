@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import { BaseApi } from './base';
+import { type ApiOptions, BaseApi } from './base';
 
 /**
  * @fileoverview This Google Apps Script file directly accesses the
@@ -26,6 +26,17 @@ import { BaseApi } from './base';
 const API_SCOPE = 'dfareporting';
 const API_VERSION = 'v4';
 
+/**
+ * The optional filters for retrieving remarketing lists, i.e. the string the
+ * list name contains, whether to return active lists only and the ID of the
+ * floodlight activity populating the lists. Passed through to the API.
+ */
+export interface RemarketingListsFilter {
+  name?: string;
+  active?: boolean;
+  floodlightActivityId?: string;
+}
+
 /**
  * CampaignManagerApi representing a REST wrapper for the the CM360 API.
  */
@@ -36,9 +47,11 @@ export class CampaignManagerApi extends BaseApi {
    * @constructs an instance of CampaignManagerApi.
    *
    * @param {string} advertiserId The CM360 Advertiser ID
+   * @param {!ApiOptions=} options The HTTP client, token provider and base URL
+   *     to use. Defaults to the built-in Google Apps Script services
    */
-  constructor(advertiserId: string) {
-    super(API_SCOPE, API_VERSION);
+  constructor(advertiserId: string, options: ApiOptions = {}) {
+    super(API_SCOPE, API_VERSION, options);
 
     /** @private @const {string} */
     this.advertiserId_ = advertiserId;
@@ -60,14 +73,16 @@ export class CampaignManagerApi extends BaseApi {
    * CM360 Network.
    *
    * @param {string} profileId The user profile ID
+   * @param {string=} advertiserId The CM360 Advertiser ID. Defaults to the
+   *     advertiser ID this instance was created with
    * @returns {UserDefinedVariableConfiguration[]} The user defined variable configuration array
    */
   getUserDefinedVariableConfigurations(
-    profileId: string
+    profileId: string,
+    advertiserId = this.getAdvertiserId()
   ): GoogleAppsScript.CampaignManager.UserDefinedVariableConfiguration[] {
     const path =
-      `userprofiles/${profileId}/floodlightConfigurations/` +
-      this.getAdvertiserId();
+      `userprofiles/${profileId}/floodlightConfigurations/` + advertiserId;
 
     return this.executeApiRequest(path, { method: 'get' }, true)
       ?.userDefinedVariableConfigurations;
@@ -75,20 +90,31 @@ export class CampaignManagerApi extends BaseApi {
 
   /**
    * Retrieves configured floodlight activities from the logged in user's
-   * CM360 Network and Advertiser.
+   * CM360 Network and Advertiser, paging through all results.
    *
    * @param {string} profileId The user profile ID
+   * @param {string=} advertiserId The CM360 Advertiser ID. Defaults to the
+   *     advertiser ID this instance was created with
    * @returns {FloodlightActivity[]} The floodlight activities array
    */
   getFloodlightActivities(
-    profileId: string
+    profileId: string,
+    advertiserId = this.getAdvertiserId()
   ): GoogleAppsScript.CampaignManager.FloodlightActivity[] {
     const path =
       `userprofiles/${profileId}/floodlightActivities` +
-      `?advertiserId=${this.getAdvertiserId()}`;
+      `?advertiserId=${advertiserId}`;
+    const floodlightActivities: GoogleAppsScript.CampaignManager.FloodlightActivity[] =
+      [];
 
-    return this.executeApiRequest(path, { method: 'get' }, true)
-      ?.floodlightActivities as GoogleAppsScript.CampaignManager.FloodlightActivity[];
+    this.executePagedApiRequest(
+      path,
+      { method: 'get' },
+      (response: {
+        floodlightActivities?: GoogleAppsScript.CampaignManager.FloodlightActivity[];
+      }) => floodlightActivities.push(...(response.floodlightActivities ?? []))
+    );
+    return floodlightActivities;
   }
 
   /**
@@ -100,8 +126,8 @@ export class CampaignManagerApi extends BaseApi {
    * @param {string[]} advertisersFilter Which advertisers to include
    * @param {number} maxResultsPerPage The maximum number of results to fetch
    *     per page
-   * @param {function(!Object): undefined} callback The callback to trigger
-   *     after fetching every 'page' of results
+   * @param {function(!Array<!Advertiser>): undefined} callback The callback
+   *     to trigger with the advertisers of every fetched 'page' of results
    */
   getAdvertisers(
     profileId: string,
@@ -122,25 +148,76 @@ export class CampaignManagerApi extends BaseApi {
     const queryString = this.objectToUrlQuery('', params);
     const path = `userprofiles/${profileId}/advertisers${queryString}`;
 
-    this.executePagedApiRequest(path, { method: 'get' }, callback);
+    this.executePagedApiRequest(
+      path,
+      { method: 'get' },
+      (response: {
+        advertisers?: GoogleAppsScript.CampaignManager.Advertiser[];
+      }) => callback(response.advertisers ?? [])
+    );
   }
 
   /**
    * Retrieves configured remarketing lists from the logged in user's CM360
-   * Network and Advertiser.
+   * Network and Advertiser, paging through all results.
    *
    * @param {string} profileId The user profile ID
+   * @param {string=} advertiserId The CM360 Advertiser ID. Defaults to the
+   *     advertiser ID this instance was created with
+   * @param {!RemarketingListsFilter=} filter Optional filters applied by the
+   *     API
    * @returns {RemarketingList[]} The remarketing lists array
    */
   getRemarketingLists(
-    profileId: string
+    profileId: string,
+    advertiserId = this.getAdvertiserId(),
+    filter: RemarketingListsFilter = {}
   ): GoogleAppsScript.CampaignManager.RemarketingList[] {
+    const params: Record<string, unknown> = { advertiserId };
+
+    if (filter.name) {
+      params.name = encodeURIComponent(filter.name);
+    }
+    if (filter.active) {
+      params.active = true;
+    }
+    if (filter.floodlightActivityId) {
+      params.floodlightActivityId = filter.floodlightActivityId;
+    }
+    const queryString = this.objectToUrlQuery('', params);
+    const path = `userprofiles/${profileId}/remarketingLists${queryString}`;
+    const remarketingLists: GoogleAppsScript.CampaignManager.RemarketingList[] =
+      [];
+
+    this.executePagedApiRequest(
+      path,
+      { method: 'get' },
+      (response: {
+        remarketingLists?: GoogleAppsScript.CampaignManager.RemarketingList[];
+      }) => remarketingLists.push(...(response.remarketingLists ?? []))
+    );
+    return remarketingLists;
+  }
+
+  /**
+   * Retrieves a single remarketing list by its ID.
+   *
+   * @param {string} profileId The user profile ID
+   * @param {string} remarketingListId The ID of the remarketing list
+   * @returns {RemarketingList} The remarketing list
+   */
+  getRemarketingList(
+    profileId: string,
+    remarketingListId: string
+  ): GoogleAppsScript.CampaignManager.RemarketingList {
     const path =
-      `userprofiles/${profileId}/remarketingLists` +
-      `?advertiserId=${this.getAdvertiserId()}`;
+      `userprofiles/${profileId}/remarketingLists/` + remarketingListId;
 
-    return this.executeApiRequest(path, { method: 'get' }, true)
-      ?.remarketingLists;
+    return this.executeApiRequest(
+      path,
+      { method: 'get' },
+      true
+    ) as GoogleAppsScript.CampaignManager.RemarketingList;
   }
 
   /**
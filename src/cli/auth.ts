@@ -0,0 +1,103 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { execSync } from 'child_process';
+
+import { type TokenProvider } from '../api/base';
+import { CONFIG } from '../config';
+
+/**
+ * @fileoverview This file contains the {@link TokenProvider} implementations
+ * available to the Node CLI, replacing {@link ScriptApp#getOAuthToken}.
+ */
+
+/**
+ * StaticTokenProvider representing a {@link TokenProvider} returning a fixed
+ * access token, e.g. passed via an environment variable.
+ */
+export class StaticTokenProvider implements TokenProvider {
+  private readonly token_: string;
+
+  /**
+   * @constructs an instance of StaticTokenProvider.
+   *
+   * @param {string} token The access token
+   */
+  constructor(token: string) {
+    this.token_ = token;
+  }
+
+  /**
+   * Returns the access token.
+   *
+   * @returns {string} The access token
+   */
+  getToken() {
+    return this.token_;
+  }
+}
+
+/**
+ * CommandTokenProvider representing a {@link TokenProvider} running a shell
+ * command which prints an access token, e.g.
+ * 'gcloud auth print-access-token'. Tokens are reused until they are about to
+ * expire.
+ */
+export class CommandTokenProvider implements TokenProvider {
+  private readonly command_: string;
+  private readonly ttlMillis_: number;
+  private token_ = '';
+  private expiresAt_ = 0;
+
+  /**
+   * @constructs an instance of CommandTokenProvider.
+   *
+   * @param {string=} command The command printing the access token
+   * @param {{
+   *     ttlMillis: number
+   * }=} params
+   */
+  constructor(
+    command = CONFIG.cli.tokenCommand,
+    { ttlMillis = CONFIG.cli.tokenTtlMillis } = {}
+  ) {
+    this.command_ = command;
+    this.ttlMillis_ = ttlMillis;
+  }
+
+  /**
+   * Returns the cached access token, running the command if there is none or
+   * it is about to expire.
+   *
+   * @returns {string} The access token
+   * @throws {!Error} If the command failed or printed nothing
+   */
+  getToken() {
+    if (!this.token_ || Date.now() >= this.expiresAt_) {
+      const token = execSync(this.command_, {
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'pipe'],
+      }).trim();
+
+      if (!token) {
+        throw new Error(`Command '${this.command_}' printed no access token`);
+      }
+      this.token_ = token;
+      this.expiresAt_ = Date.now() + this.ttlMillis_;
+    }
+    return this.token_;
+  }
+}
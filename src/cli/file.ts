@@ -0,0 +1,95 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from 'fs';
+import yaml from 'js-yaml';
+
+import { CONFIG } from '../config';
+import { type Audience } from '../model/audience';
+import { CatalogueError, CatalogueUtil } from '../util/catalogue';
+
+/**
+ * @fileoverview This file contains reading and writing of the audiences files
+ * used by the Node CLI. An audiences file holds a catalogue as exported from
+ * the spreadsheet, either as JSON or as YAML depending on its extension.
+ */
+
+/**
+ * AudiencesFileUtil representing a utility class for reading and writing
+ * audiences files.
+ */
+export class AudiencesFileUtil {
+  /**
+   * Reads and validates the audiences of the given file. Besides complete
+   * catalogues, a plain list of audiences is accepted.
+   *
+   * @param {string} filePath The path of the JSON or YAML file
+   * @param {{
+   *     version: number
+   * }=} params
+   * @returns {!Array<!Audience>} The audiences of the file
+   * @throws {!CatalogueError} If the file is invalid
+   */
+  static read(filePath: string, { version = CONFIG.catalogue.version } = {}) {
+    const content = fs.readFileSync(filePath, 'utf8');
+    let catalogue: unknown;
+
+    try {
+      catalogue = AudiencesFileUtil.isYaml(filePath)
+        ? yaml.load(content)
+        : JSON.parse(content);
+    } catch (err: unknown) {
+      throw new CatalogueError([
+        `Malformed file '${filePath}': ${(err as Error).message}`,
+      ]);
+    }
+    if (Array.isArray(catalogue)) {
+      catalogue = { version, audiences: catalogue };
+    }
+
+    return CatalogueUtil.fromJson(JSON.stringify(catalogue ?? null), {
+      version,
+    });
+  }
+
+  /**
+   * Writes the given audiences to the given file as a catalogue.
+   *
+   * @param {string} filePath The path of the JSON or YAML file
+   * @param {!Array<!Audience>} audiences The audiences to write
+   * @param {string=} networkId The CM360 network the audiences belong to
+   */
+  static write(filePath: string, audiences: Audience[], networkId = '') {
+    const json = CatalogueUtil.toJson(audiences, networkId);
+
+    fs.writeFileSync(
+      filePath,
+      AudiencesFileUtil.isYaml(filePath)
+        ? yaml.dump(JSON.parse(json), { noRefs: true })
+        : `${json}\n`
+    );
+  }
+
+  /**
+   * Whether the given file is a YAML file, based on its extension.
+   *
+   * @param {string} filePath The path of the file
+   * @returns {boolean}
+   */
+  static isYaml(filePath: string) {
+    return /\.ya?ml$/i.test(filePath);
+  }
+}
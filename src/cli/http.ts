@@ -0,0 +1,192 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MessageChannel, Worker, receiveMessageOnPort } from 'worker_threads';
+
+import { type HttpClient, type HttpResponse } from '../api/base';
+import { CONFIG } from '../config';
+
+/**
+ * @fileoverview This file contains the {@link HttpClient} used by the Node
+ * CLI. {@link BaseApi} expects synchronous requests like those of
+ * {@link UrlFetchApp}, so every request is executed by a worker thread while
+ * the calling thread blocks until the response arrived.
+ */
+
+/**
+ * The source of the worker thread executing a single request with the global
+ * fetch API of Node.js and posting the result back.
+ */
+const FETCH_WORKER_SOURCE = `
+const { workerData } = require('worker_threads');
+const { url, init, signal, port } = workerData;
+
+fetch(url, init)
+  .then(async response => ({
+    status: response.status,
+    body: await response.text(),
+    headers: Object.fromEntries(response.headers.entries()),
+  }))
+  .catch(err => ({ error: String((err && err.message) || err) }))
+  .then(result => {
+    port.postMessage(result);
+    Atomics.store(signal, 0, 1);
+    Atomics.notify(signal, 0);
+  });
+`;
+
+interface FetchResult {
+  status?: number;
+  body?: string;
+  headers?: Record<string, string>;
+  error?: string;
+}
+
+/**
+ * NodeHttpResponse representing an {@link HttpResponse} received in Node.js.
+ */
+export class NodeHttpResponse implements HttpResponse {
+  private readonly status_: number;
+  private readonly body_: string;
+  private readonly headers_: Record<string, string>;
+
+  /**
+   * @constructs an instance of NodeHttpResponse.
+   *
+   * @param {number} status The HTTP status code
+   * @param {string} body The response body
+   * @param {!Object<string, string>=} headers The response headers
+   */
+  constructor(
+    status: number,
+    body: string,
+    headers: Record<string, string> = {}
+  ) {
+    this.status_ = status;
+    this.body_ = body;
+    this.headers_ = headers;
+  }
+
+  /**
+   * Returns the HTTP status code.
+   *
+   * @returns {number}
+   */
+  getResponseCode() {
+    return this.status_;
+  }
+
+  /**
+   * Returns the response body.
+   *
+   * @returns {string}
+   */
+  getContentText() {
+    return this.body_;
+  }
+
+  /**
+   * Returns the response headers.
+   *
+   * @returns {!Object<string, string>}
+   */
+  getHeaders() {
+    return this.headers_;
+  }
+}
+
+/**
+ * NodeHttpClient representing a synchronous {@link HttpClient} for Node.js.
+ */
+export class NodeHttpClient implements HttpClient {
+  private readonly timeoutMillis_: number;
+
+  /**
+   * @constructs an instance of NodeHttpClient.
+   *
+   * @param {{
+   *     timeoutMillis: number
+   * }=} params
+   */
+  constructor({ timeoutMillis = CONFIG.cli.requestTimeoutMillis } = {}) {
+    this.timeoutMillis_ = timeoutMillis;
+  }
+
+  /**
+   * Executes an HTTP request, translating the {@link UrlFetchApp} options
+   * used by {@link BaseApi} to fetch options.
+   *
+   * @param {string} url The URL of the request
+   * @param {!Object} params The options of the request
+   * @returns {!NodeHttpResponse} The HTTP response
+   * @throws {!Error} If no response was received, e.g. for network errors or
+   *     timeouts
+   */
+  fetch(url: string, params: Record<string, unknown>) {
+    const headers: Record<string, string> = {
+      ...((params.headers as Record<string, string>) ?? {}),
+    };
+
+    if (params.contentType) {
+      headers['Content-Type'] = String(params.contentType);
+    }
+    const init = {
+      method: String(params.method ?? 'get').toUpperCase(),
+      headers,
+      body: params.payload === undefined ? undefined : String(params.payload),
+    };
+    const signal = new Int32Array(new SharedArrayBuffer(4));
+    const { port1, port2 } = new MessageChannel();
+    const worker = new Worker(FETCH_WORKER_SOURCE, {
+      eval: true,
+      workerData: { url, init, signal, port: port2 },
+      transferList: [port2],
+    });
+
+    try {
+      Atomics.wait(signal, 0, 0, this.timeoutMillis_);
+      const result = receiveMessageOnPort(port1)?.message as
+        | FetchResult
+        | undefined;
+
+      if (!result) {
+        throw new Error(
+          `Request to ${url} timed out after ${this.timeoutMillis_}ms`
+        );
+      }
+      if (result.error !== undefined) {
+        throw new Error(result.error);
+      }
+      return new NodeHttpResponse(
+        result.status ?? 0,
+        result.body ?? '',
+        result.headers
+      );
+    } finally {
+      port1.close();
+      worker.terminate();
+    }
+  }
+
+  /**
+   * Blocks the calling thread for the given amount of time.
+   *
+   * @param {number} millis The delay in milliseconds
+   */
+  sleep(millis: number) {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, millis);
+  }
+}
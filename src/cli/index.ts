@@ -0,0 +1,262 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createHash } from 'crypto';
+import { parseArgs } from 'util';
+
+import { type ApiOptions } from '../api/base';
+import { CONFIG } from '../config';
+import { CampaignManagerFacade } from '../facade/cm360';
+import { type Audience } from '../model/audience';
+import { type AudienceProcessJob } from '../model/audienceProcessJob';
+import { Job } from '../model/job';
+import { JsonFileAudienceRepository } from '../repository/json';
+import { setMD5Digest } from '../util/hash';
+import { CommandTokenProvider, StaticTokenProvider } from './auth';
+import { AudiencesFileUtil } from './file';
+import { NodeHttpClient } from './http';
+import { AudienceSyncController } from './sync';
+
+/**
+ * @fileoverview This file contains the entry point of the Node CLI, which
+ * manages audiences from the command line through the CM360 REST API:
+ *
+ *   audiences load    Fetch all audiences from CM360 into the store file
+ *   audiences plan    Show the changes of an audiences file to be pushed
+ *   audiences apply   Push the changes of an audiences file to CM360
+ *   audiences export  Write the audiences of the store file to a file
+ */
+
+const USAGE = `Usage: audiences <load|plan|apply|export> [options]
+
+Options:
+  -f, --file <path>          The audiences file (.json, .yaml or .yml)
+  -s, --store <path>         The store file (default: ${CONFIG.cli.storeFile})
+  --network-id <id>          The CM360 network ID ($CM360_NETWORK_ID)
+  --advertiser-id <ids>      Comma separated CM360 advertiser IDs, the first
+                             being the default ($CM360_ADVERTISER_IDS)
+  --token <token>            The OAuth access token ($CM360_ACCESS_TOKEN)
+  --token-command <command>  The command printing an access token
+                             (default: ${CONFIG.cli.tokenCommand})
+  --base-url <url>           The API base URL (default: ${CONFIG.api.baseUrl})
+  -h, --help                 Show this help`;
+
+/**
+ * The dependencies of the CLI, which can be replaced for testing.
+ */
+export interface CliDependencies {
+  env?: Record<string, string | undefined>;
+  out?: (line: string) => void;
+  err?: (line: string) => void;
+  createCampaignManagerService?: (
+    accountData: {
+      networkId: string;
+      advertiserId: string;
+      advertiserIds: string[];
+    },
+    apiOptions: ApiOptions
+  ) => CampaignManagerFacade;
+}
+
+/**
+ * Runs the CLI.
+ *
+ * @param {!Array<string>} argv The command line arguments, without the node
+ *     executable and script
+ * @param {!CliDependencies=} dependencies
+ * @returns {number} The exit code
+ */
+export function main(
+  argv: string[],
+  {
+    env = process.env,
+    out = console.log,
+    err = console.error,
+    createCampaignManagerService = (accountData, apiOptions) =>
+      new CampaignManagerFacade(accountData, true, [], undefined, apiOptions),
+  }: CliDependencies = {}
+) {
+  let args;
+
+  try {
+    args = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        file: { type: 'string', short: 'f' },
+        store: { type: 'string', short: 's', default: CONFIG.cli.storeFile },
+        'network-id': { type: 'string' },
+        'advertiser-id': { type: 'string' },
+        token: { type: 'string' },
+        'token-command': { type: 'string' },
+        'base-url': { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (e: unknown) {
+    err(`${(e as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  const { values, positionals } = args;
+  const command = positionals[0];
+
+  if (values.help) {
+    out(USAGE);
+    return 0;
+  }
+  if (!['load', 'plan', 'apply', 'export'].includes(command)) {
+    err(`Unknown command '${command ?? ''}'\n\n${USAGE}`);
+    return 2;
+  }
+  if (command !== 'load' && !values.file) {
+    err(`Command '${command}' requires --file\n\n${USAGE}`);
+    return 2;
+  }
+
+  setMD5Digest(input => [...createHash('md5').update(input, 'utf8').digest()]);
+
+  const repository = new JsonFileAudienceRepository(values.store as string);
+  const getController = () => {
+    const networkId = values['network-id'] ?? env.CM360_NETWORK_ID ?? '';
+    const advertiserIds = (
+      values['advertiser-id'] ??
+      env.CM360_ADVERTISER_IDS ??
+      ''
+    )
+      .split(',')
+      .map(advertiserId => advertiserId.trim())
+      .filter(advertiserId => advertiserId !== '');
+
+    if (!networkId || advertiserIds.length === 0) {
+      throw new Error(
+        `Command '${command}' requires --network-id and --advertiser-id`
+      );
+    }
+    const token = values.token ?? env.CM360_ACCESS_TOKEN;
+
+    return new AudienceSyncController(
+      repository,
+      createCampaignManagerService(
+        { networkId, advertiserId: advertiserIds[0], advertiserIds },
+        {
+          httpClient: new NodeHttpClient(),
+          tokenProvider: token
+            ? new StaticTokenProvider(token)
+            : new CommandTokenProvider(values['token-command']),
+          baseUrl: values['base-url'],
+        }
+      )
+    );
+  };
+
+  try {
+    switch (command) {
+      case 'load': {
+        const controller = getController();
+        const job = controller.load(new Job());
+
+        job.getLogs().forEach(({ message }) => out(message));
+        controller.writeLogs(job);
+        return 0;
+      }
+      case 'plan': {
+        const controller = new AudienceSyncController(repository);
+        const audienceJobs = controller.plan(
+          AudiencesFileUtil.read(values.file as string)
+        );
+
+        audienceJobs.forEach(audienceJob =>
+          printPlannedAudience(audienceJob, controller, out)
+        );
+        out(
+          `Plan: ${audienceJobs.length} audience(s) to change, ` +
+            `${audienceJobs.filter(job => job.isError()).length} invalid`
+        );
+        return audienceJobs.some(job => job.isError()) ? 1 : 0;
+      }
+      case 'apply': {
+        const controller = getController();
+        const audiences = AudiencesFileUtil.read(values.file as string);
+        const job = controller.apply(new Job(), audiences);
+
+        job.getJobs().forEach(audienceJob => {
+          const error = audienceJob.getError();
+          const name = (audienceJob as AudienceProcessJob)
+            .getAudience()
+            .getName();
+
+          out(error ? `✗ '${name}': ${error}` : `✓ '${name}'`);
+        });
+        job.getLogs().forEach(({ message }) => out(message));
+        controller.writeLogs(job);
+        AudiencesFileUtil.write(
+          values.file as string,
+          audiences,
+          values['network-id'] ?? env.CM360_NETWORK_ID ?? ''
+        );
+        return job.getJobs().some(audienceJob => audienceJob.isError()) ? 1 : 0;
+      }
+      default: {
+        const audiences: Audience[] = repository
+          .getAudiences()
+          .map(synced => synced.audience);
+
+        AudiencesFileUtil.write(
+          values.file as string,
+          audiences,
+          values['network-id'] ?? env.CM360_NETWORK_ID ?? ''
+        );
+        out(`Exported ${audiences.length} audience(s) to ${values.file}`);
+        return 0;
+      }
+    }
+  } catch (e: unknown) {
+    err(`Error: ${(e as Error).message}`);
+    return 1;
+  }
+}
+
+/**
+ * Prints the actions and changed fields of a planned audience.
+ *
+ * @param {!AudienceProcessJob} audienceJob The planned audience job
+ * @param {!AudienceSyncController} controller The controller holding the
+ *     synced audiences
+ * @param {function(string)} out The output function
+ */
+function printPlannedAudience(
+  audienceJob: AudienceProcessJob,
+  controller: AudienceSyncController,
+  out: (line: string) => void
+) {
+  const audience = audienceJob.getAudience();
+  const id = audience.getId();
+  const previous = id ? controller.getSyncedAudience(id) : undefined;
+
+  out(
+    `${audienceJob.isError() ? '!' : id ? '~' : '+'} ` +
+      `${audienceJob.getActions().join(', ')} '${audience.getName()}'` +
+      `${id ? ` (${id})` : ''}`
+  );
+  audience
+    .getChanges(previous)
+    .forEach(change =>
+      out(`    ${change.field}: '${change.oldValue}' -> '${change.newValue}'`)
+    );
+  if (audienceJob.isError()) {
+    out(`    ${audienceJob.getError()}`);
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AudienceProcessJobController } from '../controller/audienceProcessJob';
+import { AudiencesController } from '../controller/audiences';
+import { type CampaignManagerFacade } from '../facade/cm360';
+import { type Audience } from '../model/audience';
+import { type AudienceProcessJob } from '../model/audienceProcessJob';
+import { type Job } from '../model/job';
+import { type AudienceRepository } from '../repository/repository';
+import { AudienceUtil } from '../util/audience';
+import { JobUtil } from '../util/job';
+
+/**
+ * @fileoverview This file encapsulates the sync logic of the Node CLI, which
+ * keeps the last known state of all audiences in an
+ * {@link AudienceRepository} rather than in the spreadsheet.
+ */
+
+/**
+ * AudienceSyncController representing a class for driving the
+ * {@link AudiencesController} and {@link AudienceProcessJobController} from
+ * the Node CLI, i.e. loading audiences from CM360 into a repository and
+ * pushing the audiences of an audiences file to CM360, using the same
+ * checksums as the spreadsheet to detect pending changes.
+ */
+export class AudienceSyncController {
+  private readonly repository_: AudienceRepository;
+  private readonly audiencesController_: AudiencesController;
+  private readonly audienceProcessJobController_: AudienceProcessJobController;
+
+  /**
+   * @constructs an instance of AudienceSyncController.
+   *
+   * @param {!AudienceRepository} repository The injected AudienceRepository
+   *     dependency
+   * @param {!CampaignManagerFacade=} campaignManagerService The injected
+   *     CampaignManagerFacade dependency. Not needed for planning
+   */
+  constructor(
+    repository: AudienceRepository,
+    campaignManagerService?: CampaignManagerFacade
+  ) {
+    this.repository_ = repository;
+    this.audiencesController_ = new AudiencesController(
+      undefined,
+      campaignManagerService,
+      repository
+    );
+    this.audienceProcessJobController_ = new AudienceProcessJobController(
+      undefined,
+      campaignManagerService,
+      undefined,
+      repository
+    );
+  }
+
+  /**
+   * Replaces the repository contents with the remarketing lists, custom
+   * variables, floodlight activities and advertisers of all managed
+   * advertisers. Delegates to {@link AudiencesController}.
+   *
+   * @param {!Job} job The job to log to
+   * @returns {!Job} The modified job instance
+   */
+  load(job: Job) {
+    return this.audiencesController_.fetchAndStoreAudiences(job);
+  }
+
+  /**
+   * Creates an {@link AudienceProcessJob} for every given audience which
+   * differs from its synced state in the repository. Delegates to
+   * {@link AudienceProcessJobController}.
+   *
+   * @param {!Array<!Audience>} audiences The audiences to push, e.g. read from
+   *     an audiences file
+   * @param {string=} runId The ID of the run the jobs belong to
+   * @returns {!Array<!AudienceProcessJob>} The jobs of all pending audiences
+   */
+  plan(audiences: Audience[], runId = '') {
+    return this.audienceProcessJobController_.planAudienceJobs(
+      audiences,
+      runId
+    );
+  }
+
+  /**
+   * Pushes all pending audiences to CM360. Invalid audiences are skipped.
+   *
+   * @param {!Job} job The job to add the audience jobs to
+   * @param {!Array<!Audience>} audiences The audiences to push
+   * @returns {!Job} The modified job instance
+   */
+  apply(job: Job, audiences: Audience[]) {
+    const runId = JobUtil.getCurrentDateString();
+
+    for (const audienceJob of this.plan(audiences, runId)) {
+      if (!audienceJob.isError()) {
+        this.processAudience(audienceJob);
+      }
+      job.getJobs().push(audienceJob);
+    }
+
+    const failed = job.getJobs().filter(audienceJob => audienceJob.isError());
+    job.log([
+      `Applied ${job.getJobs().length - failed.length} of ` +
+        `${job.getJobs().length} audience(s)`,
+    ]);
+
+    return job;
+  }
+
+  /**
+   * Pushes a single audience to CM360 through
+   * {@link AudienceProcessJobController#syncAudience} and stores its new
+   * synced state. Audiences files hold no index into the repository, so the
+   * stored audience is looked up by ID. Audiences which failed only get a new
+   * status, so that they are pushed again on the next run.
+   *
+   * @param {!AudienceProcessJob} job The audience job
+   * @returns {!AudienceProcessJob} The modified job instance
+   */
+  processAudience(job: AudienceProcessJob) {
+    const audience = job.getAudience();
+    const storedId = audience.getId();
+    const state = this.audienceProcessJobController_.syncAudience(job);
+    const storedIndex = storedId
+      ? this.repository_
+          .getAudiences()
+          .findIndex(stored => stored.audience.getId() === storedId)
+      : -1;
+    const stored =
+      storedIndex === -1
+        ? undefined
+        : this.repository_.getSyncState(storedIndex);
+
+    if (!job.isError()) {
+      this.repository_.saveAudiences([
+        {
+          checksum: '',
+          sharesChecksum: '',
+          json: '',
+          status: '',
+          ...stored,
+          ...state,
+          audience,
+        },
+      ]);
+    } else if (stored) {
+      this.repository_.saveSyncState(storedIndex, storedId as string, state);
+    }
+
+    return job;
+  }
+
+  /**
+   * Returns the last synced version of the given audience.
+   *
+   * @param {string} audienceId The audience ID
+   * @returns {!Audience|undefined} The synced audience, or undefined if the
+   *     audience is unknown or has no valid snapshot
+   */
+  getSyncedAudience(audienceId: string) {
+    const synced = this.repository_
+      .getAudiences()
+      .find(stored => stored.audience.getId() === audienceId);
+
+    return AudienceUtil.parseSnapshot(synced?.json ?? '');
+  }
+
+  /**
+   * Returns all audiences of the repository.
+   *
+   * @returns {!Array<!Audience>} The audiences
+   */
+  getAudiences() {
+    return this.repository_.getAudiences().map(synced => synced.audience);
+  }
+
+  /**
+   * Appends the logs of the given job and its inner jobs to the repository.
+   *
+   * @param {!Job} job The job holding the logs
+   * @returns {!Job} The modified job instance
+   */
+  writeLogs(job: Job) {
+    const logs = [job, ...job.getJobs()].flatMap(loggedJob => {
+      const jobLogs = loggedJob.getLogs();
+      loggedJob.clearLogs();
+
+      return jobLogs;
+    });
+
+    if (logs.length > 0) {
+      this.repository_.appendLogs(logs);
+    }
+    return job;
+  }
+
+  /**
+   * Returns the AudienceRepository instance.
+   *
+   * @returns {!AudienceRepository} The AudienceRepository instance
+   */
+  getRepository() {
+    return this.repository_;
+  }
+
+  /**
+   * Returns the CampaignManagerFacade instance.
+   *
+   * @returns {!CampaignManagerFacade} The CampaignManagerFacade instance
+   * @throws {!Error} If no CampaignManagerFacade was injected
+   */
+  getCampaignManagerService() {
+    return this.audiencesController_.getCampaignManagerService();
+  }
+}
@@ -33,6 +33,36 @@ export const GLOBALCTX = this;
 export const CONFIG = {
   advertisersFilter: [],
   apiFirst: false,
+  api: {
+    maxRetries: 3,
+    initialBackoffMillis: 1000,
+    maxBackoffMillis: 32000,
+    retryableStatusCodes: [408, 429],
+    // Quota errors, which some APIs return with status 403
+    retryableReasons: [
+      'rateLimitExceeded',
+      'userRateLimitExceeded',
+      'quotaExceeded',
+    ],
+    retryableErrorStatuses: ['RESOURCE_EXHAUSTED'],
+    // Transient errors of the built-in services, which expose no status codes
+    retryableMessages: [
+      'rate limit',
+      'quota exceeded',
+      'backend error',
+      'internal error',
+      'service unavailable',
+      'timed out',
+      'try again',
+    ],
+    baseUrl: 'https://www.googleapis.com/',
+  },
+  cli: {
+    storeFile: 'audiences.store.json',
+    tokenCommand: 'gcloud auth print-access-token',
+    tokenTtlMillis: 45 * 60 * 1000,
+    requestTimeoutMillis: 60000,
+  },
   accountData: {
     sheetName: 'Client Setup',
     networkId: {
@@ -42,6 +72,7 @@ export const CONFIG = {
     advertiserId: {
       row: 3,
       col: 3,
+      separator: ',',
     },
   },
   multiSelect: {
@@ -94,6 +125,8 @@ export const CONFIG = {
     sheetName: 'Audiences',
     defaultState: true,
     listSource: 'REMARKETING_LIST_SOURCE_DFA',
+    maxLifeSpan: 540,
+    useRuleExpressions: false,
     row: 2,
     col: 1,
     cols: {
@@ -107,16 +140,160 @@ export const CONFIG = {
       checksum: 7,
       sharesChecksum: 8,
       json: 9,
+      active: 10,
+      advertiserId: 11,
+      ruleExpression: 12,
+      drift: 13,
+      driftResolution: 14,
+      templateKey: 15,
+      // Read-only stats of the list in CM360, not part of the checksum. All
+      // three columns are written together and thus need to be adjacent
+      listSize: 16,
+      listStatus: 17,
+      listSource: 18,
+    },
+    listStatuses: {
+      active: 'ACTIVE',
+      inactive: 'INACTIVE',
+    },
+    driftResolutions: {
+      pull: 'PULL',
+      overwrite: 'OVERWRITE',
     },
     actions: {
       create: 'CREATE_AUDIENCE',
       update: 'UPDATE_AUDIENCE',
+      deactivate: 'DEACTIVATE_AUDIENCE',
       updateShares: 'UPDATE_SHARES',
     },
   },
+  templates: {
+    sheetName: 'Templates',
+    placeholderRegex: '\\{(\\w+)\\}',
+    row: 2,
+    col: 1,
+    cols: {
+      id: 0,
+      name: 1,
+      description: 2,
+      lifeSpan: 3,
+      floodlightId: 4,
+      ruleExpression: 5,
+    },
+    parameters: {
+      sheetName: 'Template Parameters',
+      row: 1,
+      col: 1,
+      cols: {
+        templateId: 0,
+      },
+    },
+  },
+  catalogue: {
+    version: 1,
+    formats: {
+      json: 'json',
+      csv: 'csv',
+    },
+    sharesSeparator: ',',
+    csvHeaders: [
+      'id',
+      'name',
+      'description',
+      'lifeSpan',
+      'floodlightId',
+      'floodlightName',
+      'active',
+      'advertiserId',
+      'shares',
+      'group',
+      'variableName',
+      'variableFriendlyName',
+      'operator',
+      'value',
+      'negation',
+      'type',
+      'contextVariable',
+    ],
+  },
+  clone: {
+    sheetName: 'Clone Report',
+    headers: [
+      'Audience ID',
+      'Name',
+      'Target Advertiser',
+      'Target Audience ID',
+      'Status',
+      'Details',
+    ],
+    row: 2,
+    col: 1,
+    statuses: {
+      cloned: 'CLONED',
+      skipped: 'SKIPPED',
+      failed: 'FAILED',
+    },
+  },
+  history: {
+    sheetName: 'History',
+    headers: [
+      'Timestamp',
+      'Run ID',
+      'User',
+      'Audience ID',
+      'Name',
+      'Actions',
+      'Previous JSON',
+      'Previous Checksum',
+      'New JSON',
+      'New Checksum',
+    ],
+    row: 2,
+    col: 1,
+    cols: {
+      timestamp: 0,
+      runId: 1,
+      user: 2,
+      audienceId: 3,
+      name: 4,
+      actions: 5,
+      previousJson: 6,
+      previousChecksum: 7,
+      newJson: 8,
+      newChecksum: 9,
+    },
+    lockTimeoutMillis: 30000,
+  },
+  plan: {
+    sheetName: 'Plan',
+    headers: ['Audience ID', 'Name', 'Action', 'Field', 'Old', 'New'],
+    row: 2,
+    col: 1,
+  },
+  sharesMatrix: {
+    // Audiences by advertiser they are shared with, one checkbox per pair.
+    // The advertiser columns follow the fixed ones
+    sheetName: 'Shares Matrix',
+    headers: ['Audience ID', 'Audience', 'Shares'],
+    totalLabel: 'Audiences',
+    headerRow: 1,
+    totalRow: 2,
+    row: 3,
+    col: 1,
+    cols: {
+      audienceId: 0,
+      name: 1,
+      count: 2,
+    },
+  },
   rules: {
     sheetName: 'Rules',
     termType: 'CUSTOM_VARIABLE_TERM',
+    termTypes: {
+      customVariable: 'CUSTOM_VARIABLE_TERM',
+      listMembership: 'LIST_MEMBERSHIP_TERM',
+      referrer: 'REFERRER_TERM',
+    },
     separator: ',',
     row: 2,
     col: 1,
@@ -127,6 +304,90 @@ export const CONFIG = {
       operator: 3,
       values: 4,
       negation: 5,
+      advertiserId: 6,
+      type: 7,
+      contextVariable: 8,
+      validation: 9,
+    },
+    operators: [
+      'NUM_EQUALS',
+      'NUM_LESS_THAN',
+      'NUM_LESS_THAN_EQUAL',
+      'NUM_GREATER_THAN',
+      'NUM_GREATER_THAN_EQUAL',
+      'STRING_EQUALS',
+      'STRING_CONTAINS',
+    ],
+    numericOperatorPrefix: 'NUM_',
+    lockTimeoutMillis: 30000,
+  },
+  transaction: {
+    // All or nothing: revert the applied changes of a run if any audience fails
+    enabled: false,
+    sheetName: 'Transaction',
+    headers: [
+      'Run ID',
+      'Row',
+      'Audience ID',
+      'Checksum',
+      'Shares Checksum',
+      'JSON',
+      'Remote JSON',
+      'Remote Shares',
+    ],
+    row: 2,
+    col: 1,
+    cols: {
+      runId: 0,
+      index: 1,
+      audienceId: 2,
+      checksum: 3,
+      sharesChecksum: 4,
+      json: 5,
+      remoteJson: 6,
+      remoteShares: 7,
+    },
+  },
+  jobQueue: {
+    // Jobs of the last run, persisted so that the run can be resumed
+    sheetName: 'Job Queue',
+    headers: ['Run ID', 'Row', 'Status', 'Job'],
+    row: 2,
+    col: 1,
+    cols: {
+      runId: 0,
+      index: 1,
+      status: 2,
+      job: 3,
+    },
+  },
+  schedule: {
+    // Unattended runs of load or process on time-driven triggers
+    tasks: {
+      load: 'load',
+      process: 'process',
+    },
+    intervalsHours: [1, 2, 4, 6, 8, 12],
+    handlerFunction: 'runScheduledSync',
+    scheduleProperty: 'schedule',
+    runProperty: 'scheduleRun',
+    sheetName: 'Schedule Queue',
+    headers: ['Job'],
+    row: 2,
+    col: 1,
+    // Stays well below the 6 minutes limit of a single execution
+    maxRuntimeMillis: 4.5 * 60 * 1000,
+    continuationDelayMillis: 60 * 1000,
+    lockTimeoutMillis: 10000,
+    notify: true,
+  },
+  loadFilters: {
+    // Restricts loading to the slice of audiences managed in the spreadsheet
+    property: 'loadFilters',
+    statuses: {
+      active: 'ACTIVE',
+      inactive: 'INACTIVE',
     },
+    namePatternRegex: '^/(.+)/([a-z]*)$',
   },
 };
@@ -14,13 +14,26 @@
  * limitations under the License.
  */
 
+import { HistoryController } from './history';
+import { JobQueueController } from './jobQueue';
+import { TransactionController } from './transaction';
 import { type CampaignManagerFacade } from '../facade/cm360';
 import { CONFIG } from '../config';
 import { Audience, type AudienceRule } from '../model/audience';
 import { AudienceProcessJob } from '../model/audienceProcessJob';
-import { Job } from '../model/job';
+import { Job, JobStatus } from '../model/job';
+import {
+  type AudienceRepository,
+  type SyncState,
+} from '../repository/repository';
+import { SheetsAudienceRepository } from '../repository/sheets';
 import { type SheetsService } from '../service/sheets';
+import { AudienceUtil } from '../util/audience';
+import { ErrorUtil } from '../util/error';
+import { RuleExpressionError, RuleExpressionUtil } from '../util/expression';
 import { JobUtil } from '../util/job';
+import { RemarketingListUtil } from '../util/remarketingList';
+import { AudienceValidator } from '../util/validator';
 
 /**
  * @fileoverview This file encapsulates all logic for creating audiences defined
@@ -33,22 +46,33 @@ import { JobUtil } from '../util/job';
  * infrastructure.
  */
 export class AudienceProcessJobController {
-  private readonly sheetsService_: SheetsService;
-  private readonly campaignManagerService_: CampaignManagerFacade;
+  private readonly sheetsService_?: SheetsService;
+  private readonly campaignManagerService_?: CampaignManagerFacade;
+  private jobQueueController_?: JobQueueController;
+  private repository_?: AudienceRepository;
   rules_: Array<Array<string | number | boolean>>;
   /**
    * @constructs an instance of AudienceProcessJobController.
    *
-   * @param {!SheetsService} sheetsService The injected SheetsService dependency
-   * @param {!CampaignManagerFacade} campaignManagerService The injected
-   *     CampaignManagerFacade dependency
+   * @param {!SheetsService|undefined} sheetsService The injected SheetsService
+   *     dependency. Not needed if a repository is given, e.g. for the Node CLI
+   * @param {!CampaignManagerFacade|undefined} campaignManagerService The
+   *     injected CampaignManagerFacade dependency
+   * @param {!JobQueueController=} jobQueueController The injected
+   *     JobQueueController dependency. Defaults to one sharing the services
+   * @param {!AudienceRepository=} repository The injected AudienceRepository
+   *     dependency. Defaults to one backed by the spreadsheet
    */
   constructor(
-    sheetsService: SheetsService,
-    campaignManagerService: CampaignManagerFacade
+    sheetsService: SheetsService | undefined,
+    campaignManagerService: CampaignManagerFacade | undefined,
+    jobQueueController?: JobQueueController,
+    repository?: AudienceRepository
   ) {
     this.sheetsService_ = sheetsService;
     this.campaignManagerService_ = campaignManagerService;
+    this.jobQueueController_ = jobQueueController;
+    this.repository_ = repository;
     this.rules_ = [];
   }
 
@@ -61,6 +85,7 @@ export class AudienceProcessJobController {
    *     row: number,
    *     col: number,
    *     nameCol: number,
+   *     transactional: boolean,
    * }=} params
    * @returns {!Job} The modified job instance
    */
@@ -71,32 +96,441 @@ export class AudienceProcessJobController {
       row = CONFIG.audiences.row,
       col = CONFIG.audiences.col,
       nameCol = CONFIG.audiences.cols.name,
+      transactional = CONFIG.transaction.enabled,
     } = {}
   ) {
     this.getSheetsService().showToast('Processing audiences...', 'Process');
 
     const audiences = this.getSheetsService().getRangeData(sheetName, row, col);
+    // Identifies the history entries of all audiences processed in this run
+    const runId = JobUtil.getCurrentDateString();
 
-    const jobs: Job[] = audiences
-      // Add row index
-      .map((audience: string[], index: number) =>
-        audience.concat(String(index))
-      )
-      // Remove invalid audiences
-      .filter(
-        (audience: string[]) => audience.length > 1 && String(audience[nameCol])
+    const audienceJobs = this.validateAudienceJobs(
+      job,
+      this.createAudienceProcessJobs(audiences, nameCol, runId)
+    );
+
+    return this.queueAudienceJobs(job, runId, audienceJobs, audiences, {
+      transactional,
+    });
+  }
+
+  /**
+   * Hands the given audience jobs of a run over to the jobs infrastructure,
+   * after taking the snapshot to revert to and persisting the job queue.
+   *
+   * @param {!Job} job The job instance passed by the jobs infrastructure
+   * @param {string} runId The ID of the run
+   * @param {!Array<!AudienceProcessJob>} audienceJobs The jobs of the run
+   * @param {!Array<!Array<string|number>>} audiences The audience rows of
+   *     data from the underlying sheet
+   * @param {{
+   *     transactional: boolean,
+   * }=} params
+   * @returns {!Job} The modified job instance
+   */
+  queueAudienceJobs(
+    job: Job,
+    runId: string,
+    audienceJobs: AudienceProcessJob[],
+    audiences: Array<Array<string | number>>,
+    { transactional = CONFIG.transaction.enabled } = {}
+  ) {
+    // Nothing is changed in CM360 if the snapshot to revert to can't be taken
+    if (transactional && audienceJobs.length > 0) {
+      new TransactionController(
+        this.getSheetsService(),
+        this.getCampaignManagerService()
+      ).snapshot(runId, audienceJobs, audiences);
+    }
+
+    // Allows resuming the run if the sidebar is closed before it completes
+    this.getJobQueueController().save(audienceJobs);
+
+    job.getJobs().push(...audienceJobs);
+
+    return job;
+  }
+
+  /**
+   * Computes the same actions as {@link #processAudiences} without touching
+   * CM360, and writes a field-level diff of every pending change to the
+   * dedicated plan sheet. The previous state of an audience is taken from the
+   * JSON snapshot stored alongside it in the audiences sheet.
+   *
+   * @param {!Job} job The job instance passed by the jobs infrastructure
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     nameCol: number,
+   *     jsonCol: number,
+   *     planSheetName: string,
+   *     planHeaders: string[],
+   *     planRow: number,
+   *     planCol: number,
+   * }=} params
+   * @returns {!Job} The modified job instance
+   */
+  planAudiences(
+    job: Job,
+    {
+      sheetName = CONFIG.audiences.sheetName,
+      row = CONFIG.audiences.row,
+      col = CONFIG.audiences.col,
+      nameCol = CONFIG.audiences.cols.name,
+      jsonCol = CONFIG.audiences.cols.json,
+      planSheetName = CONFIG.plan.sheetName,
+      planHeaders = CONFIG.plan.headers,
+      planRow = CONFIG.plan.row,
+      planCol = CONFIG.plan.col,
+    } = {}
+  ) {
+    this.getSheetsService().showToast('Planning audiences...', 'Plan');
+
+    const audiences = this.getSheetsService().getRangeData(sheetName, row, col);
+    const audienceJobs = this.validateAudienceJobs(
+      job,
+      this.createAudienceProcessJobs(audiences, nameCol)
+    );
+
+    const output = audienceJobs.flatMap(audienceJob =>
+      this.createPlanRows(
+        audienceJob,
+        this.parseAudienceSnapshot(
+          String(audiences[audienceJob.getIndex()][jsonCol] ?? '')
+        )
       )
-      // Create jobs
-      .map((audience: string[]) => this.createAudienceProcessJob(audience))
-      .filter(
-        (audienceJob): audienceJob is AudienceProcessJob =>
-          !(audienceJob === undefined)
-      );
-    job.getJobs().push(...jobs);
+    );
+
+    this.getSheetsService().getOrCreateSheet(planSheetName, planHeaders);
+    this.getSheetsService().clearDefinedRange(planSheetName, planRow, planCol);
+    this.getSheetsService().setValuesInDefinedRange(
+      planSheetName,
+      planRow,
+      planCol,
+      output
+    );
+
+    const message =
+      `Planned ${output.length} change(s) for ` +
+      `${audienceJobs.length} audience(s)`;
+    console.log(message);
+    job.log([message]);
 
     return job;
   }
 
+  /**
+   * Creates {@link AudienceProcessJob} instances for all valid audience rows
+   * that have pending changes. Audiences with an invalid rule expression get
+   * a failed job without actions instead, so that a single invalid row does
+   * not fail all others. See {@link #validateAudienceJobs}.
+   *
+   * @param {!Array<!Array<string|number>>} audiences The audience rows of data
+   *     from the underlying sheet
+   * @param {number} nameCol The index of the audience name column
+   * @param {string=} runId The ID of the run the jobs belong to
+   * @param {{
+   *     idCol: number
+   * }=} params
+   * @returns {!Array<!AudienceProcessJob>} The created jobs
+   */
+  createAudienceProcessJobs(
+    audiences: Array<Array<string | number>>,
+    nameCol: number,
+    runId = '',
+    { idCol = CONFIG.audiences.cols.id } = {}
+  ) {
+    return (
+      audiences
+        // Add row index
+        .map((audience, index: number) => audience.concat(String(index)))
+        // Remove invalid audiences
+        .filter(audience => audience.length > 1 && String(audience[nameCol]))
+        // Create jobs
+        .map(audience => {
+          try {
+            return this.createAudienceProcessJob(audience, { runId });
+          } catch (err: unknown) {
+            if (!(err instanceof RuleExpressionError)) {
+              throw err;
+            }
+            const audienceJob = new AudienceProcessJob({
+              idx: Number(audience[audience.length - 1]),
+              audience: new Audience({
+                id: String(audience[idCol]) || undefined,
+                name: String(audience[nameCol]),
+                lifeSpan: 0,
+                rules: [],
+                shares: [],
+              }),
+              actions: [],
+              runId,
+            });
+
+            audienceJob.error(err.message);
+            return audienceJob;
+          }
+        })
+        .filter(
+          (audienceJob): audienceJob is AudienceProcessJob =>
+            !(audienceJob === undefined)
+        )
+    );
+  }
+
+  /**
+   * Validates the given audience jobs and their rules, writing errors back to
+   * the status column of the audiences sheet and the validation column of the
+   * rules sheet. Jobs with errors, including jobs which already failed to be
+   * created, are logged and left out of the result so that they never reach
+   * CM360. Rules are annotated even if there are no jobs.
+   *
+   * @param {!Job} job The parent job used for logging
+   * @param {!Array<!AudienceProcessJob>} audienceJobs The jobs to validate
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     statusCol: number,
+   *     rulesSheetName: string,
+   *     rulesRow: number,
+   *     rulesCol: number,
+   *     validationCol: number
+   * }=} params
+   * @returns {!Array<!AudienceProcessJob>} The valid jobs
+   */
+  validateAudienceJobs(
+    job: Job,
+    audienceJobs: AudienceProcessJob[],
+    {
+      sheetName = CONFIG.audiences.sheetName,
+      row = CONFIG.audiences.row,
+      statusCol = CONFIG.audiences.cols.status,
+      rulesSheetName = CONFIG.rules.sheetName,
+      rulesRow = CONFIG.rules.row,
+      rulesCol = CONFIG.rules.col,
+      validationCol = CONFIG.rules.cols.validation,
+    } = {}
+  ) {
+    const validator = this.createAudienceValidator();
+    const allRules = this.getAllRules();
+    const ruleErrors = allRules.map(rule => validator.validateRule(rule));
+
+    // Rewritten on every run, so that annotations of fixed rules disappear
+    this.getSheetsService().clearDefinedRange(
+      rulesSheetName,
+      rulesRow,
+      rulesCol + validationCol,
+      0,
+      1
+    );
+    this.getSheetsService().setValuesInDefinedRange(
+      rulesSheetName,
+      rulesRow,
+      rulesCol + validationCol,
+      ruleErrors.map(errors => [errors.join('; ')])
+    );
+
+    return audienceJobs.filter(audienceJob => {
+      const audience = audienceJob.getAudience();
+      const errors = audienceJob.isError()
+        ? [audienceJob.getError()]
+        : validator.validateAudience(audience);
+      const invalidRules = allRules.filter(
+        (rule, index) =>
+          ruleErrors[index].length > 0 &&
+          this.isAudienceRule(
+            rule,
+            audience.getId() ?? '',
+            audience.getAdvertiserId() ?? ''
+          )
+      ).length;
+
+      if (invalidRules > 0) {
+        errors.push(`${invalidRules} invalid rule(s)`);
+      }
+      if (errors.length === 0) {
+        return true;
+      }
+
+      this.getSheetsService().setCellValue(
+        row + audienceJob.getIndex(),
+        statusCol + 1,
+        `Invalid! ${errors.join('; ')} (${JobUtil.getCurrentDateString()})`,
+        sheetName
+      );
+      job.log([`Skipping invalid audience '${audience.getName()}'`]);
+
+      return false;
+    });
+  }
+
+  /**
+   * Creates {@link AudienceProcessJob} instances for all given audiences which
+   * differ from their synced state in the repository, e.g. audiences read
+   * from an audiences file by the Node CLI. Jobs are indexed by the position
+   * of their audience in the given array. Audiences referring to unknown IDs
+   * or failing validation get a failed job rather than being left out.
+   *
+   * @param {!Array<!Audience>} audiences The audiences to push
+   * @param {string=} runId The ID of the run the jobs belong to
+   * @param {{
+   *     updateAudienceAction: string,
+   *     deactivateAudienceAction: string
+   * }=} params
+   * @returns {!Array<!AudienceProcessJob>} The jobs of all pending audiences
+   */
+  planAudienceJobs(
+    audiences: Audience[],
+    runId = '',
+    {
+      updateAudienceAction = CONFIG.audiences.actions.update,
+      deactivateAudienceAction = CONFIG.audiences.actions.deactivate,
+    } = {}
+  ) {
+    const syncedAudiences = new Map(
+      this.getRepository()
+        .getAudiences()
+        .map(synced => [synced.audience.getId() ?? '', synced])
+    );
+    const validator = this.createAudienceValidator();
+    const audienceJobs: AudienceProcessJob[] = [];
+
+    audiences.forEach((audience, idx) => {
+      const synced = syncedAudiences.get(audience.getId() ?? '');
+      // Audiences files don't hold the list source, so lists loaded from
+      // other sources are locked based on their synced snapshot
+      const locked = !!AudienceUtil.parseSnapshot(
+        synced?.json ?? ''
+      )?.isLocked();
+      const actions = audience
+        .getPendingActions(synced?.checksum ?? '', synced?.sharesChecksum ?? '')
+        .filter(
+          action =>
+            !locked ||
+            (action !== updateAudienceAction &&
+              action !== deactivateAudienceAction)
+        );
+
+      if (actions.length === 0) {
+        return;
+      }
+
+      const audienceJob = new AudienceProcessJob({
+        idx,
+        audience,
+        actions,
+        runId,
+      });
+      const errors = validator.validateAudience(audience);
+
+      if (audience.getId() && !synced) {
+        errors.unshift(`Unknown audience ID '${audience.getId()}'`);
+      }
+      if (errors.length > 0) {
+        audienceJob.error(`Invalid! ${errors.join('; ')}`);
+      }
+      audienceJobs.push(audienceJob);
+    });
+
+    return audienceJobs;
+  }
+
+  /**
+   * Creates an {@link AudienceValidator} for the user defined variables and
+   * floodlight activities previously fetched into the repository.
+   *
+   * @returns {!AudienceValidator} The created validator
+   */
+  createAudienceValidator() {
+    const variables = Object.keys(this.getCustomVariableNames());
+    const floodlightIds = this.getRepository()
+      .getFloodlightActivities()
+      .map(floodlight => floodlight.id)
+      .filter(floodlightId => floodlightId);
+
+    return new AudienceValidator(variables, floodlightIds);
+  }
+
+  /**
+   * Creates the plan sheet rows for a single audience job, one row per
+   * changed field and action.
+   *
+   * @param {!AudienceProcessJob} job The audience job to describe
+   * @param {!Audience|undefined} previous The last known state of the
+   *     audience, or undefined if there is none
+   * @param {{
+   *     createAudienceAction: string,
+   *     updateAudienceAction: string,
+   *     deactivateAudienceAction: string,
+   *     updateSharesAction: string
+   * }=} params
+   * @returns {!Array<!Array<string>>} The plan rows
+   */
+  createPlanRows(
+    job: AudienceProcessJob,
+    previous: Audience | undefined,
+    {
+      createAudienceAction = CONFIG.audiences.actions.create,
+      updateAudienceAction = CONFIG.audiences.actions.update,
+      deactivateAudienceAction = CONFIG.audiences.actions.deactivate,
+      updateSharesAction = CONFIG.audiences.actions.updateShares,
+    } = {}
+  ) {
+    const audience = job.getAudience();
+    const rows: string[][] = [];
+
+    for (const action of job.getActions()) {
+      const base = action === createAudienceAction ? undefined : previous;
+      const changes = audience
+        .getChanges(base)
+        .filter(change =>
+          action === updateSharesAction
+            ? change.field === 'shares'
+            : change.field !== 'shares'
+        );
+
+      for (const change of changes) {
+        rows.push([
+          audience.getId() ?? '',
+          audience.getName(),
+          action,
+          change.field,
+          change.oldValue,
+          change.newValue,
+        ]);
+      }
+      if (
+        changes.length === 0 &&
+        [updateAudienceAction, deactivateAudienceAction].includes(action)
+      ) {
+        rows.push([
+          audience.getId() ?? '',
+          audience.getName(),
+          action,
+          '',
+          '',
+          '',
+        ]);
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Parses the JSON snapshot of an audience as stored in the audiences sheet.
+   * Delegates to {@link AudienceUtil}.
+   *
+   * @param {string} json The JSON snapshot, which may be empty
+   * @returns {!Audience|undefined} The parsed audience, or undefined if the
+   *     snapshot is empty or invalid
+   */
+  parseAudienceSnapshot(json: string) {
+    return AudienceUtil.parseSnapshot(json);
+  }
+
   /**
    * Creates an {@link AudienceProcessJob} instance for the given audience data.
    *
@@ -111,11 +545,22 @@ export class AudienceProcessJobController {
    *     sharesCol: number,
    *     checksumCol: number,
    *     sharesChecksumCol: number,
+   *     activeCol: number,
+   *     advertiserIdCol: number,
+   *     ruleExpressionCol: number,
+   *     driftResolutionCol: number,
+   *     listSourceCol: number,
+   *     useRuleExpressions: boolean,
+   *     overwriteResolution: string,
+   *     defaultState: boolean,
    *     createAudienceAction: string,
    *     updateAudienceAction: string,
-   *     updateSharesAction: string
+   *     deactivateAudienceAction: string,
+   *     updateSharesAction: string,
+   *     runId: string
    * }=} params
    * @returns {!AudienceProcessJob|undefined} The created AudienceProcessJob instance
+   * @throws {!RuleExpressionError} If the audience's rule expression is invalid
    */
   createAudienceProcessJob(
     audienceRow: Array<string | number>,
@@ -128,17 +573,123 @@ export class AudienceProcessJobController {
       sharesCol = CONFIG.audiences.cols.shares,
       checksumCol = CONFIG.audiences.cols.checksum,
       sharesChecksumCol = CONFIG.audiences.cols.sharesChecksum,
+      activeCol = CONFIG.audiences.cols.active,
+      advertiserIdCol = CONFIG.audiences.cols.advertiserId,
+      ruleExpressionCol = CONFIG.audiences.cols.ruleExpression,
+      driftResolutionCol = CONFIG.audiences.cols.driftResolution,
+      listSourceCol = CONFIG.audiences.cols.listSource,
+      useRuleExpressions = CONFIG.audiences.useRuleExpressions,
+      overwriteResolution = CONFIG.audiences.driftResolutions.overwrite,
+      defaultState = CONFIG.audiences.defaultState,
       createAudienceAction = CONFIG.audiences.actions.create,
       updateAudienceAction = CONFIG.audiences.actions.update,
+      deactivateAudienceAction = CONFIG.audiences.actions.deactivate,
       updateSharesAction = CONFIG.audiences.actions.updateShares,
+      runId = '',
     } = {}
   ) {
-    const audienceName = String(audienceRow[nameCol]);
     const idx = Number(audienceRow[audienceRow.length - 1]);
+    const audience = this.createAudience(audienceRow, {
+      idCol,
+      nameCol,
+      lifeSpanCol,
+      descriptionCol,
+      floodlightIdCol,
+      sharesCol,
+      activeCol,
+      advertiserIdCol,
+      ruleExpressionCol,
+      listSourceCol,
+      useRuleExpressions,
+      defaultState,
+    });
+    const getOptionalCell = (col: number) =>
+      col < audienceRow.length - 1 ? audienceRow[col] : undefined;
+
+    // Drifted audiences marked to be overwritten are pushed to CM360 even if
+    // they did not change in the sheet
+    const overwrite =
+      !!audienceRow[checksumCol] &&
+      String(getOptionalCell(driftResolutionCol) ?? '') === overwriteResolution;
+    const actions = audience.getPendingActions(
+      audienceRow[checksumCol] ? String(audienceRow[checksumCol]) : '',
+      String(audienceRow[sharesChecksumCol]),
+      overwrite,
+      {
+        createAudienceAction,
+        updateAudienceAction,
+        deactivateAudienceAction,
+        updateSharesAction,
+      }
+    );
+
+    const audienceProcessJob = new AudienceProcessJob({
+      idx,
+      audience,
+      actions,
+      runId,
+    });
+
+    return actions.length > 0 ? audienceProcessJob : undefined;
+  }
+
+  /**
+   * Creates an {@link Audience} from the given audience data. As in
+   * {@link #createAudienceProcessJob}, the last element of the row holds its
+   * index rather than a sheet column.
+   *
+   * @param {?Array<?Object>} audienceRow The audience row of data from the
+   *     underlying sheet, followed by the row index
+   * @param {{
+   *     idCol: string,
+   *     nameCol: number,
+   *     lifeSpanCol: number,
+   *     descriptionCol: number,
+   *     floodlightIdCol: number,
+   *     sharesCol: number,
+   *     activeCol: number,
+   *     advertiserIdCol: number,
+   *     ruleExpressionCol: number,
+   *     listSourceCol: number,
+   *     useRuleExpressions: boolean,
+   *     defaultState: boolean
+   * }=} params
+   * @returns {!Audience} The created audience
+   * @throws {!RuleExpressionError} If the audience's rule expression is invalid
+   */
+  createAudience(
+    audienceRow: Array<string | number>,
+    {
+      idCol = CONFIG.audiences.cols.id,
+      nameCol = CONFIG.audiences.cols.name,
+      lifeSpanCol = CONFIG.audiences.cols.lifeSpan,
+      descriptionCol = CONFIG.audiences.cols.description,
+      floodlightIdCol = CONFIG.audiences.cols.floodlightId,
+      sharesCol = CONFIG.audiences.cols.shares,
+      activeCol = CONFIG.audiences.cols.active,
+      advertiserIdCol = CONFIG.audiences.cols.advertiserId,
+      ruleExpressionCol = CONFIG.audiences.cols.ruleExpression,
+      listSourceCol = CONFIG.audiences.cols.listSource,
+      useRuleExpressions = CONFIG.audiences.useRuleExpressions,
+      defaultState = CONFIG.audiences.defaultState,
+    } = {}
+  ) {
+    const audienceName = String(audienceRow[nameCol]);
+    // The last element holds the row index rather than a sheet column, so
+    // optional trailing columns are only read if the row actually has them
+    const getOptionalCell = (col: number) =>
+      col < audienceRow.length - 1 ? audienceRow[col] : undefined;
+    const advertiserId = String(getOptionalCell(advertiserIdCol) ?? '');
 
-    const audienceRules = this.getAudienceRules(String(audienceRow[idCol]));
+    const ruleExpression = useRuleExpressions
+      ? String(getOptionalCell(ruleExpressionCol) ?? '').trim()
+      : '';
 
-    const audience = new Audience({
+    const audienceRules = ruleExpression
+      ? this.parseRuleExpression(audienceName, ruleExpression)
+      : this.getAudienceRules(String(audienceRow[idCol]), advertiserId);
+
+    return new Audience({
       id: String(audienceRow[idCol]),
       name: audienceName,
       description: String(audienceRow[descriptionCol]),
@@ -148,29 +699,68 @@ export class AudienceProcessJobController {
       ),
       rules: audienceRules,
       shares: this.extractSharedAdvertiserIds(String(audienceRow[sharesCol])),
+      active: this.extractActiveState(getOptionalCell(activeCol), defaultState),
+      advertiserId,
+      listSource: String(getOptionalCell(listSourceCol) ?? ''),
     });
+  }
 
-    const actions = [];
-
-    if (!audienceRow[checksumCol]) {
-      actions.push(createAudienceAction);
-    } else if (String(audienceRow[checksumCol]) !== audience.getChecksum()) {
-      actions.push(updateAudienceAction);
+  /**
+   * Parses the rule expression of an audience into audience rules, resolving
+   * the friendly names of user defined variables from the associated sheet.
+   *
+   * @param {string} audienceName The name of the audience, used for errors
+   * @param {string} ruleExpression The rule expression
+   * @returns {!Array<!AudienceRule>} The parsed audience rules
+   * @throws {!RuleExpressionError} If the rule expression is invalid
+   */
+  parseRuleExpression(audienceName: string, ruleExpression: string) {
+    try {
+      return RuleExpressionUtil.parse(
+        ruleExpression,
+        this.getCustomVariableNames()
+      );
+    } catch (err: unknown) {
+      if (err instanceof RuleExpressionError) {
+        err.message = `Invalid rule expression of audience '${audienceName}': ${err.message}`;
+      }
+      throw err;
     }
+  }
 
-    if (
-      String(audienceRow[sharesChecksumCol]) !== audience.getSharesChecksum()
-    ) {
-      actions.push(updateSharesAction);
+  /**
+   * Returns the friendly names of the user defined variables previously
+   * fetched into the repository, keyed by upper case variable name.
+   *
+   * @returns {!Object<string, string>} The variable names
+   */
+  getCustomVariableNames() {
+    const variableNames: Record<string, string> = {};
+
+    for (const variable of this.getRepository().getCustomVariables()) {
+      variableNames[variable.id.toUpperCase()] = variable.name;
     }
 
-    const audienceProcessJob = new AudienceProcessJob({
-      idx,
-      audience,
-      actions,
-    });
+    return variableNames;
+  }
 
-    return actions.length > 0 ? audienceProcessJob : undefined;
+  /**
+   * Extracts the active state of an audience from the given cell value, which
+   * is either a checkbox (boolean) or its string representation. Empty cells
+   * fall back to the given default state.
+   *
+   * @param {string|number|boolean|undefined} value The active cell value
+   * @param {boolean=} defaultState The state to use for empty cells
+   * @returns {boolean} Whether the audience should be active
+   */
+  extractActiveState(
+    value: string | number | boolean | undefined,
+    defaultState = CONFIG.audiences.defaultState
+  ) {
+    if (value === undefined || value === null || value === '') {
+      return defaultState;
+    }
+    return String(value).toLowerCase() === 'true';
   }
 
   /**
@@ -227,9 +817,43 @@ export class AudienceProcessJobController {
   }
 
   /**
-   * Creates audience rules for the given audience.
+   * Checks whether the given rule row belongs to the given audience. Rules
+   * assigned to a different advertiser than the given one do not match.
    *
+   * @param {!Array<string|number|boolean>} rule The rule row
    * @param {string} audienceId The audience ID
+   * @param {string} advertiserId The ID of the advertiser the audience
+   *     belongs to, or an empty string to match rules of any advertiser
+   * @param {{
+   *     audienceIdCol: number,
+   *     advertiserIdCol: number
+   * }=} params
+   * @returns {boolean} Whether the rule belongs to the audience
+   */
+  isAudienceRule(
+    rule: Array<string | number | boolean>,
+    audienceId: string,
+    advertiserId: string,
+    {
+      audienceIdCol = CONFIG.rules.cols.audienceId,
+      advertiserIdCol = CONFIG.rules.cols.advertiserId,
+    } = {}
+  ) {
+    return (
+      rule[audienceIdCol] === audienceId &&
+      (!advertiserId ||
+        !rule[advertiserIdCol] ||
+        String(rule[advertiserIdCol]) === advertiserId)
+    );
+  }
+
+  /**
+   * Creates audience rules for the given audience. Rules assigned to a
+   * different advertiser than the given one are ignored.
+   *
+   * @param {string} audienceId The audience ID
+   * @param {string=} advertiserId The ID of the advertiser the audience
+   *     belongs to
    * @param {{
    *     audienceIdCol: number,
    *     groupCol: number,
@@ -237,12 +861,17 @@ export class AudienceProcessJobController {
    *     operatorCol: number,
    *     valuesCol: number,
    *     negationCol: number,
+   *     advertiserIdCol: number,
+   *     typeCol: number,
+   *     contextVariableCol: number,
+   *     termTypes: !Object<string, string>,
    *     separator: number,
    * }=} params
    * @returns {!Array<AudienceRule>} The created audience rules
    */
   getAudienceRules(
     audienceId: string,
+    advertiserId = '',
     {
       audienceIdCol = CONFIG.rules.cols.audienceId,
       groupCol = CONFIG.rules.cols.group,
@@ -250,13 +879,20 @@ export class AudienceProcessJobController {
       operatorCol = CONFIG.rules.cols.operator,
       valuesCol = CONFIG.rules.cols.values,
       negationCol = CONFIG.rules.cols.negation,
+      advertiserIdCol = CONFIG.rules.cols.advertiserId,
+      typeCol = CONFIG.rules.cols.type,
+      contextVariableCol = CONFIG.rules.cols.contextVariable,
+      termTypes = CONFIG.rules.termTypes,
       separator = CONFIG.customVariables.separator,
     } = {}
   ) {
     const rules: AudienceRule[] = [];
 
-    const allRules = this.getAllRules().filter(
-      rule => rule[audienceIdCol] === audienceId
+    const allRules = this.getAllRules().filter(rule =>
+      this.isAudienceRule(rule, audienceId, advertiserId, {
+        audienceIdCol,
+        advertiserIdCol,
+      })
     );
 
     for (const rule of allRules) {
@@ -265,16 +901,41 @@ export class AudienceProcessJobController {
       const operator = String(rule[operatorCol]);
       const value = String(rule[valuesCol]) || '';
       const negation = String(rule[negationCol]) === 'true';
+      const type = String(rule[typeCol] ?? '') || termTypes.customVariable;
+      const contextVariable = String(rule[contextVariableCol] ?? '');
+
+      if (type === termTypes.listMembership) {
+        if (value) {
+          rules.push({
+            group,
+            variableName: '',
+            variableFriendlyName: '',
+            operator: '',
+            value,
+            negation,
+            type,
+          });
+        }
+        continue;
+      }
 
       if (variable && operator && value) {
-        rules.push({
+        const audienceRule: AudienceRule = {
           group,
           variableName: variable[0],
           variableFriendlyName: variable[1],
           operator,
           value,
           negation,
-        });
+        };
+
+        if (type !== termTypes.customVariable) {
+          audienceRule.type = type;
+        }
+        if (contextVariable) {
+          audienceRule.contextVariable = contextVariable;
+        }
+        rules.push(audienceRule);
       }
     }
 
@@ -283,43 +944,110 @@ export class AudienceProcessJobController {
 
   /**
    * Processes a single audience. Tiggered once for every added audiences from
-   * {@link #processAudiences}.
+   * {@link #processAudiences}. The synced state of the audience is stored in
+   * the repository and the job queue is kept up to date.
    *
    * @param {!AudienceProcessJob} job The job instance passed by the jobs
    *     infrastructure
    * @param {{
-   *     sheetName: string,
-   *     row: number,
-   *     idCol: number,
-   *     statusCol: number,
-   *     checksumCol: number,
-   *     sharesChecksumCol: number,
-   *     defaultState: boolean,
    *     listSource: string,
    *     createAudienceAction: string,
    *     updateAudienceAction: string,
-   *     updateSharesAction: string,
-   *     rulesSheetName: string
+   *     deactivateAudienceAction: string,
+   *     updateSharesAction: string
    * }=} params
    * @returns {!AudienceProcessJob} The job instance
    */
   processAudience(
     job: AudienceProcessJob,
     {
-      sheetName = CONFIG.audiences.sheetName,
-      row = CONFIG.audiences.row,
-      idCol = CONFIG.audiences.cols.id,
-      statusCol = CONFIG.audiences.cols.status,
-      checksumCol = CONFIG.audiences.cols.checksum,
-      sharesChecksumCol = CONFIG.audiences.cols.sharesChecksum,
-      defaultState = CONFIG.audiences.defaultState,
       listSource = CONFIG.audiences.listSource,
       createAudienceAction = CONFIG.audiences.actions.create,
       updateAudienceAction = CONFIG.audiences.actions.update,
+      deactivateAudienceAction = CONFIG.audiences.actions.deactivate,
       updateSharesAction = CONFIG.audiences.actions.updateShares,
-      rulesSheetName = CONFIG.rules.sheetName,
     } = {}
   ) {
+    const jobQueue = this.getJobQueueController();
+    let attempted = false;
+
+    try {
+      const previousStatus = jobQueue.markRunning(job);
+      attempted =
+        previousStatus === JobStatus.RUNNING ||
+        previousStatus === JobStatus.ERROR;
+    } catch (err: unknown) {
+      console.log('Error updating the job queue', err);
+    }
+
+    // Keep the snapshot of the last pushed version for the history
+    const previousJson =
+      this.getRepository().getSyncState(job.getIndex())?.json ?? '';
+    const state = this.syncAudience(job, attempted, {
+      listSource,
+      createAudienceAction,
+      updateAudienceAction,
+      deactivateAudienceAction,
+      updateSharesAction,
+    });
+
+    this.getRepository().saveSyncState(
+      job.getIndex(),
+      job.getAudience().getId() ?? '',
+      state
+    );
+
+    if (!job.isError()) {
+      // A failure to record the history must not fail the pushed audience
+      try {
+        new HistoryController(
+          this.getSheetsService(),
+          this.getCampaignManagerService()
+        ).recordChange(job, previousJson);
+      } catch (err: unknown) {
+        console.log('Error recording history', err);
+      }
+    }
+
+    try {
+      jobQueue.update(job);
+    } catch (err: unknown) {
+      console.log('Error updating the job queue', err);
+    }
+
+    return job;
+  }
+
+  /**
+   * Pushes a single audience to CM360 without storing anything, and returns
+   * the sync state to store for it. Created audiences get the ID of their new
+   * remarketing list. Jobs only updating the shares, e.g. of locked audiences
+   * or from the shares matrix, keep the checksum so that any other change of
+   * the audience is still pending. Failed jobs only get a new status.
+   *
+   * @param {!AudienceProcessJob} job The audience job
+   * @param {boolean=} attempted Whether the job was attempted before, in
+   *     which case a remarketing list created by that attempt is reused
+   * @param {{
+   *     listSource: string,
+   *     createAudienceAction: string,
+   *     updateAudienceAction: string,
+   *     deactivateAudienceAction: string,
+   *     updateSharesAction: string
+   * }=} params
+   * @returns {!Partial<!SyncState>} The sync state to store
+   */
+  syncAudience(
+    job: AudienceProcessJob,
+    attempted = false,
+    {
+      listSource = CONFIG.audiences.listSource,
+      createAudienceAction = CONFIG.audiences.actions.create,
+      updateAudienceAction = CONFIG.audiences.actions.update,
+      deactivateAudienceAction = CONFIG.audiences.actions.deactivate,
+      updateSharesAction = CONFIG.audiences.actions.updateShares,
+    } = {}
+  ): Partial<SyncState> {
     console.log(
       `Processing audience '${job.getAudience().getName()}'...`,
       job.getAudience().getId()
@@ -335,49 +1063,61 @@ export class AudienceProcessJobController {
       description: job.getAudience().getDescription(),
       lifeSpan: job.getAudience().getLifeSpan(),
       listPopulationRule,
-      active: defaultState,
-      listSource,
+      active: job.getAudience().isActive(),
+      listSource: job.getAudience().getListSource() ?? listSource,
     };
+    const advertiserId = job.getAudience().getAdvertiserId();
 
-    let status;
+    if (advertiserId) {
+      remarketingList.advertiserId = advertiserId;
+    }
 
     try {
       let result: GoogleAppsScript.CampaignManager.RemarketingList;
+      const state: Partial<SyncState> = {};
 
-      if (job.getActions().includes(updateAudienceAction)) {
-        console.log(`Updating '${job.getAudience().getName()}'...`);
+      if (
+        job.getActions().includes(updateAudienceAction) ||
+        job.getActions().includes(deactivateAudienceAction)
+      ) {
+        console.log(
+          job.getAudience().isActive()
+            ? `Updating '${job.getAudience().getName()}'...`
+            : `Deactivating '${job.getAudience().getName()}'...`
+        );
         remarketingList.id = job.getAudience().getId();
         result =
           this.getCampaignManagerService().updateRemarketingList(
             remarketingList
           );
       } else if (job.getActions().includes(createAudienceAction)) {
-        console.log(`Creating '${job.getAudience().getName()}'...`);
-        result =
-          this.getCampaignManagerService().createRemarketingList(
-            remarketingList
+        // A previous attempt may have created the list without recording it
+        const created = attempted
+          ? this.findRemarketingList_(remarketingList, advertiserId)
+          : undefined;
+
+        if (created) {
+          console.log(
+            `Reusing '${job.getAudience().getName()}' (${created.id})...`
+          );
+          remarketingList.id = created.id;
+          result =
+            this.getCampaignManagerService().updateRemarketingList(
+              remarketingList
+            );
+        } else {
+          console.log(`Creating '${job.getAudience().getName()}'...`);
+          result = this.getCampaignManagerService().createRemarketingList(
+            remarketingList,
+            advertiserId
           );
+        }
 
         if (!result) {
           throw new Error('Error creating audience');
         }
 
-        // Update Audience ID in Sheet
-        this.getSheetsService().setCellValue(
-          row + job.getIndex(),
-          idCol + 1,
-          result.id as string,
-          sheetName
-        );
-
-        // Update Audience ID for Rules
-        this.getSheetsService().findAndReplace(
-          rulesSheetName,
-          job.getAudience().getId() as string,
-          result.id as string
-        );
-
-        // Update Audience ID
+        // Update Audience ID, which is stored even if a later step fails
         job.getAudience().setId(result.id as string);
       }
 
@@ -401,125 +1141,93 @@ export class AudienceProcessJobController {
           remarketingListSharesResource
         );
 
-        // Update Shares checksum in Sheet
-        this.getSheetsService().setCellValue(
-          row + job.getIndex(),
-          sharesChecksumCol + 1,
-          job.getAudience().getSharesChecksum(),
-          sheetName
-        );
+        state.sharesChecksum = job.getAudience().getSharesChecksum();
       }
 
-      // Update Audience checksum in Sheet
-      this.getSheetsService().setCellValue(
-        row + job.getIndex(),
-        checksumCol + 1,
-        job.getAudience().getChecksum(),
-        sheetName
-      );
-
-      status = `Success (${JobUtil.getCurrentDateString()})`;
+      if (
+        job
+          .getActions()
+          .some(action =>
+            [
+              createAudienceAction,
+              updateAudienceAction,
+              deactivateAudienceAction,
+            ].includes(action)
+          )
+      ) {
+        state.checksum = job.getAudience().getChecksum();
+      }
+      state.json = job.getAudience().toJson();
+      state.status = `Success (${JobUtil.getCurrentDateString()})`;
 
       const message = `Processed audience '${job
         .getAudience()
         .getName()}' successfully!`;
       console.log(message);
       job.log([message]);
+
+      return state;
     } catch (err: unknown) {
       const error = err as Error;
       console.log('ERROR', JSON.stringify(error));
-      status = `Error! ${error.message} (${JobUtil.getCurrentDateString()})`;
 
       const message = `Error while processing audience '${job
         .getAudience()
         .getName()}'!`;
       console.log(message);
       job.log([message]);
-    }
+      job.error(`${message} ${error.message}`);
+      job.setRetryable(ErrorUtil.isRetryable(error));
 
-    // Update status in Sheet
-    this.getSheetsService().setCellValue(
-      row + job.getIndex(),
-      statusCol + 1,
-      status,
-      sheetName
-    );
+      return {
+        status: `Error! ${error.message} (${JobUtil.getCurrentDateString()})`,
+      };
+    }
+  }
 
-    return job;
+  /**
+   * Returns the remarketing list of the given advertiser which defines the same
+   * audience as the given one, e.g. created by an earlier attempt of a job
+   * whose outcome was never recorded. Lists of other sources are never
+   * returned, as they can't be updated.
+   *
+   * @param {!RemarketingList} remarketingList The remarketing list to find
+   * @param {string|undefined} advertiserId The ID of the advertiser owning
+   *     the list. Defaults to the configured advertiser
+   * @returns {!RemarketingList|undefined} The existing remarketing list, if
+   *     any
+   * @private
+   */
+  findRemarketingList_(
+    remarketingList: GoogleAppsScript.CampaignManager.RemarketingList,
+    advertiserId?: string
+  ) {
+    return this.getCampaignManagerService()
+      .getRemarketingLists(advertiserId)
+      .find(
+        existing =>
+          !RemarketingListUtil.toAudience(existing, []).isLocked() &&
+          RemarketingListUtil.isSameList(existing, remarketingList)
+      );
   }
 
   /**
    * Create the List Population Rule object of the remarketing list that will
    * be created based on the provided audience rules from the underlying
-   * spreadsheet.
+   * spreadsheet. Delegates to {@link RemarketingListUtil}.
    *
    * @param {string|undefined} floodlightId The floodlight ID
-   * @param {!Array<{
-   *         group: number,
-   *         variableName: string,
-   *         variableFriendlyName: string,
-   *         operator: string,
-   *         value: string,
-   *         negation: boolean,
-   *     }>} audienceRules The audience rules
-   * @param {{
-   *     termType: string,
-   *     separator: string,
-   * }=} params
-   * @returns {{
-   *     floodlightActivityId: (string|undefined),
-   *     listPopulationClauses: (!Array<{terms: !Array<!Object>}>|undefined),
-   * }} The created list population rule object
+   * @param {!Array<!AudienceRule>} audienceRules The audience rules
+   * @returns {!ListPopulationRule} The created list population rule object
    */
   createListPopulationRule(
     floodlightId: string | undefined,
-    audienceRules: AudienceRule[],
-    {
-      termType = CONFIG.rules.termType,
-      separator = CONFIG.rules.separator,
-    } = {}
+    audienceRules: AudienceRule[]
   ) {
-    const allTerms: GoogleAppsScript.CampaignManager.ListPopulationTerm[][] =
-      [];
-
-    for (const rule of audienceRules) {
-      const terms = rule.value.split(separator).map(val => {
-        return {
-          variableName: rule.variableName,
-          type: termType,
-          operator: rule.operator,
-          value: val,
-          negation: rule.negation,
-        };
-      });
-
-      if (allTerms[rule.group]) {
-        allTerms[rule.group] = allTerms[rule.group]
-          .concat(terms)
-          .flatMap(x => x);
-      } else {
-        allTerms[rule.group] = terms;
-      }
-    }
-
-    const listPopulationClauses = [];
-
-    for (const terms of allTerms) {
-      listPopulationClauses.push({
-        terms,
-      });
-    }
-
-    const listPopulationRule: GoogleAppsScript.CampaignManager.ListPopulationRule =
-      {
-        floodlightActivityId: floodlightId,
-      };
-
-    if (listPopulationClauses.length > 0) {
-      listPopulationRule.listPopulationClauses = listPopulationClauses;
-    }
-
-    return listPopulationRule;
+    return RemarketingListUtil.createListPopulationRule(
+      floodlightId,
+      audienceRules
+    );
   }
 
   /**
@@ -548,12 +1256,32 @@ export class AudienceProcessJobController {
     return result;
   }
 
+  /**
+   * Returns the AudienceRepository instance, defaulting to one backed by the
+   * spreadsheet.
+   *
+   * @returns {!AudienceRepository} The AudienceRepository instance
+   */
+  getRepository() {
+    if (!this.repository_) {
+      this.repository_ = new SheetsAudienceRepository(
+        this.getSheetsService(),
+        this.getCampaignManagerService()
+      );
+    }
+    return this.repository_;
+  }
+
   /**
    * Returns the SheetsService instance.
    *
    * @returns {!SheetsService} The SheetsService instance
+   * @throws {!Error} If no SheetsService was injected
    */
   getSheetsService() {
+    if (!this.sheetsService_) {
+      throw new Error('No spreadsheet available');
+    }
     return this.sheetsService_;
   }
 
@@ -561,8 +1289,27 @@ export class AudienceProcessJobController {
    * Returns the CampaignManagerFacade instance.
    *
    * @returns {!CampaignManagerFacade} The CampaignManagerFacade instance
+   * @throws {!Error} If no CampaignManagerFacade was injected
    */
   getCampaignManagerService() {
+    if (!this.campaignManagerService_) {
+      throw new Error('No CM360 access configured');
+    }
     return this.campaignManagerService_;
   }
+
+  /**
+   * Returns the JobQueueController instance.
+   *
+   * @returns {!JobQueueController} The JobQueueController instance
+   */
+  getJobQueueController() {
+    if (!this.jobQueueController_) {
+      this.jobQueueController_ = new JobQueueController(
+        this.getSheetsService(),
+        this.getCampaignManagerService()
+      );
+    }
+    return this.jobQueueController_;
+  }
 }
@@ -14,13 +14,24 @@
  * limitations under the License.
  */
 
+import { AudienceProcessJobController } from './audienceProcessJob';
+import { HistoryController } from './history';
+import { type RemarketingListsFilter } from '../api/cm360';
 import { type CampaignManagerFacade } from '../facade/cm360';
 import { CONFIG } from '../config';
 import { Audience, type AudienceRule } from '../model/audience';
 import { AudienceLoadJob } from '../model/audienceLoadJob';
 import { Job } from '../model/job';
+import {
+  type AudienceRepository,
+  type NamedEntity,
+} from '../repository/repository';
+import { SheetsAudienceRepository } from '../repository/sheets';
 import { type SheetsService } from '../service/sheets';
+import { RuleExpressionUtil } from '../util/expression';
 import { JobUtil } from '../util/job';
+import { type LoadFilters, LoadFilterUtil } from '../util/loadFilter';
+import { RemarketingListUtil } from '../util/remarketingList';
 
 /**
  * @fileoverview This file encapsulates all logic for creating and manipulating
@@ -32,321 +43,884 @@ import { JobUtil } from '../util/job';
  * creating and manipulating audiences.
  */
 export class AudiencesController {
-  private readonly sheetsService_: SheetsService;
-  private readonly campaignManagerService_: CampaignManagerFacade;
+  private readonly sheetsService_?: SheetsService;
+  private readonly campaignManagerService_?: CampaignManagerFacade;
+  private repository_?: AudienceRepository;
   private rules_: Array<Array<Record<string, unknown>>>;
 
   /**
    * @constructs an instance of AudiencesController.
    *
-   * @param {!SheetsService} sheetsService The injected SheetsService dependency
-   * @param {!CampaignManagerFacade} campaignManagerService The injected
-   *     CampaignManagerFacade dependency
+   * @param {!SheetsService|undefined} sheetsService The injected SheetsService
+   *     dependency. Not needed if a repository is given, e.g. for the Node CLI
+   * @param {!CampaignManagerFacade|undefined} campaignManagerService The
+   *     injected CampaignManagerFacade dependency
+   * @param {!AudienceRepository=} repository The injected AudienceRepository
+   *     dependency. Defaults to one backed by the spreadsheet
    */
   constructor(
-    sheetsService: SheetsService,
-    campaignManagerService: CampaignManagerFacade
+    sheetsService: SheetsService | undefined,
+    campaignManagerService: CampaignManagerFacade | undefined,
+    repository?: AudienceRepository
   ) {
     this.sheetsService_ = sheetsService;
     this.campaignManagerService_ = campaignManagerService;
+    this.repository_ = repository;
     this.rules_ = [];
   }
 
   /**
    * Retrieves user defined variable configurations for the logged in user and
-   * CM360 Network and writes them to the associated sheet.
+   * CM360 Network and stores them in the repository. Variables of all managed
+   * advertisers are merged in the repository, omitting duplicates, but
+   * returned per advertiser as the same variable may have a different name
+   * for every advertiser.
    *
-   * @param {{
-   *     sheetName: string,
-   *     row: number,
-   *     col: number,
-   *     separator: string,
-   * }=} params
-   * @returns {UserDefinedVariableConfiguration[]}
+   * @returns {!Map<string, !Array<!UserDefinedVariableConfiguration>>} The
+   *     variables keyed by advertiser ID
    */
-  fetchAndOutputCustomVariables({
-    sheetName = CONFIG.customVariables.sheetName,
-    row = CONFIG.customVariables.row,
-    col = CONFIG.customVariables.col,
-    separator = CONFIG.customVariables.separator,
-  } = {}) {
-    this.getSheetsService().clearDefinedRange(sheetName, row, col);
+  fetchAndOutputCustomVariables() {
+    const data: NamedEntity[] = [];
+    const variablesByAdvertiser = new Map<
+      string,
+      GoogleAppsScript.CampaignManager.UserDefinedVariableConfiguration[]
+    >();
+    const seen = new Set<string>();
+
+    for (const advertiserId of this.getCampaignManagerService().getAdvertiserIds()) {
+      const variables =
+        this.getCampaignManagerService().getUserDefinedVariableConfigurations(
+          advertiserId
+        );
+
+      variablesByAdvertiser.set(String(advertiserId), variables);
+
+      for (const variable of variables) {
+        const key = JSON.stringify([
+          variable.variableType,
+          variable.reportName,
+        ]);
+
+        if (!seen.has(key)) {
+          seen.add(key);
+          data.push({
+            id: String(variable.variableType),
+            name: String(variable.reportName),
+          });
+        }
+      }
+    }
 
-    const data: GoogleAppsScript.CampaignManager.UserDefinedVariableConfiguration[] =
-      this.getCampaignManagerService().getUserDefinedVariableConfigurations();
+    this.getRepository().saveCustomVariables(data);
 
-    const output =
-      data.length !== 0
-        ? data.map(v => [`${v.variableType}${separator}${v.reportName}`])
-        : [];
+    return variablesByAdvertiser;
+  }
 
-    this.getSheetsService().setValuesInDefinedRange(
-      sheetName,
-      row,
-      col,
-      output
+  /**
+   * Retrieves configured floodlight activities from the logged in user's
+   * CM360 Network and all managed Advertisers, and stores them in the
+   * repository.
+   *
+   * @returns {!Array<!Object>} The floodlight activities array
+   */
+  fetchAndOutputFloodlightActivities() {
+    const data = this.getCampaignManagerService()
+      .getAdvertiserIds()
+      .flatMap(advertiserId =>
+        this.getCampaignManagerService().getFloodlightActivities(advertiserId)
+      );
+
+    this.getRepository().saveFloodlightActivities(
+      data.map(element => ({
+        id: String(element.id),
+        name: String(element.name),
+      }))
     );
 
     return data;
   }
 
   /**
-   * Retrieves configured floodlight activities from the logged in user's
-   * CM360 Network and Advertiser, and writes them to the associated sheet.
+   * Retrieves Advertisers belonging to the given CM360 Network page by page
+   * and stores them in the repository. The managed advertisers are filtered
+   * out because remarketing lists are shared with them by default and it
+   * leads to errors trying to re-share.
+   *
+   * @param {{
+   *     maxResultsPerPage: number
+   * }=} params
+   * @returns {!Array<!NamedEntity>} The stored advertisers
+   */
+  fetchAndOutputAdvertisers({
+    maxResultsPerPage = CONFIG.advertisers.maxResultsPerPage,
+  } = {}) {
+    const ownAdvertiserIds = this.getCampaignManagerService()
+      .getAdvertiserIds()
+      .map(String);
+    const advertisers: NamedEntity[] = [];
+
+    this.getCampaignManagerService().getAdvertisers(
+      maxResultsPerPage,
+      (page: GoogleAppsScript.CampaignManager.Advertiser[]) => {
+        for (const advertiser of page) {
+          if (!ownAdvertiserIds.includes(String(advertiser.id))) {
+            advertisers.push({
+              id: String(advertiser.id),
+              name: String(advertiser.name),
+            });
+          }
+        }
+      }
+    );
+    this.getRepository().saveAdvertisers(advertisers);
+
+    return advertisers;
+  }
+
+  /**
+   * Load audiences of all managed advertisers, merging them into the existing
+   * rows of the associated sheet by audience ID. Audiences not in the sheet
+   * yet are appended, and audiences that disappeared from CM360 are flagged.
+   * Rows with pending local changes are not overwritten unless forced. Only
+   * audiences matching the load filters are loaded, in which case audiences
+   * are not flagged as missing since they may just not match.
    *
+   * @param {!Job} job The job instance passed by the jobs infrastructure
    * @param {{
    *     sheetName: string,
    *     row: number,
    *     col: number,
+   *     idCol: number,
+   *     nameCol: number,
+   *     checksumCol: number,
+   *     statusCol: number,
+   *     driftCol: number,
+   *     force: boolean,
+   *     filters: !LoadFilters
    * }=} params
-   * @returns {!Array<!Object>} The floodlight activities array
+   * @returns {!Job} The modified job instance
    */
-  fetchAndOutputFloodlightActivities({
-    sheetName = CONFIG.floodlights.sheetName,
-    row = CONFIG.floodlights.row,
-    col = CONFIG.floodlights.col,
-  } = {}) {
-    this.getSheetsService().clearDefinedRange(sheetName, row, col);
+  loadAudiences(
+    job: Job,
+    {
+      sheetName = CONFIG.audiences.sheetName,
+      row = CONFIG.audiences.row,
+      col = CONFIG.audiences.col,
+      idCol = CONFIG.audiences.cols.id,
+      nameCol = CONFIG.audiences.cols.name,
+      checksumCol = CONFIG.audiences.cols.checksum,
+      statusCol = CONFIG.audiences.cols.status,
+      driftCol = CONFIG.audiences.cols.drift,
+      force = false,
+      filters = this.getLoadFilters(),
+    } = {}
+  ) {
+    this.getSheetsService().showToast('Loading audiences...', 'Load - BEGIN');
 
-    const data = this.getCampaignManagerService().getFloodlightActivities();
+    const filtered = !LoadFilterUtil.isEmpty(filters);
+    const remoteAudiences = this.fetchRemoteAudiences(filters);
+    const audienceRows = this.getSheetsService()
+      .getRangeData(sheetName, row, col)
+      .filter(audienceRow => audienceRow.length > 0);
+    const rowIndexById = new Map<string, number>();
 
-    const output =
-      data.length !== 0
-        ? data.map(element => [element.id, `${element.name} (${element.id})`])
-        : [];
-    this.getSheetsService().setValuesInDefinedRange(
-      sheetName,
-      row,
-      col,
-      output
+    audienceRows.forEach((audienceRow, index) => {
+      if (audienceRow[idCol]) {
+        rowIndexById.set(String(audienceRow[idCol]), index);
+      }
+    });
+
+    const pendingAudienceIds = force
+      ? new Set<string>()
+      : this.getPendingAudienceIds(audienceRows, { nameCol });
+    let nextIndex = audienceRows.length;
+
+    for (const audience of remoteAudiences) {
+      const id = audience.getId() ?? '';
+      const index = rowIndexById.get(id);
+
+      if (index === undefined) {
+        job.getJobs().push(new AudienceLoadJob({ idx: nextIndex++, audience }));
+        continue;
+      }
+
+      rowIndexById.delete(id);
+
+      if (!pendingAudienceIds.has(id)) {
+        job.getJobs().push(new AudienceLoadJob({ idx: index, audience }));
+      } else if (
+        String(audienceRows[index][checksumCol]) !== audience.getChecksum()
+      ) {
+        this.getSheetsService().setCellValue(
+          row + index,
+          statusCol + 1,
+          `Not loaded, pending local changes (${JobUtil.getCurrentDateString()})`,
+          sheetName
+        );
+        job.log([
+          `Skipping '${audience.getName()}' as it has pending local changes`,
+        ]);
+      }
+    }
+
+    if (filtered) {
+      job.log([
+        `Loaded ${remoteAudiences.length} audience(s) matching the load ` +
+          'filters, use Check Drift to find audiences missing in CM360',
+      ]);
+      return job;
+    }
+
+    // Flag synced audiences that no longer exist in CM360
+    for (const [id, index] of rowIndexById) {
+      if (!audienceRows[index][checksumCol]) {
+        continue;
+      }
+      this.getSheetsService().setCellValue(
+        row + index,
+        driftCol + 1,
+        `Missing in CM360 (${JobUtil.getCurrentDateString()})`,
+        sheetName
+      );
+      job.log([
+        `Audience '${audienceRows[index][nameCol]}' (${id}) is missing in CM360`,
+      ]);
+    }
+
+    return job;
+  }
+
+  /**
+   * Returns the IDs of all audiences in the given rows that have local changes
+   * which were not processed yet, i.e. for which processing would create jobs.
+   *
+   * @param {!Array<!Array<string|number>>} audienceRows The audience rows of
+   *     data from the underlying sheet
+   * @param {{
+   *     nameCol: number
+   * }=} params
+   * @returns {!Set<string>} The IDs of audiences with pending changes
+   */
+  getPendingAudienceIds(
+    audienceRows: Array<Array<string | number>>,
+    { nameCol = CONFIG.audiences.cols.name } = {}
+  ) {
+    const audienceProcessJobController = new AudienceProcessJobController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
     );
 
-    return data;
+    return new Set(
+      audienceProcessJobController
+        .createAudienceProcessJobs(audienceRows, nameCol)
+        .map(audienceJob => audienceJob.getAudience().getId() ?? '')
+        .filter(id => id)
+    );
   }
 
   /**
-   * Retrieves Advertisers belonging to the given CM360 Network and writes them
-   * to the associated sheet through a callback that is called once per fetched
-   * 'page' of data.
+   * Retrieves the remarketing lists of all managed advertisers matching the
+   * given filters and converts them to audiences, without shares. Custom
+   * variables and floodlight activities are refreshed in the repository along
+   * the way. Rules are resolved against the custom variables of
+   * the advertiser the remarketing list belongs to.
    *
+   * @param {!LoadFilters=} filters The filters the remarketing lists have to
+   *     match. Defaults to no filters, i.e. all remarketing lists
+   * @returns {!Array<!Audience>} The audiences
+   */
+  fetchRemoteAudiences(filters: LoadFilters = {}) {
+    const remarketingListsFilter =
+      LoadFilterUtil.toRemarketingListsFilter(filters);
+    const createdAudienceIds = filters.createdByTool
+      ? new HistoryController(
+          this.getSheetsService(),
+          this.getCampaignManagerService()
+        ).getCreatedAudienceIds()
+      : undefined;
+    const remarketingLists = this.fetchRemarketingLists(
+      remarketingListsFilter
+    ).filter(rl => LoadFilterUtil.matches(rl, filters, createdAudienceIds));
+
+    const customVariables = this.fetchAndOutputCustomVariables();
+
+    const floodlightActivities = this.fetchAndOutputFloodlightActivities();
+
+    return remarketingLists.map(
+      (rl: GoogleAppsScript.CampaignManager.RemarketingList) =>
+        RemarketingListUtil.toAudience(
+          rl,
+          customVariables.get(String(rl.advertiserId)) ?? [],
+          this.getFloodlightNameById(
+            rl.listPopulationRule?.floodlightActivityId || '',
+            floodlightActivities
+          )
+        )
+    );
+  }
+
+  /**
+   * Retrieves the advertiser IDs the remarketing list of the given audience is
+   * shared with and sets them as the shares of the audience.
+   *
+   * @param {!Audience} audience The audience to fetch the shares for
+   * @returns {!Audience} The modified audience
+   */
+  fetchShares(audience: Audience) {
+    const sharesRaw =
+      this.getCampaignManagerService().getRemarketingListShares(
+        audience.getId() ?? ''
+      ) ?? [];
+
+    audience.setShares(sharesRaw.map((id: string) => String(id)));
+
+    return audience;
+  }
+
+  /**
+   * Replaces the audiences of the repository with the remarketing lists of all
+   * managed advertisers including their shares, refreshing the custom
+   * variables, floodlight activities and advertisers along the way. Used by
+   * the Node CLI, which keeps the synced state of the audiences in the
+   * repository rather than in the spreadsheet.
+   *
+   * @param {!Job} job The job instance to log to
+   * @returns {!Job} The modified job instance
+   */
+  fetchAndStoreAudiences(job: Job) {
+    const audiences = this.fetchRemoteAudiences();
+    const status = `Fetched (${JobUtil.getCurrentDateString()})`;
+
+    this.fetchAndOutputAdvertisers();
+    this.getRepository().saveAudiences(
+      audiences.map(audience => {
+        this.fetchShares(audience);
+
+        return {
+          audience,
+          checksum: audience.getChecksum(),
+          sharesChecksum: audience.getSharesChecksum(),
+          json: audience.toJson(),
+          status,
+        };
+      })
+    );
+    job.log([`Loaded ${audiences.length} audience(s)`]);
+
+    return job;
+  }
+
+  /**
+   * Retrieves the remarketing lists of all managed advertisers, setting the
+   * advertiser ID of every list.
+   *
+   * @param {!RemarketingListsFilter=} remarketingListsFilter Optional filters
+   *     applied by the CM360 API
+   * @returns {!Array<!RemarketingList>} The remarketing lists
+   */
+  fetchRemarketingLists(remarketingListsFilter: RemarketingListsFilter = {}) {
+    return this.getCampaignManagerService()
+      .getAdvertiserIds()
+      .flatMap(advertiserId =>
+        this.getCampaignManagerService()
+          .getRemarketingLists(advertiserId, remarketingListsFilter)
+          .map(rl => ({ ...rl, advertiserId: rl.advertiserId ?? advertiserId }))
+      );
+  }
+
+  /**
+   * Returns the load filters saved for the associated spreadsheet.
+   *
+   * @param {{
+   *     property: string
+   * }=} params
+   * @returns {!LoadFilters} The load filters, empty if none were saved
+   */
+  getLoadFilters({ property = CONFIG.loadFilters.property } = {}) {
+    const json =
+      PropertiesService.getDocumentProperties().getProperty(property);
+
+    return json ? (JSON.parse(json) as LoadFilters) : {};
+  }
+
+  /**
+   * Saves the given load filters for the associated spreadsheet, which apply
+   * to all subsequent loads including scheduled ones. Saving empty filters
+   * removes them.
+   *
+   * @param {!LoadFilters} filters The load filters
+   * @param {{
+   *     property: string
+   * }=} params
+   * @returns {!LoadFilters} The saved load filters, without empty values
+   * @throws {!Error} If the filters are invalid
+   */
+  setLoadFilters(
+    filters: LoadFilters,
+    { property = CONFIG.loadFilters.property } = {}
+  ) {
+    const normalized = LoadFilterUtil.normalize(filters);
+    const properties = PropertiesService.getDocumentProperties();
+
+    if (Object.keys(normalized).length === 0) {
+      properties.deleteProperty(property);
+    } else {
+      properties.setProperty(property, JSON.stringify(normalized));
+    }
+    return normalized;
+  }
+
+  /**
+   * Loads a single audience. Tiggered once for every added audiences from
+   * {@link #loadAudiences}. Existing rows are only rewritten if the audience
+   * changed in CM360 since it was last synced, while the stats of the list are
+   * always refreshed.
+   *
+   * @param {!AudienceLoadJob} job The job instance passed by the jobs infrastructure
    * @param {{
    *     sheetName: string,
    *     row: number,
    *     col: number,
-   *     maxResultsPerPage: number,
-   *     accountDataSheetName: string,
-   *     advertiserIdRow: number,
-   *     advertiserIdCol: number
+   *     idCol: number,
+   *     checksumCol: number,
+   *     sharesChecksumCol: number,
+   *     listSizeCol: number
    * }=} params
+   * @returns {!Job} The modified job instance
    */
-  fetchAndOutputAdvertisers({
-    sheetName = CONFIG.advertisers.sheetName,
-    row = CONFIG.advertisers.row,
-    col = CONFIG.advertisers.col,
-    maxResultsPerPage = CONFIG.advertisers.maxResultsPerPage,
-    accountDataSheetName = CONFIG.accountData.sheetName,
-    advertiserIdRow = CONFIG.accountData.advertiserId.row,
-    advertiserIdCol = CONFIG.accountData.advertiserId.col,
-  } = {}) {
-    this.getSheetsService().clearDefinedRange(sheetName, row, col);
+  loadAudience(
+    job: AudienceLoadJob,
+    {
+      sheetName = CONFIG.audiences.sheetName,
+      row = CONFIG.audiences.row,
+      col = CONFIG.audiences.col,
+      idCol = CONFIG.audiences.cols.id,
+      checksumCol = CONFIG.audiences.cols.checksum,
+      sharesChecksumCol = CONFIG.audiences.cols.sharesChecksum,
+      listSizeCol = CONFIG.audiences.cols.listSize,
+    } = {}
+  ) {
+    const audience = job.getAudience();
+
+    this.fetchShares(audience);
 
-    const ownAdvertiserId = this.getSheetsService().getCellValue(
-      accountDataSheetName,
-      advertiserIdRow,
-      advertiserIdCol
+    const [existingRow = []] = this.getSheetsService().getRangeData(
+      sheetName,
+      row + job.getIndex(),
+      col,
+      1
     );
 
-    const callback = (
-      advertisers: GoogleAppsScript.CampaignManager.Advertiser[]
-    ) => {
-      this.outputAdvertisers(advertisers, String(ownAdvertiserId));
-    };
+    if (
+      String(existingRow[idCol] ?? '') !== audience.getId() ||
+      String(existingRow[checksumCol] ?? '') !== audience.getChecksum() ||
+      String(existingRow[sharesChecksumCol] ?? '') !==
+        audience.getSharesChecksum()
+    ) {
+      const audienceRow = audience ? this.audienceToRow(audience) : [];
+
+      // Write audience
+      this.getSheetsService().setValuesInDefinedRange(
+        sheetName,
+        row + job.getIndex(),
+        col,
+        [audienceRow]
+      );
+    }
 
-    this.getCampaignManagerService().getAdvertisers(
-      maxResultsPerPage,
-      callback
+    // Write stats
+    this.getSheetsService().setValuesInDefinedRange(
+      sheetName,
+      row + job.getIndex(),
+      col + listSizeCol,
+      [
+        this.statsToRow(
+          audience.getListSize(),
+          audience.isActive(),
+          audience.getListSource()
+        ),
+      ]
     );
+
+    return job;
   }
 
   /**
-   * Delegates to {@link SheetsService} to write the given data to the
-   * associated spreadsheet. Used as a callback within.
-   * The advertiser ID the sheet is based on will be filtered out
-   * because remarketing lists are shared with it by default and it
-   * leads to errors trying to re-share
-   * {@link #fetchAndOutputAdvertisers}.
+   * Refreshes the read-only stats of all audiences of the associated sheet,
+   * i.e. the size, status and source of their remarketing lists in CM360,
+   * without touching any other column. Audiences not found in CM360 keep
+   * their stats.
    *
-   * @param {Advertiser[]} advertisers The
-   *     data to write
-   * @param {string} ownAdvertiserId
+   * @param {!Job} job The job instance passed by the jobs infrastructure
    * @param {{
    *     sheetName: string,
    *     row: number,
    *     col: number,
+   *     idCol: number,
+   *     listSizeCol: number,
+   *     listStatusCol: number,
+   *     listSourceCol: number
    * }=} params
+   * @returns {!Job} The modified job instance
    */
-  outputAdvertisers(
-    advertisers: GoogleAppsScript.CampaignManager.Advertiser[],
-    ownAdvertiserId: string,
+  refreshStats(
+    job: Job,
     {
-      sheetName = CONFIG.advertisers.sheetName,
-      row = CONFIG.advertisers.row,
-      col = CONFIG.advertisers.col,
+      sheetName = CONFIG.audiences.sheetName,
+      row = CONFIG.audiences.row,
+      col = CONFIG.audiences.col,
+      idCol = CONFIG.audiences.cols.id,
+      listSizeCol = CONFIG.audiences.cols.listSize,
+      listStatusCol = CONFIG.audiences.cols.listStatus,
+      listSourceCol = CONFIG.audiences.cols.listSource,
     } = {}
   ) {
-    const output =
-      advertisers.length !== 0
-        ? advertisers
-            .filter(
-              (advertiser: { id: string; name: string }) =>
-                advertiser.id !== ownAdvertiserId
-            )
-            .map(advertiser => [
-              advertiser.id,
-              `${advertiser.name} (${advertiser.id})`,
-            ])
-        : [];
+    this.getSheetsService().showToast('Refreshing stats...', 'Stats - BEGIN');
+
+    const remarketingLists = new Map(
+      this.fetchRemarketingLists().map(rl => [String(rl.id), rl])
+    );
+    const audienceRows = this.getSheetsService()
+      .getRangeData(sheetName, row, col)
+      .filter(audienceRow => audienceRow.length > 0);
+    let refreshed = 0;
+    let empty = 0;
+
+    const stats = audienceRows.map(audienceRow => {
+      const rl = audienceRow[idCol]
+        ? remarketingLists.get(String(audienceRow[idCol]))
+        : undefined;
+
+      if (!rl) {
+        return [
+          audienceRow[listSizeCol] ?? '',
+          audienceRow[listStatusCol] ?? '',
+          audienceRow[listSourceCol] ?? '',
+        ];
+      }
+      const listSize =
+        rl.listSize !== undefined ? Number(rl.listSize) : undefined;
+
+      refreshed++;
+      if (listSize === 0) {
+        empty++;
+      }
+      return this.statsToRow(listSize, rl.active ?? true, rl.listSource);
+    });
+
+    if (stats.length > 0) {
+      this.getSheetsService().setValuesInDefinedRange(
+        sheetName,
+        row,
+        col + listSizeCol,
+        stats
+      );
+    }
+    job.log([
+      `Refreshed stats of ${refreshed} audience(s), ${empty} of them empty`,
+    ]);
+
+    return job;
+  }
 
-    this.getSheetsService().appendToDefinedRange(sheetName, row, col, output);
+  /**
+   * Returns the stats columns of an audience row.
+   *
+   * @param {number|undefined} listSize The size of the remarketing list
+   * @param {boolean} active Whether the remarketing list is active in CM360
+   * @param {string|undefined} listSource The source of the remarketing list
+   * @param {{
+   *     listStatuses: !Object<string, string>
+   * }=} params
+   * @returns {!Array<string|number>} The list size, status and source
+   */
+  statsToRow(
+    listSize: number | undefined,
+    active: boolean,
+    listSource: string | undefined,
+    { listStatuses = CONFIG.audiences.listStatuses } = {}
+  ) {
+    return [
+      listSize ?? '',
+      active ? listStatuses.active : listStatuses.inactive,
+      listSource ?? '',
+    ];
   }
 
   /**
-   * Load audiences.
+   * Compares the audiences of the associated sheet with their current state in
+   * CM360. Creates an {@link AudienceLoadJob} for every synced audience that
+   * still exists in CM360, while audiences that were removed from CM360 are
+   * flagged right away.
    *
    * @param {!Job} job The job instance passed by the jobs infrastructure
    * @param {{
    *     sheetName: string,
    *     row: number,
-   *     col: number
+   *     col: number,
+   *     idCol: number,
+   *     nameCol: number,
+   *     jsonCol: number,
+   *     driftCol: number
    * }=} params
    * @returns {!Job} The modified job instance
    */
-  loadAudiences(
+  checkDrift(
     job: Job,
     {
       sheetName = CONFIG.audiences.sheetName,
       row = CONFIG.audiences.row,
       col = CONFIG.audiences.col,
+      idCol = CONFIG.audiences.cols.id,
+      nameCol = CONFIG.audiences.cols.name,
+      jsonCol = CONFIG.audiences.cols.json,
+      driftCol = CONFIG.audiences.cols.drift,
     } = {}
   ) {
-    this.getSheetsService().showToast('Loading audiences...', 'Load - BEGIN');
+    this.getSheetsService().showToast('Checking drift...', 'Drift - BEGIN');
 
-    const remarketingLists =
-      this.getCampaignManagerService().getRemarketingLists();
+    const remoteAudiences = new Map(
+      this.fetchRemoteAudiences().map(audience => [audience.getId(), audience])
+    );
+    const audienceRows = this.getSheetsService().getRangeData(
+      sheetName,
+      row,
+      col
+    );
 
-    const customVariables = this.fetchAndOutputCustomVariables();
+    audienceRows.forEach((audienceRow, index) => {
+      const id = String(audienceRow[idCol] ?? '');
 
-    const floodlightActivities = this.fetchAndOutputFloodlightActivities();
+      // Audiences without snapshot have never been synced
+      if (!id || !audienceRow[jsonCol]) {
+        return;
+      }
 
-    const jobs = remarketingLists.map(
-      (rl: GoogleAppsScript.CampaignManager.RemarketingList, index: number) => {
-        const floodlightId =
-          rl.listPopulationRule && rl.listPopulationRule.floodlightActivityId
-            ? rl.listPopulationRule.floodlightActivityId
-            : '';
-
-        const audience = new Audience({
-          id: rl.id,
-          name: rl.name,
-          description: rl.description || '',
-          lifeSpan: Number(rl.lifeSpan) || 90,
-          floodlightId,
-          floodlightName: this.getFloodlightNameById(
-            floodlightId,
-            floodlightActivities
-          ),
-          rules: this.parseAudienceRules(rl, customVariables),
-          shares: [],
-        });
+      const remoteAudience = remoteAudiences.get(id);
 
-        return new AudienceLoadJob({
-          idx: index,
-          audience,
-        });
+      if (remoteAudience) {
+        job.getJobs().push(
+          new AudienceLoadJob({
+            idx: index,
+            audience: remoteAudience,
+          })
+        );
+        return;
       }
-    );
-
-    job.getJobs().push(...jobs);
 
-    // Clear Audiences sheet
-    this.getSheetsService().clearDefinedRange(sheetName, row, col);
+      this.getSheetsService().setCellValue(
+        row + index,
+        driftCol + 1,
+        `Missing in CM360 (${JobUtil.getCurrentDateString()})`,
+        sheetName
+      );
+      job.log([`Audience '${audienceRow[nameCol]}' is missing in CM360`]);
+    });
 
     return job;
   }
 
   /**
-   * Loads a single audience. Tiggered once for every added audiences from
-   * {@link #loadAudiences}.
+   * Checks a single audience for drift. Triggered once for every audience
+   * from {@link #checkDrift}. The current state of the audience in CM360 is
+   * compared with the snapshot taken on the last sync, and differences are
+   * flagged in the drift column. Drifted audiences marked to be pulled are
+   * replaced by their CM360 version, including their rules.
    *
-   * @param {!AudienceLoadJob} job The job instance passed by the jobs infrastructure
+   * @param {!AudienceLoadJob} job The job instance passed by the jobs
+   *     infrastructure
    * @param {{
    *     sheetName: string,
    *     row: number,
-   *     col: number
+   *     col: number,
+   *     jsonCol: number,
+   *     driftCol: number,
+   *     driftResolutionCol: number,
+   *     pullResolution: string,
+   *     separator: string
    * }=} params
-   * @returns {!Job} The modified job instance
+   * @returns {!AudienceLoadJob} The job instance
    */
-  loadAudience(
+  checkAudienceDrift(
     job: AudienceLoadJob,
     {
       sheetName = CONFIG.audiences.sheetName,
       row = CONFIG.audiences.row,
       col = CONFIG.audiences.col,
+      jsonCol = CONFIG.audiences.cols.json,
+      driftCol = CONFIG.audiences.cols.drift,
+      driftResolutionCol = CONFIG.audiences.cols.driftResolution,
+      pullResolution = CONFIG.audiences.driftResolutions.pull,
+      separator = CONFIG.rules.separator,
     } = {}
   ) {
-    const audience = job.getAudience();
+    const remoteAudience = job.getAudience();
     const sharesRaw =
       this.getCampaignManagerService().getRemarketingListShares(
-        audience.getId() ?? ''
+        remoteAudience.getId() ?? ''
       ) ?? [];
 
-    audience.setShares(sharesRaw.map((id: string) => String(id)));
-
-    const audienceRow = audience ? this.audienceToRow(audience) : [];
+    remoteAudience.setShares(sharesRaw.map((id: string) => String(id)));
 
-    // Write audience
-    this.getSheetsService().setValuesInDefinedRange(
+    const [audienceRow] = this.getSheetsService().getRangeData(
       sheetName,
       row + job.getIndex(),
       col,
-      [audienceRow]
+      1
+    );
+    const json = JSON.parse(String(audienceRow[jsonCol]));
+    // Rules with multiple values are stored as multiple terms in CM360
+    const snapshot = Audience.fromJson({
+      ...json,
+      rules_: Audience.splitRuleValues(json.rules_ ?? [], separator),
+    });
+    const changes = remoteAudience.getChanges(snapshot);
+
+    if (changes.length === 0) {
+      this.getSheetsService().setCellValue(
+        row + job.getIndex(),
+        driftCol + 1,
+        '',
+        sheetName
+      );
+      return job;
+    }
+
+    if (String(audienceRow[driftResolutionCol] ?? '') === pullResolution) {
+      this.getSheetsService().setValuesInDefinedRange(
+        sheetName,
+        row + job.getIndex(),
+        col,
+        [this.audienceToRow(remoteAudience)]
+      );
+      this.replaceAudienceRules([remoteAudience]);
+      job.log([`Pulled '${remoteAudience.getName()}' from CM360`]);
+
+      return job;
+    }
+
+    const fields = changes.map(change => change.field).join(', ');
+
+    this.getSheetsService().setCellValue(
+      row + job.getIndex(),
+      driftCol + 1,
+      `Drifted: ${fields} (${JobUtil.getCurrentDateString()})`,
+      sheetName
     );
+    job.log([`Audience '${remoteAudience.getName()}' drifted: ${fields}`]);
 
     return job;
   }
 
+  /**
+   * Replaces the rules of the given audiences in the Rules sheet, keeping the
+   * rules of all other audiences. The Rules sheet is locked while being
+   * rewritten since audiences are processed in parallel.
+   *
+   * @param {!Array<!Audience>} audiences The audiences holding the new rules
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     audienceIdCol: number,
+   *     lockTimeoutMillis: number
+   * }=} params
+   */
+  replaceAudienceRules(
+    audiences: Audience[],
+    {
+      sheetName = CONFIG.rules.sheetName,
+      row = CONFIG.rules.row,
+      col = CONFIG.rules.col,
+      audienceIdCol = CONFIG.rules.cols.audienceId,
+      lockTimeoutMillis = CONFIG.rules.lockTimeoutMillis,
+    } = {}
+  ) {
+    const lock = LockService.getDocumentLock();
+    lock.waitLock(lockTimeoutMillis);
+
+    try {
+      const audienceIds = audiences.map(audience => audience.getId());
+      const otherRules = this.getSheetsService()
+        .getRangeData(sheetName, row, col)
+        .filter(
+          rule =>
+            rule.length > 0 &&
+            !audienceIds.includes(String(rule[audienceIdCol]))
+        );
+
+      this.getSheetsService().clearDefinedRange(sheetName, row, col);
+      this.getSheetsService().setValuesInDefinedRange(
+        sheetName,
+        row,
+        col,
+        otherRules
+      );
+
+      for (const audience of audiences) {
+        this.outputAudienceRules(
+          audience.getId() as string,
+          audience.getRules(),
+          audience.getAdvertiserId()
+        );
+      }
+    } finally {
+      lock.releaseLock();
+    }
+  }
+
   /**
    * Extract rules from audiences and write to Rules sheet.
    * Needs to happen AFTER updating the audiences because of data validation.
+   * If audience IDs are given, only the rules of these audiences are replaced
+   * while the rules of all other audiences are kept.
    *
+   * @param {!Array<string>=} audienceIds The IDs of the audiences to extract
+   *     rules for. Defaults to all audiences
    * @param {{
    *     sheetName: string,
    *     row: number,
    *     col: number,
+   *     idCol: number,
    *     jsonCol: number,
    *     rulesSheetName: string,
    *     rulesRow: string,
    *     rulesCol: string
    * }=} params
    */
-  extractAndOutputRules({
-    sheetName = CONFIG.audiences.sheetName,
-    row = CONFIG.audiences.row,
-    col = CONFIG.audiences.col,
-    jsonCol = CONFIG.audiences.cols.json,
-    rulesSheetName = CONFIG.rules.sheetName,
-    rulesRow = CONFIG.rules.row,
-    rulesCol = CONFIG.rules.col,
-  } = {}) {
+  extractAndOutputRules(
+    audienceIds?: string[],
+    {
+      sheetName = CONFIG.audiences.sheetName,
+      row = CONFIG.audiences.row,
+      col = CONFIG.audiences.col,
+      idCol = CONFIG.audiences.cols.id,
+      jsonCol = CONFIG.audiences.cols.json,
+      rulesSheetName = CONFIG.rules.sheetName,
+      rulesRow = CONFIG.rules.row,
+      rulesCol = CONFIG.rules.col,
+    } = {}
+  ) {
     const audiencesRows = this.getSheetsService().getRangeData(
       sheetName,
       row,
       col
     );
-    const audiences = audiencesRows.map(audienceRow => {
-      const json = JSON.parse(String(audienceRow[jsonCol]));
-      return Audience.fromJson(/** @type {!Audience} */ json);
-    });
+    const audiences = audiencesRows
+      .filter(
+        audienceRow =>
+          audienceRow[jsonCol] &&
+          (!audienceIds || audienceIds.includes(String(audienceRow[idCol])))
+      )
+      .map(audienceRow => {
+        const json = JSON.parse(String(audienceRow[jsonCol]));
+        return Audience.fromJson(/** @type {!Audience} */ json);
+      });
+
+    if (audienceIds) {
+      this.replaceAudienceRules(audiences);
+      return;
+    }
 
     // Clear Rules sheet
     this.getSheetsService().clearDefinedRange(
@@ -357,7 +931,11 @@ export class AudiencesController {
 
     // Write rules to Sheet
     for (const audience of audiences) {
-      this.outputAudienceRules(audience.getId() as string, audience.getRules());
+      this.outputAudienceRules(
+        audience.getId() as string,
+        audience.getRules(),
+        audience.getAdvertiserId()
+      );
     }
   }
 
@@ -425,7 +1003,13 @@ export class AudiencesController {
    *     statusCol: number,
    *     checksumCol: number,
    *     sharesChecksumCol: number,
-   *     jsonCol: number
+   *     jsonCol: number,
+   *     activeCol: number,
+   *     advertiserIdCol: number,
+   *     ruleExpressionCol: number,
+   *     driftCol: number,
+   *     driftResolutionCol: number,
+   *     useRuleExpressions: boolean
    * }=} params
    * @returns {!Array<string>} The prepared remarketing list row to output in
    *     the associated sheet
@@ -443,6 +1027,12 @@ export class AudiencesController {
       checksumCol = CONFIG.audiences.cols.checksum,
       sharesChecksumCol = CONFIG.audiences.cols.sharesChecksum,
       jsonCol = CONFIG.audiences.cols.json,
+      activeCol = CONFIG.audiences.cols.active,
+      advertiserIdCol = CONFIG.audiences.cols.advertiserId,
+      ruleExpressionCol = CONFIG.audiences.cols.ruleExpression,
+      driftCol = CONFIG.audiences.cols.drift,
+      driftResolutionCol = CONFIG.audiences.cols.driftResolution,
+      useRuleExpressions = CONFIG.audiences.useRuleExpressions,
     } = {}
   ) {
     const transformedRemarketingList = [];
@@ -463,10 +1053,89 @@ export class AudiencesController {
     transformedRemarketingList[sharesChecksumCol] =
       audience.getSharesChecksum();
     transformedRemarketingList[jsonCol] = audience.toJson();
+    transformedRemarketingList[activeCol] = audience.isActive();
+    transformedRemarketingList[advertiserIdCol] =
+      audience.getAdvertiserId() ?? '';
+    transformedRemarketingList[ruleExpressionCol] = useRuleExpressions
+      ? RuleExpressionUtil.print(audience.getRules())
+      : '';
+    transformedRemarketingList[driftCol] = '';
+    transformedRemarketingList[driftResolutionCol] = '';
 
     return transformedRemarketingList;
   }
 
+  /**
+   * Creates the row for an audience that is staged in the Audiences sheet
+   * rather than fetched from CM360, e.g. when importing a catalogue or rolling
+   * back to a previous version. The checksums, snapshot and all other columns
+   * not held by the audience are kept from the existing row, so that the next
+   * run detects the staged changes.
+   *
+   * @param {!Audience} audience The staged audience
+   * @param {!Array<string|number|boolean>} existingRow The existing row of the
+   *     audience, or an empty array for new audiences
+   * @param {string} status The status to show for the audience
+   * @param {{
+   *     idCol: number,
+   *     nameCol: number,
+   *     descriptionCol: number,
+   *     lifeSpanCol: number,
+   *     floodlightIdCol: number,
+   *     sharesCol: number,
+   *     statusCol: number,
+   *     activeCol: number,
+   *     advertiserIdCol: number,
+   *     ruleExpressionCol: number,
+   *     templateKeyCol: number,
+   *     useRuleExpressions: boolean
+   * }=} params
+   * @returns {!Array<string|number|boolean>} The audience row
+   */
+  audienceToStagedRow(
+    audience: Audience,
+    existingRow: Array<string | number | boolean>,
+    status: string,
+    {
+      idCol = CONFIG.audiences.cols.id,
+      nameCol = CONFIG.audiences.cols.name,
+      descriptionCol = CONFIG.audiences.cols.description,
+      lifeSpanCol = CONFIG.audiences.cols.lifeSpan,
+      floodlightIdCol = CONFIG.audiences.cols.floodlightId,
+      sharesCol = CONFIG.audiences.cols.shares,
+      statusCol = CONFIG.audiences.cols.status,
+      activeCol = CONFIG.audiences.cols.active,
+      advertiserIdCol = CONFIG.audiences.cols.advertiserId,
+      ruleExpressionCol = CONFIG.audiences.cols.ruleExpression,
+      templateKeyCol = CONFIG.audiences.cols.templateKey,
+      useRuleExpressions = CONFIG.audiences.useRuleExpressions,
+    } = {}
+  ) {
+    const audienceRow: Array<string | number | boolean> = Array.from(
+      { length: Math.max(existingRow.length, templateKeyCol + 1) },
+      (_, index) => existingRow[index] ?? ''
+    );
+
+    audienceRow[idCol] = audience.getId() ?? '';
+    audienceRow[nameCol] = audience.getName();
+    audienceRow[descriptionCol] = audience.getDescription();
+    audienceRow[lifeSpanCol] = audience.getLifeSpan();
+    audienceRow[floodlightIdCol] = `${
+      audience.getFloodlightName() ?? ''
+    } (${audience.getFloodlightId()})`.trim();
+    audienceRow[sharesCol] = this.getMappedShares(audience.getShares());
+    audienceRow[statusCol] = status;
+    audienceRow[activeCol] = audience.isActive();
+    audienceRow[advertiserIdCol] = audience.getAdvertiserId() ?? '';
+    if (useRuleExpressions) {
+      audienceRow[ruleExpressionCol] = RuleExpressionUtil.print(
+        audience.getRules()
+      );
+    }
+
+    return audienceRow;
+  }
+
   /**
    * Get all rules from Sheet.
    *
@@ -503,7 +1172,8 @@ export class AudiencesController {
    *     operatorCol: number,
    *     valuesCol: number,
    *     negationCol: number,
-   *     separator: number
+   *     separator: number,
+   *     termType: string
    * }=} params
    * @returns {!Array<!Object>}
    */
@@ -517,6 +1187,7 @@ export class AudiencesController {
       valuesCol = CONFIG.rules.cols.values,
       negationCol = CONFIG.rules.cols.negation,
       separator = CONFIG.customVariables.separator,
+      termType = CONFIG.rules.termTypes.customVariable,
     } = {}
   ) {
     const allRules = this.getAllRules().filter(
@@ -538,7 +1209,7 @@ export class AudiencesController {
           audienceId,
           group,
           name,
-          type: 'CUSTOM_VARIABLE_TERM',
+          type: termType,
           operator,
           value,
           negation,
@@ -550,48 +1221,22 @@ export class AudiencesController {
   }
 
   /**
-   * Parse Audience rules from Remarketing List.
+   * Parse Audience rules from Remarketing List. Delegates to
+   * {@link RemarketingListUtil}.
    *
    * @param {!Object} remarketingList
    * @param {!Array<!Object>} customVariables
    *
-   * @returns {!Array<!Object>}
+   * @returns {!Array<!AudienceRule>}
    */
   parseAudienceRules(
     remarketingList: GoogleAppsScript.CampaignManager.RemarketingList,
     customVariables: GoogleAppsScript.CampaignManager.UserDefinedVariableConfiguration[]
   ) {
-    let index = 0;
-    const clauses =
-      remarketingList?.listPopulationRule?.listPopulationClauses ?? [];
-    const rules = [];
-
-    for (const clause of clauses) {
-      if (!clause?.terms) continue;
-
-      for (const term of clause.terms) {
-        const variableFriendlyName = (
-          customVariables.find(
-            variable =>
-              variable.variableType.toLowerCase() ===
-              term.variableName.toLowerCase()
-          ) as GoogleAppsScript.CampaignManager.UserDefinedVariableConfiguration
-        ).reportName;
-
-        rules.push({
-          group: index,
-          variableName: term.variableName,
-          variableFriendlyName,
-          operator: term.operator,
-          value: term.value,
-          negation: term.negation,
-        });
-      }
-
-      index += 1;
-    }
-
-    return rules;
+    return RemarketingListUtil.parseAudienceRules(
+      remarketingList,
+      customVariables
+    );
   }
 
   /**
@@ -599,54 +1244,92 @@ export class AudiencesController {
    *
    * @param {string} audienceId
    * @param {AudienceRule[]} rules
+   * @param {string=} advertiserId The ID of the advertiser the audience
+   *     belongs to
    * @param {{
    *     sheetName: string,
    *     row: number,
-   *     col: number,
+   *     col: number
+   * }=} params
+   */
+  outputAudienceRules(
+    audienceId: string,
+    rules: AudienceRule[],
+    advertiserId = '',
+    {
+      sheetName = CONFIG.rules.sheetName,
+      row = CONFIG.rules.row,
+      col = CONFIG.rules.col,
+    } = {}
+  ) {
+    if (rules.length === 0) {
+      return;
+    }
+
+    this.getSheetsService().appendToDefinedRange(
+      sheetName,
+      row,
+      col,
+      this.audienceRulesToRows(audienceId, rules, advertiserId)
+    );
+  }
+
+  /**
+   * Converts audience rules to rows of the Rules sheet.
+   *
+   * @param {string} audienceId
+   * @param {AudienceRule[]} rules
+   * @param {string=} advertiserId The ID of the advertiser the audience
+   *     belongs to
+   * @param {{
    *     audienceIdCol: number,
    *     groupCol: number,
    *     variableCol: number,
    *     operatorCol: number,
    *     valuesCol: number,
    *     negationCol: number,
+   *     advertiserIdCol: number,
+   *     typeCol: number,
+   *     contextVariableCol: number,
+   *     termType: string,
    *     separator: number
    * }=} params
+   * @returns {!Array<!Array<string|number|boolean>>} The rule rows
    */
-  outputAudienceRules(
+  audienceRulesToRows(
     audienceId: string,
     rules: AudienceRule[],
+    advertiserId = '',
     {
-      sheetName = CONFIG.rules.sheetName,
-      row = CONFIG.rules.row,
-      col = CONFIG.rules.col,
       audienceIdCol = CONFIG.rules.cols.audienceId,
       groupCol = CONFIG.rules.cols.group,
       variableCol = CONFIG.rules.cols.variable,
       operatorCol = CONFIG.rules.cols.operator,
       valuesCol = CONFIG.rules.cols.values,
       negationCol = CONFIG.rules.cols.negation,
+      advertiserIdCol = CONFIG.rules.cols.advertiserId,
+      typeCol = CONFIG.rules.cols.type,
+      contextVariableCol = CONFIG.rules.cols.contextVariable,
+      termType = CONFIG.rules.termType,
       separator = CONFIG.customVariables.separator,
     } = {}
   ) {
-    if (rules.length === 0) {
-      return;
-    }
-
-    const rows = rules.map(rule => {
-      const res = [];
+    return rules.map(rule => {
+      const res: Array<string | number | boolean> = [];
       res[audienceIdCol] = audienceId;
       res[groupCol] = rule.group;
-      res[
-        variableCol
-      ] = `${rule.variableName}${separator}${rule.variableFriendlyName}`;
+      res[variableCol] = rule.variableName
+        ? `${rule.variableName}${separator}${rule.variableFriendlyName}`
+        : '';
       res[operatorCol] = rule.operator;
       res[valuesCol] = rule.value;
       res[negationCol] = rule.negation;
+      res[advertiserIdCol] = advertiserId;
+      res[typeCol] = rule.type ?? termType;
+      res[contextVariableCol] = rule.contextVariable ?? '';
 
       return res;
     });
-
-    this.getSheetsService().appendToDefinedRange(sheetName, row, col, rows);
   }
 
   /**
@@ -672,7 +1355,7 @@ export class AudiencesController {
       [];
 
     for (const rule of audienceRules) {
-      const terms = rule.value.split(separator).map(val => {
+      const terms = Audience.splitRuleValue(rule.value, separator).map(val => {
         return {
           variableName: rule.variableName,
           type: termType,
@@ -745,12 +1428,32 @@ export class AudiencesController {
     return result.length === 0 ? defaultName : String(result[0][nameCol]);
   }
 
+  /**
+   * Returns the AudienceRepository instance, defaulting to one backed by the
+   * spreadsheet.
+   *
+   * @returns {!AudienceRepository} The AudienceRepository instance
+   */
+  getRepository() {
+    if (!this.repository_) {
+      this.repository_ = new SheetsAudienceRepository(
+        this.getSheetsService(),
+        this.getCampaignManagerService()
+      );
+    }
+    return this.repository_;
+  }
+
   /**
    * Returns the SheetsService instance.
    *
    * @returns {!SheetsService} The SheetsService instance
+   * @throws {!Error} If no SheetsService was injected
    */
   getSheetsService() {
+    if (!this.sheetsService_) {
+      throw new Error('No spreadsheet available');
+    }
     return this.sheetsService_;
   }
 
@@ -758,8 +1461,12 @@ export class AudiencesController {
    * Returns the CampaignManagerFacade instance.
    *
    * @returns {!CampaignManagerFacade} The CampaignManagerFacade instance
+   * @throws {!Error} If no CampaignManagerFacade was injected
    */
   getCampaignManagerService() {
+    if (!this.campaignManagerService_) {
+      throw new Error('No CM360 access configured');
+    }
     return this.campaignManagerService_;
   }
 }
@@ -0,0 +1,323 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AudienceProcessJobController } from './audienceProcessJob';
+import { AudiencesController } from './audiences';
+import { type CampaignManagerFacade } from '../facade/cm360';
+import { CONFIG } from '../config';
+import { type Audience } from '../model/audience';
+import { type SheetsService } from '../service/sheets';
+import { CatalogueError, CatalogueUtil } from '../util/catalogue';
+import { JobUtil } from '../util/job';
+
+/**
+ * @fileoverview This file encapsulates all logic for exporting the audiences
+ * defined in the associated Google Sheets spreadsheet to a catalogue file and
+ * for importing such a file back into the spreadsheet.
+ */
+
+/**
+ * CatalogueController representing a class for holding all logic for
+ * exporting and importing the audience catalogue. Imported audiences are only
+ * staged in the Audiences and Rules sheets, they are sent to CM360 by the next
+ * run like any other change made in the sheets.
+ */
+export class CatalogueController {
+  private readonly sheetsService_: SheetsService;
+  private readonly campaignManagerService_: CampaignManagerFacade;
+
+  /**
+   * @constructs an instance of CatalogueController.
+   *
+   * @param {!SheetsService} sheetsService The injected SheetsService dependency
+   * @param {!CampaignManagerFacade} campaignManagerService The injected
+   *     CampaignManagerFacade dependency
+   */
+  constructor(
+    sheetsService: SheetsService,
+    campaignManagerService: CampaignManagerFacade
+  ) {
+    this.sheetsService_ = sheetsService;
+    this.campaignManagerService_ = campaignManagerService;
+  }
+
+  /**
+   * Exports all audiences of the Audiences sheet, including their rules and
+   * shares, in the given format.
+   *
+   * @param {string=} format The catalogue format, either 'json' or 'csv'
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     nameCol: number,
+   *     floodlightIdCol: number,
+   *     floodlightRegex: string,
+   *     csvFormat: string
+   * }=} params
+   * @returns {string} The catalogue file content
+   */
+  exportCatalogue(
+    format = CONFIG.catalogue.formats.json,
+    {
+      sheetName = CONFIG.audiences.sheetName,
+      row = CONFIG.audiences.row,
+      col = CONFIG.audiences.col,
+      nameCol = CONFIG.audiences.cols.name,
+      floodlightIdCol = CONFIG.audiences.cols.floodlightId,
+      floodlightRegex = CONFIG.floodlights.idAndNameRegex,
+      csvFormat = CONFIG.catalogue.formats.csv,
+    } = {}
+  ) {
+    const audienceProcessJobController = new AudienceProcessJobController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
+    );
+    const audiences = this.getSheetsService()
+      .getRangeData(sheetName, row, col)
+      // Add row index
+      .map((audienceRow, index) => audienceRow.concat(String(index)))
+      .filter(
+        audienceRow => audienceRow.length > 1 && String(audienceRow[nameCol])
+      )
+      .map(audienceRow => {
+        const audience =
+          audienceProcessJobController.createAudience(audienceRow);
+        // Floodlight names are only kept in the sheet
+        const floodlightName = String(audienceRow[floodlightIdCol]).replace(
+          new RegExp(floodlightRegex),
+          ''
+        );
+
+        return CatalogueUtil.fromEntry({
+          ...CatalogueUtil.toEntry(audience),
+          floodlightName: floodlightName.trim(),
+        });
+      });
+
+    console.log(`Exporting ${audiences.length} audience(s) as ${format}`);
+
+    return format === csvFormat
+      ? CatalogueUtil.toCsv(audiences)
+      : CatalogueUtil.toJson(
+          audiences,
+          String(this.getCampaignManagerService().getAccountData().networkId)
+        );
+  }
+
+  /**
+   * Validates the given catalogue file and stages its audiences in the
+   * Audiences and Rules sheets. Audiences whose ID matches an existing row
+   * update that row, all others are appended as new audiences using their
+   * catalogue ID (or name, if they have none) as temporary ID until they are
+   * created. Nothing is written if the file holds any invalid audience.
+   *
+   * @param {string} content The catalogue file content
+   * @param {string=} format The catalogue format, either 'json' or 'csv'
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     idCol: number
+   * }=} params
+   * @returns {!Array<!Audience>} The imported audiences
+   * @throws {!CatalogueError} If the file or any of its audiences is invalid
+   */
+  importCatalogue(
+    content: string,
+    format = CONFIG.catalogue.formats.json,
+    {
+      sheetName = CONFIG.audiences.sheetName,
+      row = CONFIG.audiences.row,
+      col = CONFIG.audiences.col,
+      idCol = CONFIG.audiences.cols.id,
+    } = {}
+  ) {
+    this.getSheetsService().showToast(
+      'Importing catalogue...',
+      'Catalogue - BEGIN'
+    );
+
+    const audiences = this.parseCatalogue(content, format);
+    this.validateCatalogue(audiences);
+
+    const audienceRows = this.getSheetsService()
+      .getRangeData(sheetName, row, col)
+      .filter(audienceRow => audienceRow.length > 0);
+    const rowIndexById = new Map(
+      audienceRows.map((audienceRow, index) => [
+        String(audienceRow[idCol]),
+        index,
+      ])
+    );
+    const audiencesController = new AudiencesController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
+    );
+    let nextIndex = audienceRows.length;
+
+    for (const audience of audiences) {
+      if (!audience.getId()) {
+        audience.setId(audience.getName());
+      }
+
+      const index = rowIndexById.get(audience.getId() as string);
+      const rowIndex = index ?? nextIndex++;
+
+      this.getSheetsService().setValuesInDefinedRange(
+        sheetName,
+        row + rowIndex,
+        col,
+        [
+          audiencesController.audienceToStagedRow(
+            audience,
+            index === undefined ? [] : audienceRows[index],
+            `Imported (${JobUtil.getCurrentDateString()})`
+          ),
+        ]
+      );
+    }
+
+    audiencesController.replaceAudienceRules(audiences);
+
+    const message = `Imported ${audiences.length} audience(s)`;
+    console.log(message);
+    this.getSheetsService().showToast(message, 'Catalogue - END');
+
+    return audiences;
+  }
+
+  /**
+   * Parses the given catalogue file.
+   *
+   * @param {string} content The catalogue file content
+   * @param {string} format The catalogue format, either 'json' or 'csv'
+   * @param {{
+   *     jsonFormat: string,
+   *     csvFormat: string
+   * }=} params
+   * @returns {!Array<!Audience>} The audiences of the catalogue
+   * @throws {!CatalogueError} If the file or its format is invalid
+   */
+  parseCatalogue(
+    content: string,
+    format: string,
+    {
+      jsonFormat = CONFIG.catalogue.formats.json,
+      csvFormat = CONFIG.catalogue.formats.csv,
+    } = {}
+  ) {
+    switch (format) {
+      case jsonFormat:
+        return CatalogueUtil.fromJson(content);
+      case csvFormat:
+        return CatalogueUtil.fromCsv(content);
+      default:
+        throw new CatalogueError([`Unknown format '${format}'`]);
+    }
+  }
+
+  /**
+   * Validates the given audiences and their rules against the user defined
+   * variables, floodlight activities and advertisers previously fetched into
+   * the associated sheets.
+   *
+   * @param {!Array<!Audience>} audiences The audiences to validate
+   * @param {{
+   *     advertisersSheetName: string,
+   *     advertisersRow: number,
+   *     advertisersCol: number,
+   *     advertiserIdCol: number
+   * }=} params
+   * @throws {!CatalogueError} If any of the audiences is invalid
+   */
+  validateCatalogue(
+    audiences: Audience[],
+    {
+      advertisersSheetName = CONFIG.advertisers.sheetName,
+      advertisersRow = CONFIG.advertisers.row,
+      advertisersCol = CONFIG.advertisers.col,
+      advertiserIdCol = CONFIG.advertisers.cols.id,
+    } = {}
+  ) {
+    const validator = new AudienceProcessJobController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
+    ).createAudienceValidator();
+    const audiencesController = new AudiencesController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
+    );
+    const advertiserIds = this.getSheetsService()
+      .getRangeData(advertisersSheetName, advertisersRow, advertisersCol)
+      .map(advertiser => String(advertiser[advertiserIdCol] ?? ''))
+      .filter(advertiserId => advertiserId);
+    const ids = new Set<string>();
+    const errors: string[] = [];
+
+    for (const audience of audiences) {
+      const audienceErrors = validator.validateAudience(audience);
+      const id = audience.getId();
+
+      if (id && ids.has(id)) {
+        audienceErrors.push(`Duplicate ID '${id}'`);
+      }
+      if (id) {
+        ids.add(id);
+      }
+      for (const share of audience.getShares()) {
+        if (advertiserIds.length > 0 && !advertiserIds.includes(share)) {
+          audienceErrors.push(`Unknown shared advertiser '${share}'`);
+        }
+      }
+      audiencesController
+        .audienceRulesToRows(id ?? '', audience.getRules())
+        .forEach((rule, index) => {
+          for (const error of validator.validateRule(rule)) {
+            audienceErrors.push(`Rule ${index + 1}: ${error}`);
+          }
+        });
+
+      if (audienceErrors.length > 0) {
+        errors.push(
+          `Audience '${audience.getName()}': ${audienceErrors.join(', ')}`
+        );
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new CatalogueError(errors);
+    }
+  }
+
+  /**
+   * Returns the SheetsService instance.
+   *
+   * @returns {!SheetsService} The SheetsService instance
+   */
+  getSheetsService() {
+    return this.sheetsService_;
+  }
+
+  /**
+   * Returns the CampaignManagerFacade instance.
+   *
+   * @returns {!CampaignManagerFacade} The CampaignManagerFacade instance
+   */
+  getCampaignManagerService() {
+    return this.campaignManagerService_;
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AudienceProcessJobController } from './audienceProcessJob';
+import { type CampaignManagerFacade } from '../facade/cm360';
+import { CONFIG } from '../config';
+import { type Audience } from '../model/audience';
+import { type SheetsService } from '../service/sheets';
+
+/**
+ * @fileoverview This file encapsulates all logic for cloning audiences defined
+ * in the associated Google Sheets spreadsheet to another advertiser, which may
+ * belong to a different CM360 network.
+ */
+
+/**
+ * The names of the user defined variables and floodlight activities of an
+ * advertiser, used to map audiences between advertisers.
+ */
+interface AdvertiserNames {
+  variables: Map<string, string>;
+  floodlights: Map<string, string>;
+}
+
+/**
+ * CloneController representing a class for holding all logic for cloning
+ * audiences to a target advertiser. User defined variables are mapped by
+ * their report name and floodlight activities by their name, since IDs differ
+ * between advertisers. Audiences that cannot be fully mapped are skipped and
+ * reported rather than created with partial rules.
+ */
+export class CloneController {
+  private readonly sheetsService_: SheetsService;
+  private readonly campaignManagerService_: CampaignManagerFacade;
+
+  /**
+   * @constructs an instance of CloneController.
+   *
+   * @param {!SheetsService} sheetsService The injected SheetsService dependency
+   * @param {!CampaignManagerFacade} campaignManagerService The injected
+   *     CampaignManagerFacade dependency
+   */
+  constructor(
+    sheetsService: SheetsService,
+    campaignManagerService: CampaignManagerFacade
+  ) {
+    this.sheetsService_ = sheetsService;
+    this.campaignManagerService_ = campaignManagerService;
+  }
+
+  /**
+   * Clones the audiences of the rows selected in the Audiences sheet to the
+   * given target advertiser.
+   *
+   * @param {string} targetAdvertiserId The ID of the target advertiser
+   * @param {!CampaignManagerFacade=} targetCampaignManagerService The
+   *     CampaignManagerFacade of the target network. Defaults to the source
+   *     network
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     nameCol: number
+   * }=} params
+   * @returns {!Array<!Array<string>>} The clone report rows
+   * @throws {!Error} If no audience rows are selected
+   */
+  cloneSelectedAudiences(
+    targetAdvertiserId: string,
+    targetCampaignManagerService = this.getCampaignManagerService(),
+    {
+      sheetName = CONFIG.audiences.sheetName,
+      row = CONFIG.audiences.row,
+      col = CONFIG.audiences.col,
+      nameCol = CONFIG.audiences.cols.name,
+    } = {}
+  ) {
+    const range = this.getSheetsService().getSelectedRange();
+
+    if (!range || range.getSheet().getName() !== sheetName) {
+      throw new Error(`Please select the audiences to clone in '${sheetName}'`);
+    }
+
+    const audienceRows = this.getSheetsService().getRangeData(
+      sheetName,
+      row,
+      col
+    );
+    const audienceProcessJobController = new AudienceProcessJobController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
+    );
+    const audiences: Audience[] = [];
+
+    for (let index = 0; index < range.getNumRows(); index++) {
+      const rowIndex = range.getRow() + index - row;
+      const audienceRow = audienceRows[rowIndex];
+
+      if (rowIndex >= 0 && audienceRow && String(audienceRow[nameCol] ?? '')) {
+        audiences.push(
+          audienceProcessJobController.createAudience(
+            audienceRow.concat(String(rowIndex))
+          )
+        );
+      }
+    }
+
+    if (audiences.length === 0) {
+      throw new Error(`Please select the audiences to clone in '${sheetName}'`);
+    }
+
+    return this.cloneAudiences(
+      audiences,
+      targetAdvertiserId,
+      targetCampaignManagerService
+    );
+  }
+
+  /**
+   * Clones the given audiences to the given target advertiser and writes the
+   * outcome for every audience to the clone report sheet.
+   *
+   * @param {!Array<!Audience>} audiences The audiences to clone
+   * @param {string} targetAdvertiserId The ID of the target advertiser
+   * @param {!CampaignManagerFacade} targetCampaignManagerService The
+   *     CampaignManagerFacade of the target network
+   * @param {{
+   *     reportSheetName: string,
+   *     reportHeaders: !Array<string>,
+   *     reportRow: number,
+   *     reportCol: number,
+   *     listSource: string,
+   *     clonedStatus: string,
+   *     skippedStatus: string,
+   *     failedStatus: string
+   * }=} params
+   * @returns {!Array<!Array<string>>} The clone report rows
+   */
+  cloneAudiences(
+    audiences: Audience[],
+    targetAdvertiserId: string,
+    targetCampaignManagerService: CampaignManagerFacade,
+    {
+      reportSheetName = CONFIG.clone.sheetName,
+      reportHeaders = CONFIG.clone.headers,
+      reportRow = CONFIG.clone.row,
+      reportCol = CONFIG.clone.col,
+      listSource = CONFIG.audiences.listSource,
+      clonedStatus = CONFIG.clone.statuses.cloned,
+      skippedStatus = CONFIG.clone.statuses.skipped,
+      failedStatus = CONFIG.clone.statuses.failed,
+    } = {}
+  ) {
+    this.getSheetsService().showToast(
+      `Cloning ${audiences.length} audience(s)...`,
+      'Clone - BEGIN'
+    );
+
+    const processController = new AudienceProcessJobController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
+    );
+    const sourceNames = new Map<string, AdvertiserNames>();
+    const targetNames = this.getAdvertiserNames(
+      targetCampaignManagerService,
+      targetAdvertiserId
+    );
+    const report: string[][] = [];
+
+    for (const audience of audiences) {
+      const sourceAdvertiserId =
+        audience.getAdvertiserId() ||
+        this.getCampaignManagerService().getAccountData().advertiserId;
+
+      if (!sourceNames.has(sourceAdvertiserId)) {
+        sourceNames.set(
+          sourceAdvertiserId,
+          this.getAdvertiserNames(
+            this.getCampaignManagerService(),
+            sourceAdvertiserId
+          )
+        );
+      }
+
+      const reportEntry = [
+        audience.getId() ?? '',
+        audience.getName(),
+        targetAdvertiserId,
+      ];
+      const { floodlightId, rules, problems } = this.mapAudience(
+        audience,
+        sourceNames.get(sourceAdvertiserId) as AdvertiserNames,
+        targetNames
+      );
+
+      if (problems.length > 0) {
+        console.log(`Skipping '${audience.getName()}': ${problems.join('; ')}`);
+        report.push([...reportEntry, '', skippedStatus, problems.join('; ')]);
+        continue;
+      }
+
+      try {
+        console.log(`Cloning '${audience.getName()}'...`);
+        const result = targetCampaignManagerService.createRemarketingList(
+          {
+            name: audience.getName(),
+            description: audience.getDescription(),
+            lifeSpan: audience.getLifeSpan(),
+            listPopulationRule: processController.createListPopulationRule(
+              floodlightId,
+              rules
+            ),
+            active: audience.isActive(),
+            listSource,
+            advertiserId: targetAdvertiserId,
+          },
+          targetAdvertiserId
+        );
+
+        if (!result) {
+          throw new Error('Error creating audience');
+        }
+        report.push([...reportEntry, String(result.id), clonedStatus, '']);
+      } catch (err: unknown) {
+        console.log(`Error cloning '${audience.getName()}'`, err);
+        report.push([
+          ...reportEntry,
+          '',
+          failedStatus,
+          (err as Error).message ?? String(err),
+        ]);
+      }
+    }
+
+    this.getSheetsService().getOrCreateSheet(reportSheetName, reportHeaders);
+    this.getSheetsService().clearDefinedRange(
+      reportSheetName,
+      reportRow,
+      reportCol
+    );
+    this.getSheetsService().setValuesInDefinedRange(
+      reportSheetName,
+      reportRow,
+      reportCol,
+      report
+    );
+
+    const cloned = report.filter(entry => entry[4] === clonedStatus).length;
+    const message = `Cloned ${cloned} of ${audiences.length} audience(s)`;
+    console.log(message);
+    this.getSheetsService().showToast(message, 'Clone - END');
+
+    return report;
+  }
+
+  /**
+   * Maps the floodlight activity and rules of the given audience from its
+   * source advertiser to the target advertiser. Names that do not exist or
+   * are ambiguous in the target advertiser are reported as problems, as are
+   * list membership terms since remarketing lists are specific to an
+   * advertiser.
+   *
+   * @param {!Audience} audience The audience to map
+   * @param {!AdvertiserNames} source The names of the source advertiser
+   * @param {!AdvertiserNames} target The names of the target advertiser
+   * @param {{
+   *     termTypes: !Object<string, string>
+   * }=} params
+   * @returns {{
+   *     floodlightId: (string|undefined),
+   *     rules: !Array<!AudienceRule>,
+   *     problems: !Array<string>
+   * }} The mapped floodlight activity ID and rules, along with all problems
+   */
+  mapAudience(
+    audience: Audience,
+    source: AdvertiserNames,
+    target: AdvertiserNames,
+    { termTypes = CONFIG.rules.termTypes } = {}
+  ) {
+    const problems: string[] = [];
+    const mapName = (
+      kind: string,
+      id: string,
+      sourceIds: Map<string, string>,
+      targetIds: Map<string, string>
+    ) => {
+      const name = sourceIds.get(id);
+
+      if (name === undefined) {
+        problems.push(`Unknown ${kind} '${id}' in source advertiser`);
+        return undefined;
+      }
+
+      const matches = [...targetIds].filter(
+        ([, targetName]) => targetName === name
+      );
+
+      if (matches.length !== 1) {
+        problems.push(
+          matches.length === 0
+            ? `No ${kind} named '${name}' in target advertiser`
+            : `Ambiguous ${kind} '${name}' in target advertiser`
+        );
+        return undefined;
+      }
+      return matches[0][0];
+    };
+
+    const sourceFloodlightId = audience.getFloodlightId();
+    const floodlightId = sourceFloodlightId
+      ? mapName(
+          'floodlight activity',
+          sourceFloodlightId,
+          source.floodlights,
+          target.floodlights
+        )
+      : undefined;
+
+    const rules = audience.getRules().map(rule => {
+      if (rule.type === termTypes.listMembership) {
+        problems.push(
+          `List membership term 'IN_LIST ${rule.value}' cannot be mapped`
+        );
+        return rule;
+      }
+      if (!rule.variableName) {
+        return rule;
+      }
+
+      const variableName = mapName(
+        'variable',
+        rule.variableName.toUpperCase(),
+        source.variables,
+        target.variables
+      );
+      return { ...rule, variableName: variableName ?? rule.variableName };
+    });
+
+    return { floodlightId, rules, problems: [...new Set(problems)] };
+  }
+
+  /**
+   * Retrieves the names of the user defined variables, keyed by upper case
+   * variable type (e.g. U1), and of the floodlight activities, keyed by ID, of
+   * the given advertiser.
+   *
+   * @param {!CampaignManagerFacade} campaignManagerService The
+   *     CampaignManagerFacade of the advertiser's network
+   * @param {string} advertiserId The advertiser ID
+   * @returns {!AdvertiserNames} The names of the advertiser
+   */
+  getAdvertiserNames(
+    campaignManagerService: CampaignManagerFacade,
+    advertiserId: string
+  ): AdvertiserNames {
+    return {
+      variables: new Map(
+        campaignManagerService
+          .getUserDefinedVariableConfigurations(advertiserId)
+          .map(variable => [
+            String(variable.variableType).toUpperCase(),
+            String(variable.reportName),
+          ])
+      ),
+      floodlights: new Map(
+        campaignManagerService
+          .getFloodlightActivities(advertiserId)
+          .map(floodlight => [String(floodlight.id), String(floodlight.name)])
+      ),
+    };
+  }
+
+  /**
+   * Returns the SheetsService instance.
+   *
+   * @returns {!SheetsService} The SheetsService instance
+   */
+  getSheetsService() {
+    return this.sheetsService_;
+  }
+
+  /**
+   * Returns the CampaignManagerFacade instance.
+   *
+   * @returns {!CampaignManagerFacade} The CampaignManagerFacade instance
+   */
+  getCampaignManagerService() {
+    return this.campaignManagerService_;
+  }
+}
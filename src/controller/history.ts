@@ -0,0 +1,357 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { type AudienceProcessJobController } from './audienceProcessJob';
+import { type AudiencesController } from './audiences';
+import { type CampaignManagerFacade } from '../facade/cm360';
+import { CONFIG } from '../config';
+import { Audience } from '../model/audience';
+import { type AudienceProcessJob } from '../model/audienceProcessJob';
+import { type Job } from '../model/job';
+import { type SheetsService } from '../service/sheets';
+import { AudienceUtil } from '../util/audience';
+import { JobUtil } from '../util/job';
+
+/**
+ * @fileoverview This file encapsulates all logic for recording the versions of
+ * the audiences pushed to CM360 in the associated Google Sheets spreadsheet and
+ * for rolling audiences back to a previous version.
+ */
+
+/**
+ * HistoryController representing a class for holding all logic for the
+ * audience history. Every successfully processed audience is appended to the
+ * history sheet along with the version it replaced, so that all audiences of
+ * a run can later be restored to the state they had before that run.
+ */
+export class HistoryController {
+  private readonly sheetsService_: SheetsService;
+  private readonly campaignManagerService_: CampaignManagerFacade;
+  private readonly audienceProcessJobController_?: AudienceProcessJobController;
+  private readonly audiencesController_?: AudiencesController;
+
+  /**
+   * @constructs an instance of HistoryController.
+   *
+   * @param {!SheetsService} sheetsService The injected SheetsService dependency
+   * @param {!CampaignManagerFacade} campaignManagerService The injected
+   *     CampaignManagerFacade dependency
+   * @param {!AudienceProcessJobController=} audienceProcessJobController The
+   *     injected AudienceProcessJobController dependency. Only required for
+   *     rolling back
+   * @param {!AudiencesController=} audiencesController The injected
+   *     AudiencesController dependency. Only required for rolling back
+   */
+  constructor(
+    sheetsService: SheetsService,
+    campaignManagerService: CampaignManagerFacade,
+    audienceProcessJobController?: AudienceProcessJobController,
+    audiencesController?: AudiencesController
+  ) {
+    this.sheetsService_ = sheetsService;
+    this.campaignManagerService_ = campaignManagerService;
+    this.audienceProcessJobController_ = audienceProcessJobController;
+    this.audiencesController_ = audiencesController;
+  }
+
+  /**
+   * Appends the change made by the given processed audience job to the
+   * history sheet. The history sheet is locked while being appended to since
+   * audiences are processed in parallel.
+   *
+   * @param {!AudienceProcessJob} job The successfully processed job
+   * @param {string} previousJson The snapshot of the audience before it was
+   *     processed, or an empty string for new audiences
+   * @param {{
+   *     sheetName: string,
+   *     headers: !Array<string>,
+   *     row: number,
+   *     col: number,
+   *     lockTimeoutMillis: number
+   * }=} params
+   * @returns {!Array<string>} The appended history entry
+   */
+  recordChange(
+    job: AudienceProcessJob,
+    previousJson: string,
+    {
+      sheetName = CONFIG.history.sheetName,
+      headers = CONFIG.history.headers,
+      row = CONFIG.history.row,
+      col = CONFIG.history.col,
+      lockTimeoutMillis = CONFIG.history.lockTimeoutMillis,
+    } = {}
+  ) {
+    const previous = AudienceUtil.parseSnapshot(previousJson);
+    const entry = [
+      JobUtil.getCurrentDateString(),
+      job.getRunId(),
+      Session.getActiveUser().getEmail(),
+      job.getAudience().getId() ?? '',
+      job.getAudience().getName(),
+      job.getActions().join(', '),
+      previousJson,
+      previous?.getChecksum() ?? '',
+      job.getAudience().toJson(),
+      job.getAudience().getChecksum(),
+    ];
+
+    const lock = LockService.getDocumentLock();
+    lock.waitLock(lockTimeoutMillis);
+
+    try {
+      this.getSheetsService().getOrCreateSheet(sheetName, headers);
+      this.getSheetsService().appendToDefinedRange(sheetName, row, col, [
+        entry,
+      ]);
+    } finally {
+      lock.releaseLock();
+    }
+
+    return entry;
+  }
+
+  /**
+   * Returns the IDs of all audiences created through the spreadsheet, as
+   * recorded in the history sheet.
+   *
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     cols: !Object<string, number>,
+   *     createAudienceAction: string
+   * }=} params
+   * @returns {!Set<string>} The IDs of the created audiences
+   */
+  getCreatedAudienceIds({
+    sheetName = CONFIG.history.sheetName,
+    row = CONFIG.history.row,
+    col = CONFIG.history.col,
+    cols = CONFIG.history.cols,
+    createAudienceAction = CONFIG.audiences.actions.create,
+  } = {}) {
+    return new Set(
+      this.getSheetsService()
+        .getRangeData(sheetName, row, col)
+        .filter(entry =>
+          String(entry[cols.actions] ?? '')
+            .split(', ')
+            .includes(createAudienceAction)
+        )
+        .map(entry => String(entry[cols.audienceId] ?? ''))
+        .filter(audienceId => audienceId)
+    );
+  }
+
+  /**
+   * Rolls back all audiences changed in the given run, or only the given
+   * audience, to the version they had before that run. The restored versions
+   * are staged in the Audiences and Rules sheets and the resulting audience
+   * process jobs are added to the given job, so that they are pushed to CM360
+   * like any other change. Audiences created in the run are deactivated since
+   * remarketing lists cannot be deleted.
+   *
+   * @param {!Job} job The job instance passed by the jobs infrastructure
+   * @param {string} runId The ID of the run to roll back
+   * @param {string=} audienceId The ID of the only audience to roll back.
+   *     Defaults to all audiences of the run
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     cols: !Object<string, number>,
+   *     audiencesSheetName: string,
+   *     audiencesRow: number,
+   *     audiencesCol: number,
+   *     idCol: number,
+   *     checksumCol: number
+   * }=} params
+   * @returns {!Job} The modified job instance
+   * @throws {!Error} If no history entry matches the given run and audience,
+   *     or the controllers to roll back with were not injected
+   */
+  rollback(
+    job: Job,
+    runId: string,
+    audienceId = '',
+    {
+      sheetName = CONFIG.history.sheetName,
+      row = CONFIG.history.row,
+      col = CONFIG.history.col,
+      cols = CONFIG.history.cols,
+      audiencesSheetName = CONFIG.audiences.sheetName,
+      audiencesRow = CONFIG.audiences.row,
+      audiencesCol = CONFIG.audiences.col,
+      idCol = CONFIG.audiences.cols.id,
+      checksumCol = CONFIG.audiences.cols.checksum,
+    } = {}
+  ) {
+    this.getSheetsService().showToast(
+      `Rolling back run '${runId}'...`,
+      'Rollback - BEGIN'
+    );
+
+    // Entries are appended in order, so the first entry of an audience holds
+    // the version it had before the run
+    const entries = new Map<string, Array<string | number | boolean>>();
+
+    for (const entry of this.getSheetsService().getRangeData(
+      sheetName,
+      row,
+      col
+    )) {
+      const entryAudienceId = String(entry[cols.audienceId] ?? '');
+
+      if (
+        String(entry[cols.runId] ?? '') === runId &&
+        (!audienceId || entryAudienceId === audienceId) &&
+        !entries.has(entryAudienceId)
+      ) {
+        entries.set(entryAudienceId, entry);
+      }
+    }
+
+    if (entries.size === 0) {
+      throw new Error(
+        audienceId
+          ? `No history found for audience '${audienceId}' in run '${runId}'`
+          : `No history found for run '${runId}'`
+      );
+    }
+
+    const processController = this.getAudienceProcessJobController();
+    const audiencesController = this.getAudiencesController();
+    const audienceRows = this.getSheetsService().getRangeData(
+      audiencesSheetName,
+      audiencesRow,
+      audiencesCol
+    );
+    const status = `Rolled back run '${runId}' (${JobUtil.getCurrentDateString()})`;
+    const audiences: Audience[] = [];
+    const stagedRows: Array<Array<string | number | boolean>> = [];
+    let nextIndex = audienceRows.filter(
+      audienceRow => audienceRow.length > 0
+    ).length;
+
+    for (const [entryAudienceId, entry] of entries) {
+      const audience =
+        AudienceUtil.parseSnapshot(String(entry[cols.previousJson] ?? '')) ??
+        Audience.fromJson({
+          ...JSON.parse(String(entry[cols.newJson])),
+          active_: false,
+        });
+      let index = audienceRows.findIndex(
+        audienceRow => String(audienceRow[idCol]) === entryAudienceId
+      );
+      let existingRow = audienceRows[index];
+
+      if (index === -1) {
+        // Deleted rows are restored with the checksum of the version pushed
+        // in the run, so that they are updated rather than created again
+        index = nextIndex++;
+        existingRow = [];
+        existingRow[checksumCol] = String(entry[cols.newChecksum] ?? '');
+      }
+
+      const stagedRow = audiencesController.audienceToStagedRow(
+        audience,
+        existingRow,
+        status
+      );
+      this.getSheetsService().setValuesInDefinedRange(
+        audiencesSheetName,
+        audiencesRow + index,
+        audiencesCol,
+        [stagedRow]
+      );
+      audiences.push(audience);
+      stagedRows[index] = stagedRow;
+    }
+
+    audiencesController.replaceAudienceRules(audiences);
+
+    // Rolling back is a run of its own, so that it can be rolled back as well
+    const rollbackRunId = JobUtil.getCurrentDateString();
+    const audienceJobs = stagedRows
+      .map((stagedRow, index) =>
+        processController.createAudienceProcessJob(
+          stagedRow.map(String).concat(String(index)),
+          { runId: rollbackRunId }
+        )
+      )
+      .filter(
+        (audienceJob): audienceJob is AudienceProcessJob =>
+          audienceJob !== undefined
+      );
+
+    job
+      .getJobs()
+      .push(...processController.validateAudienceJobs(job, audienceJobs));
+
+    const message = `Rolling back ${audiences.length} audience(s) of run '${runId}'`;
+    console.log(message);
+    job.log([message]);
+    this.getSheetsService().showToast(message, 'Rollback - END');
+
+    return job;
+  }
+
+  /**
+   * Returns the SheetsService instance.
+   *
+   * @returns {!SheetsService} The SheetsService instance
+   */
+  getSheetsService() {
+    return this.sheetsService_;
+  }
+
+  /**
+   * Returns the CampaignManagerFacade instance.
+   *
+   * @returns {!CampaignManagerFacade} The CampaignManagerFacade instance
+   */
+  getCampaignManagerService() {
+    return this.campaignManagerService_;
+  }
+
+  /**
+   * Returns the AudienceProcessJobController instance.
+   *
+   * @returns {!AudienceProcessJobController} The AudienceProcessJobController
+   *     instance
+   * @throws {!Error} If no AudienceProcessJobController was injected
+   */
+  getAudienceProcessJobController() {
+    if (!this.audienceProcessJobController_) {
+      throw new Error('No AudienceProcessJobController to roll back with');
+    }
+    return this.audienceProcessJobController_;
+  }
+
+  /**
+   * Returns the AudiencesController instance.
+   *
+   * @returns {!AudiencesController} The AudiencesController instance
+   * @throws {!Error} If no AudiencesController was injected
+   */
+  getAudiencesController() {
+    if (!this.audiencesController_) {
+      throw new Error('No AudiencesController to roll back with');
+    }
+    return this.audiencesController_;
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { type CampaignManagerFacade } from '../facade/cm360';
+import { CONFIG } from '../config';
+import { type AudienceProcessJob } from '../model/audienceProcessJob';
+import { Job, JobStatus } from '../model/job';
+import { type SheetsService } from '../service/sheets';
+import { JobUtil } from '../util/job';
+
+/**
+ * @fileoverview This file encapsulates all logic for persisting the audience
+ * jobs of the last run, so that a run interrupted by closing the sidebar can
+ * be resumed.
+ */
+
+/**
+ * JobQueueController representing a class for holding all logic for the
+ * persisted job queue. The audience jobs of a run are written to a hidden
+ * sheet along with their status, which every job updates server-side as it is
+ * processed, independently of the sidebar that triggered it.
+ */
+export class JobQueueController {
+  private readonly sheetsService_: SheetsService;
+  private readonly campaignManagerService_: CampaignManagerFacade;
+
+  /**
+   * @constructs an instance of JobQueueController.
+   *
+   * @param {!SheetsService} sheetsService The injected SheetsService dependency
+   * @param {!CampaignManagerFacade} campaignManagerService The injected
+   *     CampaignManagerFacade dependency
+   */
+  constructor(
+    sheetsService: SheetsService,
+    campaignManagerService: CampaignManagerFacade
+  ) {
+    this.sheetsService_ = sheetsService;
+    this.campaignManagerService_ = campaignManagerService;
+  }
+
+  /**
+   * Replaces the persisted queue with the given jobs of a new run.
+   *
+   * @param {!Array<!AudienceProcessJob>} audienceJobs The jobs of the run
+   * @param {{
+   *     sheetName: string,
+   *     headers: !Array<string>,
+   *     row: number,
+   *     col: number
+   * }=} params
+   */
+  save(
+    audienceJobs: AudienceProcessJob[],
+    {
+      sheetName = CONFIG.jobQueue.sheetName,
+      headers = CONFIG.jobQueue.headers,
+      row = CONFIG.jobQueue.row,
+      col = CONFIG.jobQueue.col,
+    } = {}
+  ) {
+    this.getSheetsService().getOrCreateSheet(sheetName, headers).hideSheet();
+    this.getSheetsService().clearDefinedRange(sheetName, row, col);
+
+    if (audienceJobs.length > 0) {
+      this.getSheetsService().setValuesInDefinedRange(
+        sheetName,
+        row,
+        col,
+        audienceJobs.map(audienceJob => [
+          audienceJob.getRunId(),
+          audienceJob.getIndex(),
+          JobStatus.PENDING,
+          JSON.stringify(audienceJob),
+        ])
+      );
+    }
+  }
+
+  /**
+   * Marks the given job as running in the persisted queue.
+   *
+   * @param {!AudienceProcessJob} audienceJob The job about to be processed
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     cols: !Object<string, number>
+   * }=} params
+   * @returns {string|undefined} The status the job had before, which is
+   *     RUNNING or ERROR if it was attempted already, or undefined if the job
+   *     is not queued
+   */
+  markRunning(
+    audienceJob: AudienceProcessJob,
+    {
+      sheetName = CONFIG.jobQueue.sheetName,
+      row = CONFIG.jobQueue.row,
+      col = CONFIG.jobQueue.col,
+      cols = CONFIG.jobQueue.cols,
+    } = {}
+  ) {
+    const queueRows = this.getSheetsService().getRangeData(sheetName, row, col);
+    const index = this.findQueueIndex_(audienceJob, queueRows);
+
+    if (index === -1) {
+      return undefined;
+    }
+    this.getSheetsService().setCellValue(
+      row + index,
+      col + cols.status,
+      JobStatus.RUNNING,
+      sheetName
+    );
+
+    return String(queueRows[index][cols.status]);
+  }
+
+  /**
+   * Persists the outcome of the given processed job. The job is completed
+   * unless it failed.
+   *
+   * @param {!AudienceProcessJob} audienceJob The processed job
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     cols: !Object<string, number>
+   * }=} params
+   * @returns {boolean} Whether the job was found in the queue
+   */
+  update(
+    audienceJob: AudienceProcessJob,
+    {
+      sheetName = CONFIG.jobQueue.sheetName,
+      row = CONFIG.jobQueue.row,
+      col = CONFIG.jobQueue.col,
+      cols = CONFIG.jobQueue.cols,
+    } = {}
+  ) {
+    const index = this.findQueueIndex_(
+      audienceJob,
+      this.getSheetsService().getRangeData(sheetName, row, col)
+    );
+
+    if (index === -1) {
+      return false;
+    }
+    if (!audienceJob.isError()) {
+      audienceJob.complete();
+    }
+    this.getSheetsService().setValuesInDefinedRange(
+      sheetName,
+      row + index,
+      col + cols.status,
+      [[audienceJob.getStatus(), JSON.stringify(audienceJob)]]
+    );
+
+    return true;
+  }
+
+  /**
+   * Returns the jobs of the last run for resuming it. Jobs which failed or
+   * were interrupted are reset to pending, while completed jobs are kept as
+   * they are so that they are not run again.
+   *
+   * @param {!Job} job The job instance passed by the jobs infrastructure
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     cols: !Object<string, number>
+   * }=} params
+   * @returns {!Job} The job holding the audience jobs of the last run
+   */
+  getLastRun(
+    job: Job,
+    {
+      sheetName = CONFIG.jobQueue.sheetName,
+      row = CONFIG.jobQueue.row,
+      col = CONFIG.jobQueue.col,
+      cols = CONFIG.jobQueue.cols,
+    } = {}
+  ) {
+    const audienceJobs = this.getSheetsService()
+      .getRangeData(sheetName, row, col)
+      .filter(queueRow => queueRow[cols.job])
+      .map(queueRow => {
+        const status = String(queueRow[cols.status]);
+        const parsedJob = JSON.parse(String(queueRow[cols.job]));
+
+        return JobUtil.fromJson(
+          status === JobStatus.COMPLETE
+            ? { ...parsedJob, status_: JobStatus.COMPLETE }
+            : { ...parsedJob, status_: JobStatus.PENDING, error_: '' }
+        );
+      });
+    const pending = audienceJobs.filter(audienceJob => audienceJob.isPending());
+
+    job.getJobs().push(...audienceJobs);
+    job.log([
+      `Resuming ${pending.length} of ${audienceJobs.length} audience(s) ` +
+        'of the last run',
+    ]);
+
+    return job;
+  }
+
+  /**
+   * Returns the position of the given job in the queue.
+   *
+   * @param {!AudienceProcessJob} audienceJob The job to find
+   * @param {!Array<!Array<string|number>>} queueRows The rows of the queue
+   * @param {{
+   *     cols: !Object<string, number>
+   * }=} params
+   * @returns {number} The position of the job, or -1 if it is not queued
+   * @private
+   */
+  findQueueIndex_(
+    audienceJob: AudienceProcessJob,
+    queueRows: Array<Array<string | number>>,
+    { cols = CONFIG.jobQueue.cols } = {}
+  ) {
+    return queueRows.findIndex(
+      queueRow =>
+        String(queueRow[cols.runId] ?? '') === audienceJob.getRunId() &&
+        queueRow[cols.index] !== '' &&
+        Number(queueRow[cols.index]) === audienceJob.getIndex()
+    );
+  }
+
+  /**
+   * Returns the SheetsService instance.
+   *
+   * @returns {!SheetsService} The SheetsService instance
+   */
+  getSheetsService() {
+    return this.sheetsService_;
+  }
+
+  /**
+   * Returns the CampaignManagerFacade instance.
+   *
+   * @returns {!CampaignManagerFacade} The CampaignManagerFacade instance
+   */
+  getCampaignManagerService() {
+    return this.campaignManagerService_;
+  }
+}
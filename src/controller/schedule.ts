@@ -0,0 +1,577 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AudienceProcessJobController } from './audienceProcessJob';
+import { AudiencesController } from './audiences';
+import { TransactionController } from './transaction';
+import { type CampaignManagerFacade } from '../facade/cm360';
+import { CONFIG } from '../config';
+import { type AudienceLoadJob } from '../model/audienceLoadJob';
+import { type AudienceProcessJob } from '../model/audienceProcessJob';
+import { Job } from '../model/job';
+import { type SheetsService } from '../service/sheets';
+import { JobUtil } from '../util/job';
+import { CustomLogger } from '../util/logger';
+
+/**
+ * @fileoverview This file encapsulates all logic for running load or process
+ * unattended on Apps Script time-driven triggers.
+ */
+
+/**
+ * Describes the configured schedule, stored in the document properties.
+ */
+export interface Schedule {
+  task: string;
+  everyHours: number;
+}
+
+/**
+ * Describes a scheduled run in progress, stored in the document properties.
+ * The jobs of the run are queued in a hidden sheet since they may exceed the
+ * size limits of properties.
+ */
+export interface ScheduledRun {
+  task: string;
+  startedAt: string;
+  next: number;
+  offset: number;
+  triggerId: string;
+}
+
+/**
+ * ScheduleController representing a class for holding all logic for
+ * scheduled runs. A recurring trigger starts a run of the scheduled task,
+ * whose audience jobs are queued and worked off in chunks which stay under
+ * the execution time limit. Every chunk persists its progress and creates a
+ * one-off trigger for the next chunk, and the last chunk completes the run
+ * the same way the sidebar does and sends a summary.
+ */
+export class ScheduleController {
+  private readonly sheetsService_: SheetsService;
+  private readonly campaignManagerService_: CampaignManagerFacade;
+
+  /**
+   * @constructs an instance of ScheduleController.
+   *
+   * @param {!SheetsService} sheetsService The injected SheetsService dependency
+   * @param {!CampaignManagerFacade} campaignManagerService The injected
+   *     CampaignManagerFacade dependency
+   */
+  constructor(
+    sheetsService: SheetsService,
+    campaignManagerService: CampaignManagerFacade
+  ) {
+    this.sheetsService_ = sheetsService;
+    this.campaignManagerService_ = campaignManagerService;
+  }
+
+  /**
+   * Schedules the given task to run every given number of hours, replacing
+   * any existing schedule.
+   *
+   * @param {string} task The task to run, either 'load' or 'process'
+   * @param {number} everyHours The interval in hours
+   * @param {{
+   *     tasks: !Object<string, string>,
+   *     intervalsHours: !Array<number>,
+   *     handlerFunction: string,
+   *     scheduleProperty: string
+   * }=} params
+   * @returns {!Schedule} The new schedule
+   * @throws {!Error} If the task or interval is not supported
+   */
+  schedule(
+    task: string,
+    everyHours: number,
+    {
+      tasks = CONFIG.schedule.tasks,
+      intervalsHours = CONFIG.schedule.intervalsHours,
+      handlerFunction = CONFIG.schedule.handlerFunction,
+      scheduleProperty = CONFIG.schedule.scheduleProperty,
+    } = {}
+  ) {
+    if (!Object.values(tasks).includes(task)) {
+      throw new Error(`Unknown task '${task}'`);
+    }
+    if (!intervalsHours.includes(everyHours)) {
+      throw new Error(
+        `Interval must be one of ${intervalsHours.join(', ')} hours`
+      );
+    }
+
+    this.unschedule();
+
+    const schedule: Schedule = { task, everyHours };
+    ScriptApp.newTrigger(handlerFunction)
+      .timeBased()
+      .everyHours(everyHours)
+      .create();
+    PropertiesService.getDocumentProperties().setProperty(
+      scheduleProperty,
+      JSON.stringify(schedule)
+    );
+
+    return schedule;
+  }
+
+  /**
+   * Removes the schedule along with any scheduled run in progress.
+   *
+   * @param {{
+   *     handlerFunction: string,
+   *     scheduleProperty: string,
+   *     runProperty: string,
+   *     sheetName: string,
+   *     row: number,
+   *     col: number
+   * }=} params
+   */
+  unschedule({
+    handlerFunction = CONFIG.schedule.handlerFunction,
+    scheduleProperty = CONFIG.schedule.scheduleProperty,
+    runProperty = CONFIG.schedule.runProperty,
+    sheetName = CONFIG.schedule.sheetName,
+    row = CONFIG.schedule.row,
+    col = CONFIG.schedule.col,
+  } = {}) {
+    ScriptApp.getProjectTriggers()
+      .filter(trigger => trigger.getHandlerFunction() === handlerFunction)
+      .forEach(trigger => ScriptApp.deleteTrigger(trigger));
+
+    const properties = PropertiesService.getDocumentProperties();
+    properties.deleteProperty(scheduleProperty);
+    properties.deleteProperty(runProperty);
+    this.getSheetsService().clearDefinedRange(sheetName, row, col);
+  }
+
+  /**
+   * Returns the current schedule.
+   *
+   * @param {{
+   *     scheduleProperty: string
+   * }=} params
+   * @returns {?Schedule} The schedule, or null if nothing is scheduled
+   */
+  getSchedule({ scheduleProperty = CONFIG.schedule.scheduleProperty } = {}) {
+    const json =
+      PropertiesService.getDocumentProperties().getProperty(scheduleProperty);
+
+    return json ? (JSON.parse(json) as Schedule) : null;
+  }
+
+  /**
+   * Entry point of the schedule triggers. Continues the scheduled run in
+   * progress, or starts a new run of the scheduled task, and works off its
+   * queued jobs until the time budget is used up. Executions overlapping a
+   * running one are skipped.
+   *
+   * @param {number=} startTime The start time of the execution in millis
+   * @param {{
+   *     runProperty: string,
+   *     maxRuntimeMillis: number,
+   *     lockTimeoutMillis: number
+   * }=} params
+   * @returns {?ScheduledRun} The run in progress, or null if the run was
+   *     completed or skipped
+   */
+  run(
+    startTime = Date.now(),
+    {
+      runProperty = CONFIG.schedule.runProperty,
+      maxRuntimeMillis = CONFIG.schedule.maxRuntimeMillis,
+      lockTimeoutMillis = CONFIG.schedule.lockTimeoutMillis,
+    } = {}
+  ) {
+    // The document lock is taken by the audience history in between
+    const lock = LockService.getScriptLock();
+
+    if (!lock.tryLock(lockTimeoutMillis)) {
+      console.log('Skipping scheduled run since another one is in progress');
+      return null;
+    }
+
+    try {
+      const properties = PropertiesService.getDocumentProperties();
+      const json = properties.getProperty(runProperty);
+      let run = json ? (JSON.parse(json) as ScheduledRun) : null;
+      let queue: Job[];
+
+      // Pending continuations are obsolete once this execution is running
+      this.deleteContinuation_(run);
+
+      if (run) {
+        queue = this.readQueue_();
+      } else {
+        const schedule = this.getSchedule();
+
+        if (!schedule) {
+          return null;
+        }
+        run = {
+          task: schedule.task,
+          startedAt: JobUtil.getCurrentDateString(),
+          next: 0,
+          offset: 0,
+          triggerId: '',
+        };
+        queue = this.startRun_(run);
+      }
+
+      while (
+        run.next < queue.length &&
+        Date.now() - startTime < maxRuntimeMillis
+      ) {
+        this.runJob_(run.task, queue[run.next]);
+        run.next++;
+      }
+
+      // Logs are cleared once written so that they are not queued again
+      run.offset = this.writeLogs_(queue, run.offset);
+
+      if (run.next < queue.length) {
+        this.writeQueue_(queue);
+        run.triggerId = this.createContinuation_();
+        properties.setProperty(runProperty, JSON.stringify(run));
+
+        return run;
+      }
+
+      this.completeRun_(run, queue);
+      properties.deleteProperty(runProperty);
+
+      return null;
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.error('Scheduled run failed', error);
+      PropertiesService.getDocumentProperties().deleteProperty(runProperty);
+      this.notify_(`Scheduled run failed! ${error.message}`);
+
+      return null;
+    } finally {
+      lock.releaseLock();
+    }
+  }
+
+  /**
+   * Starts the given run by clearing the logs and creating the audience jobs
+   * of its task, which are queued in the hidden queue sheet.
+   *
+   * @param {!ScheduledRun} run The run to start
+   * @param {{
+   *     tasks: !Object<string, string>
+   * }=} params
+   * @returns {!Array<!Job>} The queued audience jobs
+   * @private
+   */
+  startRun_(run: ScheduledRun, { tasks = CONFIG.schedule.tasks } = {}) {
+    const job = new Job();
+
+    new CustomLogger(this.getSheetsService()).clearLogs(job);
+    job.log([`Scheduled ${run.task} started`]);
+
+    if (run.task === tasks.load) {
+      this.getAudiencesController_().loadAudiences(job);
+    } else if (run.task === tasks.process) {
+      this.getAudienceProcessJobController_().processAudiences(job);
+    } else {
+      throw new Error(`Unknown task '${run.task}'`);
+    }
+
+    // The audience jobs are logged separately as they are run
+    const queue = job.getJobs().splice(0);
+    run.offset = this.writeLogs_([job], run.offset);
+
+    return queue;
+  }
+
+  /**
+   * Runs a single queued audience job. Errors are recorded in the job, the
+   * same way the sidebar runner does.
+   *
+   * @param {string} task The task of the run
+   * @param {!Job} job The audience job
+   * @param {{
+   *     tasks: !Object<string, string>
+   * }=} params
+   * @private
+   */
+  runJob_(task: string, job: Job, { tasks = CONFIG.schedule.tasks } = {}) {
+    try {
+      if (task === tasks.load) {
+        this.getAudiencesController_().loadAudience(job as AudienceLoadJob);
+      } else {
+        this.getAudienceProcessJobController_().processAudience(
+          job as AudienceProcessJob
+        );
+      }
+    } catch (err: unknown) {
+      const error = err as Error;
+      console.log('Error running scheduled job', error);
+      job.error(error.message);
+    }
+  }
+
+  /**
+   * Completes a run once all of its jobs were run, the same way the sidebar
+   * does, and sends the run summary.
+   *
+   * @param {!ScheduledRun} run The run to complete
+   * @param {!Array<!Job>} queue The run's audience jobs
+   * @param {{
+   *     tasks: !Object<string, string>,
+   *     sheetName: string,
+   *     row: number,
+   *     col: number
+   * }=} params
+   * @private
+   */
+  completeRun_(
+    run: ScheduledRun,
+    queue: Job[],
+    {
+      tasks = CONFIG.schedule.tasks,
+      sheetName = CONFIG.schedule.sheetName,
+      row = CONFIG.schedule.row,
+      col = CONFIG.schedule.col,
+    } = {}
+  ) {
+    const job = new Job(0, 0, true, [], queue);
+
+    if (run.task === tasks.load) {
+      this.getAudiencesController_().extractAndOutputRules(
+        (queue as AudienceLoadJob[]).map(
+          audienceJob => audienceJob.getAudience().getId() ?? ''
+        )
+      );
+    } else {
+      new TransactionController(
+        this.getSheetsService(),
+        this.getCampaignManagerService()
+      ).commitAudiences(job);
+    }
+
+    const summary = this.summarize_(run, queue);
+    job.log([summary.split('\n')[0]]);
+    this.writeLogs_([job], run.offset);
+    this.getSheetsService().clearDefinedRange(sheetName, row, col);
+    this.notify_(summary);
+  }
+
+  /**
+   * Summarizes the outcome of the given run.
+   *
+   * @param {!ScheduledRun} run The run
+   * @param {!Array<!Job>} queue The run's audience jobs
+   * @returns {string} The summary, listing the failed audiences on separate
+   *     lines
+   * @private
+   */
+  summarize_(run: ScheduledRun, queue: Job[]) {
+    const failed = queue.filter(job => job.isError());
+    const lines = [
+      `Scheduled ${run.task} started at ${run.startedAt} finished: ` +
+        `${queue.length - failed.length} of ${queue.length} audience(s) ` +
+        'succeeded',
+      ...failed.map(
+        job =>
+          `- ${(job as AudienceProcessJob).getAudience().getName()}: ` +
+          job.getError()
+      ),
+    ];
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Logs the given message and emails it to the owner of the triggers if
+   * notifications are enabled.
+   *
+   * @param {string} message The message to send
+   * @param {{
+   *     notify: boolean
+   * }=} params
+   * @private
+   */
+  notify_(message: string, { notify = CONFIG.schedule.notify } = {}) {
+    console.log(message);
+
+    const recipient = Session.getEffectiveUser().getEmail();
+
+    if (notify && recipient) {
+      MailApp.sendEmail(
+        recipient,
+        `Audience Manager: ${message.split('\n')[0]}`,
+        `${message}\n\n${this.getSheetsService().getSpreadsheet().getUrl()}`
+      );
+    }
+  }
+
+  /**
+   * Writes the logs of the given jobs to the log sheet at the given offset.
+   *
+   * @param {!Array<!Job>} jobs The jobs holding the logs
+   * @param {number} offset The offset to write the logs at
+   * @returns {number} The offset to write subsequent logs at
+   * @private
+   */
+  writeLogs_(jobs: Job[], offset: number) {
+    const job = new Job(0, 0, true, [], jobs, offset);
+
+    new CustomLogger(this.getSheetsService()).writeLogs(job);
+
+    return job.getOffset();
+  }
+
+  /**
+   * Reads the queued audience jobs from the hidden queue sheet.
+   *
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number
+   * }=} params
+   * @returns {!Array<!Job>} The queued jobs
+   * @private
+   */
+  readQueue_({
+    sheetName = CONFIG.schedule.sheetName,
+    row = CONFIG.schedule.row,
+    col = CONFIG.schedule.col,
+  } = {}) {
+    return this.getSheetsService()
+      .getRangeData(sheetName, row, col, 0, 1)
+      .filter(queueRow => queueRow[0])
+      .map(queueRow => JobUtil.fromJson(JSON.parse(String(queueRow[0]))));
+  }
+
+  /**
+   * Replaces the contents of the hidden queue sheet with the given jobs.
+   *
+   * @param {!Array<!Job>} queue The jobs to queue
+   * @param {{
+   *     sheetName: string,
+   *     headers: !Array<string>,
+   *     row: number,
+   *     col: number
+   * }=} params
+   * @private
+   */
+  writeQueue_(
+    queue: Job[],
+    {
+      sheetName = CONFIG.schedule.sheetName,
+      headers = CONFIG.schedule.headers,
+      row = CONFIG.schedule.row,
+      col = CONFIG.schedule.col,
+    } = {}
+  ) {
+    this.getSheetsService().getOrCreateSheet(sheetName, headers).hideSheet();
+    this.getSheetsService().clearDefinedRange(sheetName, row, col);
+
+    if (queue.length > 0) {
+      this.getSheetsService().setValuesInDefinedRange(
+        sheetName,
+        row,
+        col,
+        queue.map(job => [JSON.stringify(job)])
+      );
+    }
+  }
+
+  /**
+   * Creates a one-off trigger continuing the run in progress.
+   *
+   * @param {{
+   *     handlerFunction: string,
+   *     continuationDelayMillis: number
+   * }=} params
+   * @returns {string} The unique ID of the trigger
+   * @private
+   */
+  createContinuation_({
+    handlerFunction = CONFIG.schedule.handlerFunction,
+    continuationDelayMillis = CONFIG.schedule.continuationDelayMillis,
+  } = {}) {
+    return ScriptApp.newTrigger(handlerFunction)
+      .timeBased()
+      .after(continuationDelayMillis)
+      .create()
+      .getUniqueId();
+  }
+
+  /**
+   * Deletes the one-off trigger created for continuing the given run, so that
+   * it neither piles up nor starts a new run once the run was completed.
+   *
+   * @param {?ScheduledRun} run The run in progress
+   * @private
+   */
+  deleteContinuation_(run: ScheduledRun | null) {
+    if (!run?.triggerId) {
+      return;
+    }
+    ScriptApp.getProjectTriggers()
+      .filter(trigger => trigger.getUniqueId() === run.triggerId)
+      .forEach(trigger => ScriptApp.deleteTrigger(trigger));
+  }
+
+  /**
+   * Returns an AudiencesController sharing this controller's dependencies.
+   *
+   * @returns {!AudiencesController} The AudiencesController instance
+   * @private
+   */
+  getAudiencesController_() {
+    return new AudiencesController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
+    );
+  }
+
+  /**
+   * Returns an AudienceProcessJobController sharing this controller's
+   * dependencies.
+   *
+   * @returns {!AudienceProcessJobController} The AudienceProcessJobController
+   *     instance
+   * @private
+   */
+  getAudienceProcessJobController_() {
+    return new AudienceProcessJobController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
+    );
+  }
+
+  /**
+   * Returns the SheetsService instance.
+   *
+   * @returns {!SheetsService} The SheetsService instance
+   */
+  getSheetsService() {
+    return this.sheetsService_;
+  }
+
+  /**
+   * Returns the CampaignManagerFacade instance.
+   *
+   * @returns {!CampaignManagerFacade} The CampaignManagerFacade instance
+   */
+  getCampaignManagerService() {
+    return this.campaignManagerService_;
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AudienceProcessJobController } from './audienceProcessJob';
+import { type CampaignManagerFacade } from '../facade/cm360';
+import { CONFIG } from '../config';
+import { AudienceProcessJob } from '../model/audienceProcessJob';
+import { type Job } from '../model/job';
+import { type SheetsService } from '../service/sheets';
+import { JobUtil } from '../util/job';
+
+/**
+ * @fileoverview This file encapsulates all logic for the shares matrix, a
+ * cross-view of the loaded audiences and the advertisers they are shared with.
+ */
+
+/**
+ * SharesMatrixController representing a class for holding all logic for the
+ * shares matrix. Audiences are listed on the rows and advertisers on the
+ * columns of a dedicated sheet, with a checkbox for every audience shared with
+ * an advertiser. Edits of the matrix are pushed back to CM360 as share
+ * updates.
+ */
+export class SharesMatrixController {
+  private readonly sheetsService_: SheetsService;
+  private readonly campaignManagerService_: CampaignManagerFacade;
+
+  /**
+   * @constructs an instance of SharesMatrixController.
+   *
+   * @param {!SheetsService} sheetsService The injected SheetsService dependency
+   * @param {!CampaignManagerFacade} campaignManagerService The injected
+   *     CampaignManagerFacade dependency
+   */
+  constructor(
+    sheetsService: SheetsService,
+    campaignManagerService: CampaignManagerFacade
+  ) {
+    this.sheetsService_ = sheetsService;
+    this.campaignManagerService_ = campaignManagerService;
+  }
+
+  /**
+   * Generates the shares matrix from the synced audiences of the audiences
+   * sheet, replacing any previous matrix. Every advertiser of the advertisers
+   * sheet gets a column, as well as any advertiser an audience is shared with
+   * that is missing from it. Counts per audience and per advertiser are
+   * written as formulas so that they follow edits of the matrix.
+   *
+   * @param {!Job} job The job instance passed by the jobs infrastructure
+   * @param {{
+   *     sheetName: string,
+   *     headers: !Array<string>,
+   *     totalLabel: string,
+   *     headerRow: number,
+   *     totalRow: number,
+   *     row: number,
+   *     col: number,
+   *     cols: !Object<string, number>,
+   *     audiencesSheetName: string,
+   *     audiencesRow: number,
+   *     audiencesCol: number,
+   *     idCol: number,
+   *     nameCol: number,
+   *     sharesCol: number
+   * }=} params
+   * @returns {!Job} The modified job instance
+   */
+  buildSharesMatrix(
+    job: Job,
+    {
+      sheetName = CONFIG.sharesMatrix.sheetName,
+      headers = CONFIG.sharesMatrix.headers,
+      totalLabel = CONFIG.sharesMatrix.totalLabel,
+      headerRow = CONFIG.sharesMatrix.headerRow,
+      totalRow = CONFIG.sharesMatrix.totalRow,
+      row = CONFIG.sharesMatrix.row,
+      col = CONFIG.sharesMatrix.col,
+      cols = CONFIG.sharesMatrix.cols,
+      audiencesSheetName = CONFIG.audiences.sheetName,
+      audiencesRow = CONFIG.audiences.row,
+      audiencesCol = CONFIG.audiences.col,
+      idCol = CONFIG.audiences.cols.id,
+      nameCol = CONFIG.audiences.cols.name,
+      sharesCol = CONFIG.audiences.cols.shares,
+    } = {}
+  ) {
+    this.getSheetsService().showToast('Building shares matrix...', 'Shares');
+
+    const audienceProcessJobController = new AudienceProcessJobController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
+    );
+    const audienceRows = this.getSheetsService()
+      .getRangeData(audiencesSheetName, audiencesRow, audiencesCol)
+      .filter(audienceRow => audienceRow[idCol]);
+    const shares = audienceRows.map(audienceRow =>
+      audienceProcessJobController.extractSharedAdvertiserIds(
+        String(audienceRow[sharesCol] ?? '')
+      )
+    );
+    const advertisers = this.getAdvertiserLabels(shares.flat());
+    const advertiserIds = [...advertisers.keys()];
+
+    const firstAdvertiserCol = col + headers.length;
+    const lastAdvertiserCol = firstAdvertiserCol + advertiserIds.length - 1;
+    const countRange = (from: string, to: string) =>
+      advertiserIds.length > 0 ? `=COUNTIF(${from}:${to}, TRUE)` : 0;
+    const countCol = this.toColumnLetter_(col + cols.count);
+
+    const totals: Array<string | number> = [...headers].fill('');
+    totals[cols.name] = totalLabel;
+    totals[cols.count] = `=SUM(${countCol}${row}:${countCol})`;
+    advertiserIds.forEach((advertiserId, index) => {
+      const advertiserCol = this.toColumnLetter_(firstAdvertiserCol + index);
+
+      totals.push(countRange(`${advertiserCol}${row}`, advertiserCol));
+    });
+
+    const matrix = audienceRows.map((audienceRow, index) => {
+      const matrixRow: Array<string | number | boolean> = [...headers].fill('');
+
+      matrixRow[cols.audienceId] = String(audienceRow[idCol]);
+      matrixRow[cols.name] = String(audienceRow[nameCol]);
+      matrixRow[cols.count] = countRange(
+        `${this.toColumnLetter_(firstAdvertiserCol)}${row + index}`,
+        `${this.toColumnLetter_(lastAdvertiserCol)}${row + index}`
+      );
+
+      return matrixRow.concat(
+        advertiserIds.map(advertiserId => shares[index].includes(advertiserId))
+      );
+    });
+
+    const sheet = this.getSheetsService().getOrCreateSheet(sheetName);
+
+    this.getSheetsService().clearDefinedRange(sheetName, headerRow, col);
+    this.getSheetsService().setValuesInDefinedRange(sheetName, headerRow, col, [
+      [...headers, ...advertisers.values()],
+    ]);
+    this.getSheetsService().setValuesInDefinedRange(sheetName, totalRow, col, [
+      totals,
+    ]);
+    this.getSheetsService().setValuesInDefinedRange(
+      sheetName,
+      row,
+      col,
+      matrix
+    );
+
+    if (matrix.length > 0 && advertiserIds.length > 0) {
+      sheet
+        .getRange(row, firstAdvertiserCol, matrix.length, advertiserIds.length)
+        .insertCheckboxes();
+    }
+    sheet.setFrozenRows(totalRow);
+    sheet.setFrozenColumns(firstAdvertiserCol - 1);
+
+    job.log([
+      `Built shares matrix of ${matrix.length} audience(s) and ` +
+        `${advertiserIds.length} advertiser(s)`,
+    ]);
+
+    return job;
+  }
+
+  /**
+   * Compares the shares matrix with the shares of the audiences sheet and
+   * creates an {@link AudienceProcessJob} updating the shares of every
+   * audience that was changed in the matrix. The shares column of these
+   * audiences is updated accordingly, while any other pending change of them
+   * is left for the next run.
+   *
+   * @param {!Job} job The job instance passed by the jobs infrastructure
+   * @param {{
+   *     sheetName: string,
+   *     headers: !Array<string>,
+   *     headerRow: number,
+   *     row: number,
+   *     col: number,
+   *     cols: !Object<string, number>,
+   *     audiencesSheetName: string,
+   *     audiencesRow: number,
+   *     audiencesCol: number,
+   *     idCol: number,
+   *     sharesCol: number,
+   *     separator: string,
+   *     updateSharesAction: string
+   * }=} params
+   * @returns {!Job} The modified job instance
+   */
+  applySharesMatrix(
+    job: Job,
+    {
+      sheetName = CONFIG.sharesMatrix.sheetName,
+      headers = CONFIG.sharesMatrix.headers,
+      headerRow = CONFIG.sharesMatrix.headerRow,
+      row = CONFIG.sharesMatrix.row,
+      col = CONFIG.sharesMatrix.col,
+      cols = CONFIG.sharesMatrix.cols,
+      audiencesSheetName = CONFIG.audiences.sheetName,
+      audiencesRow = CONFIG.audiences.row,
+      audiencesCol = CONFIG.audiences.col,
+      idCol = CONFIG.audiences.cols.id,
+      sharesCol = CONFIG.audiences.cols.shares,
+      separator = CONFIG.multiSelect.separator,
+      updateSharesAction = CONFIG.audiences.actions.updateShares,
+    } = {}
+  ) {
+    this.getSheetsService().showToast('Applying shares matrix...', 'Shares');
+
+    const audienceProcessJobController = new AudienceProcessJobController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
+    );
+    const [headerValues = []] = this.getSheetsService().getRangeData(
+      sheetName,
+      headerRow,
+      col,
+      1
+    );
+    const advertiserLabels = headerValues.slice(headers.length).map(String);
+    const advertiserIds = advertiserLabels.map(
+      label =>
+        audienceProcessJobController.extractSharedAdvertiserIds(label)[0] ?? ''
+    );
+    const matrix = this.getSheetsService()
+      .getRangeData(sheetName, row, col)
+      .filter(matrixRow => matrixRow[cols.audienceId]);
+    const audiences = this.getSheetsService().getRangeData(
+      audiencesSheetName,
+      audiencesRow,
+      audiencesCol
+    );
+    const indexById = new Map(
+      audiences.map((audienceRow, index) => [
+        String(audienceRow[idCol] ?? ''),
+        index,
+      ])
+    );
+    // Identifies the history entries of all audiences processed in this run
+    const runId = JobUtil.getCurrentDateString();
+    const audienceJobs: AudienceProcessJob[] = [];
+
+    for (const matrixRow of matrix) {
+      const index = indexById.get(String(matrixRow[cols.audienceId]));
+
+      if (index === undefined) {
+        continue;
+      }
+      const sharesValue = advertiserLabels
+        .filter((label, advertiserIndex) => {
+          const value = matrixRow[headers.length + advertiserIndex];
+
+          return (
+            advertiserIds[advertiserIndex] &&
+            (value === true || String(value).toUpperCase() === 'TRUE')
+          );
+        })
+        .sort()
+        .join(separator);
+      const audienceRow = [...audiences[index]];
+      const currentShares =
+        audienceProcessJobController.extractSharedAdvertiserIds(
+          String(audienceRow[sharesCol] ?? '')
+        );
+      const shares =
+        audienceProcessJobController.extractSharedAdvertiserIds(sharesValue);
+
+      if (
+        shares.length === currentShares.length &&
+        shares.every(advertiserId => currentShares.includes(advertiserId))
+      ) {
+        continue;
+      }
+      audienceRow[sharesCol] = sharesValue;
+      this.getSheetsService().setCellValue(
+        audiencesRow + index,
+        audiencesCol + sharesCol,
+        sharesValue,
+        audiencesSheetName
+      );
+      audienceJobs.push(
+        new AudienceProcessJob({
+          idx: index,
+          audience: audienceProcessJobController.createAudience(
+            audienceRow.concat(String(index))
+          ),
+          actions: [updateSharesAction],
+          runId,
+        })
+      );
+    }
+
+    job.log([
+      `Applying the shares matrix to ${audienceJobs.length} audience(s)`,
+    ]);
+
+    return audienceProcessJobController.queueAudienceJobs(
+      job,
+      runId,
+      audienceJobs,
+      audiences
+    );
+  }
+
+  /**
+   * Returns the labels of all advertisers of the advertisers sheet, followed
+   * by the given advertisers missing from it, keyed by advertiser ID.
+   *
+   * @param {!Array<string>} advertiserIds The IDs of advertisers to include
+   *     even if they are missing from the advertisers sheet
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     idCol: number,
+   *     nameCol: number,
+   *     defaultName: string
+   * }=} params
+   * @returns {!Map<string, string>} The advertiser labels
+   */
+  getAdvertiserLabels(
+    advertiserIds: string[],
+    {
+      sheetName = CONFIG.advertisers.sheetName,
+      row = CONFIG.advertisers.row,
+      col = CONFIG.advertisers.col,
+      idCol = CONFIG.advertisers.cols.id,
+      nameCol = CONFIG.advertisers.cols.name,
+      defaultName = CONFIG.advertisers.defaultName,
+    } = {}
+  ) {
+    const labels = new Map<string, string>();
+
+    for (const advertiser of this.getSheetsService().getRangeData(
+      sheetName,
+      row,
+      col
+    )) {
+      if (advertiser[idCol]) {
+        labels.set(String(advertiser[idCol]), String(advertiser[nameCol]));
+      }
+    }
+    for (const advertiserId of advertiserIds) {
+      if (!labels.has(advertiserId)) {
+        labels.set(advertiserId, `${defaultName} (${advertiserId})`);
+      }
+    }
+    return labels;
+  }
+
+  /**
+   * Returns the A1 notation letter(s) of the given column.
+   *
+   * @param {number} col The column, starting at 1
+   * @returns {string} The column letter(s)
+   * @private
+   */
+  toColumnLetter_(col: number) {
+    let letters = '';
+
+    for (let remaining = col; remaining > 0; ) {
+      const offset = (remaining - 1) % 26;
+
+      letters = String.fromCharCode(65 + offset) + letters;
+      remaining = Math.floor((remaining - 1) / 26);
+    }
+    return letters;
+  }
+
+  /**
+   * Returns the SheetsService instance.
+   *
+   * @returns {!SheetsService} The SheetsService instance
+   */
+  getSheetsService() {
+    return this.sheetsService_;
+  }
+
+  /**
+   * Returns the CampaignManagerFacade instance.
+   *
+   * @returns {!CampaignManagerFacade} The CampaignManagerFacade instance
+   */
+  getCampaignManagerService() {
+    return this.campaignManagerService_;
+  }
+}
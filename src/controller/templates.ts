@@ -0,0 +1,449 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AudienceProcessJobController } from './audienceProcessJob';
+import { AudiencesController } from './audiences';
+import { type CampaignManagerFacade } from '../facade/cm360';
+import { CONFIG } from '../config';
+import { Audience } from '../model/audience';
+import { type SheetsService } from '../service/sheets';
+import { RuleExpressionUtil } from '../util/expression';
+import { JobUtil } from '../util/job';
+
+/**
+ * @fileoverview This file encapsulates all logic for generating audiences from
+ * the templates defined in the associated Google Sheets spreadsheet.
+ */
+
+/**
+ * TemplatesController representing a class for holding all logic for
+ * expanding audience templates into concrete audiences. Templates hold
+ * placeholders such as '{category}' in their name, description, lifespan,
+ * floodlight and rule expression, which are resolved using the columns of the
+ * same name of every row in the template parameters sheet.
+ */
+export class TemplatesController {
+  private readonly sheetsService_: SheetsService;
+  private readonly campaignManagerService_: CampaignManagerFacade;
+
+  /**
+   * @constructs an instance of TemplatesController.
+   *
+   * @param {!SheetsService} sheetsService The injected SheetsService dependency
+   * @param {!CampaignManagerFacade} campaignManagerService The injected
+   *     CampaignManagerFacade dependency
+   */
+  constructor(
+    sheetsService: SheetsService,
+    campaignManagerService: CampaignManagerFacade
+  ) {
+    this.sheetsService_ = sheetsService;
+    this.campaignManagerService_ = campaignManagerService;
+  }
+
+  /**
+   * Expands every row of the template parameters sheet into an audience and
+   * writes it to the Audiences and Rules sheets. Audiences generated by a
+   * previous expansion are recognized by their template key and updated in
+   * place, all others are appended as new audiences.
+   *
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     idCol: number,
+   *     parametersSheetName: string,
+   *     parametersRow: number,
+   *     parametersCol: number,
+   *     templateIdCol: number,
+   *     audiencesSheetName: string,
+   *     audiencesRow: number,
+   *     audiencesCol: number,
+   *     audienceIdCol: number,
+   *     templateKeyCol: number
+   * }=} params
+   * @returns {!Array<!Audience>} The generated audiences
+   * @throws {!Error} If any row references an unknown template or can't be
+   *     expanded, in which case nothing is written
+   */
+  expandTemplates({
+    sheetName = CONFIG.templates.sheetName,
+    row = CONFIG.templates.row,
+    col = CONFIG.templates.col,
+    idCol = CONFIG.templates.cols.id,
+    parametersSheetName = CONFIG.templates.parameters.sheetName,
+    parametersRow = CONFIG.templates.parameters.row,
+    parametersCol = CONFIG.templates.parameters.col,
+    templateIdCol = CONFIG.templates.parameters.cols.templateId,
+    audiencesSheetName = CONFIG.audiences.sheetName,
+    audiencesRow = CONFIG.audiences.row,
+    audiencesCol = CONFIG.audiences.col,
+    audienceIdCol = CONFIG.audiences.cols.id,
+    templateKeyCol = CONFIG.audiences.cols.templateKey,
+  } = {}) {
+    this.getSheetsService().showToast(
+      'Expanding templates...',
+      'Templates - BEGIN'
+    );
+
+    const templates = new Map(
+      this.getSheetsService()
+        .getRangeData(sheetName, row, col)
+        .filter(template => template[idCol])
+        .map(template => [String(template[idCol]), template])
+    );
+    const [headers = [], ...parameterRows] = this.getSheetsService()
+      .getRangeData(parametersSheetName, parametersRow, parametersCol)
+      .filter(parameterRow => parameterRow.length > 0);
+    const audienceRows = this.getSheetsService()
+      .getRangeData(audiencesSheetName, audiencesRow, audiencesCol)
+      .filter(audienceRow => audienceRow.length > 0);
+    const rowIndexByKey = new Map<string, number>();
+
+    audienceRows.forEach((audienceRow, index) => {
+      if (audienceRow[templateKeyCol]) {
+        rowIndexByKey.set(String(audienceRow[templateKeyCol]), index);
+      }
+    });
+
+    const variableNames = new AudienceProcessJobController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
+    ).getCustomVariableNames();
+    const expansions: Array<[Audience, string, number | undefined]> = [];
+
+    // All rows are expanded before anything is written, so that an invalid
+    // row leaves the Audiences sheet untouched
+    for (const parameterRow of parameterRows) {
+      const templateId = String(parameterRow[templateIdCol] ?? '');
+
+      if (!templateId) {
+        continue;
+      }
+
+      const template = templates.get(templateId);
+
+      if (!template) {
+        throw new Error(`Unknown template '${templateId}'`);
+      }
+
+      const parameters: Record<string, string> = {};
+
+      headers.forEach((header, index) => {
+        if (header && index !== templateIdCol) {
+          parameters[String(header)] = String(parameterRow[index] ?? '');
+        }
+      });
+
+      const key = this.getTemplateKey(templateId, template, parameters);
+      const index = rowIndexByKey.get(key);
+      // New audiences are identified by their key until they are created
+      const id =
+        index === undefined ? key : String(audienceRows[index][audienceIdCol]);
+
+      expansions.push([
+        this.expandTemplate(template, parameters, variableNames, id),
+        key,
+        index,
+      ]);
+    }
+
+    const audiences: Audience[] = [];
+    let nextIndex = audienceRows.length;
+
+    for (const [audience, key, index] of expansions) {
+      this.outputTemplateAudience(
+        audience,
+        key,
+        index ?? nextIndex++,
+        index === undefined
+      );
+      audiences.push(audience);
+    }
+
+    new AudiencesController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
+    ).replaceAudienceRules(audiences);
+
+    const message = `Expanded ${audiences.length} audience(s) from templates`;
+    console.log(message);
+    this.getSheetsService().showToast(message, 'Templates - END');
+
+    return audiences;
+  }
+
+  /**
+   * Creates an audience from the given template row by resolving all
+   * placeholders with the given parameters.
+   *
+   * @param {!Array<string|number|boolean>} template The template row
+   * @param {!Object<string, string>} parameters The parameter values keyed by
+   *     placeholder name
+   * @param {!Object<string, string>} variableNames Friendly names of the user
+   *     defined variables keyed by upper case variable name
+   * @param {string} id The ID of the generated audience
+   * @param {{
+   *     nameCol: number,
+   *     descriptionCol: number,
+   *     lifeSpanCol: number,
+   *     floodlightIdCol: number,
+   *     ruleExpressionCol: number,
+   *     floodlightRegex: string
+   * }=} params
+   * @returns {!Audience} The generated audience
+   * @throws {!Error} If a placeholder or the resolved rule expression is
+   *     invalid
+   */
+  expandTemplate(
+    template: Array<string | number | boolean>,
+    parameters: Record<string, string>,
+    variableNames: Record<string, string>,
+    id: string,
+    {
+      nameCol = CONFIG.templates.cols.name,
+      descriptionCol = CONFIG.templates.cols.description,
+      lifeSpanCol = CONFIG.templates.cols.lifeSpan,
+      floodlightIdCol = CONFIG.templates.cols.floodlightId,
+      ruleExpressionCol = CONFIG.templates.cols.ruleExpression,
+      floodlightRegex = CONFIG.floodlights.idAndNameRegex,
+    } = {}
+  ) {
+    const resolve = (col: number) =>
+      this.substitute(String(template[col] ?? ''), parameters);
+    const floodlight = resolve(floodlightIdCol);
+    const floodlightMatch = floodlight.match(new RegExp(floodlightRegex));
+
+    return new Audience({
+      id,
+      name: resolve(nameCol),
+      description: resolve(descriptionCol),
+      lifeSpan: Number(resolve(lifeSpanCol)),
+      floodlightId: floodlightMatch ? floodlightMatch[1] : undefined,
+      floodlightName: floodlightMatch
+        ? floodlight.replace(floodlightMatch[0], '').trim()
+        : undefined,
+      rules: RuleExpressionUtil.parse(
+        resolve(ruleExpressionCol),
+        variableNames
+      ),
+      shares: [],
+    });
+  }
+
+  /**
+   * Replaces all placeholders in the given text with their parameter values.
+   *
+   * @param {string} text The text holding placeholders
+   * @param {!Object<string, string>} parameters The parameter values keyed by
+   *     placeholder name
+   * @param {string=} placeholderRegex The regex matching placeholders, with
+   *     the placeholder name as first group
+   * @returns {string} The text with all placeholders resolved
+   * @throws {!Error} If a placeholder has no parameter value
+   */
+  substitute(
+    text: string,
+    parameters: Record<string, string>,
+    placeholderRegex = CONFIG.templates.placeholderRegex
+  ) {
+    return text.replace(
+      new RegExp(placeholderRegex, 'g'),
+      (placeholder: string, name: string) => {
+        if (!(name in parameters)) {
+          throw new Error(`Unknown placeholder '${placeholder}'`);
+        }
+        return parameters[name];
+      }
+    );
+  }
+
+  /**
+   * Returns the key identifying the audience generated from the given template
+   * and parameters, e.g. '["visitors",{"category":"shoes","days":"30"}]'. Only
+   * the placeholders used by the template are part of the key, sorted by name,
+   * so that adding or reordering columns of the template parameters sheet
+   * keeps the keys of previously generated audiences. The values are JSON
+   * encoded so that values holding commas or brackets can't collide.
+   *
+   * @param {string} templateId The template ID
+   * @param {!Array<string|number|boolean>} template The template row
+   * @param {!Object<string, string>} parameters The parameter values keyed by
+   *     placeholder name
+   * @returns {string} The template key
+   */
+  getTemplateKey(
+    templateId: string,
+    template: Array<string | number | boolean>,
+    parameters: Record<string, string>
+  ) {
+    const values = Object.fromEntries(
+      this.getPlaceholderNames(template).map(name => [
+        name,
+        parameters[name] ?? '',
+      ])
+    );
+
+    return JSON.stringify([templateId, values]);
+  }
+
+  /**
+   * Returns the names of all placeholders used by the templated columns of the
+   * given template row, sorted by name.
+   *
+   * @param {!Array<string|number|boolean>} template The template row
+   * @param {{
+   *     nameCol: number,
+   *     descriptionCol: number,
+   *     lifeSpanCol: number,
+   *     floodlightIdCol: number,
+   *     ruleExpressionCol: number,
+   *     placeholderRegex: string
+   * }=} params
+   * @returns {!Array<string>} The sorted placeholder names
+   */
+  getPlaceholderNames(
+    template: Array<string | number | boolean>,
+    {
+      nameCol = CONFIG.templates.cols.name,
+      descriptionCol = CONFIG.templates.cols.description,
+      lifeSpanCol = CONFIG.templates.cols.lifeSpan,
+      floodlightIdCol = CONFIG.templates.cols.floodlightId,
+      ruleExpressionCol = CONFIG.templates.cols.ruleExpression,
+      placeholderRegex = CONFIG.templates.placeholderRegex,
+    } = {}
+  ) {
+    const names = new Set<string>();
+
+    for (const col of [
+      nameCol,
+      descriptionCol,
+      lifeSpanCol,
+      floodlightIdCol,
+      ruleExpressionCol,
+    ]) {
+      for (const match of String(template[col] ?? '').matchAll(
+        new RegExp(placeholderRegex, 'g')
+      )) {
+        names.add(match[1]);
+      }
+    }
+
+    return [...names].sort();
+  }
+
+  /**
+   * Writes a generated audience to the Audiences sheet. Existing rows only
+   * have their templated columns updated so that processing detects the
+   * change, while new audiences are written as full rows.
+   *
+   * @param {!Audience} audience The generated audience
+   * @param {string} key The template key of the audience
+   * @param {number} index The index of the audience row
+   * @param {boolean} isNew Whether the audience was not generated before
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     idCol: number,
+   *     nameCol: number,
+   *     descriptionCol: number,
+   *     lifeSpanCol: number,
+   *     floodlightIdCol: number,
+   *     statusCol: number,
+   *     templateKeyCol: number
+   * }=} params
+   */
+  outputTemplateAudience(
+    audience: Audience,
+    key: string,
+    index: number,
+    isNew: boolean,
+    {
+      sheetName = CONFIG.audiences.sheetName,
+      row = CONFIG.audiences.row,
+      col = CONFIG.audiences.col,
+      idCol = CONFIG.audiences.cols.id,
+      nameCol = CONFIG.audiences.cols.name,
+      descriptionCol = CONFIG.audiences.cols.description,
+      lifeSpanCol = CONFIG.audiences.cols.lifeSpan,
+      floodlightIdCol = CONFIG.audiences.cols.floodlightId,
+      statusCol = CONFIG.audiences.cols.status,
+      templateKeyCol = CONFIG.audiences.cols.templateKey,
+    } = {}
+  ) {
+    const values: Array<[number, string | number]> = [
+      [nameCol, audience.getName()],
+      [descriptionCol, audience.getDescription()],
+      [lifeSpanCol, audience.getLifeSpan()],
+      [
+        floodlightIdCol,
+        audience.getFloodlightId()
+          ? `${audience.getFloodlightName()} (${audience.getFloodlightId()})`
+          : '',
+      ],
+      [statusCol, `Generated (${JobUtil.getCurrentDateString()})`],
+    ];
+
+    if (!isNew) {
+      for (const [valueCol, value] of values) {
+        this.getSheetsService().setCellValue(
+          row + index,
+          valueCol + 1,
+          String(value),
+          sheetName
+        );
+      }
+      return;
+    }
+
+    const audienceRow: Array<string | number> = Array.from(
+      { length: templateKeyCol + 1 },
+      () => ''
+    );
+
+    audienceRow[idCol] = audience.getId() ?? key;
+    audienceRow[templateKeyCol] = key;
+    for (const [valueCol, value] of values) {
+      audienceRow[valueCol] = value;
+    }
+
+    this.getSheetsService().setValuesInDefinedRange(
+      sheetName,
+      row + index,
+      col,
+      [audienceRow]
+    );
+  }
+
+  /**
+   * Returns the SheetsService instance.
+   *
+   * @returns {!SheetsService} The SheetsService instance
+   */
+  getSheetsService() {
+    return this.sheetsService_;
+  }
+
+  /**
+   * Returns the CampaignManagerFacade instance.
+   *
+   * @returns {!CampaignManagerFacade} The CampaignManagerFacade instance
+   */
+  getCampaignManagerService() {
+    return this.campaignManagerService_;
+  }
+}
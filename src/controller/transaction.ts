@@ -0,0 +1,407 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { type CampaignManagerFacade } from '../facade/cm360';
+import { CONFIG } from '../config';
+import { Audience } from '../model/audience';
+import { type AudienceProcessJob } from '../model/audienceProcessJob';
+import { type Job } from '../model/job';
+import { type SheetsService } from '../service/sheets';
+import { JobUtil } from '../util/job';
+import { RemarketingListUtil } from '../util/remarketingList';
+
+/**
+ * @fileoverview This file encapsulates all logic for processing the audiences
+ * of a run as a whole, reverting the changes already applied to CM360 if any
+ * audience of the run fails.
+ */
+
+/**
+ * TransactionController representing a class for holding all logic for the
+ * "all or nothing" processing mode. Before a run, the remote state of all
+ * affected remarketing lists is written to a hidden snapshot sheet. Once all
+ * audiences were processed, the applied changes are reverted to that snapshot
+ * if any audience failed: updated lists and shares are restored, and created
+ * lists are deactivated and unshared since remarketing lists cannot be
+ * deleted.
+ */
+export class TransactionController {
+  private readonly sheetsService_: SheetsService;
+  private readonly campaignManagerService_: CampaignManagerFacade;
+
+  /**
+   * @constructs an instance of TransactionController.
+   *
+   * @param {!SheetsService} sheetsService The injected SheetsService dependency
+   * @param {!CampaignManagerFacade} campaignManagerService The injected
+   *     CampaignManagerFacade dependency
+   */
+  constructor(
+    sheetsService: SheetsService,
+    campaignManagerService: CampaignManagerFacade
+  ) {
+    this.sheetsService_ = sheetsService;
+    this.campaignManagerService_ = campaignManagerService;
+  }
+
+  /**
+   * Writes the remote state of the remarketing lists and shares affected by
+   * the given jobs, along with their synced state in the audiences sheet, to
+   * the snapshot sheet. Only the lists and shares the jobs change are fetched,
+   * by ID. Any previous snapshot is replaced.
+   *
+   * @param {string} runId The ID of the run the jobs belong to
+   * @param {!Array<!AudienceProcessJob>} audienceJobs The jobs of the run
+   * @param {!Array<!Array<string|number>>} audienceRows The audience rows of
+   *     data from the underlying sheet
+   * @param {{
+   *     sheetName: string,
+   *     headers: !Array<string>,
+   *     row: number,
+   *     col: number,
+   *     checksumCol: number,
+   *     sharesChecksumCol: number,
+   *     jsonCol: number,
+   *     createAudienceAction: string,
+   *     updateAudienceAction: string,
+   *     deactivateAudienceAction: string,
+   *     updateSharesAction: string
+   * }=} params
+   * @returns {!Array<!Array<string|number>>} The snapshot rows
+   */
+  snapshot(
+    runId: string,
+    audienceJobs: AudienceProcessJob[],
+    audienceRows: Array<Array<string | number>>,
+    {
+      sheetName = CONFIG.transaction.sheetName,
+      headers = CONFIG.transaction.headers,
+      row = CONFIG.transaction.row,
+      col = CONFIG.transaction.col,
+      checksumCol = CONFIG.audiences.cols.checksum,
+      sharesChecksumCol = CONFIG.audiences.cols.sharesChecksum,
+      jsonCol = CONFIG.audiences.cols.json,
+      createAudienceAction = CONFIG.audiences.actions.create,
+      updateAudienceAction = CONFIG.audiences.actions.update,
+      deactivateAudienceAction = CONFIG.audiences.actions.deactivate,
+      updateSharesAction = CONFIG.audiences.actions.updateShares,
+    } = {}
+  ) {
+    const snapshotRows: Array<Array<string | number>> = [];
+
+    for (const audienceJob of audienceJobs) {
+      const audience = audienceJob.getAudience();
+      const actions = audienceJob.getActions();
+      const audienceRow = audienceRows[audienceJob.getIndex()];
+      let remoteJson = '';
+      let remoteShares = '';
+
+      // Created lists have no remote state yet and are deactivated instead
+      if (
+        actions.includes(updateAudienceAction) ||
+        actions.includes(deactivateAudienceAction)
+      ) {
+        remoteJson = JSON.stringify(
+          this.getCampaignManagerService().getRemarketingList(
+            audience.getId() as string
+          )
+        );
+      }
+      if (
+        actions.includes(updateSharesAction) &&
+        !actions.includes(createAudienceAction)
+      ) {
+        remoteShares = JSON.stringify(
+          this.getCampaignManagerService().getRemarketingListShares(
+            audience.getId() as string
+          ) ?? []
+        );
+      }
+
+      snapshotRows.push([
+        runId,
+        audienceJob.getIndex(),
+        audience.getId() ?? '',
+        String(audienceRow?.[checksumCol] ?? ''),
+        String(audienceRow?.[sharesChecksumCol] ?? ''),
+        String(audienceRow?.[jsonCol] ?? ''),
+        remoteJson,
+        remoteShares,
+      ]);
+    }
+
+    this.getSheetsService().getOrCreateSheet(sheetName, headers).hideSheet();
+    this.getSheetsService().clearDefinedRange(sheetName, row, col);
+    this.getSheetsService().setValuesInDefinedRange(
+      sheetName,
+      row,
+      col,
+      snapshotRows
+    );
+
+    return snapshotRows;
+  }
+
+  /**
+   * Completes a run once all of its audiences were processed. If the "all or
+   * nothing" mode is enabled and any audience failed, all audiences applied
+   * in the run are reverted to the snapshot taken before the run and their
+   * final state is written to the status column of the audiences sheet.
+   *
+   * @param {!Job} job The job instance passed by the jobs infrastructure,
+   *     holding the processed audience jobs of the run
+   * @param {{
+   *     enabled: boolean,
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     cols: !Object<string, number>,
+   *     audiencesSheetName: string,
+   *     audiencesRow: number,
+   *     statusCol: number
+   * }=} params
+   * @returns {!Job} The modified job instance
+   */
+  commitAudiences(
+    job: Job,
+    {
+      enabled = CONFIG.transaction.enabled,
+      sheetName = CONFIG.transaction.sheetName,
+      row = CONFIG.transaction.row,
+      col = CONFIG.transaction.col,
+      cols = CONFIG.transaction.cols,
+      audiencesSheetName = CONFIG.audiences.sheetName,
+      audiencesRow = CONFIG.audiences.row,
+      statusCol = CONFIG.audiences.cols.status,
+    } = {}
+  ) {
+    const audienceJobs = job.getJobs() as AudienceProcessJob[];
+    const failedJobs = audienceJobs.filter(audienceJob =>
+      audienceJob.isError()
+    );
+
+    if (!enabled || failedJobs.length === 0) {
+      return job;
+    }
+
+    this.getSheetsService().showToast(
+      `${failedJobs.length} audience(s) failed, reverting the run...`,
+      'Transaction - BEGIN'
+    );
+
+    // Failed audiences can't be retried on their own once the run is reverted
+    failedJobs.forEach(audienceJob => audienceJob.setRetryable(false));
+
+    const runId = audienceJobs[0].getRunId();
+    const snapshots = new Map(
+      this.getSheetsService()
+        .getRangeData(sheetName, row, col)
+        .filter(snapshotRow => String(snapshotRow[cols.runId]) === runId)
+        .map(snapshotRow => [Number(snapshotRow[cols.index]), snapshotRow])
+    );
+    const appliedJobs = audienceJobs.filter(
+      audienceJob => !audienceJob.isError()
+    );
+    let reverted = 0;
+
+    for (const audienceJob of appliedJobs) {
+      const name = audienceJob.getAudience().getName();
+      let status;
+
+      try {
+        const snapshotRow = snapshots.get(audienceJob.getIndex());
+
+        if (!snapshotRow) {
+          throw new Error('No snapshot found');
+        }
+        this.revertAudience(audienceJob, snapshotRow);
+
+        status = `Reverted (${JobUtil.getCurrentDateString()})`;
+        reverted++;
+        job.log([`Reverted audience '${name}'`]);
+      } catch (err: unknown) {
+        const error = err as Error;
+        console.log(`Error reverting '${name}'`, error);
+        status = `Revert failed! ${
+          error.message
+        } (${JobUtil.getCurrentDateString()})`;
+        job.log([`Error while reverting audience '${name}'!`]);
+      }
+
+      this.getSheetsService().setCellValue(
+        audiencesRow + audienceJob.getIndex(),
+        statusCol + 1,
+        status,
+        audiencesSheetName
+      );
+    }
+
+    const message =
+      `Reverted ${reverted} of ${appliedJobs.length} applied audience(s) ` +
+      `since ${failedJobs.length} audience(s) failed`;
+    console.log(message);
+    job.log([message]);
+    this.getSheetsService().showToast(message, 'Transaction - END');
+
+    return job;
+  }
+
+  /**
+   * Reverts the changes the given job applied to CM360 and restores the
+   * synced state of the audience in the audiences sheet, so that the next run
+   * detects the reverted changes again. Created audiences are deactivated and
+   * unshared, and keep their ID, so that the next run reactivates rather than
+   * duplicates them.
+   *
+   * @param {!AudienceProcessJob} audienceJob The applied job to revert
+   * @param {!Array<string|number|boolean>} snapshotRow The snapshot of the
+   *     audience taken before the run
+   * @param {{
+   *     cols: !Object<string, number>,
+   *     sheetName: string,
+   *     row: number,
+   *     checksumCol: number,
+   *     sharesChecksumCol: number,
+   *     jsonCol: number,
+   *     listSource: string,
+   *     createAudienceAction: string,
+   *     updateAudienceAction: string,
+   *     deactivateAudienceAction: string,
+   *     updateSharesAction: string
+   * }=} params
+   * @throws {!Error} If the remote state of the audience is unknown
+   */
+  revertAudience(
+    audienceJob: AudienceProcessJob,
+    snapshotRow: Array<string | number | boolean>,
+    {
+      cols = CONFIG.transaction.cols,
+      sheetName = CONFIG.audiences.sheetName,
+      row = CONFIG.audiences.row,
+      checksumCol = CONFIG.audiences.cols.checksum,
+      sharesChecksumCol = CONFIG.audiences.cols.sharesChecksum,
+      jsonCol = CONFIG.audiences.cols.json,
+      listSource = CONFIG.audiences.listSource,
+      createAudienceAction = CONFIG.audiences.actions.create,
+      updateAudienceAction = CONFIG.audiences.actions.update,
+      deactivateAudienceAction = CONFIG.audiences.actions.deactivate,
+      updateSharesAction = CONFIG.audiences.actions.updateShares,
+    } = {}
+  ) {
+    const audience = audienceJob.getAudience();
+    const actions = audienceJob.getActions();
+    const syncedState: Array<[number, string]> = [];
+
+    if (actions.includes(createAudienceAction)) {
+      const deactivated = Audience.fromJson({
+        ...JSON.parse(audience.toJson()),
+        active_: false,
+      });
+      const remarketingList: GoogleAppsScript.CampaignManager.RemarketingList =
+        {
+          id: deactivated.getId(),
+          name: deactivated.getName(),
+          description: deactivated.getDescription(),
+          lifeSpan: deactivated.getLifeSpan(),
+          listPopulationRule: RemarketingListUtil.createListPopulationRule(
+            deactivated.getFloodlightId(),
+            deactivated.getRules()
+          ),
+          active: false,
+          listSource: deactivated.getListSource() ?? listSource,
+        };
+
+      if (deactivated.getAdvertiserId()) {
+        remarketingList.advertiserId = deactivated.getAdvertiserId();
+      }
+      this.getCampaignManagerService().updateRemarketingList(remarketingList);
+      syncedState.push(
+        [checksumCol, deactivated.getChecksum()],
+        [jsonCol, deactivated.toJson()]
+      );
+    } else if (
+      // Lists from other sources can't be updated and were thus not changed
+      !audience.isLocked() &&
+      (actions.includes(updateAudienceAction) ||
+        actions.includes(deactivateAudienceAction))
+    ) {
+      const remoteJson = String(snapshotRow[cols.remoteJson] ?? '');
+
+      if (!remoteJson) {
+        throw new Error('No remote snapshot found');
+      }
+      this.getCampaignManagerService().updateRemarketingList(
+        JSON.parse(remoteJson)
+      );
+      syncedState.push(
+        [checksumCol, String(snapshotRow[cols.checksum] ?? '')],
+        [jsonCol, String(snapshotRow[cols.json] ?? '')]
+      );
+    }
+    if (actions.includes(updateSharesAction)) {
+      // Created lists were not shared with any advertiser before the run
+      const remoteShares = actions.includes(createAudienceAction)
+        ? '[]'
+        : String(snapshotRow[cols.remoteShares] ?? '');
+
+      if (!remoteShares) {
+        throw new Error('No remote shares snapshot found');
+      }
+
+      const remarketingListSharesResource =
+        this.getCampaignManagerService().getRemarketingListSharesResource(
+          audience.getId() as string
+        );
+      remarketingListSharesResource.sharedAdvertiserIds =
+        JSON.parse(remoteShares);
+      this.getCampaignManagerService().updateRemarketingListShares(
+        audience.getId() as string,
+        remarketingListSharesResource
+      );
+      syncedState.push([
+        sharesChecksumCol,
+        String(snapshotRow[cols.sharesChecksum] ?? ''),
+      ]);
+    }
+
+    for (const [syncedCol, value] of syncedState) {
+      this.getSheetsService().setCellValue(
+        row + audienceJob.getIndex(),
+        syncedCol + 1,
+        value,
+        sheetName
+      );
+    }
+  }
+
+  /**
+   * Returns the SheetsService instance.
+   *
+   * @returns {!SheetsService} The SheetsService instance
+   */
+  getSheetsService() {
+    return this.sheetsService_;
+  }
+
+  /**
+   * Returns the CampaignManagerFacade instance.
+   *
+   * @returns {!CampaignManagerFacade} The CampaignManagerFacade instance
+   */
+  getCampaignManagerService() {
+    return this.campaignManagerService_;
+  }
+}
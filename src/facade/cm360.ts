@@ -14,7 +14,8 @@
  * limitations under the License.
  */
 
-import { CampaignManagerApi } from '../api/cm360';
+import { type ApiOptions } from '../api/base';
+import { CampaignManagerApi, type RemarketingListsFilter } from '../api/cm360';
 import { CampaignManagerService } from '../service/cm360';
 import { UriUtil } from '../util/uri';
 
@@ -33,7 +34,11 @@ import { UriUtil } from '../util/uri';
  * CM360 API implementation.
  */
 export class CampaignManagerFacade {
-  private readonly accountData_: { networkId: string; advertiserId: string };
+  private readonly accountData_: {
+    networkId: string;
+    advertiserId: string;
+    advertiserIds?: string[];
+  };
   private readonly apiFirst_: boolean;
   private readonly advertisersFilter: string[];
   private readonly campaignManager_:
@@ -41,25 +46,36 @@ export class CampaignManagerFacade {
     | CampaignManagerService;
 
   /**
-   * @param {{networkId: string, advertiserId: string}} accountData The CM360
-   *     account data
+   * @param {{
+   *     networkId: string,
+   *     advertiserId: string,
+   *     advertiserIds: (!Array<string>|undefined)
+   * }} accountData The CM360 account data. 'advertiserIds' lists all managed
+   *     advertisers, with 'advertiserId' being the default one
    * @param {boolean} apiFirst Whether to access the API directly or not
    * @param {string[]=} advertisersFilter Filter for which advertisers to fetch
    * @param {?Object=} campaignManagerServiceWrapper A wrapper for the built-in
    *     CampaignManager service to facilitate testing
+   * @param {!ApiOptions=} apiOptions The HTTP client, token provider and base
+   *     URL to access the API with directly, e.g. from Node.js
    */
   constructor(
-    accountData: { networkId: string; advertiserId: string },
+    accountData: {
+      networkId: string;
+      advertiserId: string;
+      advertiserIds?: string[];
+    },
     apiFirst: boolean,
     advertisersFilter: string[] = [],
-    campaignManagerServiceWrapper?: GoogleAppsScript.CampaignManager.CampaignManager
+    campaignManagerServiceWrapper?: GoogleAppsScript.CampaignManager.CampaignManager,
+    apiOptions: ApiOptions = {}
   ) {
     this.accountData_ = accountData;
     this.apiFirst_ = apiFirst;
     this.advertisersFilter = advertisersFilter;
 
     this.campaignManager_ = apiFirst
-      ? new CampaignManagerApi(accountData.advertiserId)
+      ? new CampaignManagerApi(accountData.advertiserId, apiOptions)
       : new CampaignManagerService(
           accountData.advertiserId,
           campaignManagerServiceWrapper
@@ -103,26 +119,38 @@ export class CampaignManagerFacade {
    * Retrieves user defined variable configurations for the logged in user and
    * CM360 Network.
    *
+   * @param {string=} advertiserId The CM360 Advertiser ID. Defaults to the
+   *     default advertiser of the account data
    * @returns {UserDefinedVariableConfiguration[]} The user defined variable configuration array
    */
-  getUserDefinedVariableConfigurations(): GoogleAppsScript.CampaignManager.UserDefinedVariableConfiguration[] {
+  getUserDefinedVariableConfigurations(
+    advertiserId?: string
+  ): GoogleAppsScript.CampaignManager.UserDefinedVariableConfiguration[] {
     const profileId = this.getUserProfileId();
 
     return this.getCampaignManager().getUserDefinedVariableConfigurations(
-      profileId
+      profileId,
+      advertiserId
     );
   }
 
   /**
-   * Retrieves configured floodlight activities from the logged in user's
+   * Retrieves all configured floodlight activities from the logged in user's
    * CM360 Network and Advertiser.
    *
+   * @param {string=} advertiserId The CM360 Advertiser ID. Defaults to the
+   *     default advertiser of the account data
    * @returns {FloodlightActivity[]} The floodlight activities array
    */
-  getFloodlightActivities(): GoogleAppsScript.CampaignManager.FloodlightActivity[] {
+  getFloodlightActivities(
+    advertiserId?: string
+  ): GoogleAppsScript.CampaignManager.FloodlightActivity[] {
     const profileId = this.getUserProfileId();
 
-    return this.getCampaignManager().getFloodlightActivities(profileId);
+    return this.getCampaignManager().getFloodlightActivities(
+      profileId,
+      advertiserId
+    );
   }
 
   /**
@@ -152,15 +180,44 @@ export class CampaignManagerFacade {
   }
 
   /**
-   * Retrieves configured remarketing lists from the logged in user's
+   * Retrieves all configured remarketing lists from the logged in user's
    * CM360 Network and Advertiser.
    *
+   * @param {string=} advertiserId The CM360 Advertiser ID. Defaults to the
+   *     default advertiser of the account data
+   * @param {!RemarketingListsFilter=} filter Optional filters applied by the
+   *     API, i.e. the string the list name contains, whether to return active
+   *     lists only and the ID of the floodlight activity populating the lists
    * @returns {RemarketingList[]} The remarketing lists array
    */
-  getRemarketingLists(): GoogleAppsScript.CampaignManager.RemarketingList[] {
+  getRemarketingLists(
+    advertiserId?: string,
+    filter: RemarketingListsFilter = {}
+  ): GoogleAppsScript.CampaignManager.RemarketingList[] {
+    const profileId = this.getUserProfileId();
+
+    return this.getCampaignManager().getRemarketingLists(
+      profileId,
+      advertiserId,
+      filter
+    );
+  }
+
+  /**
+   * Retrieves a single remarketing list by its ID.
+   *
+   * @param {string} remarketingListId The ID of the remarketing list
+   * @returns {RemarketingList} The remarketing list
+   */
+  getRemarketingList(
+    remarketingListId: string
+  ): GoogleAppsScript.CampaignManager.RemarketingList {
     const profileId = this.getUserProfileId();
 
-    return this.getCampaignManager().getRemarketingLists(profileId);
+    return this.getCampaignManager().getRemarketingList(
+      profileId,
+      remarketingListId
+    );
   }
 
   /**
@@ -184,14 +241,18 @@ export class CampaignManagerFacade {
    *
    * @param {RemarketingList} remarketingList The remarketing list object to use for the
    *     create operation
+   * @param {string=} advertiserId The CM360 Advertiser ID to create the
+   *     remarketing list for. Defaults to the default advertiser of the
+   *     account data
    * @returns {RemarketingList} The created remarketingListResource object
    */
   createRemarketingList(
-    remarketingList: GoogleAppsScript.CampaignManager.RemarketingList
+    remarketingList: GoogleAppsScript.CampaignManager.RemarketingList,
+    advertiserId = this.getAccountData().advertiserId
   ): GoogleAppsScript.CampaignManager.RemarketingList {
     const profileId = this.getUserProfileId();
     const extendedRemarketingList = UriUtil.extend(remarketingList, {
-      advertiserId: this.getAccountData().advertiserId,
+      advertiserId,
     }) as GoogleAppsScript.CampaignManager.RemarketingList;
 
     return this.getCampaignManager().createRemarketingList(
@@ -267,12 +328,30 @@ export class CampaignManagerFacade {
   /**
    * Returns the CM360 account data.
    *
-   * @returns {{networkId: string, advertiserId: string}} The CM360 account data
+   * @returns {{
+   *     networkId: string,
+   *     advertiserId: string,
+   *     advertiserIds: (!Array<string>|undefined)
+   * }} The CM360 account data
    */
   getAccountData() {
     return this.accountData_;
   }
 
+  /**
+   * Returns the IDs of all managed CM360 advertisers, falling back to the
+   * default advertiser if none were configured.
+   *
+   * @returns {!Array<string>} The CM360 Advertiser IDs
+   */
+  getAdvertiserIds() {
+    const advertiserIds = this.getAccountData().advertiserIds ?? [];
+
+    return advertiserIds.length > 0
+      ? advertiserIds
+      : [this.getAccountData().advertiserId];
+  }
+
   /**
    * Returns the apiFirst boolean flag.
    *
@@ -16,8 +16,17 @@
 
 import { AudienceProcessJobController } from './controller/audienceProcessJob';
 import { AudiencesController } from './controller/audiences';
+import { CatalogueController } from './controller/catalogue';
+import { CloneController } from './controller/clone';
+import { HistoryController } from './controller/history';
+import { JobQueueController } from './controller/jobQueue';
+import { ScheduleController } from './controller/schedule';
+import { SharesMatrixController } from './controller/sharesMatrix';
+import { TemplatesController } from './controller/templates';
+import { TransactionController } from './controller/transaction';
 import { CampaignManagerFacade } from './facade/cm360';
 import { CONFIG } from './config';
+import { SheetsAudienceRepository } from './repository/sheets';
 import { SheetsService } from './service/sheets';
 import { CustomLogger } from './util/logger';
 import { AudienceLoadJob } from './model/audienceLoadJob';
@@ -41,12 +50,147 @@ let campaignManagerService: CampaignManagerFacade;
 let logger: CustomLogger;
 let audiencesController: AudiencesController;
 let audienceProcessJobController: AudienceProcessJobController;
+let templatesController: TemplatesController;
+let catalogueController: CatalogueController;
+let cloneController: CloneController;
+let historyController: HistoryController;
+let transactionController: TransactionController;
+let jobQueueController: JobQueueController;
+let audienceRepository: SheetsAudienceRepository;
+let scheduleController: ScheduleController;
+let sharesMatrixController: SharesMatrixController;
 
 /**
  * Extract rules from audiences and write to Rules sheet.
+ *
+ * @param {!Array<string>=} audienceIds The IDs of the audiences to extract
+ *     rules for. Defaults to all audiences
+ */
+function extractAndOutputRules(audienceIds?: string[]) {
+  getAudiencesController().extractAndOutputRules(audienceIds);
+}
+
+/**
+ * Expands the audience templates into concrete audiences on the Audiences and
+ * Rules sheets.
+ */
+function expandTemplates() {
+  getTemplatesController().expandTemplates();
+}
+
+/**
+ * Exports all audiences, including their rules and shares, to a catalogue
+ * file.
+ *
+ * @param {string} format The catalogue format, either 'json' or 'csv'
+ * @returns {string} The catalogue file content
+ */
+function exportCatalogue(format: string) {
+  return getCatalogueController().exportCatalogue(format);
+}
+
+/**
+ * Validates the given catalogue file and stages its audiences in the
+ * Audiences and Rules sheets.
+ *
+ * @param {string} content The catalogue file content
+ * @param {string} format The catalogue format, either 'json' or 'csv'
+ */
+function importCatalogue(content: string, format: string) {
+  getCatalogueController().importCatalogue(content, format);
+}
+
+/**
+ * Clones the audiences selected in the Audiences sheet to the given target
+ * advertiser, which may belong to a different network.
+ *
+ * @param {string} targetAdvertiserId The ID of the target advertiser
+ * @param {string=} targetNetworkId The ID of the target network. Defaults to
+ *     the configured network
+ */
+function cloneToAdvertiser(targetAdvertiserId: string, targetNetworkId = '') {
+  const { networkId } = getClientAccountConfiguration();
+  const targetCampaignManagerService =
+    targetNetworkId && targetNetworkId !== networkId
+      ? new CampaignManagerFacade(
+          { networkId: targetNetworkId, advertiserId: targetAdvertiserId },
+          CONFIG.apiFirst
+        )
+      : getCampaignManagerService();
+
+  getCloneController().cloneSelectedAudiences(
+    targetAdvertiserId,
+    targetCampaignManagerService
+  );
+}
+
+/**
+ * Rolls back all audiences changed in the given run, or only the given
+ * audience, to the version they had before that run. The restored audiences
+ * are staged in the sheets and returned as audience process jobs, which are
+ * run by the sidebar.
+ *
+ * @param {string} runId The ID of the run to roll back
+ * @param {string=} audienceId The ID of the only audience to roll back.
+ *     Defaults to all audiences of the run
+ * @returns {string} A JSON string of the job holding the audience process
+ *     jobs
  */
-function extractAndOutputRules() {
-  getAudiencesController().extractAndOutputRules();
+function rollback(runId: string, audienceId = '') {
+  return JSON.stringify(
+    getHistoryController().rollback(new Job(), runId, audienceId)
+  );
+}
+
+/**
+ * Returns the audience process jobs of the last run for resuming it, e.g.
+ * after the sidebar was closed while the run was in progress. Only jobs which
+ * failed or did not complete are run again by the sidebar.
+ *
+ * @returns {string} A JSON string of the job holding the audience process
+ *     jobs of the last run
+ */
+function resumeLastRun() {
+  return JSON.stringify(getJobQueueController().getLastRun(new Job()));
+}
+
+/**
+ * Schedules the given task to run unattended every given number of hours,
+ * replacing any existing schedule.
+ *
+ * @param {string} task The task to run, either 'load' or 'process'
+ * @param {number} everyHours The interval in hours
+ * @returns {string} A JSON string of the new schedule
+ */
+function scheduleSync(task: string, everyHours: number) {
+  return JSON.stringify(
+    getScheduleController().schedule(task, Number(everyHours))
+  );
+}
+
+/**
+ * Removes the schedule along with any scheduled run in progress.
+ */
+function unscheduleSync() {
+  getScheduleController().unschedule();
+}
+
+/**
+ * Returns the current schedule.
+ *
+ * @returns {string} A JSON string of the schedule, or 'null' if nothing is
+ *     scheduled
+ */
+function getSchedule() {
+  return JSON.stringify(getScheduleController().getSchedule());
+}
+
+/**
+ * Entry point of the time-driven triggers created by {@link #scheduleSync},
+ * running the next chunk of the scheduled task.
+ */
+function runScheduledSync() {
+  getScheduleController().run();
 }
 
 /**
@@ -72,10 +216,14 @@ function requestAccess() {
 
 /**
  * Retrieves client account configuration referenced in the associated Google
- * Sheets spreadsheet.
+ * Sheets spreadsheet. The advertiser cell may contain a separated list of
+ * advertiser IDs, the first of which is used as the default advertiser.
  *
- * @returns {{networkId: string, advertiserId: string}} A JS object containing
- *     the CM360 Network and Advertiser ID
+ * @returns {{
+ *     networkId: string,
+ *     advertiserId: string,
+ *     advertiserIds: !Array<string>
+ * }} A JS object containing the CM360 Network and Advertiser IDs
  */
 function getClientAccountConfiguration() {
   const networkId = SheetsService.getInstance().getCellValue(
@@ -89,9 +237,16 @@ function getClientAccountConfiguration() {
     CONFIG.accountData.advertiserId.col
   );
 
+  const advertiserIds = advertiserId
+    .toString()
+    .split(CONFIG.accountData.advertiserId.separator)
+    .map((id: string) => id.trim())
+    .filter((id: string) => id);
+
   return {
     networkId: networkId.toString(),
-    advertiserId: advertiserId.toString(),
+    advertiserId: advertiserIds[0] ?? '',
+    advertiserIds,
   };
 }
 
@@ -126,6 +281,39 @@ function loadAudiences(job: Job) {
   return getAudiencesController().loadAudiences(job);
 }
 
+/**
+ * Saves the filters restricting which audiences are loaded.
+ *
+ * @param {string} json A JSON string of the load filters
+ * @returns {string} A JSON string of the saved load filters
+ */
+function setLoadFilters(json: string) {
+  return JSON.stringify(
+    getAudiencesController().setLoadFilters(JSON.parse(json))
+  );
+}
+
+/**
+ * Returns the saved filters restricting which audiences are loaded.
+ *
+ * @returns {string} A JSON string of the load filters
+ */
+function getLoadFilters() {
+  return JSON.stringify(getAudiencesController().getLoadFilters());
+}
+
+/**
+ * Retrieves configured audience lists from the logged in user's account,
+ * overwriting audiences with pending local changes.
+ * @see jobs.js#forceLoadAudiencesJob
+ *
+ * @param {!Job} job The job instance passed by the jobs infrastructure
+ * @returns {!Job} The modified job instance
+ */
+function forceLoadAudiences(job: Job) {
+  return getAudiencesController().loadAudiences(job, { force: true });
+}
+
 /**
  * Creates a single audience. Triggered once for every added audience from
  * {@link #loadudiences}.
@@ -139,6 +327,65 @@ function loadAudience(job: AudienceLoadJob) {
   return getAudiencesController().loadAudience(job);
 }
 
+/**
+ * Compares the audiences in the associated sheet with their current state in
+ * CM360.
+ * @see jobs.js#checkDriftJob
+ *
+ * @param {!Job} job The job instance passed by the jobs infrastructure
+ * @returns {!Job} The modified job instance
+ */
+function checkDrift(job: Job) {
+  return getAudiencesController().checkDrift(job);
+}
+
+/**
+ * Refreshes the size and status of the remarketing lists of all audiences in
+ * the associated sheet.
+ * @see jobs.js#refreshStatsJob
+ *
+ * @param {!Job} job The job instance passed by the jobs infrastructure
+ * @returns {!Job} The modified job instance
+ */
+function refreshStats(job: Job) {
+  return getAudiencesController().refreshStats(job);
+}
+
+/**
+ * Generates the shares matrix of all synced audiences in the associated sheet.
+ * @see jobs.js#buildSharesMatrixJob
+ *
+ * @param {!Job} job The job instance passed by the jobs infrastructure
+ * @returns {!Job} The modified job instance
+ */
+function buildSharesMatrix(job: Job) {
+  return getSharesMatrixController().buildSharesMatrix(job);
+}
+
+/**
+ * Creates share update jobs for all audiences changed in the shares matrix.
+ * @see jobs.js#applySharesMatrixJob
+ *
+ * @param {!Job} job The job instance passed by the jobs infrastructure
+ * @returns {!Job} The modified job instance
+ */
+function applySharesMatrix(job: Job) {
+  return getSharesMatrixController().applySharesMatrix(job);
+}
+
+/**
+ * Checks a single audience for drift. Triggered once for every audience from
+ * {@link #checkDrift}.
+ * @see jobs.js#checkAudienceDriftJob
+ *
+ * @param {!AudienceLoadJob} job The job instance passed by the jobs
+ *     infrastructure
+ * @returns {!AudienceLoadJob} The job instance
+ */
+function checkAudienceDrift(job: AudienceLoadJob) {
+  return getAudiencesController().checkAudienceDrift(job);
+}
+
 /**
  * Clears all logs from the log sheet.
  *
@@ -172,6 +419,18 @@ function processAudiences(job: Job) {
   return getAudienceProcessJobController().processAudiences(job);
 }
 
+/**
+ * Previews the changes {@link #processAudiences} would make and writes them to
+ * the plan sheet without modifying anything in CM360.
+ * @see jobs.js#planAudiencesJob
+ *
+ * @param {!Job} job The job instance passed by the jobs infrastructure
+ * @returns {!Job} The modified job instance
+ */
+function planAudiences(job: Job) {
+  return getAudienceProcessJobController().planAudiences(job);
+}
+
 /**
  * Creates a single audience. Triggered once for every added audience from
  * {@link #processAudiences}.
@@ -185,6 +444,20 @@ function processAudience(job: AudienceProcessJob) {
   return getAudienceProcessJobController().processAudience(job);
 }
 
+/**
+ * Completes a run once all of its audiences were processed, reverting the
+ * applied audiences if any audience failed and the "all or nothing" mode is
+ * enabled.
+ * @see jobs.js#commitAudiencesJob
+ *
+ * @param {!Job} job The job instance passed by the jobs infrastructure,
+ *     holding the processed audience jobs of the run
+ * @returns {!Job} The modified job instance
+ */
+function commitAudiences(job: Job) {
+  return getTransactionController().commitAudiences(job);
+}
+
 /**
  * Returns the SheetsService instance, initializing it if it does not exist yet.
  *
@@ -238,7 +511,8 @@ function getAudiencesController() {
   if (typeof audiencesController === 'undefined') {
     audiencesController = new AudiencesController(
       SheetsService.getInstance(),
-      getCampaignManagerService()
+      getCampaignManagerService(),
+      getAudienceRepository()
     );
   }
   return audiencesController;
@@ -255,8 +529,159 @@ function getAudienceProcessJobController() {
   if (typeof audienceProcessJobController === 'undefined') {
     audienceProcessJobController = new AudienceProcessJobController(
       SheetsService.getInstance(),
-      getCampaignManagerService()
+      getCampaignManagerService(),
+      getJobQueueController(),
+      getAudienceRepository()
     );
   }
   return audienceProcessJobController;
 }
+
+/**
+ * Returns the TemplatesController instance, initializing it if it does not
+ * exist yet.
+ *
+ * @returns {!TemplatesController} The initialized TemplatesController instance
+ */
+function getTemplatesController() {
+  if (typeof templatesController === 'undefined') {
+    templatesController = new TemplatesController(
+      SheetsService.getInstance(),
+      getCampaignManagerService()
+    );
+  }
+  return templatesController;
+}
+
+/**
+ * Returns the CatalogueController instance, initializing it if it does not
+ * exist yet.
+ *
+ * @returns {!CatalogueController} The initialized CatalogueController instance
+ */
+function getCatalogueController() {
+  if (typeof catalogueController === 'undefined') {
+    catalogueController = new CatalogueController(
+      SheetsService.getInstance(),
+      getCampaignManagerService()
+    );
+  }
+  return catalogueController;
+}
+
+/**
+ * Returns the CloneController instance, initializing it if it does not exist
+ * yet.
+ *
+ * @returns {!CloneController} The initialized CloneController instance
+ */
+function getCloneController() {
+  if (typeof cloneController === 'undefined') {
+    cloneController = new CloneController(
+      SheetsService.getInstance(),
+      getCampaignManagerService()
+    );
+  }
+  return cloneController;
+}
+
+/**
+ * Returns the HistoryController instance, initializing it if it does not
+ * exist yet.
+ *
+ * @returns {!HistoryController} The initialized HistoryController instance
+ */
+function getHistoryController() {
+  if (typeof historyController === 'undefined') {
+    historyController = new HistoryController(
+      SheetsService.getInstance(),
+      getCampaignManagerService(),
+      getAudienceProcessJobController(),
+      getAudiencesController()
+    );
+  }
+  return historyController;
+}
+
+/**
+ * Returns the TransactionController instance, initializing it if it does not
+ * exist yet.
+ *
+ * @returns {!TransactionController} The initialized TransactionController
+ *     instance
+ */
+function getTransactionController() {
+  if (typeof transactionController === 'undefined') {
+    transactionController = new TransactionController(
+      SheetsService.getInstance(),
+      getCampaignManagerService()
+    );
+  }
+  return transactionController;
+}
+
+/**
+ * Returns the JobQueueController instance, initializing it if it does not
+ * exist yet.
+ *
+ * @returns {!JobQueueController} The initialized JobQueueController instance
+ */
+function getJobQueueController() {
+  if (typeof jobQueueController === 'undefined') {
+    jobQueueController = new JobQueueController(
+      SheetsService.getInstance(),
+      getCampaignManagerService()
+    );
+  }
+  return jobQueueController;
+}
+
+/**
+ * Returns the SheetsAudienceRepository instance, initializing it if it does
+ * not exist yet.
+ *
+ * @returns {!SheetsAudienceRepository} The initialized SheetsAudienceRepository
+ *     instance
+ */
+function getAudienceRepository() {
+  if (typeof audienceRepository === 'undefined') {
+    audienceRepository = new SheetsAudienceRepository(
+      SheetsService.getInstance(),
+      getCampaignManagerService()
+    );
+  }
+  return audienceRepository;
+}
+
+/**
+ * Returns the ScheduleController instance, initializing it if it does not
+ * exist yet.
+ *
+ * @returns {!ScheduleController} The initialized ScheduleController instance
+ */
+function getScheduleController() {
+  if (typeof scheduleController === 'undefined') {
+    scheduleController = new ScheduleController(
+      SheetsService.getInstance(),
+      getCampaignManagerService()
+    );
+  }
+  return scheduleController;
+}
+
+/**
+ * Returns the SharesMatrixController instance, initializing it if it does not
+ * exist yet.
+ *
+ * @returns {!SharesMatrixController} The initialized SharesMatrixController
+ *     instance
+ */
+function getSharesMatrixController() {
+  if (typeof sharesMatrixController === 'undefined') {
+    sharesMatrixController = new SharesMatrixController(
+      SheetsService.getInstance(),
+      getCampaignManagerService()
+    );
+  }
+  return sharesMatrixController;
+}
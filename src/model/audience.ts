@@ -14,12 +14,18 @@
  * limitations under the License.
  */
 
+import { CONFIG } from '../config';
 import { generateMD5Hash } from '../util/hash';
 
 /**
  * @fileoverview This file contains the definition of an audience.
  */
 
+/**
+ * A single audience rule, corresponding to one row of the rules sheet. Rules
+ * without a type are custom variable terms. List membership terms hold the
+ * remarketing list ID as value and use negation for 'not a member of'.
+ */
 export interface AudienceRule {
   group: number;
   variableName: string;
@@ -27,6 +33,14 @@ export interface AudienceRule {
   operator: string;
   value: string;
   negation: boolean;
+  type?: string;
+  contextVariable?: string;
+}
+
+export interface AudienceChange {
+  field: string;
+  oldValue: string;
+  newValue: string;
 }
 
 interface AudienceParameters {
@@ -38,6 +52,10 @@ interface AudienceParameters {
   floodlightName?: string;
   rules: AudienceRule[];
   shares: string[];
+  active?: boolean;
+  advertiserId?: string;
+  listSize?: number;
+  listSource?: string;
 }
 
 /**
@@ -52,6 +70,10 @@ export class Audience {
   private readonly floodlightName_: string | undefined;
   private readonly rules_: AudienceRule[];
   private shares_: string[];
+  private readonly active_: boolean;
+  private readonly advertiserId_: string | undefined;
+  private readonly listSize_: number | undefined;
+  private readonly listSource_: string | undefined;
 
   /**
    * @constructs an instance of Audience.
@@ -67,6 +89,10 @@ export class Audience {
     this.floodlightName_ = params.floodlightName;
     this.rules_ = params.rules?.length > 0 ? params.rules : [];
     this.shares_ = params.shares?.length > 0 ? params.shares : [];
+    this.active_ = params.active ?? true;
+    this.advertiserId_ = params.advertiserId || undefined;
+    this.listSize_ = params.listSize;
+    this.listSource_ = params.listSource || undefined;
   }
 
   /**
@@ -159,6 +185,60 @@ export class Audience {
     this.shares_ = shares;
   }
 
+  /**
+   * Returns whether the audience is active.
+   *
+   * @returns {boolean} Whether the audience is active
+   */
+  isActive(): boolean {
+    return this.active_;
+  }
+
+  /**
+   * Returns the ID of the advertiser the audience belongs to.
+   *
+   * @returns {string|undefined} The advertiser ID, or undefined if the
+   *     audience belongs to the default advertiser
+   */
+  getAdvertiserId(): string | undefined {
+    return this.advertiserId_;
+  }
+
+  /**
+   * Returns the number of users in the remarketing list, as reported by CM360.
+   * Read-only and thus not part of the checksum.
+   *
+   * @returns {number|undefined} The list size, or undefined if the audience
+   *     was not loaded from CM360
+   */
+  getListSize(): number | undefined {
+    return this.listSize_;
+  }
+
+  /**
+   * Returns the source of the remarketing list, e.g. whether it originates
+   * from CM360 itself or from DV360, Google Ads or a third party.
+   *
+   * @returns {string|undefined} The list source, or undefined if the audience
+   *     was not loaded from CM360
+   */
+  getListSource(): string | undefined {
+    return this.listSource_;
+  }
+
+  /**
+   * Returns whether the remarketing list is locked, i.e. originates from a
+   * source other than CM360 and thus cannot be updated. Locked lists can
+   * still be shared.
+   *
+   * @param {string=} editableListSource The only list source that can be
+   *     updated
+   * @returns {boolean} Whether the remarketing list is locked
+   */
+  isLocked(editableListSource = CONFIG.audiences.listSource): boolean {
+    return !!this.listSource_ && this.listSource_ !== editableListSource;
+  }
+
   /**
    * Calculate MD5 checksum of some audience fields.
    *
@@ -170,7 +250,10 @@ export class Audience {
       lifespan: this.lifeSpan_,
       description: this.description_,
       floodlightId: this.floodlightId_,
-      rules: this.rules_,
+      rules: Audience.canonicalizeRules(this.rules_),
+      // Only considered for inactive audiences so that checksums of existing
+      // (active) audiences remain stable
+      active: this.active_ ? undefined : false,
     });
 
     // return HashUtil.generateMD5Hash(input);
@@ -189,6 +272,211 @@ export class Audience {
     return generateMD5Hash(input);
   }
 
+  /**
+   * Returns the actions needed to push this audience to CM360, given the
+   * checksums it had when it was last synced. Audiences without a checksum
+   * have not been created yet, while changes to locked audiences are never
+   * pushed apart from their shares.
+   *
+   * @param {string} checksum The synced audience checksum
+   * @param {string} sharesChecksum The synced shares checksum
+   * @param {boolean=} overwrite Whether to push the audience even if it did
+   *     not change, e.g. to resolve a drift
+   * @param {{
+   *     createAudienceAction: string,
+   *     updateAudienceAction: string,
+   *     deactivateAudienceAction: string,
+   *     updateSharesAction: string
+   * }=} params
+   * @returns {!Array<string>} The pending actions
+   */
+  getPendingActions(
+    checksum: string,
+    sharesChecksum: string,
+    overwrite = false,
+    {
+      createAudienceAction = CONFIG.audiences.actions.create,
+      updateAudienceAction = CONFIG.audiences.actions.update,
+      deactivateAudienceAction = CONFIG.audiences.actions.deactivate,
+      updateSharesAction = CONFIG.audiences.actions.updateShares,
+    } = {}
+  ) {
+    const actions = [];
+
+    if (!checksum) {
+      actions.push(createAudienceAction);
+    } else if (
+      !this.isLocked() &&
+      (overwrite || checksum !== this.getChecksum())
+    ) {
+      actions.push(
+        this.isActive() ? updateAudienceAction : deactivateAudienceAction
+      );
+    }
+
+    if (overwrite || sharesChecksum !== this.getSharesChecksum()) {
+      actions.push(updateSharesAction);
+    }
+
+    return actions;
+  }
+
+  /**
+   * Compares this audience with a previous version of it and returns a
+   * field-level list of changes. Every field is reported as changed if no
+   * previous version is given (i.e. the audience is new).
+   *
+   * @param {Audience=} previous The previous version of the audience
+   * @returns {!Array<!AudienceChange>} The changed fields
+   */
+  getChanges(previous?: Audience): AudienceChange[] {
+    const fields: Array<[string, (audience: Audience) => string]> = [
+      ['name', audience => audience.getName()],
+      ['description', audience => audience.getDescription()],
+      ['lifeSpan', audience => String(audience.getLifeSpan())],
+      ['floodlightId', audience => audience.getFloodlightId() ?? ''],
+      ['rules', audience => Audience.rulesToString(audience.getRules())],
+      ['shares', audience => [...audience.getShares()].sort().join(', ')],
+      ['active', audience => String(audience.isActive())],
+    ];
+    const changes: AudienceChange[] = [];
+
+    for (const [field, getValue] of fields) {
+      const oldValue = previous ? getValue(previous) : '';
+      const newValue = getValue(this);
+
+      if (oldValue !== newValue) {
+        changes.push({ field, oldValue, newValue });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Returns the given audience rules in a canonical form for checksum
+   * calculation. Fields are always emitted in the same order and type
+   * specific fields are omitted for custom variable terms, so that checksums
+   * of existing audiences remain stable.
+   *
+   * @param {!Array<!AudienceRule>} rules The audience rules
+   * @param {string=} defaultType The default term type
+   * @returns {!Array<!Object>} The canonical audience rules
+   */
+  static canonicalizeRules(
+    rules: AudienceRule[],
+    defaultType = CONFIG.rules.termTypes.customVariable
+  ) {
+    return rules.map(rule => {
+      const canonical: Record<string, unknown> = {
+        group: rule.group,
+        variableName: rule.variableName,
+        variableFriendlyName: rule.variableFriendlyName,
+        operator: rule.operator,
+        value: rule.value,
+        negation: rule.negation,
+      };
+
+      if (rule.type && rule.type !== defaultType) {
+        canonical.type = rule.type;
+      }
+      if (rule.contextVariable) {
+        canonical.contextVariable = rule.contextVariable;
+      }
+      return canonical;
+    });
+  }
+
+  /**
+   * Splits rules holding multiple separated values into one rule per value,
+   * which is how they are represented as list population terms in CM360.
+   *
+   * @param {!Array<!AudienceRule>} rules The audience rules
+   * @param {string=} separator The separator of multiple values
+   * @returns {!Array<!AudienceRule>} The split audience rules
+   */
+  static splitRuleValues(
+    rules: AudienceRule[],
+    separator = ','
+  ): AudienceRule[] {
+    return rules.flatMap(rule =>
+      Audience.splitRuleValue(rule.value, separator).map(value => ({
+        ...rule,
+        value,
+      }))
+    );
+  }
+
+  /**
+   * Splits the value of a rule into its separated values. A separator preceded
+   * by a backslash is part of a value, while all other backslashes are kept as
+   * they are, so that existing values holding backslashes keep their meaning.
+   *
+   * @param {string} value The value of the rule
+   * @param {string=} separator The separator of multiple values
+   * @returns {!Array<string>} The separated values
+   */
+  static splitRuleValue(value: string, separator = ','): string[] {
+    const values: string[] = [];
+    let current = '';
+
+    for (let index = 0; index < value.length; index++) {
+      if (value[index] === '\\' && value.startsWith(separator, index + 1)) {
+        current += separator;
+        index += separator.length;
+      } else if (value.startsWith(separator, index)) {
+        values.push(current);
+        current = '';
+        index += separator.length - 1;
+      } else {
+        current += value[index];
+      }
+    }
+    values.push(current);
+
+    return values;
+  }
+
+  /**
+   * Escapes a single value so that it is kept as one value by
+   * {@link #splitRuleValue}, e.g. quoted values of rule expressions or values
+   * of list population terms holding the separator. Only separators are
+   * escaped, so values without separators are kept as they are.
+   *
+   * @param {string} value The single value
+   * @param {string=} separator The separator of multiple values
+   * @returns {string} The escaped value
+   */
+  static escapeRuleValue(value: string, separator = ','): string {
+    return value.split(separator).join(`\\${separator}`);
+  }
+
+  /**
+   * Renders the given audience rules as a human readable string with one line
+   * per rule.
+   *
+   * @param {!Array<!AudienceRule>} rules The audience rules
+   * @param {string=} listMembershipTermType The list membership term type
+   * @returns {string} The rendered rules
+   */
+  static rulesToString(
+    rules: AudienceRule[],
+    listMembershipTermType = CONFIG.rules.termTypes.listMembership
+  ): string {
+    return rules
+      .map(rule => {
+        const prefix = `${rule.group}: ${rule.negation ? 'NOT ' : ''}`;
+
+        if (rule.type === listMembershipTermType) {
+          return `${prefix}IN_LIST ${rule.value}`;
+        }
+        const variable = rule.variableName || rule.contextVariable || '';
+
+        return `${prefix}${variable} ${rule.operator} ${rule.value}`;
+      })
+      .join('\n');
+  }
+
   /**
    * Return string representation of Audience.
    *
@@ -215,6 +503,10 @@ export class Audience {
       floodlightName: json.floodlightName_,
       rules: json.rules_,
       shares: json.shares_,
+      active: json.active_,
+      advertiserId: json.advertiserId_,
+      listSize: json.listSize_,
+      listSource: json.listSource_,
     });
   }
 }
@@ -23,6 +23,8 @@ import { Job, JobType, JobParams } from './job';
 export class AudienceProcessJob extends Job {
   private readonly audience_: Audience;
   private readonly actions_: string[];
+  private readonly runId_: string;
+  private retryable_: boolean;
   protected readonly type: JobType = JobType.AUDIENCE_PROCESS;
 
   /**
@@ -32,6 +34,8 @@ export class AudienceProcessJob extends Job {
    *   idx: number,
    *   audience: !Audience,
    *   actions: string[],
+   *   runId: (string|undefined),
+   *   retryable: (boolean|undefined),
    * }} extParams
    * @param {JobParams=} baseParams
    */
@@ -40,7 +44,15 @@ export class AudienceProcessJob extends Job {
       idx,
       audience,
       actions,
-    }: { idx: number; audience: Audience; actions: string[] },
+      runId = '',
+      retryable = false,
+    }: {
+      idx: number;
+      audience: Audience;
+      actions: string[];
+      runId?: string;
+      retryable?: boolean;
+    },
     baseParams?: JobParams
   ) {
     super(
@@ -54,6 +66,8 @@ export class AudienceProcessJob extends Job {
     );
     this.audience_ = audience;
     this.actions_ = actions;
+    this.runId_ = runId;
+    this.retryable_ = retryable;
   }
 
   /**
@@ -73,4 +87,34 @@ export class AudienceProcessJob extends Job {
   getActions() {
     return this.actions_;
   }
+
+  /**
+   * Returns the ID of the run this job belongs to, used to group the history
+   * entries of all audiences processed together.
+   *
+   * @returns {string} The run ID
+   */
+  getRunId() {
+    return this.runId_;
+  }
+
+  /**
+   * Returns whether the error the job failed with may go away when the job is
+   * retried, as opposed to permanent errors such as invalid audiences.
+   *
+   * @returns {boolean} Whether the job can be retried
+   */
+  isRetryable() {
+    return this.retryable_;
+  }
+
+  /**
+   * Sets whether the error the job failed with may go away when the job is
+   * retried.
+   *
+   * @param {boolean} retryable Whether the job can be retried
+   */
+  setRetryable(retryable: boolean) {
+    this.retryable_ = retryable;
+  }
 }
@@ -55,11 +55,19 @@ export enum JobType {
  */
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const JobName = {
+  APPLY_SHARES_MATRIX: 'applySharesMatrixJob',
+  BUILD_SHARES_MATRIX: 'buildSharesMatrixJob',
+  CHECK_DRIFT: 'checkDriftJob',
+  CHECK_AUDIENCE_DRIFT: 'checkAudienceDriftJob',
   CLEAR_LOGS: 'clearLogsJob',
+  COMMIT_AUDIENCES: 'commitAudiencesJob',
+  FORCE_LOAD_AUDIENCES: 'forceLoadAudiencesJob',
   LOAD_AUDIENCES: 'loadAudiencesJob',
   LOAD_AUDIENCE: 'loadAudienceJob',
+  PLAN_AUDIENCES: 'planAudiencesJob',
   PROCESS_AUDIENCES: 'processAudiencesJob',
   PROCESS_AUDIENCE: 'processAudienceJob',
+  REFRESH_STATS: 'refreshStatsJob',
   WRITE_LOGS: 'writeLogsJob',
 };
 
@@ -276,6 +284,15 @@ export class Job {
     this.offset_ = offset;
   }
 
+  /**
+   * Returns the job's status.
+   *
+   * @returns {!JobStatus} The job's status
+   */
+  getStatus() {
+    return this.status_;
+  }
+
   /**
    * Returns the job's error.
    *
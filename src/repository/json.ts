@@ -0,0 +1,161 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from 'fs';
+
+import { type Audience } from '../model/audience';
+import { type JobLog } from '../model/job';
+import { InMemoryAudienceRepository } from './memory';
+import {
+  type NamedEntity,
+  type SyncedAudience,
+  type SyncState,
+} from './repository';
+
+/**
+ * @fileoverview This file contains an {@link AudienceRepository} persisting
+ * all data in a JSON file. It depends on the Node.js file system and must not
+ * be bundled into the Apps Script project.
+ */
+
+/**
+ * JsonFileAudienceRepository representing an {@link AudienceRepository}
+ * backed by a JSON file. The file is read once on construction and rewritten
+ * on every change.
+ */
+export class JsonFileAudienceRepository extends InMemoryAudienceRepository {
+  private readonly filePath_: string;
+
+  /**
+   * @constructs an instance of JsonFileAudienceRepository. A missing file is
+   * treated as an empty repository and only created on the first change.
+   *
+   * @param {string} filePath The path of the JSON file
+   * @throws {!Error} If the file exists but is not valid JSON
+   */
+  constructor(filePath: string) {
+    super(
+      fs.existsSync(filePath)
+        ? JSON.parse(fs.readFileSync(filePath, 'utf8'))
+        : {}
+    );
+    this.filePath_ = filePath;
+  }
+
+  /**
+   * Stores the given audiences, including their rules, and writes the file.
+   *
+   * @param {!Array<!SyncedAudience>} audiences The audiences to store
+   * @returns {!Array<number>} The index of every given audience
+   */
+  saveAudiences(audiences: SyncedAudience[]) {
+    const indices = super.saveAudiences(audiences);
+    this.flush();
+
+    return indices;
+  }
+
+  /**
+   * Updates the sync state of the audience at the given index and writes the
+   * file.
+   *
+   * @param {number} index The index of the audience
+   * @param {string} audienceId The ID of the audience
+   * @param {!Partial<!SyncState>} state The fields to update
+   */
+  saveSyncState(index: number, audienceId: string, state: Partial<SyncState>) {
+    super.saveSyncState(index, audienceId, state);
+    this.flush();
+  }
+
+  /**
+   * Replaces the rules of the given audiences and writes the file.
+   *
+   * @param {!Array<!Audience>} audiences The audiences holding the new rules
+   */
+  saveRules(audiences: Audience[]) {
+    super.saveRules(audiences);
+    this.flush();
+  }
+
+  /**
+   * Replaces the advertisers and writes the file.
+   *
+   * @param {!Array<!NamedEntity>} advertisers The advertisers
+   */
+  saveAdvertisers(advertisers: NamedEntity[]) {
+    super.saveAdvertisers(advertisers);
+    this.flush();
+  }
+
+  /**
+   * Replaces the floodlight activities and writes the file.
+   *
+   * @param {!Array<!NamedEntity>} floodlightActivities The floodlight
+   *     activities
+   */
+  saveFloodlightActivities(floodlightActivities: NamedEntity[]) {
+    super.saveFloodlightActivities(floodlightActivities);
+    this.flush();
+  }
+
+  /**
+   * Replaces the user defined variables and writes the file.
+   *
+   * @param {!Array<!NamedEntity>} customVariables The user defined variables
+   */
+  saveCustomVariables(customVariables: NamedEntity[]) {
+    super.saveCustomVariables(customVariables);
+    this.flush();
+  }
+
+  /**
+   * Appends the given job logs and writes the file.
+   *
+   * @param {!Array<!JobLog>} logs The job logs to append
+   */
+  appendLogs(logs: JobLog[]) {
+    super.appendLogs(logs);
+    this.flush();
+  }
+
+  /**
+   * Removes all job logs and writes the file.
+   */
+  clearLogs() {
+    super.clearLogs();
+    this.flush();
+  }
+
+  /**
+   * Writes the state of the repository to the JSON file.
+   */
+  flush() {
+    fs.writeFileSync(
+      this.filePath_,
+      `${JSON.stringify(this.getState(), null, 2)}\n`
+    );
+  }
+
+  /**
+   * Returns the path of the JSON file.
+   *
+   * @returns {string} The path of the JSON file
+   */
+  getFilePath() {
+    return this.filePath_;
+  }
+}
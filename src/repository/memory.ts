@@ -0,0 +1,300 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { type Audience, type AudienceRule } from '../model/audience';
+import { type JobLog } from '../model/job';
+import { type CatalogueAudience, CatalogueUtil } from '../util/catalogue';
+import {
+  type AudienceRepository,
+  type NamedEntity,
+  type SyncedAudience,
+  type SyncState,
+} from './repository';
+
+/**
+ * @fileoverview This file contains an {@link AudienceRepository} keeping all
+ * data in memory, e.g. for tests or for the Node CLI.
+ */
+
+/**
+ * A stored audience. Rules are kept separately, keyed by audience ID, in the
+ * same way as in the Audiences and Rules sheets.
+ */
+export type StoredAudience = Omit<CatalogueAudience, 'rules'> &
+  Omit<SyncedAudience, 'audience'>;
+
+/**
+ * The plain, JSON serializable state of an in-memory repository.
+ */
+export interface RepositoryState {
+  audiences: StoredAudience[];
+  rules: Record<string, AudienceRule[]>;
+  advertisers: NamedEntity[];
+  floodlightActivities: NamedEntity[];
+  customVariables: NamedEntity[];
+  logs: JobLog[];
+}
+
+/**
+ * InMemoryAudienceRepository representing an {@link AudienceRepository}
+ * backed by a plain object.
+ */
+export class InMemoryAudienceRepository implements AudienceRepository {
+  protected state_: RepositoryState;
+
+  /**
+   * @constructs an instance of InMemoryAudienceRepository.
+   *
+   * @param {!Partial<!RepositoryState>=} state Optional initial state
+   */
+  constructor(state: Partial<RepositoryState> = {}) {
+    this.state_ = InMemoryAudienceRepository.createState(state);
+  }
+
+  /**
+   * Creates a complete repository state from the given partial one.
+   *
+   * @param {!Partial<!RepositoryState>} state The partial state
+   * @returns {!RepositoryState} The complete state
+   */
+  static createState(state: Partial<RepositoryState>): RepositoryState {
+    return {
+      audiences: state.audiences ?? [],
+      rules: state.rules ?? {},
+      advertisers: state.advertisers ?? [],
+      floodlightActivities: state.floodlightActivities ?? [],
+      customVariables: state.customVariables ?? [],
+      logs: state.logs ?? [],
+    };
+  }
+
+  /**
+   * Returns all stored audiences, including their rules.
+   *
+   * @returns {!Array<!SyncedAudience>} The stored audiences
+   */
+  getAudiences(): SyncedAudience[] {
+    return this.state_.audiences.map(
+      ({ checksum, sharesChecksum, json, status, ...entry }) => ({
+        audience: CatalogueUtil.fromEntry({
+          ...entry,
+          rules: this.getRules(entry.id),
+        }),
+        checksum,
+        sharesChecksum,
+        json,
+        status,
+      })
+    );
+  }
+
+  /**
+   * Stores the given audiences, including their rules. Audiences without an
+   * ID have not been created in CM360 yet and are always added.
+   *
+   * @param {!Array<!SyncedAudience>} audiences The audiences to store
+   * @returns {!Array<number>} The index of every given audience
+   */
+  saveAudiences(audiences: SyncedAudience[]) {
+    const indices: number[] = [];
+
+    for (const {
+      audience,
+      checksum,
+      sharesChecksum,
+      json,
+      status,
+    } of audiences) {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { rules, ...entry } = CatalogueUtil.toEntry(audience);
+      const storedAudience = {
+        ...entry,
+        checksum,
+        sharesChecksum,
+        json,
+        status,
+      };
+      const index = entry.id
+        ? this.state_.audiences.findIndex(stored => stored.id === entry.id)
+        : -1;
+
+      if (index === -1) {
+        indices.push(this.state_.audiences.push(storedAudience) - 1);
+      } else {
+        this.state_.audiences[index] = storedAudience;
+        indices.push(index);
+      }
+    }
+    this.saveRules(audiences.map(({ audience }) => audience));
+
+    return indices;
+  }
+
+  /**
+   * Returns the sync state of the audience at the given index.
+   *
+   * @param {number} index The index of the audience
+   * @returns {!SyncState|undefined} The sync state, or undefined if there is
+   *     no audience at the given index
+   */
+  getSyncState(index: number): SyncState | undefined {
+    const stored = this.state_.audiences[index];
+
+    return (
+      stored && {
+        checksum: stored.checksum,
+        sharesChecksum: stored.sharesChecksum,
+        json: stored.json,
+        status: stored.status,
+      }
+    );
+  }
+
+  /**
+   * Updates the sync state of the audience at the given index, keeping its
+   * definition. The rules of the audience move along with a changed ID.
+   *
+   * @param {number} index The index of the audience
+   * @param {string} audienceId The ID of the audience
+   * @param {!Partial<!SyncState>} state The fields to update
+   */
+  saveSyncState(index: number, audienceId: string, state: Partial<SyncState>) {
+    const stored = this.state_.audiences[index];
+
+    if (!stored) {
+      return;
+    }
+    if (stored.id !== audienceId) {
+      this.state_.rules[audienceId] = this.state_.rules[stored.id] ?? [];
+      delete this.state_.rules[stored.id];
+      stored.id = audienceId;
+    }
+    Object.assign(stored, state);
+  }
+
+  /**
+   * Returns the rules of the given audience.
+   *
+   * @param {string} audienceId The audience ID
+   * @returns {!Array<!AudienceRule>} The rules of the audience
+   */
+  getRules(audienceId: string) {
+    return (this.state_.rules[audienceId] ?? []).map(rule => ({ ...rule }));
+  }
+
+  /**
+   * Replaces the rules of the given audiences, keeping the rules of all other
+   * audiences.
+   *
+   * @param {!Array<!Audience>} audiences The audiences holding the new rules
+   */
+  saveRules(audiences: Audience[]) {
+    for (const audience of audiences) {
+      this.state_.rules[audience.getId() ?? ''] = audience
+        .getRules()
+        .map(rule => ({ ...rule }));
+    }
+  }
+
+  /**
+   * Returns the advertisers audiences can be shared with.
+   *
+   * @returns {!Array<!NamedEntity>} The advertisers
+   */
+  getAdvertisers() {
+    return [...this.state_.advertisers];
+  }
+
+  /**
+   * Replaces the advertisers audiences can be shared with.
+   *
+   * @param {!Array<!NamedEntity>} advertisers The advertisers
+   */
+  saveAdvertisers(advertisers: NamedEntity[]) {
+    this.state_.advertisers = [...advertisers];
+  }
+
+  /**
+   * Returns the floodlight activities audiences can be based on.
+   *
+   * @returns {!Array<!NamedEntity>} The floodlight activities
+   */
+  getFloodlightActivities() {
+    return [...this.state_.floodlightActivities];
+  }
+
+  /**
+   * Replaces the floodlight activities audiences can be based on.
+   *
+   * @param {!Array<!NamedEntity>} floodlightActivities The floodlight
+   *     activities
+   */
+  saveFloodlightActivities(floodlightActivities: NamedEntity[]) {
+    this.state_.floodlightActivities = [...floodlightActivities];
+  }
+
+  /**
+   * Returns the user defined variables rules can refer to.
+   *
+   * @returns {!Array<!NamedEntity>} The user defined variables
+   */
+  getCustomVariables() {
+    return [...this.state_.customVariables];
+  }
+
+  /**
+   * Replaces the user defined variables rules can refer to.
+   *
+   * @param {!Array<!NamedEntity>} customVariables The user defined variables
+   */
+  saveCustomVariables(customVariables: NamedEntity[]) {
+    this.state_.customVariables = [...customVariables];
+  }
+
+  /**
+   * Returns all job logs.
+   *
+   * @returns {!Array<!JobLog>} The job logs
+   */
+  getLogs() {
+    return [...this.state_.logs];
+  }
+
+  /**
+   * Appends the given job logs.
+   *
+   * @param {!Array<!JobLog>} logs The job logs to append
+   */
+  appendLogs(logs: JobLog[]) {
+    this.state_.logs.push(...logs);
+  }
+
+  /**
+   * Removes all job logs.
+   */
+  clearLogs() {
+    this.state_.logs = [];
+  }
+
+  /**
+   * Returns the state of the repository.
+   *
+   * @returns {!RepositoryState} The state
+   */
+  getState() {
+    return this.state_;
+  }
+}
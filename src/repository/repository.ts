@@ -0,0 +1,181 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { type Audience, type AudienceRule } from '../model/audience';
+import { type JobLog } from '../model/job';
+
+/**
+ * @fileoverview This file defines the storage abstraction for audiences and
+ * the reference data they depend on, so that the sync logic can run against
+ * Google Sheets, an in-memory store or a JSON file alike.
+ */
+
+/**
+ * An audience along with the state it had when it was last synced with
+ * CM360. Pending changes are detected by comparing the checksums of the
+ * audience with the stored ones.
+ */
+export interface SyncedAudience {
+  audience: Audience;
+  checksum: string;
+  sharesChecksum: string;
+  json: string;
+  status: string;
+}
+
+/**
+ * The state an audience had when it was last synced with CM360, without the
+ * audience itself.
+ */
+export type SyncState = Omit<SyncedAudience, 'audience'>;
+
+/**
+ * An advertiser, floodlight activity or user defined variable, identified by
+ * its CM360 ID or, for variables, its type (e.g. U1).
+ */
+export interface NamedEntity {
+  id: string;
+  name: string;
+}
+
+/**
+ * AudienceRepository representing the storage of audiences, their rules, the
+ * advertisers, floodlight activities and user defined variables they refer to
+ * and the job logs. Stored audiences are identified by their index, i.e. their
+ * position in the result of {@link #getAudiences}, as audiences not created
+ * in CM360 yet have no ID.
+ */
+export interface AudienceRepository {
+  /**
+   * Returns all stored audiences, including their rules.
+   *
+   * @returns {!Array<!SyncedAudience>} The stored audiences
+   */
+  getAudiences(): SyncedAudience[];
+
+  /**
+   * Stores the given audiences, including their rules. Audiences are matched
+   * by ID, audiences not stored yet are added and all others are kept.
+   *
+   * @param {!Array<!SyncedAudience>} audiences The audiences to store
+   * @returns {!Array<number>} The index of every given audience
+   */
+  saveAudiences(audiences: SyncedAudience[]): number[];
+
+  /**
+   * Returns the sync state of the audience at the given index.
+   *
+   * @param {number} index The index of the audience
+   * @returns {!SyncState|undefined} The sync state, or undefined if there is
+   *     no audience at the given index
+   */
+  getSyncState(index: number): SyncState | undefined;
+
+  /**
+   * Updates the sync state of the audience at the given index, e.g. after
+   * pushing it to CM360, keeping its definition. Only the given fields are
+   * changed. Audiences whose definition was pushed are no longer drifted.
+   *
+   * @param {number} index The index of the audience
+   * @param {string} audienceId The ID of the audience, which replaces the
+   *     stored one for audiences that were just created
+   * @param {!Partial<!SyncState>} state The fields to update
+   */
+  saveSyncState(
+    index: number,
+    audienceId: string,
+    state: Partial<SyncState>
+  ): void;
+
+  /**
+   * Returns the rules of the given audience.
+   *
+   * @param {string} audienceId The audience ID
+   * @returns {!Array<!AudienceRule>} The rules of the audience
+   */
+  getRules(audienceId: string): AudienceRule[];
+
+  /**
+   * Replaces the rules of the given audiences, keeping the rules of all other
+   * audiences.
+   *
+   * @param {!Array<!Audience>} audiences The audiences holding the new rules
+   */
+  saveRules(audiences: Audience[]): void;
+
+  /**
+   * Returns the advertisers audiences can be shared with.
+   *
+   * @returns {!Array<!NamedEntity>} The advertisers
+   */
+  getAdvertisers(): NamedEntity[];
+
+  /**
+   * Replaces the advertisers audiences can be shared with.
+   *
+   * @param {!Array<!NamedEntity>} advertisers The advertisers
+   */
+  saveAdvertisers(advertisers: NamedEntity[]): void;
+
+  /**
+   * Returns the floodlight activities audiences can be based on.
+   *
+   * @returns {!Array<!NamedEntity>} The floodlight activities
+   */
+  getFloodlightActivities(): NamedEntity[];
+
+  /**
+   * Replaces the floodlight activities audiences can be based on.
+   *
+   * @param {!Array<!NamedEntity>} floodlightActivities The floodlight
+   *     activities
+   */
+  saveFloodlightActivities(floodlightActivities: NamedEntity[]): void;
+
+  /**
+   * Returns the user defined variables rules can refer to, with their type as
+   * ID and their friendly name as name.
+   *
+   * @returns {!Array<!NamedEntity>} The user defined variables
+   */
+  getCustomVariables(): NamedEntity[];
+
+  /**
+   * Replaces the user defined variables rules can refer to.
+   *
+   * @param {!Array<!NamedEntity>} customVariables The user defined variables
+   */
+  saveCustomVariables(customVariables: NamedEntity[]): void;
+
+  /**
+   * Returns all job logs.
+   *
+   * @returns {!Array<!JobLog>} The job logs
+   */
+  getLogs(): JobLog[];
+
+  /**
+   * Appends the given job logs.
+   *
+   * @param {!Array<!JobLog>} logs The job logs to append
+   */
+  appendLogs(logs: JobLog[]): void;
+
+  /**
+   * Removes all job logs.
+   */
+  clearLogs(): void;
+}
@@ -0,0 +1,618 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AudienceProcessJobController } from '../controller/audienceProcessJob';
+import { AudiencesController } from '../controller/audiences';
+import { CONFIG } from '../config';
+import { type CampaignManagerFacade } from '../facade/cm360';
+import { type Audience } from '../model/audience';
+import { type JobLog } from '../model/job';
+import { type SheetsService } from '../service/sheets';
+import {
+  type AudienceRepository,
+  type NamedEntity,
+  type SyncedAudience,
+  type SyncState,
+} from './repository';
+
+/**
+ * @fileoverview This file contains the {@link AudienceRepository} backed by
+ * the sheets of the associated Google Sheets spreadsheet.
+ */
+
+/**
+ * SheetsAudienceRepository representing an {@link AudienceRepository} reading
+ * and writing the Audiences, Rules, advertisers, floodlights, custom variables
+ * and Log sheets. The index of an audience is the offset of its row.
+ */
+export class SheetsAudienceRepository implements AudienceRepository {
+  private readonly sheetsService_: SheetsService;
+  private readonly campaignManagerService_: CampaignManagerFacade;
+
+  /**
+   * @constructs an instance of SheetsAudienceRepository.
+   *
+   * @param {!SheetsService} sheetsService The injected SheetsService dependency
+   * @param {!CampaignManagerFacade} campaignManagerService The injected
+   *     CampaignManagerFacade dependency
+   */
+  constructor(
+    sheetsService: SheetsService,
+    campaignManagerService: CampaignManagerFacade
+  ) {
+    this.sheetsService_ = sheetsService;
+    this.campaignManagerService_ = campaignManagerService;
+  }
+
+  /**
+   * Returns all audiences of the Audiences sheet, including their rules.
+   *
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     nameCol: number,
+   *     statusCol: number,
+   *     checksumCol: number,
+   *     sharesChecksumCol: number,
+   *     jsonCol: number
+   * }=} params
+   * @returns {!Array<!SyncedAudience>} The stored audiences
+   */
+  getAudiences({
+    sheetName = CONFIG.audiences.sheetName,
+    row = CONFIG.audiences.row,
+    col = CONFIG.audiences.col,
+    nameCol = CONFIG.audiences.cols.name,
+    statusCol = CONFIG.audiences.cols.status,
+    checksumCol = CONFIG.audiences.cols.checksum,
+    sharesChecksumCol = CONFIG.audiences.cols.sharesChecksum,
+    jsonCol = CONFIG.audiences.cols.json,
+  } = {}): SyncedAudience[] {
+    const processController = new AudienceProcessJobController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
+    );
+
+    return this.getSheetsService()
+      .getRangeData(sheetName, row, col)
+      .map((audienceRow, index) => ({ audienceRow, index }))
+      .filter(({ audienceRow }) => audienceRow[nameCol])
+      .map(({ audienceRow, index }) => ({
+        audience: processController.createAudience(
+          audienceRow.map(String).concat(String(index))
+        ),
+        checksum: String(audienceRow[checksumCol] ?? ''),
+        sharesChecksum: String(audienceRow[sharesChecksumCol] ?? ''),
+        json: String(audienceRow[jsonCol] ?? ''),
+        status: String(audienceRow[statusCol] ?? ''),
+      }));
+  }
+
+  /**
+   * Writes the given audiences to the Audiences sheet, replacing the rows of
+   * audiences with the same ID and appending all others, then replaces their
+   * rules in the Rules sheet.
+   *
+   * @param {!Array<!SyncedAudience>} audiences The audiences to store
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     idCol: number,
+   *     checksumCol: number,
+   *     sharesChecksumCol: number,
+   *     jsonCol: number
+   * }=} params
+   * @returns {!Array<number>} The index of every given audience
+   */
+  saveAudiences(
+    audiences: SyncedAudience[],
+    {
+      sheetName = CONFIG.audiences.sheetName,
+      row = CONFIG.audiences.row,
+      col = CONFIG.audiences.col,
+      idCol = CONFIG.audiences.cols.id,
+      checksumCol = CONFIG.audiences.cols.checksum,
+      sharesChecksumCol = CONFIG.audiences.cols.sharesChecksum,
+      jsonCol = CONFIG.audiences.cols.json,
+    } = {}
+  ) {
+    const audiencesController = new AudiencesController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
+    );
+    const audienceRows = this.getSheetsService().getRangeData(
+      sheetName,
+      row,
+      col
+    );
+    let nextIndex = audienceRows.filter(
+      audienceRow => audienceRow.length > 0
+    ).length;
+    const indices: number[] = [];
+
+    for (const {
+      audience,
+      checksum,
+      sharesChecksum,
+      json,
+      status,
+    } of audiences) {
+      const audienceId = audience.getId() ?? '';
+      let index = audienceId
+        ? audienceRows.findIndex(
+            audienceRow => String(audienceRow[idCol]) === audienceId
+          )
+        : -1;
+
+      if (index === -1) {
+        index = nextIndex++;
+      }
+      indices.push(index);
+
+      const audienceRow = audiencesController.audienceToStagedRow(
+        audience,
+        audienceRows[index] ?? [],
+        status
+      );
+      audienceRow[checksumCol] = checksum;
+      audienceRow[sharesChecksumCol] = sharesChecksum;
+      audienceRow[jsonCol] = json;
+
+      this.getSheetsService().setValuesInDefinedRange(
+        sheetName,
+        row + index,
+        col,
+        [audienceRow]
+      );
+    }
+    this.saveRules(audiences.map(({ audience }) => audience));
+
+    return indices;
+  }
+
+  /**
+   * Returns the sync state of the audience at the given index of the
+   * Audiences sheet.
+   *
+   * @param {number} index The index of the audience
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     statusCol: number,
+   *     checksumCol: number,
+   *     sharesChecksumCol: number,
+   *     jsonCol: number
+   * }=} params
+   * @returns {!SyncState|undefined} The sync state, or undefined if there is
+   *     no audience at the given index
+   */
+  getSyncState(
+    index: number,
+    {
+      sheetName = CONFIG.audiences.sheetName,
+      row = CONFIG.audiences.row,
+      col = CONFIG.audiences.col,
+      statusCol = CONFIG.audiences.cols.status,
+      checksumCol = CONFIG.audiences.cols.checksum,
+      sharesChecksumCol = CONFIG.audiences.cols.sharesChecksum,
+      jsonCol = CONFIG.audiences.cols.json,
+    } = {}
+  ): SyncState | undefined {
+    const [audienceRow = []] = this.getSheetsService().getRangeData(
+      sheetName,
+      row + index,
+      col,
+      1
+    );
+
+    if (audienceRow.length === 0) {
+      return undefined;
+    }
+    return {
+      checksum: String(audienceRow[checksumCol] ?? ''),
+      sharesChecksum: String(audienceRow[sharesChecksumCol] ?? ''),
+      json: String(audienceRow[jsonCol] ?? ''),
+      status: String(audienceRow[statusCol] ?? ''),
+    };
+  }
+
+  /**
+   * Writes the given sync state to the row of the audience at the given index
+   * of the Audiences sheet, leaving all other cells untouched. A changed ID is
+   * also replaced in the Rules sheet, and any drift is cleared once the
+   * definition of the audience was pushed.
+   *
+   * @param {number} index The index of the audience
+   * @param {string} audienceId The ID of the audience
+   * @param {!Partial<!SyncState>} state The fields to update
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     idCol: number,
+   *     statusCol: number,
+   *     checksumCol: number,
+   *     sharesChecksumCol: number,
+   *     jsonCol: number,
+   *     driftCol: number,
+   *     driftResolutionCol: number,
+   *     rulesSheetName: string
+   * }=} params
+   */
+  saveSyncState(
+    index: number,
+    audienceId: string,
+    state: Partial<SyncState>,
+    {
+      sheetName = CONFIG.audiences.sheetName,
+      row = CONFIG.audiences.row,
+      idCol = CONFIG.audiences.cols.id,
+      statusCol = CONFIG.audiences.cols.status,
+      checksumCol = CONFIG.audiences.cols.checksum,
+      sharesChecksumCol = CONFIG.audiences.cols.sharesChecksum,
+      jsonCol = CONFIG.audiences.cols.json,
+      driftCol = CONFIG.audiences.cols.drift,
+      driftResolutionCol = CONFIG.audiences.cols.driftResolution,
+      rulesSheetName = CONFIG.rules.sheetName,
+    } = {}
+  ) {
+    const setCell = (cellCol: number, value: string) =>
+      this.getSheetsService().setCellValue(
+        row + index,
+        cellCol + 1,
+        value,
+        sheetName
+      );
+    const previousId = String(
+      this.getSheetsService().getCellValue(sheetName, row + index, idCol + 1) ??
+        ''
+    );
+
+    if (previousId !== audienceId) {
+      setCell(idCol, audienceId);
+
+      if (previousId) {
+        this.getSheetsService().findAndReplace(
+          rulesSheetName,
+          previousId,
+          audienceId
+        );
+      }
+    }
+    if (state.sharesChecksum !== undefined) {
+      setCell(sharesChecksumCol, state.sharesChecksum);
+    }
+    if (state.checksum !== undefined) {
+      setCell(checksumCol, state.checksum);
+      setCell(driftCol, '');
+      setCell(driftResolutionCol, '');
+    }
+    if (state.json !== undefined) {
+      setCell(jsonCol, state.json);
+    }
+    if (state.status !== undefined) {
+      setCell(statusCol, state.status);
+    }
+  }
+
+  /**
+   * Returns the rules of the given audience from the Rules sheet.
+   *
+   * @param {string} audienceId The audience ID
+   * @returns {!Array<!AudienceRule>} The rules of the audience
+   */
+  getRules(audienceId: string) {
+    return new AudienceProcessJobController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
+    ).getAudienceRules(audienceId);
+  }
+
+  /**
+   * Replaces the rules of the given audiences in the Rules sheet, keeping the
+   * rules of all other audiences.
+   *
+   * @param {!Array<!Audience>} audiences The audiences holding the new rules
+   */
+  saveRules(audiences: Audience[]) {
+    new AudiencesController(
+      this.getSheetsService(),
+      this.getCampaignManagerService()
+    ).replaceAudienceRules(audiences);
+  }
+
+  /**
+   * Returns the advertisers of the advertisers sheet.
+   *
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     cols: !Object<string, number>
+   * }=} params
+   * @returns {!Array<!NamedEntity>} The advertisers
+   */
+  getAdvertisers({
+    sheetName = CONFIG.advertisers.sheetName,
+    row = CONFIG.advertisers.row,
+    col = CONFIG.advertisers.col,
+    cols = CONFIG.advertisers.cols,
+  } = {}) {
+    return this.getEntities_(sheetName, row, col, cols);
+  }
+
+  /**
+   * Replaces the advertisers of the advertisers sheet.
+   *
+   * @param {!Array<!NamedEntity>} advertisers The advertisers
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number
+   * }=} params
+   */
+  saveAdvertisers(
+    advertisers: NamedEntity[],
+    {
+      sheetName = CONFIG.advertisers.sheetName,
+      row = CONFIG.advertisers.row,
+      col = CONFIG.advertisers.col,
+    } = {}
+  ) {
+    this.saveEntities_(advertisers, sheetName, row, col);
+  }
+
+  /**
+   * Returns the floodlight activities of the floodlights sheet.
+   *
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     cols: !Object<string, number>
+   * }=} params
+   * @returns {!Array<!NamedEntity>} The floodlight activities
+   */
+  getFloodlightActivities({
+    sheetName = CONFIG.floodlights.sheetName,
+    row = CONFIG.floodlights.row,
+    col = CONFIG.floodlights.col,
+    cols = CONFIG.floodlights.cols,
+  } = {}) {
+    return this.getEntities_(sheetName, row, col, cols);
+  }
+
+  /**
+   * Replaces the floodlight activities of the floodlights sheet.
+   *
+   * @param {!Array<!NamedEntity>} floodlightActivities The floodlight
+   *     activities
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number
+   * }=} params
+   */
+  saveFloodlightActivities(
+    floodlightActivities: NamedEntity[],
+    {
+      sheetName = CONFIG.floodlights.sheetName,
+      row = CONFIG.floodlights.row,
+      col = CONFIG.floodlights.col,
+    } = {}
+  ) {
+    this.saveEntities_(floodlightActivities, sheetName, row, col);
+  }
+
+  /**
+   * Returns the user defined variables of the custom variables sheet, which
+   * holds them as 'type:name' pairs.
+   *
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     separator: string
+   * }=} params
+   * @returns {!Array<!NamedEntity>} The user defined variables
+   */
+  getCustomVariables({
+    sheetName = CONFIG.customVariables.sheetName,
+    row = CONFIG.customVariables.row,
+    col = CONFIG.customVariables.col,
+    separator = CONFIG.customVariables.separator,
+  } = {}) {
+    return this.getSheetsService()
+      .getRangeData(sheetName, row, col)
+      .map(variableRow => String(variableRow[0] ?? '').split(separator))
+      .filter(([id]) => id)
+      .map(([id, ...name]) => ({ id, name: name.join(separator) }));
+  }
+
+  /**
+   * Replaces the user defined variables of the custom variables sheet.
+   *
+   * @param {!Array<!NamedEntity>} customVariables The user defined variables
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number,
+   *     separator: string
+   * }=} params
+   */
+  saveCustomVariables(
+    customVariables: NamedEntity[],
+    {
+      sheetName = CONFIG.customVariables.sheetName,
+      row = CONFIG.customVariables.row,
+      col = CONFIG.customVariables.col,
+      separator = CONFIG.customVariables.separator,
+    } = {}
+  ) {
+    this.getSheetsService().clearDefinedRange(sheetName, row, col);
+    this.getSheetsService().setValuesInDefinedRange(
+      sheetName,
+      row,
+      col,
+      customVariables.map(variable => [
+        `${variable.id}${separator}${variable.name}`,
+      ])
+    );
+  }
+
+  /**
+   * Returns all job logs of the log sheet.
+   *
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number
+   * }=} params
+   * @returns {!Array<!JobLog>} The job logs
+   */
+  getLogs({
+    sheetName = CONFIG.logging.sheetName,
+    row = CONFIG.logging.row,
+    col = CONFIG.logging.col,
+  } = {}): JobLog[] {
+    return this.getSheetsService()
+      .getRangeData(sheetName, row, col)
+      .filter(logRow => logRow.length > 0 && logRow[1] !== '')
+      .map(([date, message]) => ({
+        date: date instanceof Date ? date : String(date),
+        message: String(message),
+      }));
+  }
+
+  /**
+   * Appends the given job logs to the log sheet.
+   *
+   * @param {!Array<!JobLog>} logs The job logs to append
+   * @param {{
+   *     sheetName: string,
+   *     row: number,
+   *     col: number
+   * }=} params
+   */
+  appendLogs(
+    logs: JobLog[],
+    {
+      sheetName = CONFIG.logging.sheetName,
+      row = CONFIG.logging.row,
+      col = CONFIG.logging.col,
+    } = {}
+  ) {
+    const offset = this.getLogs({ sheetName, row, col }).length;
+
+    this.getSheetsService().setValuesInDefinedRange(
+      sheetName,
+      row + offset,
+      col,
+      logs.map(log => [log.date, log.message])
+    );
+  }
+
+  /**
+   * Clears all logs from the log sheet.
+   *
+   * @param {{
+   *     sheetName: string,
+   *     range: string
+   * }=} params
+   */
+  clearLogs({
+    sheetName = CONFIG.logging.sheetName,
+    range = CONFIG.logging.range,
+  } = {}) {
+    this.getSheetsService().clearRange(sheetName, range);
+  }
+
+  /**
+   * Reads entities written as ID and 'name (ID)' pairs, as done for
+   * advertisers and floodlight activities.
+   *
+   * @param {string} sheetName The name of the sheet
+   * @param {number} row The first row of the entities
+   * @param {number} col The first column of the entities
+   * @param {!Object<string, number>} cols The ID and name columns
+   * @param {{
+   *     idAndNameRegex: string
+   * }=} params
+   * @returns {!Array<!NamedEntity>} The entities
+   * @private
+   */
+  getEntities_(
+    sheetName: string,
+    row: number,
+    col: number,
+    cols: { id: number; name: number },
+    { idAndNameRegex = CONFIG.floodlights.idAndNameRegex } = {}
+  ) {
+    const idSuffix = new RegExp(`\\s*${idAndNameRegex}$`);
+
+    return this.getSheetsService()
+      .getRangeData(sheetName, row, col)
+      .filter(entityRow => entityRow.length > 0 && entityRow[cols.id] !== '')
+      .map(entityRow => ({
+        id: String(entityRow[cols.id]),
+        name: String(entityRow[cols.name] ?? '').replace(idSuffix, ''),
+      }));
+  }
+
+  /**
+   * Replaces the entities of the given sheet with ID and 'name (ID)' pairs.
+   *
+   * @param {!Array<!NamedEntity>} entities The entities
+   * @param {string} sheetName The name of the sheet
+   * @param {number} row The first row of the entities
+   * @param {number} col The first column of the entities
+   * @private
+   */
+  saveEntities_(
+    entities: NamedEntity[],
+    sheetName: string,
+    row: number,
+    col: number
+  ) {
+    this.getSheetsService().clearDefinedRange(sheetName, row, col);
+    this.getSheetsService().setValuesInDefinedRange(
+      sheetName,
+      row,
+      col,
+      entities.map(entity => [entity.id, `${entity.name} (${entity.id})`])
+    );
+  }
+
+  /**
+   * Returns the SheetsService instance.
+   *
+   * @returns {!SheetsService} The SheetsService instance
+   */
+  getSheetsService() {
+    return this.sheetsService_;
+  }
+
+  /**
+   * Returns the CampaignManagerFacade instance.
+   *
+   * @returns {!CampaignManagerFacade} The CampaignManagerFacade instance
+   */
+  getCampaignManagerService() {
+    return this.campaignManagerService_;
+  }
+}
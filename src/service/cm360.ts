@@ -14,6 +14,7 @@
  * limitations under the License.
  */
 
+import { type RemarketingListsFilter } from '../api/cm360';
 import { UriUtil } from '../util/uri';
 
 /**
@@ -67,14 +68,17 @@ export class CampaignManagerService {
    * CM360 Network.
    *
    * @param {string} profileId The user profile ID
+   * @param {string=} advertiserId The CM360 Advertiser ID. Defaults to the
+   *     advertiser ID this instance was created with
    * @returns {UserDefinedVariableConfiguration[]} The user defined variable configuration array
    */
   getUserDefinedVariableConfigurations(
-    profileId: string
+    profileId: string,
+    advertiserId = this.getAdvertiserId()
   ): GoogleAppsScript.CampaignManager.UserDefinedVariableConfiguration[] {
     const res = this.getService().FloodlightConfigurations.get(
       profileId,
-      this.getAdvertiserId()
+      advertiserId
     );
 
     return 'userDefinedVariableConfigurations' in res
@@ -84,19 +88,32 @@ export class CampaignManagerService {
 
   /**
    * Retrieves configured floodlight activities from the logged in user's
-   * CM360 Network and Advertiser.
+   * CM360 Network and Advertiser, paging through all results.
    *
    * @param {string} profileId The user profile ID
+   * @param {string=} advertiserId The CM360 Advertiser ID. Defaults to the
+   *     advertiser ID this instance was created with
    * @returns {!Array<!Object>} The floodlight activities array
    */
   getFloodlightActivities(
-    profileId: string
+    profileId: string,
+    advertiserId = this.getAdvertiserId()
   ): GoogleAppsScript.CampaignManager.FloodlightActivity[] {
-    const res = this.getService().FloodlightActivities.list(profileId, {
-      advertiserId: this.getAdvertiserId(),
-    });
+    const floodlightActivities: GoogleAppsScript.CampaignManager.FloodlightActivity[] =
+      [];
+    let pageToken;
+
+    do {
+      const result = this.getService().FloodlightActivities.list(profileId, {
+        advertiserId,
+        pageToken,
+      });
+
+      floodlightActivities.push(...(result?.floodlightActivities ?? []));
+      pageToken = result?.nextPageToken;
+    } while (pageToken);
 
-    return res?.floodlightActivities ?? [];
+    return floodlightActivities;
   }
 
   /**
@@ -148,18 +165,61 @@ export class CampaignManagerService {
 
   /**
    * Retrieves configured remarketing lists from the logged in user's CM360
-   * Network and Advertiser.
+   * Network and Advertiser, paging through all results.
    *
    * @param {string} profileId The user profile ID
+   * @param {string=} advertiserId The CM360 Advertiser ID. Defaults to the
+   *     advertiser ID this instance was created with
+   * @param {!RemarketingListsFilter=} filter Optional filters applied by the
+   *     API
    * @returns {RemarketingList[]} The remarketing lists array
    */
   getRemarketingLists(
-    profileId: string
+    profileId: string,
+    advertiserId = this.getAdvertiserId(),
+    filter: RemarketingListsFilter = {}
   ): GoogleAppsScript.CampaignManager.RemarketingList[] {
-    return this.getService().RemarketingLists.list(
-      profileId,
-      this.getAdvertiserId()
-    ).remarketingLists;
+    const remarketingLists: GoogleAppsScript.CampaignManager.RemarketingList[] =
+      [];
+    let pageToken;
+
+    do {
+      const params: Record<string, unknown> = { pageToken };
+
+      if (filter.name) {
+        params.name = filter.name;
+      }
+      if (filter.active) {
+        params.active = true;
+      }
+      if (filter.floodlightActivityId) {
+        params.floodlightActivityId = filter.floodlightActivityId;
+      }
+      const result = this.getService().RemarketingLists.list(
+        profileId,
+        advertiserId,
+        params
+      );
+
+      remarketingLists.push(...(result?.remarketingLists ?? []));
+      pageToken = result?.nextPageToken;
+    } while (pageToken);
+
+    return remarketingLists;
+  }
+
+  /**
+   * Retrieves a single remarketing list by its ID.
+   *
+   * @param {string} profileId The user profile ID
+   * @param {string} remarketingListId The ID of the remarketing list
+   * @returns {RemarketingList} The remarketing list
+   */
+  getRemarketingList(
+    profileId: string,
+    remarketingListId: string
+  ): GoogleAppsScript.CampaignManager.RemarketingList {
+    return this.getService().RemarketingLists.get(profileId, remarketingListId);
   }
 
   /**
@@ -250,7 +250,7 @@ export class SheetsService {
     sheetName: string,
     row: number,
     col: number,
-    values: Array<Array<string | number | Date | undefined>>
+    values: Array<Array<string | number | boolean | Date | undefined>>
   ) {
     const sheet = this.getSpreadsheet().getSheetByName(sheetName);
 
@@ -329,7 +329,33 @@ export class SheetsService {
   }
 
   /**
-   * Find and replace a value in a sheet.
+   * Returns the sheet identified by the given name, creating it first if it
+   * does not exist yet. Newly created sheets get the given header row.
+   *
+   * @param {string} sheetName The name of the sheet
+   * @param {string[]=} headers Optional header row to write to a new sheet
+   * @returns {!SpreadsheetApp.Sheet} The existing or newly created sheet
+   */
+  getOrCreateSheet(sheetName: string, headers: string[] = []) {
+    let sheet = this.getSpreadsheet().getSheetByName(sheetName);
+
+    if (!sheet) {
+      sheet = this.getSpreadsheet().insertSheet(sheetName);
+
+      if (headers.length > 0) {
+        sheet
+          .getRange(1, 1, 1, headers.length)
+          .setValues([headers])
+          .setFontWeight('bold');
+        sheet.setFrozenRows(1);
+      }
+    }
+    return sheet;
+  }
+
+  /**
+   * Find and replace a value in a sheet. Only cells matching the value as a
+   * whole are replaced, e.g. 'a(1)' doesn't match within 'a(10)'.
    *
    * @param {string} sheetName The name of the sheet
    * @param {string} find The value to find
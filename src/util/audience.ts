@@ -0,0 +1,48 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Audience } from '../model/audience';
+
+/**
+ * @fileoverview This file contains utility methods for the audience snapshots
+ * stored in the associated spreadsheet.
+ */
+
+/**
+ * AudienceUtil representing a utility class for audience snapshots, shared by
+ * the controllers pushing audiences and recording their history.
+ */
+export class AudienceUtil {
+  /**
+   * Parses the JSON snapshot of an audience as stored in the audiences sheet.
+   *
+   * @param {string} json The JSON snapshot, which may be empty
+   * @returns {!Audience|undefined} The parsed audience, or undefined if the
+   *     snapshot is empty or invalid
+   */
+  static parseSnapshot(json: string) {
+    if (!json) {
+      return undefined;
+    }
+
+    try {
+      return Audience.fromJson(JSON.parse(json));
+    } catch (err: unknown) {
+      console.log('Invalid audience snapshot', json);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,531 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CONFIG } from '../config';
+import { Audience, type AudienceRule } from '../model/audience';
+
+/**
+ * @fileoverview This file contains the serializer for the audience catalogue,
+ * i.e. all audiences of the associated spreadsheet including their rules and
+ * shares. The catalogue is represented either as a versioned JSON document or
+ * as a flat CSV with one line per rule, in which the audience fields are
+ * repeated for every rule of the audience.
+ */
+
+/**
+ * A single audience of the catalogue.
+ */
+export interface CatalogueAudience {
+  id: string;
+  name: string;
+  description: string;
+  lifeSpan: number;
+  floodlightId: string;
+  floodlightName: string;
+  active: boolean;
+  advertiserId: string;
+  shares: string[];
+  rules: AudienceRule[];
+}
+
+/**
+ * The versioned JSON document holding the catalogue.
+ */
+export interface Catalogue {
+  version: number;
+  exportedAt: string;
+  networkId: string;
+  audiences: CatalogueAudience[];
+}
+
+/**
+ * CatalogueError representing an invalid catalogue file. All problems found
+ * in the file are reported at once.
+ */
+export class CatalogueError extends Error {
+  errors_: string[];
+
+  /**
+   * @constructs an instance of CatalogueError.
+   *
+   * @param {!Array<string>} errors The problems found in the catalogue
+   */
+  constructor(errors: string[]) {
+    super(`Invalid catalogue: ${errors.join('; ')}`);
+    this.name = 'CatalogueError';
+
+    /** @private @const {!Array<string>} */
+    this.errors_ = errors;
+  }
+
+  /**
+   * Returns the problems found in the catalogue.
+   *
+   * @returns {!Array<string>} The problems
+   */
+  getErrors() {
+    return this.errors_;
+  }
+}
+
+/**
+ * CatalogueUtil representing a utility class for converting audiences from
+ * and to catalogue files.
+ */
+export class CatalogueUtil {
+  /**
+   * Serializes the given audiences into a versioned JSON document.
+   *
+   * @param {!Array<!Audience>} audiences The audiences to export
+   * @param {string=} networkId The CM360 network the audiences belong to
+   * @param {string=} exportedAt The export timestamp
+   * @param {{
+   *     version: number
+   * }=} params
+   * @returns {string} The JSON document
+   */
+  static toJson(
+    audiences: Audience[],
+    networkId = '',
+    exportedAt = new Date().toISOString(),
+    { version = CONFIG.catalogue.version } = {}
+  ) {
+    const catalogue: Catalogue = {
+      version,
+      exportedAt,
+      networkId,
+      audiences: audiences.map(audience => CatalogueUtil.toEntry(audience)),
+    };
+
+    return JSON.stringify(catalogue, null, 2);
+  }
+
+  /**
+   * Parses and validates a JSON document created by {@link #toJson}.
+   *
+   * @param {string} json The JSON document
+   * @param {{
+   *     version: number
+   * }=} params
+   * @returns {!Array<!Audience>} The audiences of the catalogue
+   * @throws {!CatalogueError} If the document is invalid
+   */
+  static fromJson(json: string, { version = CONFIG.catalogue.version } = {}) {
+    let catalogue: Record<string, unknown>;
+
+    try {
+      catalogue = JSON.parse(json);
+    } catch (err: unknown) {
+      throw new CatalogueError([`Malformed JSON: ${(err as Error).message}`]);
+    }
+    if (!CatalogueUtil.isObject(catalogue)) {
+      throw new CatalogueError(['Expected a JSON object']);
+    }
+    if (
+      !Number.isInteger(catalogue.version) ||
+      (catalogue.version as number) < 1 ||
+      (catalogue.version as number) > version
+    ) {
+      throw new CatalogueError([
+        `Unsupported version '${catalogue.version}', expected 1 to ${version}`,
+      ]);
+    }
+    if (!Array.isArray(catalogue.audiences)) {
+      throw new CatalogueError(['audiences must be an array']);
+    }
+
+    const entries = catalogue.audiences as unknown[];
+    const errors = entries.flatMap((entry, index) =>
+      CatalogueUtil.validateEntry(entry, `audiences[${index}]`)
+    );
+
+    if (errors.length > 0) {
+      throw new CatalogueError(errors);
+    }
+
+    return entries.map(entry =>
+      CatalogueUtil.fromEntry(entry as CatalogueAudience)
+    );
+  }
+
+  /**
+   * Serializes the given audiences into a flat CSV with a header line and one
+   * line per rule. Audiences without rules are represented by a single line
+   * with empty rule fields.
+   *
+   * @param {!Array<!Audience>} audiences The audiences to export
+   * @param {{
+   *     headers: !Array<string>,
+   *     sharesSeparator: string
+   * }=} params
+   * @returns {string} The CSV
+   */
+  static toCsv(
+    audiences: Audience[],
+    {
+      headers = CONFIG.catalogue.csvHeaders,
+      sharesSeparator = CONFIG.catalogue.sharesSeparator,
+    } = {}
+  ) {
+    const lines = [headers];
+
+    for (const audience of audiences) {
+      const entry = CatalogueUtil.toEntry(audience);
+      const fields: Record<string, string | number | boolean> = {
+        id: entry.id,
+        name: entry.name,
+        description: entry.description,
+        lifeSpan: entry.lifeSpan,
+        floodlightId: entry.floodlightId,
+        floodlightName: entry.floodlightName,
+        active: entry.active,
+        advertiserId: entry.advertiserId,
+        shares: entry.shares.join(sharesSeparator),
+      };
+      const rules: Array<Partial<AudienceRule>> =
+        entry.rules.length > 0 ? entry.rules : [{}];
+
+      for (const rule of rules) {
+        const values: Record<string, unknown> = { ...fields, ...rule };
+
+        lines.push(headers.map(header => String(values[header] ?? '')));
+      }
+    }
+
+    return lines
+      .map(line => line.map(CatalogueUtil.formatCsvValue).join(','))
+      .join('\n');
+  }
+
+  /**
+   * Parses and validates a CSV created by {@link #toCsv}. Consecutive lines
+   * with the same audience ID and name make up a single audience.
+   *
+   * @param {string} csv The CSV
+   * @param {{
+   *     headers: !Array<string>,
+   *     sharesSeparator: string
+   * }=} params
+   * @returns {!Array<!Audience>} The audiences of the catalogue
+   * @throws {!CatalogueError} If the CSV is invalid
+   */
+  static fromCsv(
+    csv: string,
+    {
+      headers = CONFIG.catalogue.csvHeaders,
+      sharesSeparator = CONFIG.catalogue.sharesSeparator,
+    } = {}
+  ) {
+    const [headerLine = [], ...lines] = CatalogueUtil.parseCsv(csv);
+    const missingHeaders = headers.filter(
+      header => !headerLine.includes(header)
+    );
+
+    if (missingHeaders.length > 0) {
+      throw new CatalogueError([
+        `Missing column(s) ${missingHeaders.join(', ')}`,
+      ]);
+    }
+
+    const entries: Array<Record<string, unknown>> = [];
+    const lineNumbers: number[] = [];
+    let previousKey = '';
+
+    lines.forEach((line, index) => {
+      if (line.every(value => value === '')) {
+        return;
+      }
+
+      const get = (header: string) => line[headerLine.indexOf(header)] ?? '';
+      const key = JSON.stringify([get('id'), get('name')]);
+
+      if (key !== previousKey) {
+        // Line numbers start at 1 and include the header line
+        lineNumbers.push(index + 2);
+        entries.push({
+          id: get('id'),
+          name: get('name'),
+          description: get('description'),
+          lifeSpan: get('lifeSpan') === '' ? NaN : Number(get('lifeSpan')),
+          floodlightId: get('floodlightId'),
+          floodlightName: get('floodlightName'),
+          active: CatalogueUtil.parseBoolean(get('active'), true),
+          advertiserId: get('advertiserId'),
+          shares: get('shares')
+            .split(sharesSeparator)
+            .map(share => share.trim())
+            .filter(share => share),
+          rules: [],
+        });
+        previousKey = key;
+      }
+      if (get('operator') || get('value') || get('type')) {
+        const rule: Record<string, unknown> = {
+          group: get('group') === '' ? 0 : Number(get('group')),
+          variableName: get('variableName'),
+          variableFriendlyName: get('variableFriendlyName'),
+          operator: get('operator'),
+          value: get('value'),
+          negation: CatalogueUtil.parseBoolean(get('negation'), false),
+        };
+
+        if (get('type')) {
+          rule.type = get('type');
+        }
+        if (get('contextVariable')) {
+          rule.contextVariable = get('contextVariable');
+        }
+        (entries[entries.length - 1].rules as unknown[]).push(rule);
+      }
+    });
+
+    const errors = entries.flatMap((entry, index) =>
+      CatalogueUtil.validateEntry(entry, `line ${lineNumbers[index]}`)
+    );
+
+    if (errors.length > 0) {
+      throw new CatalogueError(errors);
+    }
+
+    return entries.map(entry =>
+      CatalogueUtil.fromEntry(entry as unknown as CatalogueAudience)
+    );
+  }
+
+  /**
+   * Converts an audience into a catalogue entry.
+   *
+   * @param {!Audience} audience The audience
+   * @returns {!CatalogueAudience} The catalogue entry
+   */
+  static toEntry(audience: Audience): CatalogueAudience {
+    return {
+      id: audience.getId() ?? '',
+      name: audience.getName(),
+      description: audience.getDescription(),
+      lifeSpan: audience.getLifeSpan(),
+      floodlightId: audience.getFloodlightId() ?? '',
+      floodlightName: audience.getFloodlightName() ?? '',
+      active: audience.isActive(),
+      advertiserId: audience.getAdvertiserId() ?? '',
+      shares: audience.getShares(),
+      rules: audience.getRules(),
+    };
+  }
+
+  /**
+   * Converts a validated catalogue entry into an audience.
+   *
+   * @param {!CatalogueAudience} entry The catalogue entry
+   * @returns {!Audience} The audience
+   */
+  static fromEntry(entry: CatalogueAudience) {
+    return new Audience({
+      id: entry.id || undefined,
+      name: entry.name,
+      description: entry.description,
+      lifeSpan: entry.lifeSpan,
+      floodlightId: entry.floodlightId || undefined,
+      floodlightName: entry.floodlightName || undefined,
+      rules: entry.rules.map(rule => ({ ...rule })),
+      shares: [...entry.shares],
+      active: entry.active,
+      advertiserId: entry.advertiserId,
+    });
+  }
+
+  /**
+   * Validates the structure of a single catalogue entry. Whether the values
+   * are valid for CM360 is checked by {@link AudienceValidator}.
+   *
+   * @param {*} entry The catalogue entry
+   * @param {string} path The location of the entry, used for errors
+   * @returns {!Array<string>} The validation errors, empty if the entry is
+   *     valid
+   */
+  static validateEntry(entry: unknown, path: string) {
+    if (!CatalogueUtil.isObject(entry)) {
+      return [`${path} must be an object`];
+    }
+
+    const errors: string[] = [];
+    const check = (valid: boolean, field: string, expected: string) => {
+      if (!valid) {
+        errors.push(`${path}: ${field} must be ${expected}`);
+      }
+    };
+    const isString = (value: unknown) =>
+      value === undefined || typeof value === 'string';
+
+    check(
+      typeof entry.name === 'string' && entry.name.trim() !== '',
+      'name',
+      'a non-empty string'
+    );
+    check(
+      typeof entry.lifeSpan === 'number' && Number.isFinite(entry.lifeSpan),
+      'lifeSpan',
+      'a number'
+    );
+    for (const field of [
+      'id',
+      'description',
+      'floodlightId',
+      'floodlightName',
+      'advertiserId',
+    ]) {
+      check(isString(entry[field]), field, 'a string');
+    }
+    check(
+      entry.active === undefined || typeof entry.active === 'boolean',
+      'active',
+      'a boolean'
+    );
+    check(
+      Array.isArray(entry.shares) &&
+        entry.shares.every(share => typeof share === 'string'),
+      'shares',
+      'an array of strings'
+    );
+    if (!Array.isArray(entry.rules)) {
+      check(false, 'rules', 'an array');
+      return errors;
+    }
+
+    entry.rules.forEach((rule: unknown, index: number) => {
+      const field = `rules[${index}]`;
+
+      if (!CatalogueUtil.isObject(rule)) {
+        check(false, field, 'an object');
+        return;
+      }
+      check(
+        Number.isInteger(rule.group) && (rule.group as number) >= 0,
+        `${field}.group`,
+        'a non-negative integer'
+      );
+      for (const ruleField of [
+        'variableName',
+        'variableFriendlyName',
+        'operator',
+        'type',
+        'contextVariable',
+      ]) {
+        check(isString(rule[ruleField]), `${field}.${ruleField}`, 'a string');
+      }
+      check(typeof rule.value === 'string', `${field}.value`, 'a string');
+      check(
+        typeof rule.negation === 'boolean',
+        `${field}.negation`,
+        'a boolean'
+      );
+    });
+
+    return errors;
+  }
+
+  /**
+   * Splits the given CSV into lines of values. Values may be enclosed in
+   * double quotes, in which case they can contain separators, line breaks
+   * and escaped (doubled) quotes.
+   *
+   * @param {string} csv The CSV
+   * @returns {!Array<!Array<string>>} The lines of values
+   */
+  static parseCsv(csv: string) {
+    const lines: string[][] = [];
+    let line: string[] = [];
+    let value = '';
+    let quoted = false;
+    let index = 0;
+
+    while (index < csv.length) {
+      const char = csv[index];
+
+      if (quoted) {
+        if (char === '"' && csv[index + 1] === '"') {
+          value += '"';
+          index++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          value += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        line.push(value);
+        value = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && csv[index + 1] === '\n') {
+          index++;
+        }
+        line.push(value);
+        lines.push(line);
+        line = [];
+        value = '';
+      } else {
+        value += char;
+      }
+      index++;
+    }
+    if (value !== '' || line.length > 0) {
+      line.push(value);
+      lines.push(line);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Formats a single CSV value, quoting it if necessary.
+   *
+   * @param {string} value The value
+   * @returns {string} The formatted value
+   */
+  static formatCsvValue(value: string) {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  /**
+   * Parses a boolean CSV value. Values other than 'true' and 'false' are
+   * returned as is so that validation reports them.
+   *
+   * @param {string} value The CSV value
+   * @param {boolean} defaultValue The value to use for empty values
+   * @returns {boolean|string} The parsed value
+   */
+  static parseBoolean(value: string, defaultValue: boolean) {
+    const normalized = value.trim().toLowerCase();
+
+    if (normalized === '') {
+      return defaultValue;
+    }
+    return normalized === 'true' || normalized === 'false'
+      ? normalized === 'true'
+      : value;
+  }
+
+  /**
+   * Checks whether the given value is a plain object.
+   *
+   * @param {*} value The value to check
+   * @returns {boolean} Whether the value is a plain object
+   */
+  static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ApiError } from '../api/base';
+import { CONFIG } from '../config';
+
+/**
+ * @fileoverview This file contains utility methods for classifying errors.
+ */
+
+/**
+ * ErrorUtil representing a utility class for telling transient errors, which
+ * may go away when retried, apart from permanent ones.
+ */
+export class ErrorUtil {
+  /**
+   * Whether the given error may go away when retried. Errors of the REST API
+   * are classified by their HTTP status code, while errors of the built-in
+   * services only carry a message which is matched against known transient
+   * errors such as rate limiting or backend errors.
+   *
+   * @param {*} error The error to classify
+   * @param {!Array<string>=} retryableMessages Case-insensitive fragments of
+   *     transient error messages
+   * @returns {boolean} Whether the error is retryable
+   */
+  static isRetryable(
+    error: unknown,
+    retryableMessages = CONFIG.api.retryableMessages
+  ) {
+    if (error instanceof ApiError) {
+      return error.isRetryable();
+    }
+    const message = String(
+      (error as Error | undefined)?.message ?? error ?? ''
+    ).toLowerCase();
+
+    return retryableMessages.some(retryableMessage =>
+      message.includes(retryableMessage.toLowerCase())
+    );
+  }
+}
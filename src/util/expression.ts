@@ -0,0 +1,426 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CONFIG } from '../config';
+import { Audience, type AudienceRule } from '../model/audience';
+
+/**
+ * @fileoverview This file contains a parser and printer for audience rule
+ * expressions, a compact textual representation of audience rules such as
+ * '(u1 EQUALS "shoes" OR u1 EQUALS "boots") AND NOT u3 CONTAINS "test"'.
+ *
+ * An expression is a list of clauses joined by AND, each being a list of terms
+ * joined by OR, which corresponds to the list population clauses and terms of
+ * a CM360 remarketing list. Clauses of multiple terms must be enclosed in
+ * parentheses when joined by AND. Terms have one of the following forms:
+ *   [NOT] <variable> <operator> <value>
+ *   [NOT] REFERRER <variable> <operator> <value>
+ *   [NOT] IN_LIST <remarketing list ID>
+ * Operators are either given in full (e.g. NUM_LESS_THAN) or without their
+ * prefix (e.g. LESS_THAN), in which case quoted values select the string
+ * variant and unquoted numbers the numeric one. Context variables of referrer
+ * terms are not represented.
+ */
+
+/**
+ * A single token of a rule expression.
+ */
+interface Token {
+  type: 'word' | 'string' | '(' | ')';
+  value: string;
+  position: number;
+}
+
+/**
+ * RuleExpressionError representing a syntax error in a rule expression.
+ */
+export class RuleExpressionError extends Error {
+  position_: number;
+
+  /**
+   * @constructs an instance of RuleExpressionError.
+   *
+   * @param {string} message The error message
+   * @param {number} position The position in the expression the error
+   *     occurred at
+   */
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'RuleExpressionError';
+
+    /** @private @const {number} */
+    this.position_ = position;
+  }
+
+  /**
+   * Returns the position in the expression the error occurred at.
+   *
+   * @returns {number} The position
+   */
+  getPosition() {
+    return this.position_;
+  }
+}
+
+/**
+ * RuleExpressionUtil representing a utility class for converting audience
+ * rules from and to rule expressions.
+ */
+export class RuleExpressionUtil {
+  /**
+   * Parses the given rule expression into audience rules, one per term. The
+   * index of the clause a term belongs to is used as the rule's group. Values
+   * are escaped, so that quoted values holding the separator of multiple
+   * values are kept as one value.
+   *
+   * @param {string} expression The rule expression
+   * @param {!Object<string, string>=} variableNames Friendly names of the
+   *     user defined variables keyed by upper case variable name (e.g. U1)
+   * @param {{
+   *     operators: !Array<string>,
+   *     numericOperatorPrefix: string,
+   *     termTypes: !Object<string, string>,
+   *     separator: string
+   * }=} params
+   * @returns {!Array<!AudienceRule>} The parsed audience rules
+   * @throws {!RuleExpressionError} If the expression is invalid
+   */
+  static parse(
+    expression: string,
+    variableNames: Record<string, string> = {},
+    {
+      operators = CONFIG.rules.operators,
+      numericOperatorPrefix = CONFIG.rules.numericOperatorPrefix,
+      termTypes = CONFIG.rules.termTypes,
+      separator = CONFIG.rules.separator,
+    } = {}
+  ): AudienceRule[] {
+    const tokens = RuleExpressionUtil.tokenize(expression);
+    const rules: AudienceRule[] = [];
+    let index = 0;
+
+    const peek = () => tokens[index];
+    const isKeyword = (keyword: string) =>
+      peek()?.type === 'word' && peek().value.toUpperCase() === keyword;
+    const next = (description: string) => {
+      const token = tokens[index++];
+
+      if (!token) {
+        throw new RuleExpressionError(
+          `Expected ${description} but reached the end`,
+          expression.length
+        );
+      }
+      return token;
+    };
+    const expect = (type: Token['type'], description: string) => {
+      const token = next(description);
+
+      if (token.type !== type) {
+        throw new RuleExpressionError(
+          `Expected ${description} but got '${token.value}'`,
+          token.position
+        );
+      }
+      return token;
+    };
+
+    const parseTerm = (group: number) => {
+      const negation = isKeyword('NOT');
+
+      if (negation) {
+        index++;
+      }
+      if (isKeyword('IN_LIST')) {
+        index++;
+        const listId = expect('word', 'remarketing list ID');
+
+        if (!/^\d+$/.test(listId.value)) {
+          throw new RuleExpressionError(
+            `Invalid remarketing list ID '${listId.value}'`,
+            listId.position
+          );
+        }
+        rules.push({
+          group,
+          variableName: '',
+          variableFriendlyName: '',
+          operator: '',
+          value: listId.value,
+          negation,
+          type: termTypes.listMembership,
+        });
+        return;
+      }
+
+      const referrer = isKeyword('REFERRER');
+
+      if (referrer) {
+        index++;
+      }
+      const variableName = expect('word', 'variable').value.toUpperCase();
+      const operatorToken = expect('word', 'operator');
+      const valueToken = next('value');
+
+      if (valueToken.type !== 'word' && valueToken.type !== 'string') {
+        throw new RuleExpressionError(
+          `Expected value but got '${valueToken.value}'`,
+          valueToken.position
+        );
+      }
+      const operator = RuleExpressionUtil.resolveOperator(
+        operatorToken.value,
+        valueToken.type === 'string',
+        { operators, numericOperatorPrefix }
+      );
+
+      if (!operator) {
+        throw new RuleExpressionError(
+          `Invalid operator '${operatorToken.value}'`,
+          operatorToken.position
+        );
+      }
+      const rule: AudienceRule = {
+        group,
+        variableName,
+        variableFriendlyName: variableNames[variableName] ?? '',
+        operator,
+        value: Audience.escapeRuleValue(valueToken.value, separator),
+        negation,
+      };
+
+      if (referrer) {
+        rule.type = termTypes.referrer;
+      }
+      rules.push(rule);
+    };
+
+    // Returns the position of the first OR of a clause without parentheses
+    const parseClause = (group: number) => {
+      const parenthesized = peek()?.type === '(';
+      let orPosition: number | undefined;
+
+      if (parenthesized) {
+        index++;
+      }
+      parseTerm(group);
+
+      while (isKeyword('OR')) {
+        if (orPosition === undefined) {
+          orPosition = peek().position;
+        }
+        index++;
+        parseTerm(group);
+      }
+      if (parenthesized) {
+        expect(')', "')'");
+        return undefined;
+      }
+      return orPosition;
+    };
+
+    if (tokens.length === 0) {
+      return rules;
+    }
+
+    let group = 0;
+    let unparenthesizedOr = parseClause(group);
+
+    while (isKeyword('AND')) {
+      index++;
+      const orPosition = parseClause(++group);
+
+      if (unparenthesizedOr === undefined) {
+        unparenthesizedOr = orPosition;
+      }
+    }
+    if (peek()) {
+      throw new RuleExpressionError(
+        `Unexpected '${peek().value}'`,
+        peek().position
+      );
+    }
+    // Terms joined by OR always form a single clause, which would silently
+    // differ from the usual precedence of AND over OR
+    if (group > 0 && unparenthesizedOr !== undefined) {
+      throw new RuleExpressionError(
+        'Ambiguous OR, terms joined by OR must be enclosed in parentheses ' +
+          'when combined with AND',
+        unparenthesizedOr
+      );
+    }
+
+    return rules;
+  }
+
+  /**
+   * Renders the given audience rules as a rule expression. Rules holding
+   * multiple separated values are rendered as one term per value, matching the
+   * terms created for them by
+   * {@link AudienceProcessJobController#createListPopulationRule}.
+   *
+   * @param {!Array<!AudienceRule>} rules The audience rules
+   * @param {{
+   *     operators: !Array<string>,
+   *     numericOperatorPrefix: string,
+   *     termTypes: !Object<string, string>,
+   *     separator: string
+   * }=} params
+   * @returns {string} The rule expression
+   */
+  static print(
+    rules: AudienceRule[],
+    {
+      operators = CONFIG.rules.operators,
+      numericOperatorPrefix = CONFIG.rules.numericOperatorPrefix,
+      termTypes = CONFIG.rules.termTypes,
+      separator = CONFIG.rules.separator,
+    } = {}
+  ) {
+    const clauses: string[][] = [];
+
+    for (const rule of rules) {
+      const values = Audience.splitRuleValue(rule.value, separator);
+      const terms = values.map(value => {
+        const prefix = rule.negation ? 'NOT ' : '';
+
+        if (rule.type === termTypes.listMembership) {
+          return `${prefix}IN_LIST ${value}`;
+        }
+        const quoted = !(
+          rule.operator.startsWith(numericOperatorPrefix) &&
+          /^-?\d+(\.\d+)?$/.test(value)
+        );
+        const shortOperator = rule.operator.substring(
+          rule.operator.indexOf('_') + 1
+        );
+        const operator =
+          RuleExpressionUtil.resolveOperator(shortOperator, quoted, {
+            operators,
+            numericOperatorPrefix,
+          }) === rule.operator
+            ? shortOperator
+            : rule.operator;
+        const referrer = rule.type === termTypes.referrer ? 'REFERRER ' : '';
+        const renderedValue = quoted
+          ? `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+          : value;
+
+        return `${prefix}${referrer}${rule.variableName} ${operator} ${renderedValue}`;
+      });
+
+      clauses[rule.group] = (clauses[rule.group] ?? []).concat(terms);
+    }
+
+    const nonEmptyClauses = clauses.filter(terms => terms?.length);
+
+    return nonEmptyClauses
+      .map(terms =>
+        terms.length > 1 && nonEmptyClauses.length > 1
+          ? `(${terms.join(' OR ')})`
+          : terms.join(' OR ')
+      )
+      .join(' AND ');
+  }
+
+  /**
+   * Resolves the given operator, which is either a full operator name or one
+   * without its prefix, to a full operator name. Ambiguous operators without
+   * prefix (e.g. EQUALS) resolve to the numeric variant for unquoted values.
+   *
+   * @param {string} operator The operator as given in the expression
+   * @param {boolean} quoted Whether the value of the term is quoted
+   * @param {{
+   *     operators: !Array<string>,
+   *     numericOperatorPrefix: string
+   * }=} params
+   * @returns {string|undefined} The full operator name, or undefined if the
+   *     operator is unknown
+   */
+  static resolveOperator(
+    operator: string,
+    quoted: boolean,
+    {
+      operators = CONFIG.rules.operators,
+      numericOperatorPrefix = CONFIG.rules.numericOperatorPrefix,
+    } = {}
+  ) {
+    const name = operator.toUpperCase();
+
+    if (operators.includes(name)) {
+      return name;
+    }
+    const candidates = operators.filter(candidate =>
+      candidate.endsWith(`_${name}`)
+    );
+
+    if (candidates.length === 1) {
+      return candidates[0];
+    }
+    return candidates.find(
+      candidate => candidate.startsWith(numericOperatorPrefix) === !quoted
+    );
+  }
+
+  /**
+   * Splits the given rule expression into tokens. Strings are enclosed in
+   * double quotes and may contain escaped quotes and backslashes.
+   *
+   * @param {string} expression The rule expression
+   * @returns {!Array<!Token>} The tokens
+   * @throws {!RuleExpressionError} If a string is not terminated
+   */
+  static tokenize(expression: string) {
+    const tokens: Token[] = [];
+    let index = 0;
+
+    while (index < expression.length) {
+      const char = expression[index];
+
+      if (/\s/.test(char)) {
+        index++;
+      } else if (char === '(' || char === ')') {
+        tokens.push({ type: char, value: char, position: index });
+        index++;
+      } else if (char === '"') {
+        const position = index;
+        let value = '';
+        index++;
+
+        while (index < expression.length && expression[index] !== '"') {
+          if (expression[index] === '\\') {
+            index++;
+          }
+          value += expression[index] ?? '';
+          index++;
+        }
+        if (index >= expression.length) {
+          throw new RuleExpressionError('Unterminated string', position);
+        }
+        tokens.push({ type: 'string', value, position });
+        index++;
+      } else {
+        const match = expression.substring(index).match(/^[^\s()"]+/);
+        const value = match ? match[0] : char;
+
+        tokens.push({ type: 'word', value, position: index });
+        index += value.length;
+      }
+    }
+
+    return tokens;
+  }
+}
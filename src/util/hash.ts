@@ -18,6 +18,20 @@
  * @fileoverview This file contains hashing utility methods.
  */
 
+let md5Digest = (input: string): number[] =>
+  Utilities.computeDigest(Utilities.DigestAlgorithm.MD5, input);
+
+/**
+ * Replaces the MD5 digest implementation, which defaults to
+ * {@link Utilities#computeDigest}, e.g. to calculate hashes in Node.js.
+ * Checksums only match if both implementations return the same bytes.
+ *
+ * @param {function(string): !Array<number>} digest The MD5 digest function
+ */
+export function setMD5Digest(digest: (input: string) => number[]) {
+  md5Digest = digest;
+}
+
 /**
  * Calculate MD5 hash of input.
  *
@@ -25,7 +39,7 @@
  * @returns {string}
  */
 export function generateMD5Hash(input: string): string {
-  return Utilities.computeDigest(Utilities.DigestAlgorithm.MD5, input)
+  return md5Digest(input)
     .map(chr => {
       return (chr + 256).toString(16).slice(-2);
     })
@@ -116,6 +116,10 @@ export class JobUtil {
       floodlightName: parsedObj.audience_.floodlightName_,
       rules: parsedObj.audience_.rules_ || [],
       shares: parsedObj.audience_.shares_,
+      active: parsedObj.audience_.active_,
+      advertiserId: parsedObj.audience_.advertiserId_,
+      listSize: parsedObj.audience_.listSize_,
+      listSource: parsedObj.audience_.listSource_,
     });
 
     const extParams = {
@@ -159,11 +163,17 @@ export class JobUtil {
       floodlightId: parsedObj.audience_.floodlightId_,
       rules: parsedObj.audience_.rules_ ?? [],
       shares: parsedObj.audience_.shares_,
+      active: parsedObj.audience_.active_,
+      advertiserId: parsedObj.audience_.advertiserId_,
+      listSize: parsedObj.audience_.listSize_,
+      listSource: parsedObj.audience_.listSource_,
     });
 
     const extParams = {
       audience,
       actions: parsedObj.actions_,
+      runId: parsedObj.runId_,
+      retryable: parsedObj.retryable_ ?? false,
       idx: job.getIndex(),
     };
 
@@ -73,6 +73,22 @@ export function loadAudiencesJob(json: string): string {
   return invoke_('loadAudiences', json);
 }
 
+/**
+ * Defines the 'forceLoadAudiences' job.
+ * @see jobs.html#loadAudiencesHandler
+ * @see main.js#forceLoadAudiences
+ * @see JobName.FORCE_LOAD_AUDIENCES
+ *
+ * @param {string} json A JSON representation of an object that contains an
+ *     empty array that will be filled by the invoked method with single or
+ *     multiple audience definitions depending on the actual list of audiences
+ *     to process
+ * @returns {string} A JSON string of the result of 'forceLoadAudiences'
+ */
+export function forceLoadAudiencesJob(json: string): string {
+  return invoke_('forceLoadAudiences', json);
+}
+
 /**
  * Defines the 'loadAudience' job.
  * @see jobs.html#loadAudiencesHandler
@@ -87,6 +103,76 @@ export function loadAudienceJob(json: string): string {
   return invoke_('loadAudience', json);
 }
 
+/**
+ * Defines the 'checkDrift' job.
+ * @see jobs.html#checkDriftHandler
+ * @see main.js#checkDrift
+ * @see JobName.CHECK_DRIFT
+ *
+ * @param {string} json A JSON representation of an object that contains an
+ *     empty array that will be filled by the invoked method with the audiences
+ *     to check for drift
+ * @returns {string} A JSON string of the result of 'checkDrift'
+ */
+export function checkDriftJob(json: string): string {
+  return invoke_('checkDrift', json);
+}
+
+/**
+ * Defines the 'checkAudienceDrift' job.
+ * @see jobs.html#checkDriftHandler
+ * @see main.js#checkAudienceDrift
+ * @see JobName.CHECK_AUDIENCE_DRIFT
+ *
+ * @param {string} json A JSON representation of an audience definition to
+ *     check for drift
+ * @returns {string} A JSON string of the result of 'checkAudienceDrift'
+ */
+export function checkAudienceDriftJob(json: string): string {
+  return invoke_('checkAudienceDrift', json);
+}
+
+/**
+ * Defines the 'refreshStats' job.
+ * @see jobs.html#refreshStatsHandler
+ * @see main.js#refreshStats
+ * @see JobName.REFRESH_STATS
+ *
+ * @param {string} json A JSON representation of an empty job
+ * @returns {string} A JSON string of the result of 'refreshStats'
+ */
+export function refreshStatsJob(json: string): string {
+  return invoke_('refreshStats', json);
+}
+
+/**
+ * Defines the 'buildSharesMatrix' job.
+ * @see jobs.html#buildSharesMatrixHandler
+ * @see main.js#buildSharesMatrix
+ * @see JobName.BUILD_SHARES_MATRIX
+ *
+ * @param {string} json A JSON representation of an empty job
+ * @returns {string} A JSON string of the result of 'buildSharesMatrix'
+ */
+export function buildSharesMatrixJob(json: string): string {
+  return invoke_('buildSharesMatrix', json);
+}
+
+/**
+ * Defines the 'applySharesMatrix' job.
+ * @see jobs.html#applySharesMatrixHandler
+ * @see main.js#applySharesMatrix
+ * @see JobName.APPLY_SHARES_MATRIX
+ *
+ * @param {string} json A JSON representation of an object that contains an
+ *     empty array that will be filled by the invoked method with the share
+ *     updates of the audiences changed in the shares matrix
+ * @returns {string} A JSON string of the result of 'applySharesMatrix'
+ */
+export function applySharesMatrixJob(json: string): string {
+  return invoke_('applySharesMatrix', json);
+}
+
 /**
  * Defines the 'processAudiences' job.
  * @see jobs.html#processAudiencesHandler
@@ -103,6 +189,19 @@ export function processAudiencesJob(json: string): string {
   return invoke_('processAudiences', json);
 }
 
+/**
+ * Defines the 'planAudiences' job.
+ * @see jobs.html#planAudiencesHandler
+ * @see main.js#planAudiences
+ * @see JobName.PLAN_AUDIENCES
+ *
+ * @param {string} json A JSON representation of an empty job
+ * @returns {string} A JSON string of the result of 'planAudiences'
+ */
+export function planAudiencesJob(json: string): string {
+  return invoke_('planAudiences', json);
+}
+
 /**
  * Defines the 'processAudience' job.
  * @see jobs.html#processAudiencesHandler
@@ -117,6 +216,20 @@ export function processAudienceJob(json: string): string {
   return invoke_('processAudience', json);
 }
 
+/**
+ * Defines the 'commitAudiences' job.
+ * @see jobs.html#processAudiencesHandler
+ * @see main.js#commitAudiences
+ * @see JobName.COMMIT_AUDIENCES
+ *
+ * @param {string} json A JSON representation of an object that contains the
+ *     processed audience jobs of a run
+ * @returns {string} A JSON string of the result of 'commitAudiences'
+ */
+export function commitAudiencesJob(json: string): string {
+  return invoke_('commitAudiences', json);
+}
+
 /**
  * Defines the 'clearLogs' job.
  * @see client/logger.js#clear
@@ -0,0 +1,220 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { type RemarketingListsFilter } from '../api/cm360';
+import { CONFIG } from '../config';
+
+/**
+ * @fileoverview This file contains utility methods for filtering the
+ * remarketing lists to load into the associated spreadsheet.
+ */
+
+/**
+ * The filters restricting which remarketing lists are loaded. 'name' is either
+ * a case-insensitive substring of the list name or a regular expression
+ * enclosed in slashes, e.g. '/^Shoes/i'. 'status' is one of the statuses
+ * configured in {@link CONFIG.loadFilters.statuses}, and 'createdByTool'
+ * restricts loading to lists created through the spreadsheet.
+ */
+export interface LoadFilters {
+  name?: string;
+  floodlightActivityId?: string;
+  status?: string;
+  listSource?: string;
+  createdByTool?: boolean;
+}
+
+/**
+ * LoadFilterUtil representing a utility class for applying load filters.
+ * Filters supported by the CM360 API are passed through to it, while all
+ * filters are applied to the retrieved lists as well.
+ */
+export class LoadFilterUtil {
+  /**
+   * Returns a copy of the given filters without empty values, validating the
+   * name filter and status along the way.
+   *
+   * @param {!LoadFilters} filters The filters to normalize
+   * @param {{
+   *     statuses: !Object<string, string>
+   * }=} params
+   * @returns {!LoadFilters} The normalized filters
+   * @throws {!Error} If the name filter is an invalid regular expression or
+   *     the status is unknown
+   */
+  static normalize(
+    filters: LoadFilters,
+    { statuses = CONFIG.loadFilters.statuses } = {}
+  ) {
+    const normalized: LoadFilters = {};
+    const name = String(filters.name ?? '').trim();
+    const floodlightActivityId = String(
+      filters.floodlightActivityId ?? ''
+    ).trim();
+    const status = String(filters.status ?? '').toUpperCase();
+    const listSource = String(filters.listSource ?? '').trim();
+
+    if (name) {
+      LoadFilterUtil.parseNamePattern(name);
+      normalized.name = name;
+    }
+    if (floodlightActivityId) {
+      normalized.floodlightActivityId = floodlightActivityId;
+    }
+    if (status) {
+      if (!Object.values(statuses).includes(status)) {
+        throw new Error(
+          `Status must be one of ${Object.values(statuses).join(', ')}`
+        );
+      }
+      normalized.status = status;
+    }
+    if (listSource) {
+      normalized.listSource = listSource;
+    }
+    if (filters.createdByTool) {
+      normalized.createdByTool = true;
+    }
+    return normalized;
+  }
+
+  /**
+   * Whether any filter is set.
+   *
+   * @param {!LoadFilters} filters The filters
+   * @returns {boolean} Whether any filter is set
+   */
+  static isEmpty(filters: LoadFilters) {
+    return Object.keys(LoadFilterUtil.normalize(filters)).length === 0;
+  }
+
+  /**
+   * Returns the regular expression of the given name filter, if it is one.
+   *
+   * @param {string} name The name filter
+   * @param {{
+   *     namePatternRegex: string
+   * }=} params
+   * @returns {?RegExp} The regular expression, or null if the name filter is
+   *     a plain substring
+   * @throws {!Error} If the regular expression is invalid
+   */
+  static parseNamePattern(
+    name: string,
+    { namePatternRegex = CONFIG.loadFilters.namePatternRegex } = {}
+  ) {
+    const match = name.match(new RegExp(namePatternRegex));
+
+    if (!match) {
+      return null;
+    }
+    try {
+      // Global matching would make consecutive tests stateful
+      return new RegExp(match[1], match[2].replace(/g/g, ''));
+    } catch (err: unknown) {
+      throw new Error(
+        `Invalid name filter '${name}': ${(err as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Returns the subset of the given filters which is supported by the CM360
+   * API. Regular expressions are not supported and inactive lists cannot be
+   * requested exclusively, so these are only applied by {@link #matches}.
+   *
+   * @param {!LoadFilters} filters The filters
+   * @param {{
+   *     statuses: !Object<string, string>
+   * }=} params
+   * @returns {!RemarketingListsFilter} The filters to pass to the API
+   */
+  static toRemarketingListsFilter(
+    filters: LoadFilters,
+    { statuses = CONFIG.loadFilters.statuses } = {}
+  ) {
+    const remarketingListsFilter: RemarketingListsFilter = {};
+
+    if (filters.name && !LoadFilterUtil.parseNamePattern(filters.name)) {
+      remarketingListsFilter.name = filters.name;
+    }
+    if (filters.status === statuses.active) {
+      remarketingListsFilter.active = true;
+    }
+    if (filters.floodlightActivityId) {
+      remarketingListsFilter.floodlightActivityId =
+        filters.floodlightActivityId;
+    }
+    return remarketingListsFilter;
+  }
+
+  /**
+   * Whether the given remarketing list matches all of the given filters.
+   *
+   * @param {!RemarketingList} remarketingList The remarketing list
+   * @param {!LoadFilters} filters The filters
+   * @param {!Set<string>=} createdAudienceIds The IDs of the lists created
+   *     through the spreadsheet. Only used for the 'createdByTool' filter
+   * @param {{
+   *     statuses: !Object<string, string>
+   * }=} params
+   * @returns {boolean} Whether the remarketing list matches
+   */
+  static matches(
+    remarketingList: GoogleAppsScript.CampaignManager.RemarketingList,
+    filters: LoadFilters,
+    createdAudienceIds = new Set<string>(),
+    { statuses = CONFIG.loadFilters.statuses } = {}
+  ) {
+    const name = String(remarketingList.name ?? '');
+    const active = remarketingList.active ?? true;
+
+    if (filters.name) {
+      const pattern = LoadFilterUtil.parseNamePattern(filters.name);
+
+      if (
+        pattern
+          ? !pattern.test(name)
+          : !name.toLowerCase().includes(filters.name.toLowerCase())
+      ) {
+        return false;
+      }
+    }
+    if (
+      filters.floodlightActivityId &&
+      String(remarketingList.listPopulationRule?.floodlightActivityId ?? '') !==
+        filters.floodlightActivityId
+    ) {
+      return false;
+    }
+    if (
+      (filters.status === statuses.active && !active) ||
+      (filters.status === statuses.inactive && active)
+    ) {
+      return false;
+    }
+    if (
+      filters.listSource &&
+      remarketingList.listSource !== filters.listSource
+    ) {
+      return false;
+    }
+    return (
+      !filters.createdByTool ||
+      createdAudienceIds.has(String(remarketingList.id ?? ''))
+    );
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CONFIG } from '../config';
+import { Audience, type AudienceRule } from '../model/audience';
+
+/**
+ * @fileoverview This file contains the conversion between audience rules and
+ * the list population rules of CM360 remarketing lists. It does not depend on
+ * the spreadsheet, so that it can be shared with the Node CLI.
+ */
+
+/**
+ * RemarketingListUtil representing a utility class for converting audience
+ * rules from and to list population rules.
+ */
+export class RemarketingListUtil {
+  /**
+   * Create the List Population Rule object of a remarketing list based on the
+   * provided audience rules.
+   *
+   * @param {string|undefined} floodlightId The floodlight ID
+   * @param {!Array<{
+   *         group: number,
+   *         variableName: string,
+   *         variableFriendlyName: string,
+   *         operator: string,
+   *         value: string,
+   *         negation: boolean,
+   *     }>} audienceRules The audience rules
+   * @param {{
+   *     termType: string,
+   *     separator: string,
+   * }=} params
+   * @returns {{
+   *     floodlightActivityId: (string|undefined),
+   *     listPopulationClauses: (!Array<{terms: !Array<!Object>}>|undefined),
+   * }} The created list population rule object
+   */
+  static createListPopulationRule(
+    floodlightId: string | undefined,
+    audienceRules: AudienceRule[],
+    {
+      termType = CONFIG.rules.termType,
+      separator = CONFIG.rules.separator,
+    } = {}
+  ) {
+    const allTerms: GoogleAppsScript.CampaignManager.ListPopulationTerm[][] =
+      [];
+
+    for (const rule of audienceRules) {
+      const terms = Audience.splitRuleValue(rule.value, separator).map(val =>
+        RemarketingListUtil.createListPopulationTerm(rule, val, { termType })
+      );
+
+      if (allTerms[rule.group]) {
+        allTerms[rule.group] = allTerms[rule.group]
+          .concat(terms)
+          .flatMap(x => x);
+      } else {
+        allTerms[rule.group] = terms;
+      }
+    }
+
+    const listPopulationClauses = [];
+
+    for (const terms of allTerms) {
+      listPopulationClauses.push({
+        terms,
+      });
+    }
+
+    const listPopulationRule: GoogleAppsScript.CampaignManager.ListPopulationRule =
+      {
+        floodlightActivityId: floodlightId,
+      };
+
+    if (listPopulationClauses.length > 0) {
+      listPopulationRule.listPopulationClauses = listPopulationClauses;
+    }
+
+    return listPopulationRule;
+  }
+
+  /**
+   * Creates a single list population term of the rule's type for the given
+   * value of the rule.
+   *
+   * @param {!AudienceRule} rule The audience rule
+   * @param {string} value The value to create the term for
+   * @param {{
+   *     termType: string,
+   *     listMembershipTermType: string,
+   * }=} params
+   * @returns {!ListPopulationTerm} The created list population term
+   */
+  static createListPopulationTerm(
+    rule: AudienceRule,
+    value: string,
+    {
+      termType = CONFIG.rules.termType,
+      listMembershipTermType = CONFIG.rules.termTypes.listMembership,
+    } = {}
+  ): GoogleAppsScript.CampaignManager.ListPopulationTerm {
+    const type = rule.type || termType;
+
+    if (type === listMembershipTermType) {
+      return {
+        type,
+        remarketingListId: value,
+        contains: !rule.negation,
+      };
+    }
+
+    const term: GoogleAppsScript.CampaignManager.ListPopulationTerm = {
+      variableName: rule.variableName,
+      type,
+      operator: rule.operator,
+      value,
+      negation: rule.negation,
+    };
+
+    if (rule.contextVariable) {
+      term.contextVariable = rule.contextVariable;
+    }
+    return term;
+  }
+
+  /**
+   * Creates the remarketing list resource to push the given audience with.
+   * Audiences loaded from CM360 keep the source of their list.
+   *
+   * @param {!Audience} audience The audience
+   * @param {{
+   *     listSource: string
+   * }=} params
+   * @returns {!RemarketingList} The remarketing list resource, without ID
+   */
+  static toRemarketingList(
+    audience: Audience,
+    { listSource = CONFIG.audiences.listSource } = {}
+  ) {
+    const remarketingList: GoogleAppsScript.CampaignManager.RemarketingList = {
+      name: audience.getName(),
+      description: audience.getDescription(),
+      lifeSpan: audience.getLifeSpan(),
+      listPopulationRule: RemarketingListUtil.createListPopulationRule(
+        audience.getFloodlightId(),
+        audience.getRules()
+      ),
+      active: audience.isActive(),
+      listSource: audience.getListSource() ?? listSource,
+    };
+    const advertiserId = audience.getAdvertiserId();
+
+    if (advertiserId) {
+      remarketingList.advertiserId = advertiserId;
+    }
+
+    return remarketingList;
+  }
+
+  /**
+   * Checks whether the given remarketing lists define the same audience, i.e.
+   * have the same name, floodlight activity and list population rule. Friendly
+   * names of rules are ignored as CM360 resolves them on its own.
+   *
+   * @param {!RemarketingList} remarketingList The remarketing list
+   * @param {!RemarketingList} other The remarketing list to compare with
+   * @returns {boolean} Whether both lists define the same audience
+   */
+  static isSameList(
+    remarketingList: GoogleAppsScript.CampaignManager.RemarketingList,
+    other: GoogleAppsScript.CampaignManager.RemarketingList
+  ) {
+    const toKey = (list: GoogleAppsScript.CampaignManager.RemarketingList) =>
+      JSON.stringify([
+        list.name,
+        String(list.listPopulationRule?.floodlightActivityId ?? ''),
+        RemarketingListUtil.parseAudienceRules(list, []).map(rule => ({
+          ...rule,
+          variableFriendlyName: '',
+        })),
+      ]);
+
+    return toKey(remarketingList) === toKey(other);
+  }
+
+  /**
+   * Converts the given remarketing list to an audience, without shares.
+   *
+   * @param {!RemarketingList} remarketingList The remarketing list
+   * @param {!Array<!UserDefinedVariableConfiguration>} customVariables The
+   *     custom variables to resolve the friendly names of rules with
+   * @param {string=} floodlightName The name of the floodlight activity the
+   *     remarketing list is based on
+   * @returns {!Audience} The audience
+   */
+  static toAudience(
+    remarketingList: GoogleAppsScript.CampaignManager.RemarketingList,
+    customVariables: GoogleAppsScript.CampaignManager.UserDefinedVariableConfiguration[],
+    floodlightName?: string
+  ) {
+    return new Audience({
+      id: remarketingList.id,
+      name: remarketingList.name,
+      description: remarketingList.description || '',
+      lifeSpan: Number(remarketingList.lifeSpan) || 90,
+      floodlightId:
+        remarketingList.listPopulationRule?.floodlightActivityId || '',
+      floodlightName,
+      rules: RemarketingListUtil.parseAudienceRules(
+        remarketingList,
+        customVariables
+      ),
+      shares: [],
+      active: remarketingList.active ?? true,
+      advertiserId: remarketingList.advertiserId,
+      listSize:
+        remarketingList.listSize !== undefined
+          ? Number(remarketingList.listSize)
+          : undefined,
+      listSource: remarketingList.listSource,
+    });
+  }
+
+  /**
+   * Parse Audience rules from Remarketing List.
+   *
+   * @param {!Object} remarketingList
+   * @param {!Array<!Object>} customVariables
+   *
+   * @returns {!Array<!Object>}
+   */
+  static parseAudienceRules(
+    remarketingList: GoogleAppsScript.CampaignManager.RemarketingList,
+    customVariables: GoogleAppsScript.CampaignManager.UserDefinedVariableConfiguration[]
+  ) {
+    let index = 0;
+    const clauses =
+      remarketingList?.listPopulationRule?.listPopulationClauses ?? [];
+    const rules: AudienceRule[] = [];
+
+    for (const clause of clauses) {
+      if (!clause?.terms) continue;
+
+      for (const term of clause.terms) {
+        rules.push(
+          RemarketingListUtil.parseAudienceRule(term, index, customVariables)
+        );
+      }
+
+      index += 1;
+    }
+
+    return rules;
+  }
+
+  /**
+   * Parse a single Audience rule from a list population term of any type.
+   *
+   * @param {!ListPopulationTerm} term The list population term
+   * @param {number} group The index of the clause the term belongs to
+   * @param {!Array<!Object>} customVariables
+   * @param {{
+   *     termTypes: {
+   *         customVariable: string,
+   *         listMembership: string,
+   *         referrer: string
+   *     },
+   *     separator: string
+   * }=} params
+   * @returns {!AudienceRule} The parsed audience rule
+   */
+  static parseAudienceRule(
+    term: GoogleAppsScript.CampaignManager.ListPopulationTerm,
+    group: number,
+    customVariables: GoogleAppsScript.CampaignManager.UserDefinedVariableConfiguration[],
+    {
+      termTypes = CONFIG.rules.termTypes,
+      separator = CONFIG.rules.separator,
+    } = {}
+  ): AudienceRule {
+    const type = term.type || termTypes.customVariable;
+
+    if (type === termTypes.listMembership) {
+      return {
+        group,
+        variableName: '',
+        variableFriendlyName: '',
+        operator: '',
+        value: term.remarketingListId ?? '',
+        negation: !term.contains,
+        type,
+      };
+    }
+
+    const variableName = term.variableName ?? '';
+    const rule: AudienceRule = {
+      group,
+      variableName,
+      variableFriendlyName:
+        customVariables.find(
+          variable =>
+            variable.variableType.toLowerCase() === variableName.toLowerCase()
+        )?.reportName ??
+        term.variableFriendlyName ??
+        '',
+      operator: term.operator ?? '',
+      // Escaped, as the value of a term is a single value
+      value: Audience.escapeRuleValue(term.value ?? '', separator),
+      negation: term.negation ?? false,
+    };
+
+    if (type !== termTypes.customVariable) {
+      rule.type = type;
+    }
+    if (term.contextVariable) {
+      rule.contextVariable = term.contextVariable;
+    }
+    return rule;
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CONFIG } from '../config';
+import { Audience } from '../model/audience';
+
+/**
+ * @fileoverview This file contains validation logic for audiences and their
+ * rules, used to catch invalid definitions before any request is sent to
+ * CM360.
+ */
+
+/**
+ * AudienceValidator representing a class for validating audiences and rules
+ * against the user defined variables and floodlight activities fetched from
+ * CM360. Checks against variables or floodlight activities are skipped if the
+ * respective list is empty, i.e. has not been fetched yet.
+ */
+export class AudienceValidator {
+  private readonly variables_: string[];
+  private readonly floodlightIds_: string[];
+
+  /**
+   * @constructs an instance of AudienceValidator.
+   *
+   * @param {!Array<string>} variables The known user defined variable names
+   *     (e.g. U1)
+   * @param {!Array<string>} floodlightIds The known floodlight activity IDs
+   */
+  constructor(variables: string[], floodlightIds: string[]) {
+    this.variables_ = variables.map(variable => variable.toLowerCase());
+    this.floodlightIds_ = floodlightIds;
+  }
+
+  /**
+   * Validates a single row of the rules sheet.
+   *
+   * @param {!Array<string|number|boolean>} rule The rule row
+   * @param {{
+   *     groupCol: number,
+   *     variableCol: number,
+   *     operatorCol: number,
+   *     valuesCol: number,
+   *     typeCol: number,
+   *     operators: !Array<string>,
+   *     numericOperatorPrefix: string,
+   *     termTypes: !Object<string, string>,
+   *     separator: string,
+   *     variableSeparator: string
+   * }=} params
+   * @returns {!Array<string>} The validation errors, empty if the rule is valid
+   */
+  validateRule(
+    rule: Array<string | number | boolean>,
+    {
+      groupCol = CONFIG.rules.cols.group,
+      variableCol = CONFIG.rules.cols.variable,
+      operatorCol = CONFIG.rules.cols.operator,
+      valuesCol = CONFIG.rules.cols.values,
+      typeCol = CONFIG.rules.cols.type,
+      operators = CONFIG.rules.operators,
+      numericOperatorPrefix = CONFIG.rules.numericOperatorPrefix,
+      termTypes = CONFIG.rules.termTypes,
+      separator = CONFIG.rules.separator,
+      variableSeparator = CONFIG.customVariables.separator,
+    } = {}
+  ) {
+    const errors: string[] = [];
+    const type = String(rule[typeCol] ?? '') || termTypes.customVariable;
+    const variable = String(rule[variableCol] ?? '').split(
+      variableSeparator
+    )[0];
+    const operator = String(rule[operatorCol] ?? '');
+    const values = Audience.splitRuleValue(
+      String(rule[valuesCol] ?? ''),
+      separator
+    ).map(value => value.trim());
+    const group = String(rule[groupCol] ?? '');
+
+    if (group !== '' && !/^\d+$/.test(group)) {
+      errors.push(`Invalid group '${group}'`);
+    }
+    if (!Object.values(termTypes).includes(type)) {
+      errors.push(`Unknown type '${type}'`);
+      return errors;
+    }
+    if (values.some(value => value === '')) {
+      errors.push('Empty value');
+    }
+
+    if (type === termTypes.listMembership) {
+      if (values.some(value => value !== '' && !/^\d+$/.test(value))) {
+        errors.push('Remarketing list IDs must be numeric');
+      }
+      return errors;
+    }
+
+    if (type === termTypes.customVariable) {
+      if (!variable) {
+        errors.push('Missing variable');
+      } else if (
+        this.variables_.length > 0 &&
+        !this.variables_.includes(variable.toLowerCase())
+      ) {
+        errors.push(`Unknown variable '${variable}'`);
+      }
+    }
+
+    if (!operators.includes(operator)) {
+      errors.push(`Invalid operator '${operator}'`);
+    } else if (
+      operator.startsWith(numericOperatorPrefix) &&
+      values.some(value => value !== '' && isNaN(Number(value)))
+    ) {
+      errors.push(`Operator '${operator}' requires numeric values`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validates an audience, including the grouping of its rules.
+   *
+   * @param {!Audience} audience The audience to validate
+   * @param {{
+   *     maxLifeSpan: number
+   * }=} params
+   * @returns {!Array<string>} The validation errors, empty if the audience is
+   *     valid
+   */
+  validateAudience(
+    audience: Audience,
+    { maxLifeSpan = CONFIG.audiences.maxLifeSpan } = {}
+  ) {
+    const errors: string[] = [];
+    const lifeSpan = audience.getLifeSpan();
+    const floodlightId = audience.getFloodlightId();
+
+    if (!Number.isInteger(lifeSpan) || lifeSpan < 1 || lifeSpan > maxLifeSpan) {
+      errors.push(`Lifespan must be between 1 and ${maxLifeSpan} days`);
+    }
+    if (!floodlightId) {
+      errors.push('Missing floodlight activity');
+    } else if (
+      this.floodlightIds_.length > 0 &&
+      !this.floodlightIds_.includes(floodlightId)
+    ) {
+      errors.push(`Unknown floodlight activity '${floodlightId}'`);
+    }
+
+    const groups = [
+      ...new Set(audience.getRules().map(rule => rule.group)),
+    ].sort((a, b) => a - b);
+
+    if (groups.some((group, index) => group !== index)) {
+      errors.push(
+        `Rule groups must be consecutive starting at 0, got ${groups.join(
+          ', '
+        )}`
+      );
+    }
+
+    return errors;
+  }
+}
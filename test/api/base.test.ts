@@ -17,7 +17,7 @@
  * @fileoverview This file contains tests for BaseApi.
  */
 
-import { BaseApi } from '../../src/api/base';
+import { ApiError, BaseApi } from '../../src/api/base';
 import { UriUtil } from '../../src/util/uri';
 
 global.ScriptApp = {
@@ -31,6 +31,10 @@ global.UrlFetchApp = {
   }),
 } as unknown as typeof UrlFetchApp;
 
+global.Utilities = {
+  sleep: () => undefined,
+} as unknown as typeof Utilities;
+
 describe('BaseApi', () => {
   afterEach(() => {
     jest.resetAllMocks();
@@ -131,17 +135,105 @@ describe('BaseApi', () => {
           'url',
           { headers: { Authorization: 'Bearer OAuthToken' } },
           true,
-          1
+          1,
+          3
         );
         expect(baseApi.executeApiRequest).toHaveBeenCalledWith(
           'url',
           { headers: { Authorization: 'Bearer OAuthToken' } },
           true,
-          2
+          2,
+          3
         );
         expect(console.warn).toHaveBeenCalledTimes(1);
       });
 
+      it('does not retry client errors and surfaces the API payload', () => {
+        jest.spyOn(baseApi, 'buildApiUrl').mockReturnValue('url');
+        jest.spyOn(baseApi, 'buildApiParams').mockReturnValue({});
+        jest.spyOn(console, 'error');
+        jest.spyOn(console, 'warn');
+
+        const payload = { error: { code: 404, message: 'Not found' } };
+        jest.spyOn(UrlFetchApp, 'fetch').mockReturnValue({
+          getResponseCode: () => 404,
+          getContentText: () => JSON.stringify(payload),
+          getHeaders: () => ({}),
+        } as unknown as GoogleAppsScript.URL_Fetch.HTTPResponse);
+
+        let error: ApiError | undefined;
+        try {
+          baseApi.executeApiRequest('url', {}, true);
+        } catch (err) {
+          error = err as ApiError;
+        }
+
+        expect(UrlFetchApp.fetch).toHaveBeenCalledTimes(1);
+        expect(UrlFetchApp.fetch).toHaveBeenCalledWith('url', {
+          muteHttpExceptions: true,
+        });
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error?.message).toEqual(
+          'Request failed with status 404: Not found'
+        );
+        expect(error?.getStatus()).toEqual(404);
+        expect(error?.getPayload()).toEqual(payload);
+      });
+
+      it('honours Retry-After and returns the result of the retry', () => {
+        jest.spyOn(baseApi, 'buildApiUrl').mockReturnValue('url');
+        jest.spyOn(baseApi, 'buildApiParams').mockReturnValue({});
+        jest.spyOn(baseApi, 'refreshAuthToken').mockReturnValue();
+        jest.spyOn(Utilities, 'sleep');
+        jest.spyOn(console, 'error');
+        jest.spyOn(console, 'info');
+
+        jest
+          .spyOn(UrlFetchApp, 'fetch')
+          .mockReturnValueOnce({
+            getResponseCode: () => 429,
+            getContentText: () => '',
+            getHeaders: () => ({ 'Retry-After': '2' }),
+          } as unknown as GoogleAppsScript.URL_Fetch.HTTPResponse)
+          .mockReturnValueOnce({
+            getResponseCode: () => 200,
+            getContentText: () => '{"hello":"world"}',
+          } as unknown as GoogleAppsScript.URL_Fetch.HTTPResponse);
+
+        const result = baseApi.executeApiRequest('url', {}, true);
+
+        expect(UrlFetchApp.fetch).toHaveBeenCalledTimes(2);
+        expect(Utilities.sleep).toHaveBeenCalledWith(2000);
+        expect(result).toEqual({ hello: 'world' });
+      });
+
+      it('fails right away if Retry-After exceeds the max backoff', () => {
+        jest.spyOn(baseApi, 'buildApiUrl').mockReturnValue('url');
+        jest.spyOn(baseApi, 'buildApiParams').mockReturnValue({});
+        jest.spyOn(Utilities, 'sleep');
+        jest.spyOn(console, 'error');
+        jest.spyOn(console, 'warn');
+
+        jest.spyOn(UrlFetchApp, 'fetch').mockReturnValue({
+          getResponseCode: () => 429,
+          getContentText: () => '',
+          getHeaders: () => ({ 'Retry-After': '3600' }),
+        } as unknown as GoogleAppsScript.URL_Fetch.HTTPResponse);
+
+        let error: ApiError | undefined;
+        try {
+          baseApi.executeApiRequest('url', {}, true);
+        } catch (err) {
+          error = err as ApiError;
+        }
+
+        expect(UrlFetchApp.fetch).toHaveBeenCalledTimes(1);
+        expect(Utilities.sleep).not.toHaveBeenCalled();
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error?.getStatus()).toEqual(429);
+        expect(error?.getRetryAfterMillis()).toEqual(3600000);
+      });
+
       it('returns valid response for success status', () => {
         jest.spyOn(baseApi, 'buildApiUrl').mockReturnValue('url');
         jest.spyOn(baseApi, 'buildApiParams').mockReturnValue({});
@@ -162,6 +254,54 @@ describe('BaseApi', () => {
       });
     });
 
+    describe('getBackoffDelay', () => {
+      const params = { initialBackoffMillis: 1000, maxBackoffMillis: 5000 };
+
+      it('backs off exponentially with jitter', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+        expect(baseApi.getBackoffDelay(0, undefined, params)).toEqual(1500);
+        expect(baseApi.getBackoffDelay(1, undefined, params)).toEqual(2500);
+        expect(baseApi.getBackoffDelay(5, undefined, params)).toEqual(5000);
+      });
+
+      it('uses the delay requested by the API', () => {
+        expect(baseApi.getBackoffDelay(0, 3000, params)).toEqual(3000);
+        expect(baseApi.getBackoffDelay(0, 5000, params)).toEqual(5000);
+      });
+
+      it('does not wait for delays exceeding the max backoff', () => {
+        expect(baseApi.getBackoffDelay(0, 60000, params)).toBeUndefined();
+      });
+    });
+
+    describe('ApiError', () => {
+      it('parses Retry-After in seconds and as HTTP date', () => {
+        jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2023, 0, 1));
+
+        expect(ApiError.parseRetryAfter({ 'retry-after': '3' })).toEqual(3000);
+        expect(
+          ApiError.parseRetryAfter({
+            'Retry-After': 'Sun, 01 Jan 2023 00:00:05 GMT',
+          })
+        ).toEqual(5000);
+        expect(ApiError.parseRetryAfter({})).toBeUndefined();
+      });
+
+      it('classifies retryable status codes', () => {
+        expect(new ApiError('', 0).isRetryable()).toBe(true);
+        expect(new ApiError('', 429).isRetryable()).toBe(true);
+        expect(new ApiError('', 503).isRetryable()).toBe(true);
+        expect(new ApiError('', 400).isRetryable()).toBe(false);
+        expect(new ApiError('', 403).isRetryable()).toBe(false);
+        expect(
+          new ApiError('', 403, {
+            error: { errors: [{ reason: 'rateLimitExceeded' }] },
+          }).isRetryable()
+        ).toBe(true);
+      });
+    });
+
     describe('buildApiUrl', () => {
       it('builds API correctly', () => {
         const url = baseApi.buildApiUrl('hello');
@@ -75,19 +75,22 @@ describe('CampaignManagerApi', () => {
     });
 
     describe('getFloodlightActivities', () => {
-      it('calls through to the underlying API', () => {
-        jest.spyOn(campaignManagerApi, 'executeApiRequest').mockReturnValue({
-          floodlightActivities: [],
-        });
+      it('pages through the underlying API', () => {
+        jest
+          .spyOn(campaignManagerApi, 'executePagedApiRequest')
+          .mockImplementation((uri, params, requestCallback) => {
+            requestCallback({ floodlightActivities: [{ id: '1' }] });
+            requestCallback({ floodlightActivities: [{ id: '2' }] });
+          });
 
         const result = campaignManagerApi.getFloodlightActivities('123');
 
-        expect(campaignManagerApi.executeApiRequest).toHaveBeenCalledWith(
+        expect(campaignManagerApi.executePagedApiRequest).toHaveBeenCalledWith(
           'userprofiles/123/floodlightActivities?advertiserId=1234',
           { method: 'get' },
-          true
+          expect.any(Function)
         );
-        expect(result).toEqual([]);
+        expect(result).toEqual([{ id: '1' }, { id: '2' }]);
       });
     });
 
@@ -103,7 +106,7 @@ describe('CampaignManagerApi', () => {
         expect(campaignManagerApi.executePagedApiRequest).toHaveBeenCalledWith(
           'userprofiles/123/advertisers?sortField=Name&maxResults=10',
           { method: 'get' },
-          callback
+          expect.any(Function)
         );
       });
 
@@ -119,25 +122,64 @@ describe('CampaignManagerApi', () => {
           'userprofiles/123/advertisers?sortField=Name' +
             '&maxResults=10&ids=1&ids=345',
           { method: 'get' },
-          callback
+          expect.any(Function)
         );
       });
+
+      it('passes the advertisers of every page to the callback', () => {
+        jest
+          .spyOn(campaignManagerApi, 'executePagedApiRequest')
+          .mockImplementation((uri, params, requestCallback) => {
+            requestCallback({ advertisers: [{ id: '1', name: 'Adv' }] });
+            requestCallback({});
+          });
+        const callback = jest.fn();
+
+        campaignManagerApi.getAdvertisers('123', [], 10, callback);
+
+        expect(callback.mock.calls).toEqual([
+          [[{ id: '1', name: 'Adv' }]],
+          [[]],
+        ]);
+      });
     });
 
     describe('getRemarketingLists', () => {
-      it('calls through to the underlying API', () => {
-        jest.spyOn(campaignManagerApi, 'executeApiRequest').mockReturnValue({
-          remarketingLists: [],
-        });
+      it('pages through the underlying API', () => {
+        jest
+          .spyOn(campaignManagerApi, 'executePagedApiRequest')
+          .mockImplementation((uri, params, requestCallback) => {
+            requestCallback({ remarketingLists: [{ id: '1' }] });
+            requestCallback({});
+          });
 
         const result = campaignManagerApi.getRemarketingLists('123');
 
-        expect(campaignManagerApi.executeApiRequest).toHaveBeenCalledWith(
+        expect(campaignManagerApi.executePagedApiRequest).toHaveBeenCalledWith(
           'userprofiles/123/remarketingLists?advertiserId=1234',
           { method: 'get' },
-          true
+          expect.any(Function)
+        );
+        expect(result).toEqual([{ id: '1' }]);
+      });
+
+      it('passes the given filters through', () => {
+        jest
+          .spyOn(campaignManagerApi, 'executePagedApiRequest')
+          .mockReturnValue(undefined);
+
+        campaignManagerApi.getRemarketingLists('123', '789', {
+          name: 'Shoe buyers',
+          active: true,
+          floodlightActivityId: '456',
+        });
+
+        expect(campaignManagerApi.executePagedApiRequest).toHaveBeenCalledWith(
+          'userprofiles/123/remarketingLists?advertiserId=789' +
+            '&name=Shoe%20buyers&active=true&floodlightActivityId=456',
+          { method: 'get' },
+          expect.any(Function)
         );
-        expect(result).toEqual([]);
       });
     });
 
@@ -176,6 +218,20 @@ describe('CampaignManagerApi', () => {
       });
     });
 
+    describe('getRemarketingList', () => {
+      it('calls through to the underlying API', () => {
+        jest.spyOn(campaignManagerApi, 'executeApiRequest');
+
+        campaignManagerApi.getRemarketingList('123', '456');
+
+        expect(campaignManagerApi.executeApiRequest).toHaveBeenCalledWith(
+          'userprofiles/123/remarketingLists/456',
+          { method: 'get' },
+          true
+        );
+      });
+    });
+
     describe('getRemarketingListSharesResource', () => {
       it('calls through to the underlying API', () => {
         jest.spyOn(campaignManagerApi, 'executeApiRequest');
@@ -0,0 +1,80 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for AudiencesFileUtil.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { AudiencesFileUtil } from '../../src/cli/file';
+import { Audience } from '../../src/model/audience';
+import { CatalogueError } from '../../src/util/catalogue';
+
+describe('AudiencesFileUtil', () => {
+  let dir: string;
+
+  const audience = new Audience({
+    id: '1',
+    name: 'Shoe buyers',
+    description: 'desc',
+    lifeSpan: 30,
+    floodlightId: '123',
+    rules: [],
+    shares: ['2000'],
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audiences-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it.each(['audiences.json', 'audiences.yaml', 'audiences.yml'])(
+    'writes and reads back %s',
+    fileName => {
+      const filePath = path.join(dir, fileName);
+
+      AudiencesFileUtil.write(filePath, [audience], '1');
+
+      expect(AudiencesFileUtil.read(filePath)).toEqual([audience]);
+    }
+  );
+
+  it('accepts a plain list of audiences', () => {
+    const filePath = path.join(dir, 'audiences.yaml');
+    fs.writeFileSync(
+      filePath,
+      "- name: New buyers\n  lifeSpan: 30\n  floodlightId: '123'\n" +
+        '  rules: []\n  shares: []\n'
+    );
+
+    const audiences = AudiencesFileUtil.read(filePath);
+
+    expect(audiences).toHaveLength(1);
+    expect(audiences[0].getName()).toEqual('New buyers');
+  });
+
+  it('throws a CatalogueError for malformed files', () => {
+    const filePath = path.join(dir, 'audiences.json');
+    fs.writeFileSync(filePath, '{');
+
+    expect(() => AudiencesFileUtil.read(filePath)).toThrow(CatalogueError);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for the Node CLI entry point.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { StaticTokenProvider } from '../../src/cli/auth';
+import { AudiencesFileUtil } from '../../src/cli/file';
+import { main } from '../../src/cli/index';
+import { CampaignManagerFacade } from '../../src/facade/cm360';
+import { Audience } from '../../src/model/audience';
+import { JsonFileAudienceRepository } from '../../src/repository/json';
+
+describe('main', () => {
+  let dir: string;
+  let filePath: string;
+  let storePath: string;
+  let out: jest.Mock;
+  let err: jest.Mock;
+  let mockCampaignManagerService: CampaignManagerFacade;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audiences-'));
+    filePath = path.join(dir, 'audiences.yaml');
+    storePath = path.join(dir, 'store.json');
+    out = jest.fn();
+    err = jest.fn();
+    mockCampaignManagerService = {
+      createRemarketingList: jest.fn().mockReturnValue({ id: '2' }),
+      getRemarketingListSharesResource: jest.fn().mockReturnValue({}),
+      updateRemarketingListShares: jest.fn(),
+    } as unknown as CampaignManagerFacade;
+
+    AudiencesFileUtil.write(filePath, [
+      new Audience({
+        name: 'New buyers',
+        description: '',
+        lifeSpan: 30,
+        floodlightId: '123',
+        rules: [],
+        shares: [],
+      }),
+    ]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('rejects unknown commands', () => {
+    expect(main(['deploy'], { out, err })).toEqual(2);
+    expect(err.mock.calls[0][0]).toContain("Unknown command 'deploy'");
+  });
+
+  it('plans the changes of an audiences file', () => {
+    const exitCode = main(['plan', '-f', filePath, '-s', storePath], {
+      out,
+      err,
+    });
+
+    expect(exitCode).toEqual(0);
+    expect(out).toHaveBeenCalledWith(
+      "+ CREATE_AUDIENCE, UPDATE_SHARES 'New buyers'"
+    );
+    expect(out).toHaveBeenCalledWith(
+      'Plan: 1 audience(s) to change, 0 invalid'
+    );
+  });
+
+  it('requires account data to apply changes', () => {
+    const exitCode = main(['apply', '-f', filePath, '-s', storePath], {
+      env: {},
+      out,
+      err,
+    });
+
+    expect(exitCode).toEqual(1);
+    expect(err.mock.calls[0][0]).toContain('requires --network-id');
+  });
+
+  it('applies changes and writes created IDs back to the file', () => {
+    const createCampaignManagerService = jest
+      .fn()
+      .mockReturnValue(mockCampaignManagerService);
+
+    const exitCode = main(
+      [
+        'apply',
+        '--file',
+        filePath,
+        '--store',
+        storePath,
+        '--network-id',
+        '1',
+        '--advertiser-id',
+        '1000, 1001',
+      ],
+      {
+        env: { CM360_ACCESS_TOKEN: 'token' },
+        out,
+        err,
+        createCampaignManagerService,
+      }
+    );
+
+    expect(exitCode).toEqual(0);
+    expect(createCampaignManagerService).toHaveBeenCalledWith(
+      { networkId: '1', advertiserId: '1000', advertiserIds: ['1000', '1001'] },
+      expect.objectContaining({
+        tokenProvider: new StaticTokenProvider('token'),
+      })
+    );
+    expect(AudiencesFileUtil.read(filePath)[0].getId()).toEqual('2');
+    expect(
+      new JsonFileAudienceRepository(storePath).getAudiences()
+    ).toHaveLength(1);
+    expect(
+      main(['plan', '-f', filePath, '-s', storePath], { out, err })
+    ).toEqual(0);
+    expect(out).toHaveBeenLastCalledWith(
+      'Plan: 0 audience(s) to change, 0 invalid'
+    );
+  });
+});
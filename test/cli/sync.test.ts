@@ -0,0 +1,238 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for AudienceSyncController.
+ */
+
+import { createHash } from 'crypto';
+
+import { AudienceSyncController } from '../../src/cli/sync';
+import { CampaignManagerFacade } from '../../src/facade/cm360';
+import { Audience } from '../../src/model/audience';
+import { Job } from '../../src/model/job';
+import { InMemoryAudienceRepository } from '../../src/repository/memory';
+import { setMD5Digest } from '../../src/util/hash';
+import { JobUtil } from '../../src/util/job';
+
+describe('AudienceSyncController', () => {
+  let repository: InMemoryAudienceRepository;
+  let mockCampaignManagerService: CampaignManagerFacade;
+
+  const createAudience = (params: Partial<Record<string, unknown>> = {}) =>
+    new Audience({
+      name: 'Shoe buyers',
+      description: 'desc',
+      lifeSpan: 30,
+      floodlightId: '123',
+      rules: [],
+      shares: [],
+      ...params,
+    });
+
+  beforeAll(() => {
+    setMD5Digest(input => [
+      ...createHash('md5').update(input, 'utf8').digest(),
+    ]);
+  });
+
+  beforeEach(() => {
+    jest.spyOn(JobUtil, 'getCurrentDateString').mockReturnValue('2023-01-01');
+
+    repository = new InMemoryAudienceRepository();
+    mockCampaignManagerService = {
+      getAccountData: jest
+        .fn()
+        .mockReturnValue({ networkId: '1', advertiserId: '1000' }),
+      getAdvertiserIds: jest.fn().mockReturnValue(['1000']),
+      getUserDefinedVariableConfigurations: jest.fn().mockReturnValue([]),
+      getFloodlightActivities: jest
+        .fn()
+        .mockReturnValue([{ id: '123', name: 'Floodlight' }]),
+      getAdvertisers: jest.fn((maxResults, callback) =>
+        callback([
+          { id: '1000', name: 'Own' },
+          { id: '2000', name: 'Other' },
+        ])
+      ),
+      getRemarketingLists: jest.fn().mockReturnValue([
+        {
+          id: '1',
+          name: 'Shoe buyers',
+          description: 'desc',
+          lifeSpan: '30',
+          active: true,
+          listPopulationRule: {
+            floodlightActivityId: '123',
+            listPopulationClauses: [],
+          },
+        },
+      ]),
+      getRemarketingListShares: jest.fn().mockReturnValue(['2000']),
+      updateRemarketingList: jest.fn(),
+      createRemarketingList: jest.fn().mockReturnValue({ id: '2' }),
+      getRemarketingListSharesResource: jest.fn().mockReturnValue({}),
+      updateRemarketingListShares: jest.fn(),
+    } as unknown as CampaignManagerFacade;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('loads audiences, floodlights and advertisers into the repository', () => {
+    const controller = new AudienceSyncController(
+      repository,
+      mockCampaignManagerService
+    );
+
+    const job = controller.load(new Job());
+
+    const synced = repository.getAudiences();
+    expect(synced).toHaveLength(1);
+    expect(synced[0].audience.getId()).toEqual('1');
+    expect(synced[0].audience.getFloodlightName()).toEqual('Floodlight');
+    expect(synced[0].audience.getShares()).toEqual(['2000']);
+    expect(synced[0].audience.getAdvertiserId()).toEqual('1000');
+    expect(synced[0].checksum).toEqual(synced[0].audience.getChecksum());
+    expect(synced[0].status).toEqual('Fetched (2023-01-01)');
+    expect(repository.getAdvertisers()).toEqual([
+      { id: '2000', name: 'Other' },
+    ]);
+    expect(repository.getFloodlightActivities()).toEqual([
+      { id: '123', name: 'Floodlight' },
+    ]);
+    expect(job.getLogs()[0].message).toEqual('Loaded 1 audience(s)');
+  });
+
+  it('plans only audiences which differ from their synced state', () => {
+    const controller = new AudienceSyncController(
+      repository,
+      mockCampaignManagerService
+    );
+    controller.load(new Job());
+    const loaded = repository.getAudiences()[0].audience;
+    const changed = Audience.fromJson({
+      ...JSON.parse(loaded.toJson()),
+      lifeSpan_: 60,
+    });
+
+    const jobs = controller.plan([
+      loaded,
+      changed,
+      createAudience({ name: 'New buyers' }),
+    ]);
+
+    expect(jobs.map(job => job.getIndex())).toEqual([1, 2]);
+    expect(jobs[0].getActions()).toEqual(['UPDATE_AUDIENCE']);
+    expect(jobs[1].getActions()).toEqual(['CREATE_AUDIENCE', 'UPDATE_SHARES']);
+    expect(jobs.some(job => job.isError())).toBe(false);
+  });
+
+  it('only plans share updates of lists from other sources', () => {
+    const controller = new AudienceSyncController(
+      repository,
+      mockCampaignManagerService
+    );
+    (
+      mockCampaignManagerService.getRemarketingLists as jest.Mock
+    ).mockReturnValue([
+      {
+        id: '1',
+        name: 'Shoe buyers',
+        lifeSpan: '30',
+        listSource: 'REMARKETING_LIST_SOURCE_DBM',
+      },
+    ]);
+    controller.load(new Job());
+    const changed = createAudience({ id: '1', lifeSpan: 60, shares: [] });
+
+    const jobs = controller.plan([changed]);
+
+    expect(jobs[0].getActions()).toEqual(['UPDATE_SHARES']);
+  });
+
+  it('flags unknown IDs and invalid audiences', () => {
+    const controller = new AudienceSyncController(repository);
+    repository.saveFloodlightActivities([{ id: '123', name: 'Floodlight' }]);
+
+    const jobs = controller.plan([
+      createAudience({ id: '99' }),
+      createAudience({ floodlightId: '456' }),
+    ]);
+
+    expect(jobs[0].getError()).toContain("Unknown audience ID '99'");
+    expect(jobs[1].isError()).toBe(true);
+  });
+
+  it('applies pending audiences and stores their new state', () => {
+    const controller = new AudienceSyncController(
+      repository,
+      mockCampaignManagerService
+    );
+    const audience = createAudience({ shares: ['2000'] });
+
+    const job = controller.apply(new Job(), [audience]);
+
+    expect(
+      mockCampaignManagerService.createRemarketingList
+    ).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Shoe buyers', lifeSpan: 30 }),
+      undefined
+    );
+    expect(
+      mockCampaignManagerService.updateRemarketingListShares
+    ).toHaveBeenCalledWith('2', { sharedAdvertiserIds: ['2000'] });
+    expect(audience.getId()).toEqual('2');
+    expect(repository.getAudiences()[0].status).toEqual('Success (2023-01-01)');
+    expect(controller.plan([audience])).toEqual([]);
+    expect(job.getJobs()[0].isError()).toBe(false);
+  });
+
+  it('keeps the synced state of audiences which failed', () => {
+    const controller = new AudienceSyncController(
+      repository,
+      mockCampaignManagerService
+    );
+    controller.load(new Job());
+    const synced = repository.getAudiences()[0];
+    const changed = Audience.fromJson({
+      ...JSON.parse(synced.audience.toJson()),
+      lifeSpan_: 60,
+    });
+    (
+      mockCampaignManagerService.updateRemarketingList as jest.Mock
+    ).mockImplementation(() => {
+      throw new Error('Quota exceeded');
+    });
+
+    const job = controller.apply(new Job(), [changed]);
+
+    expect(job.getJobs()[0].getError()).toContain('Quota exceeded');
+    expect(repository.getAudiences()[0].checksum).toEqual(synced.checksum);
+    expect(repository.getAudiences()[0].status).toEqual(
+      'Error! Quota exceeded (2023-01-01)'
+    );
+    expect(controller.plan([changed])).toHaveLength(1);
+  });
+
+  it('requires a CampaignManagerFacade to access CM360', () => {
+    const controller = new AudienceSyncController(repository);
+
+    expect(() => controller.load(new Job())).toThrow(
+      'No CM360 access configured'
+    );
+  });
+});
@@ -18,12 +18,18 @@
  */
 
 import { AudienceProcessJobController } from '../../src/controller/audienceProcessJob';
+import { HistoryController } from '../../src/controller/history';
+import { JobQueueController } from '../../src/controller/jobQueue';
+import { TransactionController } from '../../src/controller/transaction';
 import { CampaignManagerFacade } from '../../src/facade/cm360';
 import { Audience, AudienceRule } from '../../src/model/audience';
 import { AudienceProcessJob } from '../../src/model/audienceProcessJob';
 import { Job } from '../../src/model/job';
+import { InMemoryAudienceRepository } from '../../src/repository/memory';
 import { SheetsService } from '../../src/service/sheets';
 import { JobUtil } from '../../src/util/job';
+import { RemarketingListUtil } from '../../src/util/remarketingList';
+import { AudienceValidator } from '../../src/util/validator';
 
 jest.mock('../../src/util/hash', () => {
   return {
@@ -41,8 +47,11 @@ describe('AudienceProcessJobController', () => {
     mockSheetsService = {
       showToast: jest.fn().mockReturnValue(undefined),
       getRangeData: jest.fn().mockReturnValue([[]]),
+      getCellValue: jest.fn().mockReturnValue(''),
       setCellValue: jest.fn().mockReturnValue(undefined),
       findAndReplace: jest.fn().mockReturnValue(undefined),
+      clearDefinedRange: jest.fn().mockReturnValue(undefined),
+      setValuesInDefinedRange: jest.fn().mockReturnValue(undefined),
     } as unknown as SheetsService;
 
     mockCampaignManagerService = {
@@ -134,6 +143,17 @@ describe('AudienceProcessJobController', () => {
         col: 1,
         nameCol: 1,
       };
+      let save: jest.SpyInstance;
+
+      beforeEach(() => {
+        save = jest
+          .spyOn(JobQueueController.prototype, 'save')
+          .mockReturnValue(undefined);
+      });
+
+      afterEach(() => {
+        save.mockRestore();
+      });
 
       it('creates no AudienceProcess jobs if no audiences', () => {
         const result = audienceProcessJobController.processAudiences(
@@ -158,6 +178,8 @@ describe('AudienceProcessJobController', () => {
         mockSheetsService = {
           showToast: jest.fn().mockReturnValue(undefined),
           getRangeData: jest.fn().mockReturnValue([audiencesTestData['empty']]),
+          clearDefinedRange: jest.fn().mockReturnValue(undefined),
+          setValuesInDefinedRange: jest.fn().mockReturnValue(undefined),
         } as unknown as SheetsService;
 
         audienceProcessJobController = new AudienceProcessJobController(
@@ -190,6 +212,8 @@ describe('AudienceProcessJobController', () => {
           getRangeData: jest
             .fn()
             .mockReturnValue([audiencesTestData['invalid']]),
+          clearDefinedRange: jest.fn().mockReturnValue(undefined),
+          setValuesInDefinedRange: jest.fn().mockReturnValue(undefined),
         } as unknown as SheetsService;
 
         audienceProcessJobController = new AudienceProcessJobController(
@@ -238,6 +262,9 @@ describe('AudienceProcessJobController', () => {
 
         const audience = {} as unknown as Audience;
 
+        jest
+          .spyOn(audienceProcessJobController, 'validateAudienceJobs')
+          .mockImplementation((job, audienceJobs) => audienceJobs);
         jest
           .spyOn(audienceProcessJobController, 'createAudienceProcessJob')
           .mockImplementationOnce(
@@ -316,6 +343,335 @@ describe('AudienceProcessJobController', () => {
           }),
         ]);
       });
+
+      it('snapshots the affected audiences in transactional mode', () => {
+        const rows = [audiencesTestData['modified']];
+        const audienceJob = new AudienceProcessJob({
+          idx: 0,
+          audience: {} as unknown as Audience,
+          actions: ['UPDATE_AUDIENCE'],
+        });
+
+        mockSheetsService = {
+          showToast: jest.fn().mockReturnValue(undefined),
+          getRangeData: jest.fn().mockReturnValue(rows),
+        } as unknown as SheetsService;
+        audienceProcessJobController = new AudienceProcessJobController(
+          mockSheetsService,
+          mockCampaignManagerService
+        );
+        jest
+          .spyOn(JobUtil, 'getCurrentDateString')
+          .mockReturnValue('2023-01-01');
+        jest
+          .spyOn(audienceProcessJobController, 'createAudienceProcessJobs')
+          .mockReturnValue([audienceJob]);
+        jest
+          .spyOn(audienceProcessJobController, 'validateAudienceJobs')
+          .mockImplementation((job, audienceJobs) => audienceJobs);
+        const snapshot = jest
+          .spyOn(TransactionController.prototype, 'snapshot')
+          .mockReturnValue([]);
+
+        const result = audienceProcessJobController.processAudiences(
+          new Job(),
+          { ...defaultParams, transactional: true }
+        );
+
+        expect(
+          audienceProcessJobController.createAudienceProcessJobs
+        ).toHaveBeenCalledWith(rows, 1, '2023-01-01');
+        expect(snapshot).toHaveBeenCalledWith(
+          '2023-01-01',
+          [audienceJob],
+          rows
+        );
+        expect(result.getJobs()).toEqual([audienceJob]);
+        expect(save).toHaveBeenCalledWith([audienceJob]);
+        snapshot.mockRestore();
+      });
+    });
+
+    describe('planAudiences', () => {
+      const defaultParams = {
+        sheetName: 'test',
+        row: 1,
+        col: 1,
+        nameCol: 1,
+        jsonCol: 2,
+        planSheetName: 'plan',
+        planHeaders: ['header'],
+        planRow: 2,
+        planCol: 1,
+      };
+
+      it('writes a diff of every pending change to the plan sheet', () => {
+        const previous = new Audience({
+          id: 'id',
+          name: 'old name',
+          lifeSpan: 10,
+          rules: [],
+          shares: [],
+        });
+        const current = new Audience({
+          id: 'id',
+          name: 'new name',
+          lifeSpan: 10,
+          rules: [],
+          shares: ['2', '1'],
+        });
+
+        mockSheetsService = {
+          showToast: jest.fn().mockReturnValue(undefined),
+          getRangeData: jest
+            .fn()
+            .mockReturnValue([['id', 'new name', previous.toJson()]]),
+          getOrCreateSheet: jest.fn().mockReturnValue(undefined),
+          clearDefinedRange: jest.fn().mockReturnValue(undefined),
+          setValuesInDefinedRange: jest.fn().mockReturnValue(undefined),
+        } as unknown as SheetsService;
+
+        audienceProcessJobController = new AudienceProcessJobController(
+          mockSheetsService,
+          mockCampaignManagerService
+        );
+        jest.spyOn(console, 'log');
+        jest
+          .spyOn(audienceProcessJobController, 'validateAudienceJobs')
+          .mockImplementation((job, audienceJobs) => audienceJobs);
+        jest
+          .spyOn(audienceProcessJobController, 'createAudienceProcessJob')
+          .mockReturnValue(
+            new AudienceProcessJob({
+              idx: 0,
+              audience: current,
+              actions: ['UPDATE_AUDIENCE', 'UPDATE_SHARES'],
+            })
+          );
+
+        const result = audienceProcessJobController.planAudiences(
+          new Job(),
+          defaultParams
+        );
+
+        expect(mockSheetsService.getOrCreateSheet).toHaveBeenCalledWith(
+          'plan',
+          ['header']
+        );
+        expect(mockSheetsService.clearDefinedRange).toHaveBeenCalledWith(
+          'plan',
+          2,
+          1
+        );
+        expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+          'plan',
+          2,
+          1,
+          [
+            [
+              'id',
+              'new name',
+              'UPDATE_AUDIENCE',
+              'name',
+              'old name',
+              'new name',
+            ],
+            ['id', 'new name', 'UPDATE_SHARES', 'shares', '', '1, 2'],
+          ]
+        );
+        expect(result.getLogs()[0].message).toEqual(
+          'Planned 2 change(s) for 1 audience(s)'
+        );
+      });
+    });
+
+    describe('validateAudienceJobs', () => {
+      it('annotates invalid rules and audiences and skips their jobs', () => {
+        jest
+          .spyOn(JobUtil, 'getCurrentDateString')
+          .mockReturnValue('2023-01-01');
+
+        mockSheetsService = {
+          getRangeData: jest.fn().mockImplementation((sheetName: string) =>
+            sheetName === 'aux'
+              ? [['U1:var']]
+              : sheetName === 'floodlights'
+              ? [['1', 'floodlight (1)']]
+              : [
+                  ['a', 0, 'U1:var', 'STRING_EQUALS', 'x', false],
+                  ['b', 0, 'U99:var', 'STRING_EQUALS', 'x', false],
+                ]
+          ),
+          clearDefinedRange: jest.fn().mockReturnValue(undefined),
+          setValuesInDefinedRange: jest.fn().mockReturnValue(undefined),
+          setCellValue: jest.fn().mockReturnValue(undefined),
+        } as unknown as SheetsService;
+
+        audienceProcessJobController = new AudienceProcessJobController(
+          mockSheetsService,
+          mockCampaignManagerService
+        );
+
+        const createJob = (id: string, idx: number) =>
+          new AudienceProcessJob({
+            idx,
+            audience: new Audience({
+              id,
+              name: id,
+              lifeSpan: 30,
+              floodlightId: '1',
+              rules: [],
+              shares: [],
+            }),
+            actions: ['UPDATE_AUDIENCE'],
+          });
+        const validJob = createJob('a', 0);
+        const job = new Job();
+
+        const result = audienceProcessJobController.validateAudienceJobs(job, [
+          validJob,
+          createJob('b', 1),
+        ]);
+
+        expect(result).toEqual([validJob]);
+        expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+          'Rules',
+          2,
+          10,
+          [[''], ["Unknown variable 'U99'"]]
+        );
+        expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+          3,
+          7,
+          'Invalid! 1 invalid rule(s) (2023-01-01)',
+          'Audiences'
+        );
+        expect(job.getLogs()[0].message).toEqual(
+          "Skipping invalid audience 'b'"
+        );
+      });
+
+      it('clears the annotations of fixed rules without jobs', () => {
+        mockSheetsService = {
+          getRangeData: jest
+            .fn()
+            .mockImplementation((sheetName: string) =>
+              sheetName === 'aux'
+                ? [['U1:var']]
+                : sheetName === 'floodlights'
+                ? [['1', 'floodlight (1)']]
+                : [['a', 0, 'U1:var', 'STRING_EQUALS', 'x', false]]
+            ),
+          clearDefinedRange: jest.fn().mockReturnValue(undefined),
+          setValuesInDefinedRange: jest.fn().mockReturnValue(undefined),
+          setCellValue: jest.fn().mockReturnValue(undefined),
+        } as unknown as SheetsService;
+
+        audienceProcessJobController = new AudienceProcessJobController(
+          mockSheetsService,
+          mockCampaignManagerService
+        );
+
+        const result = audienceProcessJobController.validateAudienceJobs(
+          new Job(),
+          []
+        );
+
+        expect(result).toEqual([]);
+        expect(mockSheetsService.clearDefinedRange).toHaveBeenCalledWith(
+          'Rules',
+          2,
+          10,
+          0,
+          1
+        );
+        expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+          'Rules',
+          2,
+          10,
+          [['']]
+        );
+        expect(mockSheetsService.setCellValue).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('createPlanRows', () => {
+      it('reports all fields as new for created audiences', () => {
+        const audience = new Audience({
+          id: 'tmp',
+          name: 'name',
+          lifeSpan: 30,
+          floodlightId: '1',
+          rules: [],
+          shares: [],
+        });
+        const job = new AudienceProcessJob({
+          idx: 0,
+          audience,
+          actions: ['CREATE_AUDIENCE'],
+        });
+
+        const result = audienceProcessJobController.createPlanRows(
+          job,
+          undefined
+        );
+
+        expect(result).toEqual([
+          ['tmp', 'name', 'CREATE_AUDIENCE', 'name', '', 'name'],
+          ['tmp', 'name', 'CREATE_AUDIENCE', 'lifeSpan', '', '30'],
+          ['tmp', 'name', 'CREATE_AUDIENCE', 'floodlightId', '', '1'],
+          ['tmp', 'name', 'CREATE_AUDIENCE', 'active', '', 'true'],
+        ]);
+      });
+
+      it('reports updates without field-level changes', () => {
+        const audience = new Audience({
+          id: 'id',
+          name: 'name',
+          lifeSpan: 30,
+          rules: [],
+          shares: [],
+        });
+        const job = new AudienceProcessJob({
+          idx: 0,
+          audience,
+          actions: ['UPDATE_AUDIENCE'],
+        });
+
+        const result = audienceProcessJobController.createPlanRows(
+          job,
+          audience
+        );
+
+        expect(result).toEqual([['id', 'name', 'UPDATE_AUDIENCE', '', '', '']]);
+      });
+    });
+
+    describe('parseAudienceSnapshot', () => {
+      it('returns undefined for empty or invalid snapshots', () => {
+        jest.spyOn(console, 'log');
+
+        expect(
+          audienceProcessJobController.parseAudienceSnapshot('')
+        ).toBeUndefined();
+        expect(
+          audienceProcessJobController.parseAudienceSnapshot('{invalid')
+        ).toBeUndefined();
+      });
+
+      it('parses valid snapshots', () => {
+        const audience = new Audience({
+          id: 'id',
+          name: 'name',
+          lifeSpan: 30,
+          rules: [],
+          shares: ['1'],
+        });
+
+        expect(
+          audienceProcessJobController.parseAudienceSnapshot(audience.toJson())
+        ).toEqual(audience);
+      });
     });
 
     describe('createAudienceProcessJob', () => {
@@ -376,7 +732,7 @@ describe('AudienceProcessJobController', () => {
         ).toHaveBeenNthCalledWith(1, 'floodlight (1)');
         expect(
           audienceProcessJobController.getAudienceRules
-        ).toHaveBeenNthCalledWith(1, '');
+        ).toHaveBeenNthCalledWith(1, '', '');
         expect(
           audienceProcessJobController.extractSharedAdvertiserIds
         ).toHaveBeenNthCalledWith(1, '');
@@ -398,7 +754,7 @@ describe('AudienceProcessJobController', () => {
         ).toHaveBeenNthCalledWith(1, 'floodlight (1)');
         expect(
           audienceProcessJobController.getAudienceRules
-        ).toHaveBeenNthCalledWith(1, 'id');
+        ).toHaveBeenNthCalledWith(1, 'id', '');
         expect(
           audienceProcessJobController.extractSharedAdvertiserIds
         ).toHaveBeenNthCalledWith(1, '');
@@ -436,7 +792,7 @@ describe('AudienceProcessJobController', () => {
         ).toHaveBeenNthCalledWith(1, '');
         expect(
           audienceProcessJobController.getAudienceRules
-        ).toHaveBeenNthCalledWith(1, 'id');
+        ).toHaveBeenNthCalledWith(1, 'id', '');
         expect(
           audienceProcessJobController.extractSharedAdvertiserIds
         ).toHaveBeenNthCalledWith(1, '');
@@ -474,7 +830,7 @@ describe('AudienceProcessJobController', () => {
         ).toHaveBeenNthCalledWith(1, '');
         expect(
           audienceProcessJobController.getAudienceRules
-        ).toHaveBeenNthCalledWith(1, 'id');
+        ).toHaveBeenNthCalledWith(1, 'id', '');
         expect(
           audienceProcessJobController.extractSharedAdvertiserIds
         ).toHaveBeenNthCalledWith(1, '');
@@ -511,67 +867,309 @@ describe('AudienceProcessJobController', () => {
         ).toHaveBeenNthCalledWith(1, '');
         expect(
           audienceProcessJobController.getAudienceRules
-        ).toHaveBeenNthCalledWith(1, 'id');
+        ).toHaveBeenNthCalledWith(1, 'id', '');
         expect(
           audienceProcessJobController.extractSharedAdvertiserIds
         ).toHaveBeenNthCalledWith(1, '');
         expect(result).toEqual(expectation);
       });
-    });
 
-    describe('extractSharedAdvertiserIds', () => {
-      const regex = '\\((\\d+)\\)\\|?';
+      it('creates AudienceProcess job with deactivate action for inactive audiences', () => {
+        extractSharedAdvertiserIdsSpy.mockReturnValue([]);
+        extractFloodlightIdSpy.mockReturnValue(undefined);
+        getAudienceRulesSpy.mockReturnValue([]);
 
-      it('returns empty array if empty string', () => {
-        const testStr = '';
-        const result = audienceProcessJobController.extractSharedAdvertiserIds(
-          testStr,
-          regex
-        );
+        const audience = new Audience({
+          id: 'id',
+          name: 'name',
+          description: '',
+          lifeSpan: 10,
+          rules: [],
+          shares: [],
+          active: false,
+        });
 
-        expect(result).toEqual([]);
-      });
+        const expectation = new AudienceProcessJob({
+          idx: 1,
+          audience: audience,
+          actions: ['DEACTIVATE_AUDIENCE'],
+        });
 
-      it('returns empty array for invalid input', () => {
-        const testStr = 'test 1,test 2';
-        const result = audienceProcessJobController.extractSharedAdvertiserIds(
-          testStr,
-          regex
+        const result = audienceProcessJobController.createAudienceProcessJob(
+          audiencesTestData['modified'].concat(false as never, '1'),
+          { ...defaultParams, activeCol: 9 }
         );
 
-        expect(result).toEqual([]);
+        expect(result).toEqual(expectation);
       });
+    });
 
-      it('returns matches for valid input', () => {
-        const testStr = 'test (2),test (1)';
-        const result = audienceProcessJobController.extractSharedAdvertiserIds(
-          testStr,
-          regex
-        );
+    describe('createAudienceProcessJob for drifted audiences', () => {
+      it('forces an update of audiences marked to be overwritten', () => {
+        jest
+          .spyOn(audienceProcessJobController, 'getAudienceRules')
+          .mockReturnValue([]);
+        jest
+          .spyOn(audienceProcessJobController, 'extractSharedAdvertiserIds')
+          .mockReturnValue([]);
+        const noChanges = audiencesTestData['no_changes'];
 
-        expect(result).toEqual(['2', '1']);
-      });
-    });
+        expect(
+          audienceProcessJobController.createAudienceProcessJob(
+            noChanges.concat('0'),
+            { nameCol: 1, lifeSpanCol: 3, driftResolutionCol: 9 }
+          )
+        ).toBeUndefined();
 
-    describe('extractFloodlightId', () => {
-      it('returns undefined for given empty string', () => {
-        const result = audienceProcessJobController.extractFloodlightId('');
+        const result = audienceProcessJobController.createAudienceProcessJob(
+          noChanges.concat('OVERWRITE', '0'),
+          { nameCol: 1, lifeSpanCol: 3, driftResolutionCol: 9 }
+        );
 
-        expect(result).toBeUndefined();
+        expect(result?.getActions()).toEqual([
+          'UPDATE_AUDIENCE',
+          'UPDATE_SHARES',
+        ]);
       });
+    });
 
-      it('returns undefined for given non-matching string', () => {
-        const result =
-          audienceProcessJobController.extractFloodlightId('hello');
+    describe('createAudienceProcessJob for locked audiences', () => {
+      it('only updates the shares of lists from other sources', () => {
+        jest
+          .spyOn(audienceProcessJobController, 'getAudienceRules')
+          .mockReturnValue([]);
+        jest
+          .spyOn(audienceProcessJobController, 'extractSharedAdvertiserIds')
+          .mockReturnValue([]);
+        const params = { nameCol: 1, lifeSpanCol: 3, listSourceCol: 9 };
 
-        expect(result).toBeUndefined();
-      });
+        expect(
+          audienceProcessJobController.createAudienceProcessJob(
+            audiencesTestData['modified'].concat(
+              'REMARKETING_LIST_SOURCE_GA',
+              '1'
+            ),
+            params
+          )
+        ).toBeUndefined();
 
-      it('return floodlightId for valid string', () => {
-        const result =
-          audienceProcessJobController.extractFloodlightId('test (1)');
+        const result = audienceProcessJobController.createAudienceProcessJob(
+          audiencesTestData['modifiedBoth'].concat(
+            'REMARKETING_LIST_SOURCE_GA',
+            '1'
+          ),
+          params
+        );
 
-        expect(result).toBe('1');
+        expect(result?.getActions()).toEqual(['UPDATE_SHARES']);
+        expect(result?.getAudience().isLocked()).toBe(true);
+      });
+    });
+
+    describe('createAudienceProcessJob with rule expressions', () => {
+      const params = {
+        nameCol: 1,
+        lifeSpanCol: 3,
+        descriptionCol: 2,
+        floodlightIdCol: 4,
+        ruleExpressionCol: 9,
+        useRuleExpressions: true,
+      };
+
+      beforeEach(() => {
+        jest.spyOn(audienceProcessJobController, 'getAudienceRules');
+        jest
+          .spyOn(audienceProcessJobController, 'getCustomVariableNames')
+          .mockReturnValue({ U1: 'var' });
+      });
+
+      it('takes the rules from the rule expression if given', () => {
+        const result = audienceProcessJobController.createAudienceProcessJob(
+          audiencesTestData['modified'].concat('u1 EQUALS "shoes"', '1'),
+          params
+        );
+
+        expect(
+          audienceProcessJobController.getAudienceRules
+        ).not.toHaveBeenCalled();
+        expect(result?.getAudience().getRules()).toEqual([
+          {
+            group: 0,
+            variableName: 'U1',
+            variableFriendlyName: 'var',
+            operator: 'STRING_EQUALS',
+            value: 'shoes',
+            negation: false,
+          },
+        ]);
+      });
+
+      it('falls back to the rules sheet for empty rule expressions', () => {
+        audienceProcessJobController.createAudienceProcessJob(
+          audiencesTestData['modified'].concat('', '1'),
+          params
+        );
+
+        expect(
+          audienceProcessJobController.getAudienceRules
+        ).toHaveBeenCalledWith('id', '');
+      });
+
+      it('fails only the audiences with invalid rule expressions', () => {
+        jest
+          .spyOn(JobUtil, 'getCurrentDateString')
+          .mockReturnValue('2023-01-01');
+        const createAudienceProcessJob =
+          audienceProcessJobController.createAudienceProcessJob.bind(
+            audienceProcessJobController
+          );
+        jest
+          .spyOn(audienceProcessJobController, 'createAudienceProcessJob')
+          .mockImplementation((audienceRow, { runId } = {}) =>
+            createAudienceProcessJob(audienceRow, { ...params, runId })
+          );
+        jest
+          .spyOn(audienceProcessJobController, 'createAudienceValidator')
+          .mockReturnValue({
+            validateRule: () => [],
+            validateAudience: () => [],
+          } as unknown as AudienceValidator);
+        jest
+          .spyOn(audienceProcessJobController, 'getAllRules')
+          .mockReturnValue([]);
+        mockSheetsService.setValuesInDefinedRange = jest.fn();
+        mockSheetsService.setCellValue = jest.fn();
+
+        const audienceJobs =
+          audienceProcessJobController.createAudienceProcessJobs(
+            [
+              audiencesTestData['modified'].concat('u1 LIKE "shoes"'),
+              audiencesTestData['modified'].concat('u1 EQUALS "shoes"'),
+            ],
+            1,
+            'run'
+          );
+        const message =
+          "Invalid rule expression of audience 'name': Invalid operator " +
+          "'LIKE' at position 3";
+
+        expect(audienceJobs.map(audienceJob => audienceJob.getError())).toEqual(
+          [message, '']
+        );
+        expect(
+          audienceProcessJobController.validateAudienceJobs(
+            new Job(),
+            audienceJobs
+          )
+        ).toEqual([audienceJobs[1]]);
+        expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+          2,
+          7,
+          `Invalid! ${message} (2023-01-01)`,
+          'Audiences'
+        );
+      });
+    });
+
+    describe('getCustomVariableNames', () => {
+      it('maps variable names to friendly names', () => {
+        mockSheetsService = {
+          getRangeData: jest
+            .fn()
+            .mockReturnValue([['U1:var'], ['u2:a:b'], ['']]),
+        } as unknown as SheetsService;
+
+        audienceProcessJobController = new AudienceProcessJobController(
+          mockSheetsService,
+          mockCampaignManagerService
+        );
+
+        expect(audienceProcessJobController.getCustomVariableNames()).toEqual({
+          U1: 'var',
+          U2: 'a:b',
+        });
+      });
+    });
+
+    describe('extractActiveState', () => {
+      it('returns the default state for empty values', () => {
+        expect(audienceProcessJobController.extractActiveState('', true)).toBe(
+          true
+        );
+        expect(
+          audienceProcessJobController.extractActiveState(undefined, false)
+        ).toBe(false);
+      });
+
+      it('parses checkbox and string values', () => {
+        expect(audienceProcessJobController.extractActiveState(true)).toBe(
+          true
+        );
+        expect(audienceProcessJobController.extractActiveState(false)).toBe(
+          false
+        );
+        expect(audienceProcessJobController.extractActiveState('TRUE')).toBe(
+          true
+        );
+        expect(audienceProcessJobController.extractActiveState('false')).toBe(
+          false
+        );
+      });
+    });
+
+    describe('extractSharedAdvertiserIds', () => {
+      const regex = '\\((\\d+)\\)\\|?';
+
+      it('returns empty array if empty string', () => {
+        const testStr = '';
+        const result = audienceProcessJobController.extractSharedAdvertiserIds(
+          testStr,
+          regex
+        );
+
+        expect(result).toEqual([]);
+      });
+
+      it('returns empty array for invalid input', () => {
+        const testStr = 'test 1,test 2';
+        const result = audienceProcessJobController.extractSharedAdvertiserIds(
+          testStr,
+          regex
+        );
+
+        expect(result).toEqual([]);
+      });
+
+      it('returns matches for valid input', () => {
+        const testStr = 'test (2),test (1)';
+        const result = audienceProcessJobController.extractSharedAdvertiserIds(
+          testStr,
+          regex
+        );
+
+        expect(result).toEqual(['2', '1']);
+      });
+    });
+
+    describe('extractFloodlightId', () => {
+      it('returns undefined for given empty string', () => {
+        const result = audienceProcessJobController.extractFloodlightId('');
+
+        expect(result).toBeUndefined();
+      });
+
+      it('returns undefined for given non-matching string', () => {
+        const result =
+          audienceProcessJobController.extractFloodlightId('hello');
+
+        expect(result).toBeUndefined();
+      });
+
+      it('return floodlightId for valid string', () => {
+        const result =
+          audienceProcessJobController.extractFloodlightId('test (1)');
+
+        expect(result).toBe('1');
       });
     });
 
@@ -641,6 +1239,49 @@ describe('AudienceProcessJobController', () => {
         expect(result).toEqual([]);
       });
 
+      it('creates rules of other term types', () => {
+        getAllRulesSpy.mockReturnValue([
+          ['1', 0, '', '', '123', true, '', 'LIST_MEMBERSHIP_TERM', ''],
+          ['1', 1, '', 'STRING_CONTAINS', 'x', false, '', 'REFERRER_TERM', 'c'],
+        ]);
+
+        const result = audienceProcessJobController.getAudienceRules('1');
+
+        expect(result).toEqual([
+          {
+            group: 0,
+            variableName: '',
+            variableFriendlyName: '',
+            operator: '',
+            value: '123',
+            negation: true,
+            type: 'LIST_MEMBERSHIP_TERM',
+          },
+          {
+            group: 1,
+            variableName: '',
+            variableFriendlyName: undefined,
+            operator: 'STRING_CONTAINS',
+            value: 'x',
+            negation: false,
+            type: 'REFERRER_TERM',
+            contextVariable: 'c',
+          },
+        ]);
+      });
+
+      it('ignores rules assigned to other advertisers', () => {
+        getAllRulesSpy.mockReturnValue([
+          ['1', 0, 'U1:var-name', 'STRING_EQUALS', 'val1', false, 'a'],
+          ['1', 0, 'U1:var-name', 'STRING_EQUALS', 'val2', false, 'b'],
+          ['1', 1, 'U2:var-name', 'STRING_EQUALS', 'val3', false, ''],
+        ]);
+
+        const result = audienceProcessJobController.getAudienceRules('1', 'a');
+
+        expect(result.map(rule => rule.value)).toEqual(['val1', 'val3']);
+      });
+
       it('creates no rules if audience ID not found', () => {
         mockSheetsService = {
           getRangeData: jest.fn().mockReturnValue(rulesTestData['single']),
@@ -767,18 +1408,11 @@ describe('AudienceProcessJobController', () => {
 
     describe('processAudience', () => {
       const defaultParams = {
-        sheetName: 'audiences',
-        row: 1,
-        idCol: 1,
-        statusCol: 6,
-        checksumCol: 7,
-        sharesChecksumCol: 8,
-        defaultState: true,
         listSource: 'source',
         createAudienceAction: 'CREATE_AUDIENCE',
         updateAudienceAction: 'UPDATE_AUDIENCE',
+        deactivateAudienceAction: 'DEACTIVATE_AUDIENCE',
         updateSharesAction: 'UPDATE_SHARES',
-        rulesSheetName: 'Rules',
       };
 
       let audience: Audience;
@@ -789,6 +1423,11 @@ describe('AudienceProcessJobController', () => {
         jest
           .spyOn(JobUtil, 'getCurrentDateString')
           .mockReturnValue('2023-01-01');
+        jest
+          .spyOn(HistoryController.prototype, 'recordChange')
+          .mockReturnValue([]);
+        // The ID cell of the audience row
+        mockSheetsService.getCellValue = jest.fn().mockReturnValue('id');
 
         audience = new Audience({
           id: 'id',
@@ -857,7 +1496,7 @@ describe('AudienceProcessJobController', () => {
         );
         expect(
           mockCampaignManagerService.createRemarketingList
-        ).toHaveBeenNthCalledWith(1, remarketingList);
+        ).toHaveBeenNthCalledWith(1, remarketingList, undefined);
         expect(console.log).toHaveBeenCalledWith("Creating 'test'...");
         const message = "Processed audience 'test' successfully!";
         expect(console.log).toHaveBeenCalledWith(message);
@@ -871,23 +1510,129 @@ describe('AudienceProcessJobController', () => {
           'new'
         );
         expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
-          1,
           2,
+          1,
           'new',
-          'audiences'
+          'Audiences'
         );
         expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
-          1,
+          2,
           8,
           'md5Hash',
-          'audiences'
+          'Audiences'
         );
         expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
-          1,
+          2,
           7,
           'Success (2023-01-01)',
-          'audiences'
+          'Audiences'
+        );
+      });
+
+      it('reuses the list created by an earlier attempt of the job', () => {
+        const job = new AudienceProcessJob({
+          idx: 0,
+          audience: audience,
+          actions: ['CREATE_AUDIENCE'],
+          runId: 'run',
+        });
+        const jobQueue = {
+          markRunning: jest.fn().mockReturnValue('RUNNING'),
+          update: jest.fn().mockReturnValue(true),
+        } as unknown as JobQueueController;
+        const listPopulationRule = RemarketingListUtil.createListPopulationRule(
+          audience.getFloodlightId(),
+          audience.getRules()
+        );
+
+        mockCampaignManagerService = {
+          getRemarketingLists: jest.fn().mockReturnValue([
+            { id: 'other', name: 'other', listPopulationRule },
+            { id: 'changed', name: 'test', listPopulationRule: {} },
+            {
+              id: 'dbm',
+              name: 'test',
+              listPopulationRule,
+              listSource: 'REMARKETING_LIST_SOURCE_DBM',
+            },
+            { id: 'existing', name: 'test', listPopulationRule },
+          ]),
+          createRemarketingList: jest.fn().mockReturnValue({ id: 'new' }),
+          updateRemarketingList: jest.fn().mockReturnValue({ id: 'existing' }),
+        } as unknown as CampaignManagerFacade;
+        audienceProcessJobController = new AudienceProcessJobController(
+          mockSheetsService,
+          mockCampaignManagerService,
+          jobQueue
+        );
+
+        const result = audienceProcessJobController.processAudience(
+          job,
+          defaultParams
+        );
+
+        expect(
+          mockCampaignManagerService.createRemarketingList
+        ).not.toHaveBeenCalled();
+        expect(
+          mockCampaignManagerService.updateRemarketingList
+        ).toHaveBeenCalledWith(expect.objectContaining({ id: 'existing' }));
+        expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+          2,
+          1,
+          'existing',
+          'Audiences'
+        );
+        expect(result.getAudience().getId()).toEqual('existing');
+        expect(jobQueue.update).toHaveBeenCalledWith(job);
+      });
+
+      it('creates a new list if no list of an earlier attempt matches', () => {
+        const job = new AudienceProcessJob({
+          idx: 0,
+          audience: audience,
+          actions: ['CREATE_AUDIENCE'],
+          runId: 'run',
+        });
+        const jobQueue = {
+          markRunning: jest.fn().mockReturnValue('ERROR'),
+          update: jest.fn().mockReturnValue(true),
+        } as unknown as JobQueueController;
+
+        mockCampaignManagerService = {
+          getRemarketingLists: jest.fn().mockReturnValue([
+            { id: 'changed', name: 'test', listPopulationRule: {} },
+            {
+              id: 'dbm',
+              name: 'test',
+              listPopulationRule: RemarketingListUtil.createListPopulationRule(
+                audience.getFloodlightId(),
+                audience.getRules()
+              ),
+              listSource: 'REMARKETING_LIST_SOURCE_DBM',
+            },
+          ]),
+          createRemarketingList: jest.fn().mockReturnValue({ id: 'new' }),
+          updateRemarketingList: jest.fn(),
+        } as unknown as CampaignManagerFacade;
+        audienceProcessJobController = new AudienceProcessJobController(
+          mockSheetsService,
+          mockCampaignManagerService,
+          jobQueue
+        );
+
+        const result = audienceProcessJobController.processAudience(
+          job,
+          defaultParams
         );
+
+        expect(
+          mockCampaignManagerService.updateRemarketingList
+        ).not.toHaveBeenCalled();
+        expect(
+          mockCampaignManagerService.createRemarketingList
+        ).toHaveBeenCalledTimes(1);
+        expect(result.getAudience().getId()).toEqual('new');
       });
 
       it('creates audience with given job, error thrown', () => {
@@ -923,19 +1668,55 @@ describe('AudienceProcessJobController', () => {
         ).toHaveBeenNthCalledWith(1, '1', audience.getRules());
         expect(
           mockCampaignManagerService.createRemarketingList
-        ).toHaveBeenNthCalledWith(1, remarketingList);
+        ).toHaveBeenNthCalledWith(1, remarketingList, undefined);
         const message = "Error while processing audience 'test'!";
         expect(console.log).toHaveBeenCalledWith(message);
         expect(result.getLogs()[0].message).toEqual(message);
+        expect(result.isError()).toBe(true);
+        expect(result.getError()).toEqual(
+          "Error while processing audience 'test'! Sorry an error occurred!"
+        );
+        expect(result.isRetryable()).toBe(false);
         result.clearLogs();
         expect(result).toEqual(job);
         expect(mockSheetsService.setCellValue).toHaveBeenNthCalledWith(
           1,
-          1,
+          2,
           7,
           'Error! Sorry an error occurred! (2023-01-01)',
-          'audiences'
+          'Audiences'
+        );
+      });
+
+      it('flags jobs failing with transient errors as retryable', () => {
+        const job = new AudienceProcessJob({
+          idx: 0,
+          audience: audience,
+          actions: ['UPDATE_AUDIENCE'],
+        });
+        mockCampaignManagerService = {
+          updateRemarketingList: jest.fn().mockImplementation(() => {
+            throw new Error(
+              'API call to dfareporting.remarketingLists.update failed with ' +
+                'error: Rate Limit Exceeded'
+            );
+          }),
+        } as unknown as CampaignManagerFacade;
+        audienceProcessJobController = new AudienceProcessJobController(
+          mockSheetsService,
+          mockCampaignManagerService
+        );
+        jest
+          .spyOn(audienceProcessJobController, 'createListPopulationRule')
+          .mockReturnValue({});
+
+        const result = audienceProcessJobController.processAudience(
+          job,
+          defaultParams
         );
+
+        expect(result.isError()).toBe(true);
+        expect(result.isRetryable()).toBe(true);
       });
 
       it('updates audience with given job, no errors', () => {
@@ -989,17 +1770,117 @@ describe('AudienceProcessJobController', () => {
         result.clearLogs();
         expect(result).toEqual(job);
         expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
-          1,
+          2,
           8,
           'md5Hash',
-          'audiences'
+          'Audiences'
         );
         expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
-          1,
+          2,
+          10,
+          audience.toJson(),
+          'Audiences'
+        );
+        expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+          2,
+          14,
+          '',
+          'Audiences'
+        );
+        expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+          2,
+          15,
+          '',
+          'Audiences'
+        );
+        expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+          2,
           7,
           'Success (2023-01-01)',
-          'audiences'
+          'Audiences'
+        );
+      });
+
+      it('creates audience for the advertiser of the given job', () => {
+        const advertiserAudience = new Audience({
+          name: 'test',
+          lifeSpan: 0,
+          rules: [],
+          shares: [],
+          advertiserId: 'adv',
+        });
+        const job = new AudienceProcessJob({
+          idx: 0,
+          audience: advertiserAudience,
+          actions: ['CREATE_AUDIENCE'],
+        });
+
+        mockCampaignManagerService = {
+          createRemarketingList: jest.fn().mockReturnValue({ id: 'new' }),
+        } as unknown as CampaignManagerFacade;
+
+        audienceProcessJobController = new AudienceProcessJobController(
+          mockSheetsService,
+          mockCampaignManagerService
+        );
+        jest
+          .spyOn(audienceProcessJobController, 'createListPopulationRule')
+          .mockReturnValue({});
+
+        audienceProcessJobController.processAudience(job, defaultParams);
+
+        expect(
+          mockCampaignManagerService.createRemarketingList
+        ).toHaveBeenNthCalledWith(
+          1,
+          expect.objectContaining({ advertiserId: 'adv' }),
+          'adv'
+        );
+      });
+
+      it('deactivates audience with given job, no errors', () => {
+        const inactiveAudience = new Audience({
+          id: 'id',
+          name: 'test',
+          description: 'test',
+          lifeSpan: 0,
+          floodlightId: '1',
+          rules: [],
+          shares: [],
+          active: false,
+        });
+        const job = new AudienceProcessJob({
+          idx: 0,
+          audience: inactiveAudience,
+          actions: ['DEACTIVATE_AUDIENCE'],
+        });
+
+        mockCampaignManagerService = {
+          updateRemarketingList: jest.fn().mockReturnValue({}),
+        } as unknown as CampaignManagerFacade;
+
+        audienceProcessJobController = new AudienceProcessJobController(
+          mockSheetsService,
+          mockCampaignManagerService
         );
+        jest
+          .spyOn(audienceProcessJobController, 'createListPopulationRule')
+          .mockReturnValue({});
+
+        audienceProcessJobController.processAudience(job, defaultParams);
+
+        expect(
+          mockCampaignManagerService.updateRemarketingList
+        ).toHaveBeenNthCalledWith(1, {
+          id: 'id',
+          name: 'test',
+          description: 'test',
+          lifeSpan: 0,
+          listPopulationRule: {},
+          active: false,
+          listSource: 'source',
+        });
+        expect(console.log).toHaveBeenCalledWith("Deactivating 'test'...");
       });
 
       it('updates shares with given job, no errors', () => {
@@ -1049,17 +1930,236 @@ describe('AudienceProcessJobController', () => {
         result.clearLogs();
         expect(result).toEqual(job);
         expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
-          1,
+          2,
           9,
           'md5Hash',
-          'audiences'
+          'Audiences'
+        );
+        expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+          2,
+          7,
+          'Success (2023-01-01)',
+          'Audiences'
+        );
+      });
+
+      it('keeps the checksum of locked audiences when updating shares', () => {
+        const job = new AudienceProcessJob({
+          idx: 0,
+          audience: Audience.fromJson({
+            ...JSON.parse(audience.toJson()),
+            listSource_: 'REMARKETING_LIST_SOURCE_DBM',
+          }),
+          actions: ['UPDATE_SHARES'],
+        });
+
+        mockCampaignManagerService = {
+          updateRemarketingList: jest.fn(),
+          getRemarketingListSharesResource: jest.fn().mockReturnValue({}),
+          updateRemarketingListShares: jest.fn().mockReturnValue({}),
+        } as unknown as CampaignManagerFacade;
+        audienceProcessJobController = new AudienceProcessJobController(
+          mockSheetsService,
+          mockCampaignManagerService
         );
+
+        const result = audienceProcessJobController.processAudience(
+          job,
+          defaultParams
+        );
+
+        expect(result.isError()).toBe(false);
+        expect(
+          mockCampaignManagerService.updateRemarketingList
+        ).not.toHaveBeenCalled();
+        expect(
+          mockCampaignManagerService.updateRemarketingListShares
+        ).toHaveBeenCalledWith('id', { sharedAdvertiserIds: ['1', '2'] });
         expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+          2,
+          9,
+          'md5Hash',
+          'Audiences'
+        );
+        expect(mockSheetsService.setCellValue).not.toHaveBeenCalledWith(
+          2,
+          8,
+          'md5Hash',
+          'Audiences'
+        );
+      });
+
+      it('records the previous and new version in the history', () => {
+        const job = new AudienceProcessJob({
+          idx: 0,
+          audience: audience,
+          actions: ['UPDATE_AUDIENCE'],
+          runId: 'run',
+        });
+        const previousJson = new Audience({
+          id: 'id',
+          name: 'old',
+          lifeSpan: 0,
+          rules: [],
+          shares: [],
+        }).toJson();
+
+        const audienceRow: string[] = Array(19).fill('');
+        audienceRow[9] = previousJson;
+        mockSheetsService.getRangeData = jest
+          .fn()
+          .mockReturnValue([audienceRow]);
+        mockCampaignManagerService = {
+          updateRemarketingList: jest.fn().mockReturnValue({}),
+        } as unknown as CampaignManagerFacade;
+        audienceProcessJobController = new AudienceProcessJobController(
+          mockSheetsService,
+          mockCampaignManagerService
+        );
+
+        audienceProcessJobController.processAudience(job, defaultParams);
+
+        expect(mockSheetsService.getRangeData).toHaveBeenCalledWith(
+          'Audiences',
+          2,
           1,
+          1
+        );
+        expect(HistoryController.prototype.recordChange).toHaveBeenCalledWith(
+          job,
+          previousJson
+        );
+      });
+
+      it('succeeds even if the history cannot be recorded', () => {
+        const job = new AudienceProcessJob({
+          idx: 0,
+          audience: audience,
+          actions: ['UPDATE_AUDIENCE'],
+        });
+
+        jest
+          .spyOn(HistoryController.prototype, 'recordChange')
+          .mockImplementationOnce(() => {
+            throw new Error('Lock timeout');
+          });
+        mockCampaignManagerService = {
+          updateRemarketingList: jest.fn().mockReturnValue({}),
+        } as unknown as CampaignManagerFacade;
+        audienceProcessJobController = new AudienceProcessJobController(
+          mockSheetsService,
+          mockCampaignManagerService
+        );
+
+        audienceProcessJobController.processAudience(job, defaultParams);
+
+        expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+          2,
           7,
           'Success (2023-01-01)',
-          'audiences'
+          'Audiences'
+        );
+      });
+    });
+
+    describe('syncAudience', () => {
+      it('returns the sync state without storing it', () => {
+        const job = new AudienceProcessJob({
+          idx: 0,
+          audience: new Audience({
+            id: 'id',
+            name: 'test',
+            lifeSpan: 0,
+            rules: [],
+            shares: ['1'],
+          }),
+          actions: ['UPDATE_SHARES'],
+        });
+        jest
+          .spyOn(JobUtil, 'getCurrentDateString')
+          .mockReturnValue('2023-01-01');
+        mockCampaignManagerService = {
+          getRemarketingListSharesResource: jest.fn().mockReturnValue({}),
+          updateRemarketingListShares: jest.fn().mockReturnValue({}),
+        } as unknown as CampaignManagerFacade;
+        audienceProcessJobController = new AudienceProcessJobController(
+          mockSheetsService,
+          mockCampaignManagerService
+        );
+
+        const state = audienceProcessJobController.syncAudience(job);
+
+        expect(state).toEqual({
+          sharesChecksum: 'md5Hash',
+          json: job.getAudience().toJson(),
+          status: 'Success (2023-01-01)',
+        });
+        expect(mockSheetsService.setCellValue).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('planAudienceJobs', () => {
+      it('plans the audiences differing from their synced state', () => {
+        const repository = new InMemoryAudienceRepository({
+          floodlightActivities: [{ id: '1', name: 'Purchase' }],
+        });
+        const createAudience = (id?: string, floodlightId = '1') =>
+          new Audience({
+            id,
+            name: `Audience ${id ?? 'new'}`,
+            lifeSpan: 30,
+            floodlightId,
+            rules: [],
+            shares: [],
+          });
+        repository.saveAudiences([
+          {
+            audience: createAudience('1'),
+            checksum: 'old',
+            sharesChecksum: 'md5Hash',
+            json: '',
+            status: '',
+          },
+          {
+            audience: createAudience('2'),
+            checksum: 'md5Hash',
+            sharesChecksum: 'md5Hash',
+            json: '',
+            status: '',
+          },
+        ]);
+        audienceProcessJobController = new AudienceProcessJobController(
+          undefined,
+          undefined,
+          undefined,
+          repository
+        );
+
+        const jobs = audienceProcessJobController.planAudienceJobs(
+          [
+            createAudience('1'),
+            createAudience('2'),
+            createAudience('9'),
+            createAudience(undefined, '5'),
+          ],
+          'run'
         );
+
+        expect(
+          jobs.map(job => [job.getIndex(), job.getActions(), job.getError()])
+        ).toEqual([
+          [0, ['UPDATE_AUDIENCE'], ''],
+          [
+            2,
+            ['CREATE_AUDIENCE', 'UPDATE_SHARES'],
+            "Invalid! Unknown audience ID '9'",
+          ],
+          [
+            3,
+            ['CREATE_AUDIENCE', 'UPDATE_SHARES'],
+            "Invalid! Unknown floodlight activity '5'",
+          ],
+        ]);
       });
     });
 
@@ -1161,6 +2261,64 @@ describe('AudienceProcessJobController', () => {
 
         expect(result).toEqual(expected);
       });
+
+      it('creates terms of every type', () => {
+        const rules: AudienceRule[] = [
+          {
+            group: 0,
+            variableName: '',
+            variableFriendlyName: '',
+            operator: '',
+            value: '123,456',
+            negation: true,
+            type: 'LIST_MEMBERSHIP_TERM',
+          },
+          {
+            group: 1,
+            variableName: '',
+            variableFriendlyName: '',
+            operator: 'STRING_CONTAINS',
+            value: 'example.com',
+            negation: false,
+            type: 'REFERRER_TERM',
+            contextVariable: 'ctx',
+          },
+        ];
+
+        const result = audienceProcessJobController.createListPopulationRule(
+          '1',
+          rules
+        );
+
+        expect(result.listPopulationClauses).toEqual([
+          {
+            terms: [
+              {
+                type: 'LIST_MEMBERSHIP_TERM',
+                remarketingListId: '123',
+                contains: false,
+              },
+              {
+                type: 'LIST_MEMBERSHIP_TERM',
+                remarketingListId: '456',
+                contains: false,
+              },
+            ],
+          },
+          {
+            terms: [
+              {
+                variableName: '',
+                type: 'REFERRER_TERM',
+                operator: 'STRING_CONTAINS',
+                value: 'example.com',
+                negation: false,
+                contextVariable: 'ctx',
+              },
+            ],
+          },
+        ]);
+      });
     });
   });
 });
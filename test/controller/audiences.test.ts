@@ -22,6 +22,7 @@ import { CampaignManagerFacade } from '../../src/facade/cm360';
 import { Audience } from '../../src/model/audience';
 import { AudienceLoadJob } from '../../src/model/audienceLoadJob';
 import { Job } from '../../src/model/job';
+import { InMemoryAudienceRepository } from '../../src/repository/memory';
 import { SheetsService } from '../../src/service/sheets';
 import { JobUtil } from '../../src/util/job';
 
@@ -35,8 +36,17 @@ global.Utilities = {
 describe('AudiencesController', () => {
   let mockSheetsService: SheetsService;
   let mockCampaignManagerService: CampaignManagerFacade;
+  let properties: Map<string, string>;
 
   beforeEach(() => {
+    properties = new Map();
+    global.PropertiesService = {
+      getDocumentProperties: () => ({
+        getProperty: (key: string) => properties.get(key) ?? null,
+        setProperty: (key: string, value: string) => properties.set(key, value),
+        deleteProperty: (key: string) => properties.delete(key),
+      }),
+    } as unknown as typeof PropertiesService;
     mockSheetsService = {
       showToast: jest.fn().mockReturnValue(undefined),
       clearDefinedRange: jest.fn().mockReturnValue(undefined),
@@ -47,6 +57,7 @@ describe('AudiencesController', () => {
     } as unknown as SheetsService;
 
     mockCampaignManagerService = {
+      getAdvertiserIds: jest.fn().mockReturnValue(['1']),
       getUserDefinedVariableConfigurations: jest.fn().mockReturnValue([]),
       getFloodlightActivities: jest.fn().mockReturnValue([]),
       getAdvertisers: jest.fn().mockReturnValue(undefined),
@@ -70,35 +81,27 @@ describe('AudiencesController', () => {
   describe('method', () => {
     let audiencesController: AudiencesController;
 
+    let repository: InMemoryAudienceRepository;
+
     beforeEach(() => {
+      repository = new InMemoryAudienceRepository();
       audiencesController = new AudiencesController(
         mockSheetsService,
-        mockCampaignManagerService
+        mockCampaignManagerService,
+        repository
       );
     });
 
     describe('fetchAndOutputCustomVariables', () => {
-      it('clears range and outputs nothing if empty custom vars', () => {
-        audiencesController.fetchAndOutputCustomVariables({
-          sheetName: 'test',
-          row: 1,
-          col: 1,
-          separator: ',',
-        });
+      it('stores nothing if empty custom vars', () => {
+        audiencesController.fetchAndOutputCustomVariables();
 
-        expect(mockSheetsService.clearDefinedRange).toHaveBeenNthCalledWith(
-          1,
-          'test',
-          1,
-          1
-        );
-        expect(
-          mockSheetsService.setValuesInDefinedRange
-        ).toHaveBeenNthCalledWith(1, 'test', 1, 1, []);
+        expect(repository.getCustomVariables()).toEqual([]);
       });
 
-      it('clears range, maps custom vars and outputs them', () => {
+      it('maps custom vars and stores them', () => {
         mockCampaignManagerService = {
+          getAdvertiserIds: jest.fn().mockReturnValue(['1']),
           getUserDefinedVariableConfigurations: jest.fn().mockReturnValue([
             { variableType: 'type', extra: '1', reportName: 'report' },
             { variableType: 'var', extra: '1', reportName: 'rep' },
@@ -107,52 +110,59 @@ describe('AudiencesController', () => {
 
         audiencesController = new AudiencesController(
           mockSheetsService,
-          mockCampaignManagerService
+          mockCampaignManagerService,
+          repository
         );
 
-        audiencesController.fetchAndOutputCustomVariables({
-          sheetName: 'test',
-          row: 1,
-          col: 1,
-          separator: ',',
-        });
+        audiencesController.fetchAndOutputCustomVariables();
 
-        expect(mockSheetsService.clearDefinedRange).toHaveBeenNthCalledWith(
-          1,
-          'test',
-          1,
-          1
+        expect(repository.getCustomVariables()).toEqual([
+          { id: 'type', name: 'report' },
+          { id: 'var', name: 'rep' },
+        ]);
+      });
+
+      it('returns the custom vars of every advertiser separately', () => {
+        mockCampaignManagerService = {
+          getAdvertiserIds: jest.fn().mockReturnValue(['a', 'b']),
+          getUserDefinedVariableConfigurations: jest
+            .fn()
+            .mockImplementation((advertiserId: string) => [
+              { variableType: 'U1', reportName: `category ${advertiserId}` },
+            ]),
+        } as unknown as CampaignManagerFacade;
+
+        audiencesController = new AudiencesController(
+          mockSheetsService,
+          mockCampaignManagerService,
+          repository
         );
-        expect(
-          mockSheetsService.setValuesInDefinedRange
-        ).toHaveBeenNthCalledWith(1, 'test', 1, 1, [
-          ['type,report'],
-          ['var,rep'],
+
+        const result = audiencesController.fetchAndOutputCustomVariables();
+
+        expect(result).toEqual(
+          new Map([
+            ['a', [{ variableType: 'U1', reportName: 'category a' }]],
+            ['b', [{ variableType: 'U1', reportName: 'category b' }]],
+          ])
+        );
+        expect(repository.getCustomVariables()).toEqual([
+          { id: 'U1', name: 'category a' },
+          { id: 'U1', name: 'category b' },
         ]);
       });
     });
 
     describe('fetchAndOutputFloodlightActivities', () => {
-      it('clears range and outputs nothing if empty custom vars', () => {
-        audiencesController.fetchAndOutputFloodlightActivities({
-          sheetName: 'test',
-          row: 1,
-          col: 1,
-        });
+      it('stores nothing if empty floodlight activities', () => {
+        audiencesController.fetchAndOutputFloodlightActivities();
 
-        expect(mockSheetsService.clearDefinedRange).toHaveBeenNthCalledWith(
-          1,
-          'test',
-          1,
-          1
-        );
-        expect(
-          mockSheetsService.setValuesInDefinedRange
-        ).toHaveBeenNthCalledWith(1, 'test', 1, 1, []);
+        expect(repository.getFloodlightActivities()).toEqual([]);
       });
 
-      it('clears range, maps floodlight activities and outputs them', () => {
+      it('maps floodlight activities and stores them', () => {
         mockCampaignManagerService = {
+          getAdvertiserIds: jest.fn().mockReturnValue(['1']),
           getFloodlightActivities: jest.fn().mockReturnValue([
             { id: '1', extra: '1', name: 'test' },
             { id: '2', extra: '1', name: 'name' },
@@ -161,111 +171,97 @@ describe('AudiencesController', () => {
 
         audiencesController = new AudiencesController(
           mockSheetsService,
-          mockCampaignManagerService
+          mockCampaignManagerService,
+          repository
         );
 
-        audiencesController.fetchAndOutputFloodlightActivities({
-          sheetName: 'test',
-          row: 1,
-          col: 1,
-        });
+        audiencesController.fetchAndOutputFloodlightActivities();
 
-        expect(mockSheetsService.clearDefinedRange).toHaveBeenNthCalledWith(
-          1,
-          'test',
-          1,
-          1
-        );
-        expect(
-          mockSheetsService.setValuesInDefinedRange
-        ).toHaveBeenNthCalledWith(1, 'test', 1, 1, [
-          ['1', 'test (1)'],
-          ['2', 'name (2)'],
+        expect(repository.getFloodlightActivities()).toEqual([
+          { id: '1', name: 'test' },
+          { id: '2', name: 'name' },
         ]);
       });
     });
 
     describe('fetchAndOutputAdvertisers', () => {
-      it('clears range and calls service', () => {
+      it('stores nothing for empty result', () => {
         audiencesController.fetchAndOutputAdvertisers({
-          sheetName: 'test',
-          row: 1,
-          col: 1,
           maxResultsPerPage: 10,
         });
 
-        expect(mockSheetsService.clearDefinedRange).toHaveBeenNthCalledWith(
-          1,
-          'test',
-          1,
-          1
-        );
-        expect(mockCampaignManagerService.getAdvertisers).toHaveBeenCalledTimes(
-          1
-        );
-      });
-    });
-
-    describe('outputAdvertisers', () => {
-      it('appends empty array to sheet for empty result', () => {
-        audiencesController.outputAdvertisers([], '1', {
-          sheetName: 'test',
-          row: 1,
-          col: 1,
-        });
-
-        expect(mockSheetsService.appendToDefinedRange).toHaveBeenNthCalledWith(
-          1,
-          'test',
-          1,
-          1,
-          []
+        expect(mockCampaignManagerService.getAdvertisers).toHaveBeenCalledWith(
+          10,
+          expect.any(Function)
         );
+        expect(repository.getAdvertisers()).toEqual([]);
       });
 
-      it('appends results to sheet for valid result', () => {
-        const advertisers = [
-          { id: '1', extra: 1, name: 'test' },
-          { id: '2', extra: 1, name: 'name' },
-        ] as unknown as GoogleAppsScript.CampaignManager.Advertiser[];
+      it('stores the advertisers of all pages', () => {
+        jest
+          .spyOn(mockCampaignManagerService, 'getAdvertisers')
+          .mockImplementation((maxResultsPerPage, callback) => {
+            callback([{ id: '2', name: 'name' }]);
+            callback([{ id: '3', name: 'other' }]);
+          });
 
-        audiencesController.outputAdvertisers(advertisers, '3', {
-          sheetName: 'test',
-          row: 1,
-          col: 1,
-        });
+        const result = audiencesController.fetchAndOutputAdvertisers();
 
-        expect(mockSheetsService.appendToDefinedRange).toHaveBeenNthCalledWith(
-          1,
-          'test',
-          1,
-          1,
-          [
-            ['1', 'test (1)'],
-            ['2', 'name (2)'],
-          ]
-        );
+        expect(result).toEqual([
+          { id: '2', name: 'name' },
+          { id: '3', name: 'other' },
+        ]);
+        expect(repository.getAdvertisers()).toEqual(result);
       });
 
-      it('appends results to sheet for valid result without own advertiser ID', () => {
-        const advertisers = [
-          { id: '1', extra: 1, name: 'test' },
-          { id: '2', extra: 1, name: 'name' },
-        ] as unknown as GoogleAppsScript.CampaignManager.Advertiser[];
-
-        audiencesController.outputAdvertisers(advertisers, '1', {
-          sheetName: 'test',
-          row: 1,
-          col: 1,
-        });
+      it('filters out every managed advertiser ID', () => {
+        jest
+          .spyOn(mockCampaignManagerService, 'getAdvertiserIds')
+          .mockReturnValue(['1', '3']);
+        jest
+          .spyOn(mockCampaignManagerService, 'getAdvertisers')
+          .mockImplementation((maxResultsPerPage, callback) =>
+            callback([
+              { id: '1', name: 'test' },
+              { id: '2', name: 'name' },
+              { id: '3', name: 'other' },
+            ])
+          );
+
+        audiencesController.fetchAndOutputAdvertisers();
+
+        expect(repository.getAdvertisers()).toEqual([
+          { id: '2', name: 'name' },
+        ]);
+      });
+    });
 
-        expect(mockSheetsService.appendToDefinedRange).toHaveBeenNthCalledWith(
-          1,
-          'test',
-          1,
-          1,
-          [['2', 'name (2)']]
+    describe('fetchAndStoreAudiences', () => {
+      it('stores the remote audiences with their shares as synced', () => {
+        jest
+          .spyOn(JobUtil, 'getCurrentDateString')
+          .mockReturnValue('2023-01-01');
+        jest
+          .spyOn(mockCampaignManagerService, 'getRemarketingLists')
+          .mockReturnValue([
+            { id: '10', name: 'List', lifeSpan: 30, active: true },
+          ] as unknown as GoogleAppsScript.CampaignManager.RemarketingList[]);
+        jest
+          .spyOn(mockCampaignManagerService, 'getRemarketingListShares')
+          .mockReturnValue(['2']);
+
+        const job = audiencesController.fetchAndStoreAudiences(new Job());
+        const [synced] = repository.getAudiences();
+
+        expect(repository.getAudiences()).toHaveLength(1);
+        expect(synced.audience.getId()).toEqual('10');
+        expect(synced.audience.getShares()).toEqual(['2']);
+        expect(synced.checksum).toEqual(synced.audience.getChecksum());
+        expect(synced.sharesChecksum).toEqual(
+          synced.audience.getSharesChecksum()
         );
+        expect(synced.status).toEqual('Fetched (2023-01-01)');
+        expect(job.getLogs().pop()?.message).toEqual('Loaded 1 audience(s)');
       });
     });
 
@@ -286,7 +282,7 @@ describe('AudiencesController', () => {
           'Loading audiences...',
           'Load - BEGIN'
         );
-        expect(mockSheetsService.clearDefinedRange).toHaveBeenCalledWith(
+        expect(mockSheetsService.clearDefinedRange).not.toHaveBeenCalledWith(
           'test',
           1,
           1
@@ -305,6 +301,7 @@ describe('AudiencesController', () => {
         ];
 
         mockCampaignManagerService = {
+          getAdvertiserIds: jest.fn().mockReturnValue(['1']),
           getRemarketingLists: jest.fn().mockReturnValue(remarketingLists),
           getUserDefinedVariableConfigurations: jest.fn().mockReturnValue([]),
           getFloodlightActivities: jest.fn().mockReturnValue([]),
@@ -324,7 +321,7 @@ describe('AudiencesController', () => {
           'Loading audiences...',
           'Load - BEGIN'
         );
-        expect(mockSheetsService.clearDefinedRange).toHaveBeenCalledWith(
+        expect(mockSheetsService.clearDefinedRange).not.toHaveBeenCalledWith(
           'test',
           1,
           1
@@ -336,6 +333,242 @@ describe('AudiencesController', () => {
       });
     });
 
+    describe('loadAudiences for multiple advertisers', () => {
+      it('loads the audiences of every advertiser', () => {
+        mockCampaignManagerService = {
+          getAdvertiserIds: jest.fn().mockReturnValue(['a', 'b']),
+          getRemarketingLists: jest
+            .fn()
+            .mockImplementation((advertiserId: string) => [
+              { id: `${advertiserId}-1`, name: `test-${advertiserId}` },
+            ]),
+          getUserDefinedVariableConfigurations: jest.fn().mockReturnValue([]),
+          getFloodlightActivities: jest.fn().mockReturnValue([]),
+        } as unknown as CampaignManagerFacade;
+
+        audiencesController = new AudiencesController(
+          mockSheetsService,
+          mockCampaignManagerService
+        );
+
+        const result = audiencesController.loadAudiences(new Job(), {
+          sheetName: 'test',
+          row: 1,
+          col: 1,
+        });
+        const audiences = result
+          .getJobs()
+          .map(job => (job as AudienceLoadJob).getAudience());
+
+        expect(
+          mockCampaignManagerService.getFloodlightActivities
+        ).toHaveBeenCalledWith('b');
+        expect(audiences.map(audience => audience.getAdvertiserId())).toEqual([
+          'a',
+          'b',
+        ]);
+        expect(result.getJobs().map(job => job.getIndex())).toEqual([0, 1]);
+      });
+
+      it('resolves rules with the custom vars of their advertiser', () => {
+        mockCampaignManagerService = {
+          getAdvertiserIds: jest.fn().mockReturnValue(['a', 'b']),
+          getRemarketingLists: jest
+            .fn()
+            .mockImplementation((advertiserId: string) => [
+              {
+                id: `${advertiserId}-1`,
+                name: `test-${advertiserId}`,
+                listPopulationRule: {
+                  listPopulationClauses: [
+                    {
+                      terms: [
+                        {
+                          variableName: 'U1',
+                          operator: 'STRING_EQUALS',
+                          value: 'shoes',
+                        },
+                      ],
+                    },
+                  ],
+                },
+              },
+            ]),
+          getUserDefinedVariableConfigurations: jest
+            .fn()
+            .mockImplementation((advertiserId: string) => [
+              { variableType: 'U1', reportName: `category ${advertiserId}` },
+            ]),
+          getFloodlightActivities: jest.fn().mockReturnValue([]),
+        } as unknown as CampaignManagerFacade;
+
+        audiencesController = new AudiencesController(
+          mockSheetsService,
+          mockCampaignManagerService
+        );
+
+        const audiences = audiencesController.fetchRemoteAudiences();
+
+        expect(
+          audiences.map(audience => audience.getRules()[0].variableFriendlyName)
+        ).toEqual(['category a', 'category b']);
+      });
+    });
+
+    describe('loadAudiences merging into existing rows', () => {
+      const createAudience = (id: string, name = `test-${id}`) =>
+        new Audience({ id, name, lifeSpan: 30, rules: [], shares: [] });
+
+      beforeEach(() => {
+        jest
+          .spyOn(JobUtil, 'getCurrentDateString')
+          .mockReturnValue('2023-01-01');
+        mockSheetsService.setCellValue = jest.fn();
+        mockSheetsService.getRangeData = jest.fn().mockReturnValue([
+          ['1', 'test-1', '', '', '', '', '', 'checksum'],
+          ['2', 'test-2', '', '', '', '', '', 'checksum'],
+          ['3', 'test-3', '', '', '', '', '', 'checksum'],
+          ['', 'new', '', '', '', '', '', ''],
+        ]);
+        jest
+          .spyOn(audiencesController, 'fetchRemoteAudiences')
+          .mockReturnValue([
+            createAudience('1'),
+            createAudience('2'),
+            createAudience('4'),
+          ]);
+        jest
+          .spyOn(audiencesController, 'getPendingAudienceIds')
+          .mockReturnValue(new Set(['2']));
+      });
+
+      it('matches rows by ID, appends new audiences and flags missing ones', () => {
+        const job = audiencesController.loadAudiences(new Job());
+        const jobs = job.getJobs() as AudienceLoadJob[];
+
+        expect(jobs.map(job => job.getAudience().getId())).toEqual(['1', '4']);
+        expect(jobs.map(job => job.getIndex())).toEqual([0, 4]);
+        expect(mockSheetsService.clearDefinedRange).not.toHaveBeenCalledWith(
+          'Audiences',
+          2,
+          1
+        );
+        expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+          3,
+          7,
+          'Not loaded, pending local changes (2023-01-01)',
+          'Audiences'
+        );
+        expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+          4,
+          14,
+          'Missing in CM360 (2023-01-01)',
+          'Audiences'
+        );
+        expect(job.getLogs().map(log => log.message)).toEqual([
+          "Skipping 'test-2' as it has pending local changes",
+          "Audience 'test-3' (3) is missing in CM360",
+        ]);
+      });
+
+      it('overwrites rows with pending local changes if forced', () => {
+        const job = audiencesController.loadAudiences(new Job(), {
+          force: true,
+        });
+
+        expect(
+          audiencesController.getPendingAudienceIds
+        ).not.toHaveBeenCalled();
+        expect(job.getJobs().map(job => job.getIndex())).toEqual([0, 1, 4]);
+      });
+
+      it('does not flag audiences as missing if load filters apply', () => {
+        const job = audiencesController.loadAudiences(new Job(), {
+          filters: { name: 'test' },
+        });
+
+        expect(audiencesController.fetchRemoteAudiences).toHaveBeenCalledWith({
+          name: 'test',
+        });
+        expect(mockSheetsService.setCellValue).not.toHaveBeenCalledWith(
+          4,
+          14,
+          'Missing in CM360 (2023-01-01)',
+          'Audiences'
+        );
+        expect(job.getLogs().map(log => log.message)).toContain(
+          'Loaded 3 audience(s) matching the load filters, use Check Drift ' +
+            'to find audiences missing in CM360'
+        );
+      });
+    });
+
+    describe('loadAudiences with load filters', () => {
+      beforeEach(() => {
+        mockCampaignManagerService.getRemarketingLists = jest
+          .fn()
+          .mockReturnValue([
+            { id: '1', name: 'Shoe buyers', active: true },
+            { id: '2', name: 'Boot buyers', active: false },
+            { id: '3', name: 'Shoe viewers', active: false },
+          ]);
+        audiencesController = new AudiencesController(
+          mockSheetsService,
+          mockCampaignManagerService
+        );
+      });
+
+      it('applies the saved load filters', () => {
+        audiencesController.setLoadFilters({
+          name: '/^shoe/i',
+          status: 'INACTIVE',
+        });
+
+        const job = audiencesController.loadAudiences(new Job());
+
+        expect(
+          mockCampaignManagerService.getRemarketingLists
+        ).toHaveBeenCalledWith('1', {});
+        expect(
+          job
+            .getJobs()
+            .map(job => (job as AudienceLoadJob).getAudience().getId())
+        ).toEqual(['3']);
+      });
+
+      it('passes the filters supported by CM360 through', () => {
+        audiencesController.loadAudiences(new Job(), {
+          filters: { name: 'buyers', status: 'ACTIVE' },
+        });
+
+        expect(
+          mockCampaignManagerService.getRemarketingLists
+        ).toHaveBeenCalledWith('1', { name: 'buyers', active: true });
+      });
+    });
+
+    describe('setLoadFilters', () => {
+      it('saves the filters without empty values', () => {
+        const filters = audiencesController.setLoadFilters({
+          name: 'shoe',
+          floodlightActivityId: '',
+          createdByTool: true,
+        });
+
+        expect(filters).toEqual({ name: 'shoe', createdByTool: true });
+        expect(audiencesController.getLoadFilters()).toEqual(filters);
+      });
+
+      it('removes the filters if all are empty', () => {
+        audiencesController.setLoadFilters({ name: 'shoe' });
+
+        audiencesController.setLoadFilters({ name: '' });
+
+        expect(properties.has('loadFilters')).toBe(false);
+        expect(audiencesController.getLoadFilters()).toEqual({});
+      });
+    });
+
     describe('loadAudience', () => {
       // TODO: do me!
 
@@ -381,6 +614,7 @@ describe('AudiencesController', () => {
         });
 
         mockCampaignManagerService = {
+          getAdvertiserIds: jest.fn().mockReturnValue(['1']),
           getRemarketingListShares: jest.fn().mockReturnValue([]),
         } as unknown as CampaignManagerFacade;
 
@@ -421,6 +655,303 @@ describe('AudiencesController', () => {
           mockSheetsService.setValuesInDefinedRange
         ).toHaveBeenNthCalledWith(1, 'Audiences', 2, 1, [audienceRow]);
       });
+
+      it('only refreshes the stats of rows that did not change in CM360', () => {
+        const job = new AudienceLoadJob({ idx: 1, audience });
+        const existingRow = [];
+        existingRow[0] = 'id';
+        existingRow[7] = audience.getChecksum();
+        existingRow[8] = audience.getSharesChecksum();
+
+        mockCampaignManagerService.getRemarketingListShares = jest
+          .fn()
+          .mockReturnValue(['1', '2']);
+        mockSheetsService.getRangeData = jest
+          .fn()
+          .mockReturnValue([existingRow]);
+        jest.spyOn(audiencesController, 'audienceToRow');
+
+        audiencesController.loadAudience(job, defaultParams);
+
+        expect(mockSheetsService.getRangeData).toHaveBeenCalledWith(
+          'Audiences',
+          3,
+          1,
+          1
+        );
+        expect(audiencesController.audienceToRow).not.toHaveBeenCalled();
+        expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledTimes(
+          1
+        );
+        expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+          'Audiences',
+          3,
+          17,
+          [['', 'ACTIVE', '']]
+        );
+      });
+    });
+
+    describe('refreshStats', () => {
+      it('updates the stats of audiences found in CM360 only', () => {
+        mockCampaignManagerService.getRemarketingLists = jest
+          .fn()
+          .mockReturnValue([
+            {
+              id: '1',
+              name: 'test-1',
+              active: true,
+              listSize: '1200',
+              listSource: 'REMARKETING_LIST_SOURCE_DFA',
+            },
+            {
+              id: '2',
+              name: 'test-2',
+              active: false,
+              listSize: '0',
+              listSource: 'REMARKETING_LIST_SOURCE_DBM',
+            },
+          ]);
+        mockSheetsService.getRangeData = jest.fn().mockReturnValue([
+          ['1', 'test-1'],
+          [
+            '3',
+            'test-3',
+            ...Array(14).fill(''),
+            50,
+            'ACTIVE',
+            'REMARKETING_LIST_SOURCE_DFA',
+          ],
+          ['2', 'test-2'],
+          ['', 'new'],
+        ]);
+
+        const job = audiencesController.refreshStats(new Job());
+
+        expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+          'Audiences',
+          2,
+          17,
+          [
+            [1200, 'ACTIVE', 'REMARKETING_LIST_SOURCE_DFA'],
+            [50, 'ACTIVE', 'REMARKETING_LIST_SOURCE_DFA'],
+            [0, 'INACTIVE', 'REMARKETING_LIST_SOURCE_DBM'],
+            ['', '', ''],
+          ]
+        );
+        expect(job.getLogs().map(log => log.message)).toEqual([
+          'Refreshed stats of 2 audience(s), 1 of them empty',
+        ]);
+      });
+    });
+
+    describe('checkDrift', () => {
+      it('creates jobs for synced audiences and flags missing ones', () => {
+        jest
+          .spyOn(JobUtil, 'getCurrentDateString')
+          .mockReturnValue('2023-01-01');
+
+        const remoteAudience = new Audience({
+          id: '1',
+          name: 'test-1',
+          lifeSpan: 30,
+          rules: [],
+          shares: [],
+        });
+
+        jest
+          .spyOn(audiencesController, 'fetchRemoteAudiences')
+          .mockReturnValue([remoteAudience]);
+        mockSheetsService.getRangeData = jest.fn().mockReturnValue([
+          ['1', 'test-1', '', '', '', '', '', '', '', '{}'],
+          ['2', 'test-2', '', '', '', '', '', '', '', '{}'],
+          ['', 'new', '', '', '', '', '', '', '', ''],
+        ]);
+        mockSheetsService.setCellValue = jest.fn();
+
+        const result = audiencesController.checkDrift(new Job());
+
+        expect(result.getJobs()).toEqual([
+          new AudienceLoadJob({ idx: 0, audience: remoteAudience }),
+        ]);
+        expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+          3,
+          14,
+          'Missing in CM360 (2023-01-01)',
+          'Audiences'
+        );
+        expect(result.getLogs()[0].message).toEqual(
+          "Audience 'test-2' is missing in CM360"
+        );
+      });
+    });
+
+    describe('checkAudienceDrift', () => {
+      const rule = {
+        group: 0,
+        variableName: 'U1',
+        variableFriendlyName: 'var',
+        operator: 'STRING_EQUALS',
+        negation: false,
+      };
+      const snapshot = new Audience({
+        id: '1',
+        name: 'test',
+        lifeSpan: 30,
+        floodlightId: '123',
+        rules: [{ ...rule, value: 'a,b' }],
+        shares: ['2'],
+      });
+      const createRemoteAudience = (name = 'test') =>
+        new Audience({
+          id: '1',
+          name,
+          lifeSpan: 30,
+          floodlightId: '123',
+          rules: [
+            { ...rule, value: 'a' },
+            { ...rule, value: 'b' },
+          ],
+          shares: [],
+        });
+
+      beforeEach(() => {
+        jest
+          .spyOn(JobUtil, 'getCurrentDateString')
+          .mockReturnValue('2023-01-01');
+        mockCampaignManagerService.getRemarketingListShares = jest
+          .fn()
+          .mockReturnValue([2]);
+        mockSheetsService.setCellValue = jest.fn();
+      });
+
+      it('clears the drift column if CM360 matches the snapshot', () => {
+        mockSheetsService.getRangeData = jest
+          .fn()
+          .mockReturnValue([
+            ['1', '', '', '', '', '', '', '', '', snapshot.toJson()],
+          ]);
+
+        audiencesController.checkAudienceDrift(
+          new AudienceLoadJob({ idx: 1, audience: createRemoteAudience() })
+        );
+
+        expect(mockSheetsService.getRangeData).toHaveBeenCalledWith(
+          'Audiences',
+          3,
+          1,
+          1
+        );
+        expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+          3,
+          14,
+          '',
+          'Audiences'
+        );
+      });
+
+      it('flags audiences that diverged in CM360', () => {
+        mockSheetsService.getRangeData = jest
+          .fn()
+          .mockReturnValue([
+            ['1', '', '', '', '', '', '', '', '', snapshot.toJson()],
+          ]);
+
+        const job = audiencesController.checkAudienceDrift(
+          new AudienceLoadJob({
+            idx: 1,
+            audience: createRemoteAudience('renamed'),
+          })
+        );
+
+        expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+          3,
+          14,
+          'Drifted: name (2023-01-01)',
+          'Audiences'
+        );
+        expect(job.getLogs()[0].message).toEqual(
+          "Audience 'renamed' drifted: name"
+        );
+      });
+
+      it('pulls drifted audiences marked to be pulled', () => {
+        const row = ['1', '', '', '', '', '', '', '', '', snapshot.toJson()];
+        row[14] = 'PULL';
+        mockSheetsService.getRangeData = jest.fn().mockReturnValue([row]);
+        jest
+          .spyOn(audiencesController, 'audienceToRow')
+          .mockReturnValue(['row']);
+        jest
+          .spyOn(audiencesController, 'replaceAudienceRules')
+          .mockReturnValue(undefined);
+
+        const remoteAudience = createRemoteAudience('renamed');
+        const job = audiencesController.checkAudienceDrift(
+          new AudienceLoadJob({ idx: 1, audience: remoteAudience })
+        );
+
+        expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+          'Audiences',
+          3,
+          1,
+          [['row']]
+        );
+        expect(audiencesController.replaceAudienceRules).toHaveBeenCalledWith([
+          remoteAudience,
+        ]);
+        expect(mockSheetsService.setCellValue).not.toHaveBeenCalled();
+        expect(job.getLogs()[0].message).toEqual("Pulled 'renamed' from CM360");
+      });
+    });
+
+    describe('replaceAudienceRules', () => {
+      it('replaces the rules of the audience only', () => {
+        const lock = {
+          waitLock: jest.fn(),
+          releaseLock: jest.fn(),
+        };
+        global.LockService = {
+          getDocumentLock: jest.fn().mockReturnValue(lock),
+        } as unknown as typeof LockService;
+        mockSheetsService.getRangeData = jest.fn().mockReturnValue([
+          ['1', 0, 'U1:var', 'STRING_EQUALS', 'old'],
+          ['2', 0, 'U1:var', 'STRING_EQUALS', 'other'],
+        ]);
+        jest
+          .spyOn(audiencesController, 'outputAudienceRules')
+          .mockReturnValue(undefined);
+
+        const audience = new Audience({
+          id: '1',
+          name: 'test',
+          lifeSpan: 30,
+          rules: [],
+          shares: [],
+          advertiserId: 'a',
+        });
+
+        audiencesController.replaceAudienceRules([audience]);
+
+        expect(lock.waitLock).toHaveBeenCalledWith(30000);
+        expect(mockSheetsService.clearDefinedRange).toHaveBeenCalledWith(
+          'Rules',
+          2,
+          1
+        );
+        expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+          'Rules',
+          2,
+          1,
+          [['2', 0, 'U1:var', 'STRING_EQUALS', 'other']]
+        );
+        expect(audiencesController.outputAudienceRules).toHaveBeenCalledWith(
+          '1',
+          [],
+          'a'
+        );
+        expect(lock.releaseLock).toHaveBeenCalled();
+      });
     });
 
     describe('audienceToRow', () => {
@@ -456,7 +987,12 @@ describe('AudiencesController', () => {
           'Fetched (2023-01-01)',
           '',
           '',
-          '{"id_":"1","name_":"test","description_":"test desc","lifeSpan_":1,"floodlightId_":"123","floodlightName_":"First","rules_":[],"shares_":[]}',
+          '{"id_":"1","name_":"test","description_":"test desc","lifeSpan_":1,"floodlightId_":"123","floodlightName_":"First","rules_":[],"shares_":[],"active_":true}',
+          true,
+          '',
+          '',
+          '',
+          '',
         ]);
       });
 
@@ -488,11 +1024,58 @@ describe('AudiencesController', () => {
           'Fetched (2023-01-01)',
           '',
           '',
-          '{"id_":"1","name_":"test","description_":"test desc","lifeSpan_":1,"floodlightId_":"123","floodlightName_":"First","rules_":[],"shares_":["1","2"]}',
+          '{"id_":"1","name_":"test","description_":"test desc","lifeSpan_":1,"floodlightId_":"123","floodlightName_":"First","rules_":[],"shares_":["1","2"],"active_":true}',
+          true,
+          '',
+          '',
+          '',
+          '',
         ]);
       });
     });
 
+    describe('audienceToRow with rule expressions', () => {
+      it('renders the rules as rule expression', () => {
+        jest
+          .spyOn(JobUtil, 'getCurrentDateString')
+          .mockReturnValue('2023-01-01');
+        jest.spyOn(audiencesController, 'getMappedShares').mockReturnValue('');
+
+        const audience = new Audience({
+          id: '1',
+          name: 'test',
+          lifeSpan: 1,
+          floodlightId: '123',
+          rules: [
+            {
+              group: 0,
+              variableName: 'U1',
+              variableFriendlyName: 'var',
+              operator: 'STRING_EQUALS',
+              value: 'shoes',
+              negation: false,
+            },
+            {
+              group: 1,
+              variableName: '',
+              variableFriendlyName: '',
+              operator: '',
+              value: '123',
+              negation: true,
+              type: 'LIST_MEMBERSHIP_TERM',
+            },
+          ],
+          shares: [],
+        });
+
+        const result = audiencesController.audienceToRow(audience, {
+          useRuleExpressions: true,
+        });
+
+        expect(result[12]).toEqual('U1 EQUALS "shoes" AND NOT IN_LIST 123');
+      });
+    });
+
     describe('getRemarketingListShares', () => {
       it('returns empty string if empty remarketing list shares', () => {
         const result = audiencesController.getMappedShares([]);
@@ -502,6 +1085,7 @@ describe('AudiencesController', () => {
 
       it('maps remarketing list shares, sorts and returns them', () => {
         mockCampaignManagerService = {
+          getAdvertiserIds: jest.fn().mockReturnValue(['1']),
           getRemarketingListShares: jest.fn().mockReturnValue(['3', '1', '2']),
         } as unknown as CampaignManagerFacade;
 
@@ -703,16 +1287,126 @@ describe('AudiencesController', () => {
 
         expect(audiencesController.outputAudienceRules).toHaveBeenCalledWith(
           audience1.getId(),
-          audience1.getRules()
+          audience1.getRules(),
+          undefined
         );
         expect(audiencesController.outputAudienceRules).toHaveBeenCalledWith(
           audience2.getId(),
-          audience2.getRules()
+          audience2.getRules(),
+          undefined
         );
         expect(audiencesController.outputAudienceRules).toHaveBeenCalledTimes(
           2
         );
       });
+
+      it('replaces the rules of the given audiences only', () => {
+        const audience = new Audience({
+          id: '123',
+          name: 'name',
+          lifeSpan: 1,
+          rules: [],
+          shares: [],
+        });
+
+        mockSheetsService = {
+          getRangeData: jest.fn().mockReturnValue([
+            ['123', '', '', 0, '', '', '', '', '', audience.toJson()],
+            ['234', '', '', 0, '', '', '', '', '', '{}'],
+            ['', 'new', '', 0, '', '', '', '', '', ''],
+          ]),
+          clearDefinedRange: jest.fn().mockReturnValue(undefined),
+        } as unknown as SheetsService;
+
+        audiencesController = new AudiencesController(
+          mockSheetsService,
+          mockCampaignManagerService
+        );
+
+        jest
+          .spyOn(audiencesController, 'replaceAudienceRules')
+          .mockReturnValue();
+
+        audiencesController.extractAndOutputRules(['123']);
+
+        expect(audiencesController.replaceAudienceRules).toHaveBeenCalledWith([
+          audience,
+        ]);
+        expect(mockSheetsService.clearDefinedRange).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('parseAudienceRules', () => {
+      it('parses every term type losslessly', () => {
+        const remarketingList = {
+          name: 'test',
+          listPopulationRule: {
+            listPopulationClauses: [
+              {
+                terms: [
+                  {
+                    type: 'CUSTOM_VARIABLE_TERM',
+                    variableName: 'U1',
+                    operator: 'STRING_EQUALS',
+                    value: 'val',
+                    negation: false,
+                  },
+                  {
+                    type: 'LIST_MEMBERSHIP_TERM',
+                    remarketingListId: '123',
+                    contains: false,
+                  },
+                ],
+              },
+              {
+                terms: [
+                  {
+                    type: 'REFERRER_TERM',
+                    operator: 'STRING_CONTAINS',
+                    value: 'example.com',
+                    negation: true,
+                    contextVariable: 'ctx',
+                  },
+                ],
+              },
+            ],
+          },
+        } as unknown as GoogleAppsScript.CampaignManager.RemarketingList;
+
+        const result = audiencesController.parseAudienceRules(remarketingList, [
+          { variableType: 'U1', reportName: 'my-var' },
+        ]);
+
+        expect(result).toEqual([
+          {
+            group: 0,
+            variableName: 'U1',
+            variableFriendlyName: 'my-var',
+            operator: 'STRING_EQUALS',
+            value: 'val',
+            negation: false,
+          },
+          {
+            group: 0,
+            variableName: '',
+            variableFriendlyName: '',
+            operator: '',
+            value: '123',
+            negation: true,
+            type: 'LIST_MEMBERSHIP_TERM',
+          },
+          {
+            group: 1,
+            variableName: '',
+            variableFriendlyName: '',
+            operator: 'STRING_CONTAINS',
+            value: 'example.com',
+            negation: true,
+            type: 'REFERRER_TERM',
+            contextVariable: 'ctx',
+          },
+        ]);
+      });
     });
 
     describe('outputAudienceRules', () => {
@@ -727,6 +1421,9 @@ describe('AudiencesController', () => {
           operatorCol: 3,
           valuesCol: 4,
           negationCol: 5,
+          advertiserIdCol: 6,
+          typeCol: 7,
+          contextVariableCol: 8,
           separator: ':',
         };
 
@@ -749,11 +1446,36 @@ describe('AudiencesController', () => {
           },
         ];
 
-        audiencesController.outputAudienceRules('1', rules, defaultParameters);
+        audiencesController.outputAudienceRules(
+          '1',
+          rules,
+          'adv',
+          defaultParameters
+        );
 
         const expectedRows = [
-          ['1', 0, 'U1:my-var', 'STRING_EQUALS', 'test', false],
-          ['1', 1, 'U2:my-var-2', 'STRING_EQUALS', 'test-2', false],
+          [
+            '1',
+            0,
+            'U1:my-var',
+            'STRING_EQUALS',
+            'test',
+            false,
+            'adv',
+            'CUSTOM_VARIABLE_TERM',
+            '',
+          ],
+          [
+            '1',
+            1,
+            'U2:my-var-2',
+            'STRING_EQUALS',
+            'test-2',
+            false,
+            'adv',
+            'CUSTOM_VARIABLE_TERM',
+            '',
+          ],
         ];
 
         expect(mockSheetsService.appendToDefinedRange).toHaveBeenNthCalledWith(
@@ -0,0 +1,241 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for CatalogueController.
+ */
+
+import { AudiencesController } from '../../src/controller/audiences';
+import { CatalogueController } from '../../src/controller/catalogue';
+import { CampaignManagerFacade } from '../../src/facade/cm360';
+import { Audience } from '../../src/model/audience';
+import { SheetsService } from '../../src/service/sheets';
+import { CatalogueError, CatalogueUtil } from '../../src/util/catalogue';
+import { JobUtil } from '../../src/util/job';
+
+jest.mock('../../src/util/hash', () => {
+  return {
+    generateMD5Hash: jest.fn().mockReturnValue('md5Hash'),
+  };
+});
+
+describe('CatalogueController', () => {
+  let mockSheetsService: SheetsService;
+  let mockCampaignManagerService: CampaignManagerFacade;
+  let catalogueController: CatalogueController;
+  let sheets: Record<string, Array<Array<string | number | boolean>>>;
+
+  const audienceRow = [
+    '1',
+    'Shoe buyers',
+    'desc',
+    30,
+    'Purchase (123)',
+    'Advertiser (11)',
+    'Fetched',
+    'md5Hash',
+    'md5Hash',
+    '{}',
+    true,
+    '',
+  ];
+  const audience = new Audience({
+    id: '1',
+    name: 'Shoe buyers',
+    description: 'desc',
+    lifeSpan: 30,
+    floodlightId: '123',
+    floodlightName: 'Purchase',
+    rules: [
+      {
+        group: 0,
+        variableName: 'U1',
+        variableFriendlyName: 'category',
+        operator: 'STRING_EQUALS',
+        value: 'shoes',
+        negation: false,
+      },
+    ],
+    shares: ['11'],
+    active: true,
+  });
+
+  beforeEach(() => {
+    sheets = {
+      Audiences: [audienceRow],
+      Rules: [
+        [
+          '1',
+          0,
+          'U1:category',
+          'STRING_EQUALS',
+          'shoes',
+          false,
+          '',
+          'CUSTOM_VARIABLE_TERM',
+          '',
+        ],
+      ],
+      aux: [['U1:category']],
+      floodlights: [['123', 'Purchase (123)']],
+      advertisers: [['11', 'Advertiser (11)']],
+    };
+    mockSheetsService = {
+      showToast: jest.fn().mockReturnValue(undefined),
+      getRangeData: jest
+        .fn()
+        .mockImplementation((sheetName: string) => sheets[sheetName] ?? [[]]),
+      setValuesInDefinedRange: jest.fn().mockReturnValue(undefined),
+    } as unknown as SheetsService;
+    mockCampaignManagerService = {
+      getAccountData: jest.fn().mockReturnValue({ networkId: '42' }),
+    } as unknown as CampaignManagerFacade;
+
+    catalogueController = new CatalogueController(
+      mockSheetsService,
+      mockCampaignManagerService
+    );
+    jest.spyOn(JobUtil, 'getCurrentDateString').mockReturnValue('2023-01-01');
+    jest
+      .spyOn(AudiencesController.prototype, 'replaceAudienceRules')
+      .mockReturnValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('exportCatalogue', () => {
+    it('exports all audiences with their rules as JSON', () => {
+      const json = catalogueController.exportCatalogue('json');
+
+      expect(JSON.parse(json).networkId).toEqual('42');
+      expect(CatalogueUtil.fromJson(json)).toEqual([audience]);
+    });
+
+    it('exports all audiences as CSV', () => {
+      const csv = catalogueController.exportCatalogue('csv');
+
+      expect(CatalogueUtil.fromCsv(csv)).toEqual([audience]);
+    });
+  });
+
+  describe('importCatalogue', () => {
+    it('updates existing audiences and appends new ones', () => {
+      const newAudience = new Audience({
+        name: 'New',
+        lifeSpan: 10,
+        floodlightId: '123',
+        floodlightName: 'Purchase',
+        rules: [],
+        shares: [],
+      });
+
+      const result = catalogueController.importCatalogue(
+        CatalogueUtil.toJson([audience, newAudience]),
+        'json'
+      );
+
+      expect(result.map(imported => imported.getId())).toEqual(['1', 'New']);
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'Audiences',
+        2,
+        1,
+        [
+          [
+            '1',
+            'Shoe buyers',
+            'desc',
+            30,
+            'Purchase (123)',
+            'Advertiser (11)',
+            'Imported (2023-01-01)',
+            'md5Hash',
+            'md5Hash',
+            '{}',
+            true,
+            '',
+            '',
+            '',
+            '',
+            '',
+          ],
+        ]
+      );
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'Audiences',
+        3,
+        1,
+        [
+          [
+            'New',
+            'New',
+            '',
+            10,
+            'Purchase (123)',
+            '',
+            'Imported (2023-01-01)',
+            '',
+            '',
+            '',
+            true,
+            '',
+            '',
+            '',
+            '',
+            '',
+          ],
+        ]
+      );
+      expect(
+        AudiencesController.prototype.replaceAudienceRules
+      ).toHaveBeenCalledWith(result);
+    });
+
+    it('stages nothing if any audience is invalid', () => {
+      const invalid = CatalogueUtil.toJson([
+        new Audience({
+          ...CatalogueUtil.toEntry(audience),
+          floodlightId: '999',
+          shares: ['33'],
+          rules: [{ ...audience.getRules()[0], variableName: 'U9' }],
+        }),
+      ]);
+
+      expect(() => catalogueController.importCatalogue(invalid)).toThrow(
+        "Audience 'Shoe buyers': Unknown floodlight activity '999', " +
+          "Unknown shared advertiser '33', Rule 1: Unknown variable 'U9'"
+      );
+      expect(mockSheetsService.setValuesInDefinedRange).not.toHaveBeenCalled();
+      expect(
+        AudiencesController.prototype.replaceAudienceRules
+      ).not.toHaveBeenCalled();
+    });
+
+    it('rejects duplicate IDs', () => {
+      expect(() =>
+        catalogueController.importCatalogue(
+          CatalogueUtil.toJson([audience, audience])
+        )
+      ).toThrow("Duplicate ID '1'");
+    });
+
+    it('rejects unknown formats', () => {
+      expect(() => catalogueController.importCatalogue('', 'xml')).toThrow(
+        CatalogueError
+      );
+    });
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for CloneController.
+ */
+
+import { CloneController } from '../../src/controller/clone';
+import { CampaignManagerFacade } from '../../src/facade/cm360';
+import { AudienceRule } from '../../src/model/audience';
+import { SheetsService } from '../../src/service/sheets';
+import { createAudience, stubMD5Digest } from '../fixtures';
+
+describe('CloneController', () => {
+  let mockSheetsService: SheetsService;
+  let mockSourceService: CampaignManagerFacade;
+  let mockTargetService: CampaignManagerFacade;
+  let cloneController: CloneController;
+
+  const rule: AudienceRule = {
+    group: 0,
+    variableName: 'U1',
+    variableFriendlyName: 'category',
+    operator: 'STRING_EQUALS',
+    value: 'shoes',
+    negation: false,
+  };
+  const audienceParams = {
+    name: 'Shoe buyers',
+    floodlightId: '100',
+    rules: [rule],
+    shares: ['11'],
+  };
+
+  beforeAll(() => {
+    stubMD5Digest();
+  });
+
+  beforeEach(() => {
+    mockSheetsService = {
+      showToast: jest.fn().mockReturnValue(undefined),
+      getRangeData: jest.fn().mockReturnValue([[]]),
+      getOrCreateSheet: jest.fn().mockReturnValue(undefined),
+      clearDefinedRange: jest.fn().mockReturnValue(undefined),
+      setValuesInDefinedRange: jest.fn().mockReturnValue(undefined),
+      getSelectedRange: jest.fn().mockReturnValue(null),
+    } as unknown as SheetsService;
+    mockSourceService = {
+      getAccountData: jest.fn().mockReturnValue({ advertiserId: '1000' }),
+      getUserDefinedVariableConfigurations: jest.fn().mockReturnValue([
+        { variableType: 'U1', reportName: 'category' },
+        { variableType: 'U2', reportName: 'brand' },
+      ]),
+      getFloodlightActivities: jest.fn().mockReturnValue([
+        { id: '100', name: 'Purchase' },
+        { id: '101', name: 'Visit' },
+      ]),
+    } as unknown as CampaignManagerFacade;
+    mockTargetService = {
+      getUserDefinedVariableConfigurations: jest
+        .fn()
+        .mockReturnValue([{ variableType: 'U7', reportName: 'category' }]),
+      getFloodlightActivities: jest.fn().mockReturnValue([
+        { id: '200', name: 'Purchase' },
+        { id: '201', name: 'Visit' },
+        { id: '202', name: 'Visit' },
+      ]),
+      createRemarketingList: jest.fn().mockReturnValue({ id: '9' }),
+    } as unknown as CampaignManagerFacade;
+
+    cloneController = new CloneController(mockSheetsService, mockSourceService);
+  });
+
+  describe('cloneAudiences', () => {
+    it('creates audiences with mapped variables and floodlight activities', () => {
+      const report = cloneController.cloneAudiences(
+        [createAudience(audienceParams)],
+        '2000',
+        mockTargetService
+      );
+
+      expect(mockSourceService.getFloodlightActivities).toHaveBeenCalledWith(
+        '1000'
+      );
+      expect(mockTargetService.createRemarketingList).toHaveBeenCalledWith(
+        {
+          name: 'Shoe buyers',
+          description: 'desc',
+          lifeSpan: 30,
+          listPopulationRule: {
+            floodlightActivityId: '200',
+            listPopulationClauses: [
+              {
+                terms: [
+                  {
+                    variableName: 'U7',
+                    type: 'CUSTOM_VARIABLE_TERM',
+                    operator: 'STRING_EQUALS',
+                    value: 'shoes',
+                    negation: false,
+                  },
+                ],
+              },
+            ],
+          },
+          active: true,
+          listSource: 'REMARKETING_LIST_SOURCE_DFA',
+          advertiserId: '2000',
+        },
+        '2000'
+      );
+      expect(report).toEqual([['1', 'Shoe buyers', '2000', '9', 'CLONED', '']]);
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'Clone Report',
+        2,
+        1,
+        report
+      );
+    });
+
+    it('skips and reports audiences that cannot be mapped', () => {
+      const report = cloneController.cloneAudiences(
+        [
+          createAudience({
+            ...audienceParams,
+            floodlightId: '101',
+            rules: [
+              { ...rule, variableName: 'U2' },
+              { ...rule, variableName: 'U3' },
+              {
+                ...rule,
+                variableName: '',
+                value: '5',
+                type: 'LIST_MEMBERSHIP_TERM',
+              },
+            ],
+          }),
+        ],
+        '2000',
+        mockTargetService
+      );
+
+      expect(mockTargetService.createRemarketingList).not.toHaveBeenCalled();
+      expect(report).toEqual([
+        [
+          '1',
+          'Shoe buyers',
+          '2000',
+          '',
+          'SKIPPED',
+          "Ambiguous floodlight activity 'Visit' in target advertiser; " +
+            "No variable named 'brand' in target advertiser; " +
+            "Unknown variable 'U3' in source advertiser; " +
+            "List membership term 'IN_LIST 5' cannot be mapped",
+        ],
+      ]);
+    });
+
+    it('reports failed requests and continues', () => {
+      mockTargetService.createRemarketingList = jest
+        .fn()
+        .mockImplementationOnce(() => {
+          throw new Error('Quota exceeded');
+        })
+        .mockReturnValue({ id: '10' });
+
+      const report = cloneController.cloneAudiences(
+        [
+          createAudience(audienceParams),
+          createAudience({ ...audienceParams, id: '2' }),
+        ],
+        '2000',
+        mockTargetService
+      );
+
+      expect(report).toEqual([
+        ['1', 'Shoe buyers', '2000', '', 'FAILED', 'Quota exceeded'],
+        ['2', 'Shoe buyers', '2000', '10', 'CLONED', ''],
+      ]);
+    });
+  });
+
+  describe('cloneSelectedAudiences', () => {
+    it('throws if no audiences are selected', () => {
+      expect(() => cloneController.cloneSelectedAudiences('2000')).toThrow(
+        "Please select the audiences to clone in 'Audiences'"
+      );
+    });
+
+    it('clones the selected audience rows', () => {
+      mockSheetsService.getSelectedRange = jest.fn().mockReturnValue({
+        getSheet: () => ({ getName: () => 'Audiences' }),
+        getRow: () => 3,
+        getNumRows: () => 2,
+      });
+      mockSheetsService.getRangeData = jest
+        .fn()
+        .mockImplementation((sheetName: string) =>
+          sheetName === 'Audiences'
+            ? [
+                ['1', 'First', '', 30, 'Purchase (100)', ''],
+                ['2', 'Second', '', 30, 'Purchase (100)', ''],
+              ]
+            : [[]]
+        );
+
+      const report = cloneController.cloneSelectedAudiences(
+        '2000',
+        mockTargetService
+      );
+
+      expect(report).toEqual([['2', 'Second', '2000', '9', 'CLONED', '']]);
+    });
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for HistoryController.
+ */
+
+import { AudienceProcessJobController } from '../../src/controller/audienceProcessJob';
+import { AudiencesController } from '../../src/controller/audiences';
+import { HistoryController } from '../../src/controller/history';
+import { CampaignManagerFacade } from '../../src/facade/cm360';
+import { Audience } from '../../src/model/audience';
+import { AudienceProcessJob } from '../../src/model/audienceProcessJob';
+import { Job } from '../../src/model/job';
+import { SheetsService } from '../../src/service/sheets';
+import { JobUtil } from '../../src/util/job';
+import { CHECKSUM, createAudience, stubMD5Digest } from '../fixtures';
+
+describe('HistoryController', () => {
+  let mockSheetsService: SheetsService;
+  let historyController: HistoryController;
+  let sheets: Record<string, Array<Array<string | number | boolean>>>;
+
+  const lock = {
+    waitLock: jest.fn(),
+    releaseLock: jest.fn(),
+  };
+  const audienceParams = { name: 'Shoe buyers', floodlightName: 'Purchase' };
+  const historyEntry = (
+    runId: string,
+    audienceId: string,
+    previousJson: string,
+    newJson: string
+  ) => [
+    runId,
+    runId,
+    'user@example.com',
+    audienceId,
+    'Shoe buyers',
+    'UPDATE_AUDIENCE',
+    previousJson,
+    previousJson ? 'previousHash' : '',
+    newJson,
+    'newHash',
+  ];
+
+  beforeAll(() => {
+    stubMD5Digest();
+  });
+
+  beforeEach(() => {
+    sheets = {
+      Audiences: [
+        [
+          '1',
+          'Shoe buyers',
+          'desc',
+          60,
+          'Purchase (123)',
+          '',
+          'Success',
+          'newHash',
+          CHECKSUM,
+          '{}',
+          true,
+          '',
+        ],
+      ],
+    };
+    mockSheetsService = {
+      showToast: jest.fn().mockReturnValue(undefined),
+      getRangeData: jest
+        .fn()
+        .mockImplementation((sheetName: string) => sheets[sheetName] ?? [[]]),
+      getOrCreateSheet: jest.fn().mockReturnValue(undefined),
+      appendToDefinedRange: jest.fn().mockReturnValue(undefined),
+      setValuesInDefinedRange: jest.fn().mockReturnValue(undefined),
+    } as unknown as SheetsService;
+    global.LockService = {
+      getDocumentLock: jest.fn().mockReturnValue(lock),
+    } as unknown as typeof LockService;
+    global.Session = {
+      getActiveUser: () => ({ getEmail: () => 'user@example.com' }),
+    } as unknown as typeof Session;
+
+    historyController = new HistoryController(
+      mockSheetsService,
+      {} as unknown as CampaignManagerFacade,
+      new AudienceProcessJobController(
+        mockSheetsService,
+        {} as unknown as CampaignManagerFacade
+      ),
+      new AudiencesController(
+        mockSheetsService,
+        {} as unknown as CampaignManagerFacade
+      )
+    );
+    jest.spyOn(JobUtil, 'getCurrentDateString').mockReturnValue('2023-01-01');
+    jest
+      .spyOn(AudiencesController.prototype, 'replaceAudienceRules')
+      .mockReturnValue(undefined);
+    jest
+      .spyOn(AudienceProcessJobController.prototype, 'getAudienceRules')
+      .mockReturnValue([]);
+    jest
+      .spyOn(AudienceProcessJobController.prototype, 'validateAudienceJobs')
+      .mockImplementation((job, audienceJobs) => audienceJobs);
+  });
+
+  describe('recordChange', () => {
+    it('appends the previous and new version under a lock', () => {
+      const previousJson = createAudience({
+        ...audienceParams,
+        lifeSpan: 60,
+      }).toJson();
+      const audience = createAudience(audienceParams);
+      const job = new AudienceProcessJob({
+        idx: 0,
+        audience,
+        actions: ['UPDATE_AUDIENCE', 'UPDATE_SHARES'],
+        runId: 'run',
+      });
+
+      const entry = historyController.recordChange(job, previousJson);
+
+      expect(entry).toEqual([
+        '2023-01-01',
+        'run',
+        'user@example.com',
+        '1',
+        'Shoe buyers',
+        'UPDATE_AUDIENCE, UPDATE_SHARES',
+        previousJson,
+        CHECKSUM,
+        audience.toJson(),
+        CHECKSUM,
+      ]);
+      expect(mockSheetsService.appendToDefinedRange).toHaveBeenCalledWith(
+        'History',
+        2,
+        1,
+        [entry]
+      );
+      expect(lock.waitLock).toHaveBeenCalled();
+      expect(lock.releaseLock).toHaveBeenCalled();
+    });
+
+    it('leaves the previous checksum empty for new audiences', () => {
+      const job = new AudienceProcessJob({
+        idx: 0,
+        audience: createAudience(audienceParams),
+        actions: ['CREATE_AUDIENCE'],
+      });
+
+      const entry = historyController.recordChange(job, '');
+
+      expect(entry[6]).toEqual('');
+      expect(entry[7]).toEqual('');
+    });
+  });
+
+  describe('getCreatedAudienceIds', () => {
+    it('returns the IDs of audiences created through the spreadsheet', () => {
+      const createdEntry = historyEntry('run1', '2', '', '{}');
+      createdEntry[5] = 'CREATE_AUDIENCE, UPDATE_SHARES';
+      sheets.History = [historyEntry('run1', '1', '{}', '{}'), createdEntry];
+
+      expect(historyController.getCreatedAudienceIds()).toEqual(new Set(['2']));
+    });
+
+    it('returns no IDs if there is no history', () => {
+      expect(historyController.getCreatedAudienceIds()).toEqual(new Set());
+    });
+  });
+
+  describe('rollback', () => {
+    const previous = createAudience(audienceParams);
+    const changed = createAudience({ ...audienceParams, lifeSpan: 60 });
+    const created = createAudience({
+      ...audienceParams,
+      id: '2',
+      name: 'New buyers',
+    });
+
+    beforeEach(() => {
+      sheets['History'] = [
+        historyEntry('run0', '1', '', previous.toJson()),
+        historyEntry('run1', '1', previous.toJson(), changed.toJson()),
+        historyEntry('run1', '2', '', created.toJson()),
+        historyEntry('run1', '1', changed.toJson(), changed.toJson()),
+      ];
+    });
+
+    it('restores updated and deactivates created audiences of a run', () => {
+      const job = historyController.rollback(new Job(), 'run1');
+
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'Audiences',
+        2,
+        1,
+        [
+          [
+            '1',
+            'Shoe buyers',
+            'desc',
+            30,
+            'Purchase (123)',
+            '',
+            "Rolled back run 'run1' (2023-01-01)",
+            'newHash',
+            CHECKSUM,
+            '{}',
+            true,
+            '',
+            '',
+            '',
+            '',
+            '',
+          ],
+        ]
+      );
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'Audiences',
+        3,
+        1,
+        [
+          [
+            '2',
+            'New buyers',
+            'desc',
+            30,
+            'Purchase (123)',
+            '',
+            "Rolled back run 'run1' (2023-01-01)",
+            'newHash',
+            '',
+            '',
+            false,
+            '',
+            '',
+            '',
+            '',
+            '',
+          ],
+        ]
+      );
+      expect(
+        AudiencesController.prototype.replaceAudienceRules
+      ).toHaveBeenCalledWith([previous, expect.any(Audience)]);
+      expect(
+        job
+          .getJobs()
+          .map(audienceJob => [
+            (audienceJob as AudienceProcessJob).getAudience().getId(),
+            (audienceJob as AudienceProcessJob).getActions(),
+            (audienceJob as AudienceProcessJob).getRunId(),
+          ])
+      ).toEqual([
+        ['1', ['UPDATE_AUDIENCE'], '2023-01-01'],
+        ['2', ['DEACTIVATE_AUDIENCE', 'UPDATE_SHARES'], '2023-01-01'],
+      ]);
+    });
+
+    it('only restores the given audience', () => {
+      const job = historyController.rollback(new Job(), 'run1', '1');
+
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledTimes(
+        1
+      );
+      expect(job.getJobs().length).toEqual(1);
+    });
+
+    it('throws if the run has no history', () => {
+      expect(() => historyController.rollback(new Job(), 'run2')).toThrow(
+        "No history found for run 'run2'"
+      );
+      expect(() => historyController.rollback(new Job(), 'run1', '3')).toThrow(
+        "No history found for audience '3' in run 'run1'"
+      );
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for JobQueueController.
+ */
+
+import { JobQueueController } from '../../src/controller/jobQueue';
+import { CampaignManagerFacade } from '../../src/facade/cm360';
+import { AudienceProcessJob } from '../../src/model/audienceProcessJob';
+import { Job, JobStatus } from '../../src/model/job';
+import { SheetsService } from '../../src/service/sheets';
+import { createAudience, stubMD5Digest } from '../fixtures';
+
+describe('JobQueueController', () => {
+  let mockSheetsService: SheetsService;
+  let jobQueueController: JobQueueController;
+  let sheet: { hideSheet: jest.Mock };
+
+  const createJob = (idx: number, id: string) =>
+    new AudienceProcessJob({
+      idx,
+      audience: createAudience({ id }),
+      actions: ['CREATE_AUDIENCE'],
+      runId: 'run',
+    });
+
+  const createQueueRow = (job: AudienceProcessJob, status: JobStatus) => [
+    'run',
+    job.getIndex(),
+    status,
+    JSON.stringify(job),
+  ];
+
+  beforeAll(() => {
+    stubMD5Digest();
+  });
+
+  beforeEach(() => {
+    sheet = { hideSheet: jest.fn() };
+    mockSheetsService = {
+      getRangeData: jest.fn().mockReturnValue([[]]),
+      getOrCreateSheet: jest.fn().mockReturnValue(sheet),
+      clearDefinedRange: jest.fn().mockReturnValue(undefined),
+      setValuesInDefinedRange: jest.fn().mockReturnValue(undefined),
+      setCellValue: jest.fn().mockReturnValue(undefined),
+    } as unknown as SheetsService;
+
+    jobQueueController = new JobQueueController(
+      mockSheetsService,
+      {} as unknown as CampaignManagerFacade
+    );
+  });
+
+  describe('save', () => {
+    it('replaces the queue with the pending jobs of the run', () => {
+      const jobs = [createJob(0, '1'), createJob(3, '2')];
+
+      jobQueueController.save(jobs);
+
+      expect(sheet.hideSheet).toHaveBeenCalled();
+      expect(mockSheetsService.clearDefinedRange).toHaveBeenCalledWith(
+        'Job Queue',
+        2,
+        1
+      );
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'Job Queue',
+        2,
+        1,
+        [
+          createQueueRow(jobs[0], JobStatus.PENDING),
+          createQueueRow(jobs[1], JobStatus.PENDING),
+        ]
+      );
+    });
+  });
+
+  describe('markRunning', () => {
+    it('returns the previous status of queued jobs', () => {
+      const jobs = [createJob(0, '1'), createJob(3, '2')];
+      (mockSheetsService.getRangeData as jest.Mock).mockReturnValue([
+        createQueueRow(jobs[0], JobStatus.COMPLETE),
+        createQueueRow(jobs[1], JobStatus.RUNNING),
+      ]);
+
+      expect(jobQueueController.markRunning(jobs[1])).toEqual(
+        JobStatus.RUNNING
+      );
+      expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+        3,
+        3,
+        JobStatus.RUNNING,
+        'Job Queue'
+      );
+    });
+
+    it('ignores jobs which are not queued', () => {
+      expect(jobQueueController.markRunning(createJob(0, '1'))).toBeUndefined();
+      expect(mockSheetsService.setCellValue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('persists the outcome of processed jobs', () => {
+      const jobs = [createJob(0, '1'), createJob(3, '2')];
+      (mockSheetsService.getRangeData as jest.Mock).mockReturnValue([
+        createQueueRow(jobs[0], JobStatus.PENDING),
+        createQueueRow(jobs[1], JobStatus.PENDING),
+      ]);
+      jobs[1].error('Quota exceeded');
+
+      expect(jobQueueController.update(jobs[0])).toBe(true);
+      expect(jobQueueController.update(jobs[1])).toBe(true);
+
+      expect(jobs[0].getStatus()).toEqual(JobStatus.COMPLETE);
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'Job Queue',
+        2,
+        3,
+        [[JobStatus.COMPLETE, JSON.stringify(jobs[0])]]
+      );
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'Job Queue',
+        3,
+        3,
+        [[JobStatus.ERROR, JSON.stringify(jobs[1])]]
+      );
+    });
+  });
+
+  describe('getLastRun', () => {
+    it('resets failed and interrupted jobs to pending', () => {
+      const jobs = [createJob(0, '1'), createJob(1, '2'), createJob(2, '3')];
+      jobs[0].complete();
+      jobs[1].error('Quota exceeded');
+      jobs[2].run();
+      (mockSheetsService.getRangeData as jest.Mock).mockReturnValue([
+        createQueueRow(jobs[0], JobStatus.COMPLETE),
+        createQueueRow(jobs[1], JobStatus.ERROR),
+        createQueueRow(jobs[2], JobStatus.RUNNING),
+      ]);
+
+      const result = jobQueueController.getLastRun(new Job());
+
+      const resumed = result.getJobs() as AudienceProcessJob[];
+      expect(resumed.map(job => job.getStatus())).toEqual([
+        JobStatus.COMPLETE,
+        JobStatus.PENDING,
+        JobStatus.PENDING,
+      ]);
+      expect(resumed.map(job => job.getError())).toEqual(['', '', '']);
+      expect(resumed[1].getAudience().getName()).toEqual('Audience 2');
+      expect(resumed[1].getRunId()).toEqual('run');
+      expect(result.getLogs()[0].message).toEqual(
+        'Resuming 2 of 3 audience(s) of the last run'
+      );
+    });
+
+    it('returns no jobs if there is no last run', () => {
+      const result = jobQueueController.getLastRun(new Job());
+
+      expect(result.getJobs()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for ScheduleController.
+ */
+
+import { AudienceProcessJobController } from '../../src/controller/audienceProcessJob';
+import { AudiencesController } from '../../src/controller/audiences';
+import { ScheduleController } from '../../src/controller/schedule';
+import { TransactionController } from '../../src/controller/transaction';
+import { CampaignManagerFacade } from '../../src/facade/cm360';
+import { AudienceLoadJob } from '../../src/model/audienceLoadJob';
+import { AudienceProcessJob } from '../../src/model/audienceProcessJob';
+import { Job } from '../../src/model/job';
+import { SheetsService } from '../../src/service/sheets';
+import { JobUtil } from '../../src/util/job';
+import { createAudience, stubMD5Digest } from '../fixtures';
+
+describe('ScheduleController', () => {
+  let mockSheetsService: SheetsService;
+  let scheduleController: ScheduleController;
+  let properties: Map<string, string>;
+  let queueRows: string[][];
+  let triggers: Array<{ handler: string; id: string; after?: number }>;
+  let createdTriggers: number;
+  let lock: { tryLock: jest.Mock; releaseLock: jest.Mock };
+  let now: number;
+
+  beforeAll(() => {
+    stubMD5Digest();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(JobUtil, 'getCurrentDateString').mockReturnValue('2023-01-01');
+
+    now = 0;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    properties = new Map();
+    queueRows = [];
+    triggers = [];
+    createdTriggers = 0;
+    lock = {
+      tryLock: jest.fn().mockReturnValue(true),
+      releaseLock: jest.fn(),
+    };
+
+    mockSheetsService = {
+      showToast: jest.fn().mockReturnValue(undefined),
+      getRangeData: jest.fn().mockImplementation(() => queueRows),
+      getOrCreateSheet: jest.fn().mockReturnValue({ hideSheet: jest.fn() }),
+      clearRange: jest.fn().mockReturnValue(undefined),
+      clearDefinedRange: jest.fn().mockImplementation(sheetName => {
+        if (sheetName === 'Schedule Queue') {
+          queueRows = [];
+        }
+      }),
+      setValuesInDefinedRange: jest
+        .fn()
+        .mockImplementation((sheetName, row, col, values) => {
+          if (sheetName === 'Schedule Queue') {
+            queueRows = values;
+          }
+        }),
+      getSpreadsheet: () => ({
+        getUrl: () => 'https://docs.google.com/spreadsheets/d/1',
+      }),
+    } as unknown as SheetsService;
+
+    const createTriggerBuilder = (handler: string) => {
+      const trigger: { handler: string; id: string; after?: number } = {
+        handler,
+        id: `trigger${createdTriggers++}`,
+      };
+      const builder = {
+        timeBased: () => builder,
+        everyHours: () => builder,
+        after: (millis: number) => {
+          trigger.after = millis;
+          return builder;
+        },
+        create: () => {
+          triggers.push(trigger);
+          return { getUniqueId: () => trigger.id };
+        },
+      };
+      return builder;
+    };
+
+    global.ScriptApp = {
+      newTrigger: jest.fn().mockImplementation(createTriggerBuilder),
+      getProjectTriggers: () =>
+        triggers.map(trigger => ({
+          getHandlerFunction: () => trigger.handler,
+          getUniqueId: () => trigger.id,
+          id: trigger.id,
+        })),
+      deleteTrigger: jest.fn().mockImplementation(deleted => {
+        triggers = triggers.filter(trigger => trigger.id !== deleted.id);
+      }),
+    } as unknown as typeof ScriptApp;
+    global.PropertiesService = {
+      getDocumentProperties: () => ({
+        getProperty: (key: string) => properties.get(key) ?? null,
+        setProperty: (key: string, value: string) => properties.set(key, value),
+        deleteProperty: (key: string) => properties.delete(key),
+      }),
+    } as unknown as typeof PropertiesService;
+    global.LockService = {
+      getScriptLock: jest.fn().mockReturnValue(lock),
+    } as unknown as typeof LockService;
+    global.Session = {
+      getEffectiveUser: () => ({ getEmail: () => 'user@example.com' }),
+    } as unknown as typeof Session;
+    global.MailApp = {
+      sendEmail: jest.fn(),
+    } as unknown as typeof MailApp;
+
+    scheduleController = new ScheduleController(
+      mockSheetsService,
+      {} as unknown as CampaignManagerFacade
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('schedule', () => {
+    it('replaces existing triggers with a recurring one', () => {
+      triggers = [{ handler: 'runScheduledSync', id: 'old' }];
+
+      const schedule = scheduleController.schedule('load', 6);
+
+      expect(schedule).toEqual({ task: 'load', everyHours: 6 });
+      expect(triggers).toEqual([
+        { handler: 'runScheduledSync', id: 'trigger0' },
+      ]);
+      expect(scheduleController.getSchedule()).toEqual(schedule);
+    });
+
+    it('rejects unknown tasks and intervals', () => {
+      expect(() => scheduleController.schedule('delete', 6)).toThrow(
+        "Unknown task 'delete'"
+      );
+      expect(() => scheduleController.schedule('load', 3)).toThrow(
+        'Interval must be one of 1, 2, 4, 6, 8, 12 hours'
+      );
+      expect(triggers).toEqual([]);
+    });
+  });
+
+  describe('run', () => {
+    let commitAudiences: jest.SpyInstance;
+
+    beforeEach(() => {
+      scheduleController.schedule('process', 1);
+      jest
+        .spyOn(AudienceProcessJobController.prototype, 'processAudiences')
+        .mockImplementation(job => {
+          job.getJobs().push(
+            ...['1', '2', '3'].map(
+              (id, idx) =>
+                new AudienceProcessJob({
+                  idx,
+                  audience: createAudience({ id }),
+                  actions: ['UPDATE_AUDIENCE'],
+                  runId: 'run',
+                })
+            )
+          );
+          return job;
+        });
+      jest
+        .spyOn(AudienceProcessJobController.prototype, 'processAudience')
+        .mockImplementation(job => {
+          now += 100;
+          if (job.getAudience().getId() === '2') {
+            job.error('Quota exceeded');
+          } else {
+            job.log([`Processed audience '${job.getAudience().getName()}'`]);
+          }
+          return job;
+        });
+      commitAudiences = jest
+        .spyOn(TransactionController.prototype, 'commitAudiences')
+        .mockImplementation(job => job);
+    });
+
+    it('continues the run on a one-off trigger once out of time', () => {
+      const run = scheduleController.run(0, { maxRuntimeMillis: 150 });
+
+      expect(run).toEqual(
+        expect.objectContaining({
+          task: 'process',
+          next: 2,
+          triggerId: 'trigger1',
+        })
+      );
+      expect(queueRows).toHaveLength(3);
+      expect(triggers[1]).toEqual(
+        expect.objectContaining({ handler: 'runScheduledSync', after: 60000 })
+      );
+      expect(commitAudiences).not.toHaveBeenCalled();
+      expect(MailApp.sendEmail).not.toHaveBeenCalled();
+      expect(lock.releaseLock).toHaveBeenCalled();
+    });
+
+    it('completes the run in the last chunk and sends a summary', () => {
+      scheduleController.run(0, { maxRuntimeMillis: 150 });
+
+      const run = scheduleController.run(now, { maxRuntimeMillis: 150 });
+
+      expect(run).toBeNull();
+      expect(
+        AudienceProcessJobController.prototype.processAudience
+      ).toHaveBeenCalledTimes(3);
+      const [job] = commitAudiences.mock.calls[0];
+      expect(
+        job.getJobs().map((audienceJob: Job) => audienceJob.getError())
+      ).toEqual(['', 'Quota exceeded', '']);
+      expect(MailApp.sendEmail).toHaveBeenCalledWith(
+        'user@example.com',
+        'Audience Manager: Scheduled process started at 2023-01-01 ' +
+          'finished: 2 of 3 audience(s) succeeded',
+        expect.stringContaining('- Audience 2: Quota exceeded')
+      );
+      expect(queueRows).toEqual([]);
+      expect(properties.has('scheduleRun')).toBe(false);
+      expect(triggers.map(trigger => trigger.id)).toEqual(['trigger0']);
+    });
+
+    it('writes the logs of every chunk once', () => {
+      scheduleController.run(0, { maxRuntimeMillis: 150 });
+      scheduleController.run(now, { maxRuntimeMillis: 150 });
+
+      const logs = (
+        mockSheetsService.setValuesInDefinedRange as jest.Mock
+      ).mock.calls
+        .filter(([sheetName]) => sheetName === 'Log')
+        .flatMap(([, , , values]) => values)
+        .map(([, message]) => message);
+      expect(logs).toEqual([
+        'Scheduled process started',
+        "Processed audience 'Audience 1'",
+        "Processed audience 'Audience 3'",
+        'Scheduled process started at 2023-01-01 finished: 2 of 3 ' +
+          'audience(s) succeeded',
+      ]);
+    });
+
+    it('skips executions overlapping a running one', () => {
+      lock.tryLock.mockReturnValue(false);
+
+      expect(scheduleController.run()).toBeNull();
+      expect(
+        AudienceProcessJobController.prototype.processAudiences
+      ).not.toHaveBeenCalled();
+    });
+
+    it('reports runs failing to start', () => {
+      (
+        AudienceProcessJobController.prototype.processAudiences as jest.Mock
+      ).mockImplementation(() => {
+        throw new Error('No access');
+      });
+
+      expect(scheduleController.run()).toBeNull();
+      expect(MailApp.sendEmail).toHaveBeenCalledWith(
+        'user@example.com',
+        'Audience Manager: Scheduled run failed! No access',
+        expect.any(String)
+      );
+      expect(properties.has('scheduleRun')).toBe(false);
+    });
+
+    it('extracts the rules of loaded audiences', () => {
+      scheduleController.schedule('load', 1);
+      jest
+        .spyOn(AudiencesController.prototype, 'loadAudiences')
+        .mockImplementation(job => {
+          job.getJobs().push(
+            new AudienceLoadJob({
+              idx: 0,
+              audience: createAudience({ id: '1' }),
+            })
+          );
+          return job;
+        });
+      jest
+        .spyOn(AudiencesController.prototype, 'loadAudience')
+        .mockImplementation(job => job);
+      const extractAndOutputRules = jest
+        .spyOn(AudiencesController.prototype, 'extractAndOutputRules')
+        .mockReturnValue(undefined);
+
+      scheduleController.run();
+
+      expect(extractAndOutputRules).toHaveBeenCalledWith(['1']);
+      expect(commitAudiences).not.toHaveBeenCalled();
+    });
+  });
+});
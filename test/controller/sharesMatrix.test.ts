@@ -0,0 +1,165 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for SharesMatrixController.
+ */
+
+import { SharesMatrixController } from '../../src/controller/sharesMatrix';
+import { CampaignManagerFacade } from '../../src/facade/cm360';
+import { AudienceProcessJob } from '../../src/model/audienceProcessJob';
+import { Job } from '../../src/model/job';
+import { SheetsService } from '../../src/service/sheets';
+import { JobUtil } from '../../src/util/job';
+
+jest.mock('../../src/util/hash', () => {
+  return {
+    generateMD5Hash: jest.fn().mockReturnValue('md5Hash'),
+  };
+});
+
+describe('SharesMatrixController', () => {
+  let mockSheetsService: SheetsService;
+  let sharesMatrixController: SharesMatrixController;
+  let sheets: Record<string, Array<Array<string | number | boolean>>>;
+  let range: { insertCheckboxes: jest.Mock };
+
+  const header = [
+    'Audience ID',
+    'Audience',
+    'Shares',
+    'Shoes (1)',
+    'Hats (2)',
+    'MISSING (3)',
+  ];
+
+  beforeEach(() => {
+    jest.spyOn(JobUtil, 'getCurrentDateString').mockReturnValue('2023-01-01');
+
+    range = { insertCheckboxes: jest.fn() };
+    sheets = {
+      advertisers: [
+        ['1', 'Shoes (1)'],
+        ['2', 'Hats (2)'],
+      ],
+      Audiences: [
+        ['10', 'Buyers', '', 30, '', 'Shoes (1)'],
+        ['', 'New', '', 30, '', 'Hats (2)'],
+        ['11', 'Visitors', '', 30, '', 'Shoes (1)##MISSING (3)'],
+      ],
+      Rules: [],
+    };
+    mockSheetsService = {
+      showToast: jest.fn(),
+      getRangeData: jest
+        .fn()
+        .mockImplementation((sheetName, row) =>
+          sheetName === 'Shares Matrix'
+            ? sheets[sheetName].slice(row - 1)
+            : sheets[sheetName] ?? [[]]
+        ),
+      getOrCreateSheet: jest.fn().mockReturnValue({
+        getRange: jest.fn().mockReturnValue(range),
+        setFrozenRows: jest.fn(),
+        setFrozenColumns: jest.fn(),
+        hideSheet: jest.fn(),
+      }),
+      clearDefinedRange: jest.fn(),
+      setValuesInDefinedRange: jest.fn(),
+      setCellValue: jest.fn(),
+    } as unknown as SheetsService;
+
+    sharesMatrixController = new SharesMatrixController(
+      mockSheetsService,
+      {} as unknown as CampaignManagerFacade
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('buildSharesMatrix', () => {
+    it('writes synced audiences by advertiser with counts', () => {
+      const job = sharesMatrixController.buildSharesMatrix(new Job());
+
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'Shares Matrix',
+        1,
+        1,
+        [header]
+      );
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'Shares Matrix',
+        2,
+        1,
+        [
+          [
+            '',
+            'Audiences',
+            '=SUM(C3:C)',
+            '=COUNTIF(D3:D, TRUE)',
+            '=COUNTIF(E3:E, TRUE)',
+            '=COUNTIF(F3:F, TRUE)',
+          ],
+        ]
+      );
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'Shares Matrix',
+        3,
+        1,
+        [
+          ['10', 'Buyers', '=COUNTIF(D3:F3, TRUE)', true, false, false],
+          ['11', 'Visitors', '=COUNTIF(D4:F4, TRUE)', true, false, true],
+        ]
+      );
+      expect(range.insertCheckboxes).toHaveBeenCalled();
+      expect(job.getLogs().map(log => log.message)).toEqual([
+        'Built shares matrix of 2 audience(s) and 3 advertiser(s)',
+      ]);
+    });
+  });
+
+  describe('applySharesMatrix', () => {
+    it('creates share updates for audiences changed in the matrix', () => {
+      sheets['Shares Matrix'] = [
+        header,
+        ['', 'Audiences', 3, 2, 1, 1],
+        ['10', 'Buyers', 2, true, true, false],
+        ['11', 'Visitors', 2, true, false, true],
+        ['12', 'Removed', 1, true, false, false],
+      ];
+
+      const job = sharesMatrixController.applySharesMatrix(new Job());
+
+      expect(mockSheetsService.setCellValue).toHaveBeenCalledTimes(1);
+      expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+        2,
+        6,
+        'Hats (2)##Shoes (1)',
+        'Audiences'
+      );
+      const audienceJobs = job.getJobs() as AudienceProcessJob[];
+      expect(audienceJobs).toHaveLength(1);
+      expect(audienceJobs[0].getIndex()).toEqual(0);
+      expect(audienceJobs[0].getActions()).toEqual(['UPDATE_SHARES']);
+      expect(audienceJobs[0].getRunId()).toEqual('2023-01-01');
+      expect(audienceJobs[0].getAudience().getShares()).toEqual(['2', '1']);
+      expect(job.getLogs().map(log => log.message)).toEqual([
+        'Applying the shares matrix to 1 audience(s)',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for TemplatesController.
+ */
+
+import { AudienceProcessJobController } from '../../src/controller/audienceProcessJob';
+import { AudiencesController } from '../../src/controller/audiences';
+import { TemplatesController } from '../../src/controller/templates';
+import { CampaignManagerFacade } from '../../src/facade/cm360';
+import { Audience } from '../../src/model/audience';
+import { SheetsService } from '../../src/service/sheets';
+import { JobUtil } from '../../src/util/job';
+
+jest.mock('../../src/util/hash', () => {
+  return {
+    generateMD5Hash: jest.fn().mockReturnValue('md5Hash'),
+  };
+});
+
+describe('TemplatesController', () => {
+  let mockSheetsService: SheetsService;
+  let mockCampaignManagerService: CampaignManagerFacade;
+  let templatesController: TemplatesController;
+
+  const template = [
+    'visitors',
+    'Visited {category} page in last {days} days',
+    'Generated for {category}',
+    '{days}',
+    'Page view (123)',
+    'u1 EQUALS "{category}"',
+  ];
+
+  beforeEach(() => {
+    mockSheetsService = {
+      showToast: jest.fn().mockReturnValue(undefined),
+      getRangeData: jest.fn().mockReturnValue([[]]),
+      setCellValue: jest.fn().mockReturnValue(undefined),
+      setValuesInDefinedRange: jest.fn().mockReturnValue(undefined),
+    } as unknown as SheetsService;
+    mockCampaignManagerService = {} as unknown as CampaignManagerFacade;
+
+    templatesController = new TemplatesController(
+      mockSheetsService,
+      mockCampaignManagerService
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('instantiates correctly', () => {
+    expect(templatesController.getSheetsService()).toEqual(mockSheetsService);
+    expect(templatesController.getCampaignManagerService()).toEqual(
+      mockCampaignManagerService
+    );
+  });
+
+  describe('substitute', () => {
+    it('replaces all placeholders', () => {
+      expect(
+        templatesController.substitute('{a} and {b} and {a}', {
+          a: '1',
+          b: '2',
+        })
+      ).toEqual('1 and 2 and 1');
+    });
+
+    it('throws for unknown placeholders', () => {
+      expect(() => templatesController.substitute('{c}', { a: '1' })).toThrow(
+        "Unknown placeholder '{c}'"
+      );
+    });
+  });
+
+  describe('getTemplateKey', () => {
+    it('combines template ID and the used parameters sorted by name', () => {
+      expect(
+        templatesController.getTemplateKey('visitors', template, {
+          days: '30',
+          category: 'shoes',
+          unused: 'x',
+        })
+      ).toEqual('["visitors",{"category":"shoes","days":"30"}]');
+    });
+
+    it('does not collide for values holding commas', () => {
+      const commaTemplate = ['t', '{a}{b}'];
+
+      expect(
+        templatesController.getTemplateKey('t', commaTemplate, {
+          a: 'x,y',
+          b: 'z',
+        })
+      ).not.toEqual(
+        templatesController.getTemplateKey('t', commaTemplate, {
+          a: 'x',
+          b: 'y,z',
+        })
+      );
+    });
+  });
+
+  describe('getPlaceholderNames', () => {
+    it('returns the unique placeholders of all templated fields', () => {
+      expect(templatesController.getPlaceholderNames(template)).toEqual([
+        'category',
+        'days',
+      ]);
+    });
+  });
+
+  describe('expandTemplate', () => {
+    it('resolves all templated fields', () => {
+      const audience = templatesController.expandTemplate(
+        template,
+        { category: 'shoes', days: '30' },
+        { U1: 'category' },
+        'id'
+      );
+
+      expect(audience).toEqual(
+        new Audience({
+          id: 'id',
+          name: 'Visited shoes page in last 30 days',
+          description: 'Generated for shoes',
+          lifeSpan: 30,
+          floodlightId: '123',
+          floodlightName: 'Page view',
+          rules: [
+            {
+              group: 0,
+              variableName: 'U1',
+              variableFriendlyName: 'category',
+              operator: 'STRING_EQUALS',
+              value: 'shoes',
+              negation: false,
+            },
+          ],
+          shares: [],
+        })
+      );
+    });
+  });
+
+  describe('expandTemplates', () => {
+    beforeEach(() => {
+      jest.spyOn(JobUtil, 'getCurrentDateString').mockReturnValue('2023-01-01');
+      jest
+        .spyOn(AudienceProcessJobController.prototype, 'getCustomVariableNames')
+        .mockReturnValue({ U1: 'category' });
+      jest
+        .spyOn(AudiencesController.prototype, 'replaceAudienceRules')
+        .mockReturnValue(undefined);
+    });
+
+    it('updates previously generated audiences regardless of the column order', () => {
+      const existingRow = Array.from({ length: 16 }, () => '');
+      existingRow[0] = '42';
+      existingRow[1] = 'old name';
+      existingRow[15] = '["visitors",{"category":"shoes","days":"30"}]';
+
+      mockSheetsService.getRangeData = jest
+        .fn()
+        .mockImplementation((sheetName: string) => {
+          switch (sheetName) {
+            case 'Templates':
+              return [template];
+            case 'Template Parameters':
+              return [
+                ['Template', 'days', 'comment', 'category'],
+                ['visitors', '30', 'added later', 'shoes'],
+                ['visitors', '60', '', 'boots'],
+                ['', '', '', ''],
+              ];
+            default:
+              return [existingRow];
+          }
+        });
+
+      const audiences = templatesController.expandTemplates();
+
+      expect(audiences.map(audience => audience.getId())).toEqual([
+        '42',
+        '["visitors",{"category":"boots","days":"60"}]',
+      ]);
+      expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+        2,
+        2,
+        'Visited shoes page in last 30 days',
+        'Audiences'
+      );
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'Audiences',
+        3,
+        1,
+        [
+          [
+            '["visitors",{"category":"boots","days":"60"}]',
+            'Visited boots page in last 60 days',
+            'Generated for boots',
+            60,
+            'Page view (123)',
+            '',
+            'Generated (2023-01-01)',
+            '',
+            '',
+            '',
+            '',
+            '',
+            '',
+            '',
+            '',
+            '["visitors",{"category":"boots","days":"60"}]',
+          ],
+        ]
+      );
+      expect(
+        AudiencesController.prototype.replaceAudienceRules
+      ).toHaveBeenCalledWith(audiences);
+    });
+
+    it('throws for unknown templates before writing anything', () => {
+      mockSheetsService.getRangeData = jest
+        .fn()
+        .mockImplementation((sheetName: string) => {
+          switch (sheetName) {
+            case 'Templates':
+              return [template];
+            case 'Template Parameters':
+              return [
+                ['Template', 'category', 'days'],
+                ['visitors', 'shoes', '30'],
+                ['unknown', 'shoes', '30'],
+              ];
+            default:
+              return [[]];
+          }
+        });
+
+      expect(() => templatesController.expandTemplates()).toThrow(
+        "Unknown template 'unknown'"
+      );
+      expect(mockSheetsService.setCellValue).not.toHaveBeenCalled();
+      expect(mockSheetsService.setValuesInDefinedRange).not.toHaveBeenCalled();
+      expect(
+        AudiencesController.prototype.replaceAudienceRules
+      ).not.toHaveBeenCalled();
+    });
+  });
+});
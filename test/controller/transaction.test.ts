@@ -0,0 +1,291 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for TransactionController.
+ */
+
+import { TransactionController } from '../../src/controller/transaction';
+import { CampaignManagerFacade } from '../../src/facade/cm360';
+import { AudienceProcessJob } from '../../src/model/audienceProcessJob';
+import { Job } from '../../src/model/job';
+import { SheetsService } from '../../src/service/sheets';
+import { JobUtil } from '../../src/util/job';
+import { createAudience, stubMD5Digest } from '../fixtures';
+
+describe('TransactionController', () => {
+  let mockSheetsService: SheetsService;
+  let mockCampaignManagerService: CampaignManagerFacade;
+  let transactionController: TransactionController;
+  let sheet: { hideSheet: jest.Mock };
+
+  const createJob = (
+    idx: number,
+    id: string,
+    actions: string[],
+    params: Parameters<typeof createAudience>[0] = {}
+  ) =>
+    new AudienceProcessJob({
+      idx,
+      audience: createAudience({ id, shares: ['11'], ...params }),
+      actions,
+      runId: 'run',
+    });
+
+  beforeAll(() => {
+    stubMD5Digest();
+  });
+
+  beforeEach(() => {
+    sheet = { hideSheet: jest.fn() };
+    mockSheetsService = {
+      showToast: jest.fn().mockReturnValue(undefined),
+      getRangeData: jest.fn().mockReturnValue([[]]),
+      getOrCreateSheet: jest.fn().mockReturnValue(sheet),
+      clearDefinedRange: jest.fn().mockReturnValue(undefined),
+      setValuesInDefinedRange: jest.fn().mockReturnValue(undefined),
+      setCellValue: jest.fn().mockReturnValue(undefined),
+    } as unknown as SheetsService;
+    mockCampaignManagerService = {
+      getAccountData: jest.fn().mockReturnValue({ advertiserId: '1000' }),
+      getRemarketingList: jest.fn().mockImplementation((id: string) => ({
+        id,
+        name: `Remote ${id}`,
+        active: true,
+      })),
+      getRemarketingListShares: jest.fn().mockReturnValue(['22']),
+      getRemarketingListSharesResource: jest
+        .fn()
+        .mockImplementation((id: string) => ({ remarketingListId: id })),
+      updateRemarketingList: jest.fn().mockReturnValue({}),
+      updateRemarketingListShares: jest.fn().mockReturnValue(undefined),
+    } as unknown as CampaignManagerFacade;
+
+    transactionController = new TransactionController(
+      mockSheetsService,
+      mockCampaignManagerService
+    );
+    jest.spyOn(JobUtil, 'getCurrentDateString').mockReturnValue('2023-01-01');
+  });
+
+  describe('snapshot', () => {
+    it('writes the remote and synced state of the affected audiences', () => {
+      const rows = transactionController.snapshot(
+        'run',
+        [
+          createJob(0, '1', ['UPDATE_AUDIENCE']),
+          createJob(1, '2', ['UPDATE_SHARES']),
+          createJob(2, 'New', ['CREATE_AUDIENCE', 'UPDATE_SHARES']),
+        ],
+        [
+          ['1', 'Audience 1', '', 30, '', '', '', 'c1', 's1', 'j1'],
+          ['2', 'Audience 2', '', 30, '', '', '', 'c2', 's2', 'j2'],
+          ['New', 'Audience New', '', 30, '', '', '', '', '', ''],
+        ]
+      );
+
+      expect(
+        mockCampaignManagerService.getRemarketingList
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        mockCampaignManagerService.getRemarketingList
+      ).toHaveBeenCalledWith('1');
+      expect(
+        mockCampaignManagerService.getRemarketingListShares
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        mockCampaignManagerService.getRemarketingListShares
+      ).toHaveBeenCalledWith('2');
+      expect(rows).toEqual([
+        [
+          'run',
+          0,
+          '1',
+          'c1',
+          's1',
+          'j1',
+          JSON.stringify({ id: '1', name: 'Remote 1', active: true }),
+          '',
+        ],
+        ['run', 1, '2', 'c2', 's2', 'j2', '', '["22"]'],
+        ['run', 2, 'New', '', '', '', '', ''],
+      ]);
+      expect(sheet.hideSheet).toHaveBeenCalled();
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'Transaction',
+        2,
+        1,
+        rows
+      );
+    });
+  });
+
+  describe('commitAudiences', () => {
+    const failedJob = () => {
+      const job = createJob(3, '3', ['UPDATE_AUDIENCE']);
+      job.error('Failed');
+      return job;
+    };
+
+    beforeEach(() => {
+      mockSheetsService.getRangeData = jest.fn().mockReturnValue([
+        ['old', 0, '1', 'x', 'x', 'x', '', ''],
+        ['run', 0, '1', 'c1', 's1', 'j1', '{"id":"1","active":true}', ''],
+        ['run', 1, '2', 'c2', 's2', 'j2', '', '["22"]'],
+        ['run', 2, 'Temp', '', '', '', '', ''],
+      ]);
+    });
+
+    it('keeps all changes if no audience failed', () => {
+      const job = transactionController.commitAudiences(
+        new Job(0, 0, true, [], [createJob(0, '1', ['UPDATE_AUDIENCE'])]),
+        { enabled: true }
+      );
+
+      expect(
+        mockCampaignManagerService.updateRemarketingList
+      ).not.toHaveBeenCalled();
+      expect(job.getLogs()).toEqual([]);
+    });
+
+    it('keeps all changes if the mode is disabled', () => {
+      transactionController.commitAudiences(
+        new Job(0, 0, true, [], [failedJob()]),
+        { enabled: false }
+      );
+
+      expect(mockSheetsService.getRangeData).not.toHaveBeenCalled();
+    });
+
+    it('reverts the applied audiences if any audience failed', () => {
+      const job = transactionController.commitAudiences(
+        new Job(
+          0,
+          0,
+          true,
+          [],
+          [
+            createJob(0, '1', ['UPDATE_AUDIENCE']),
+            createJob(1, '2', ['UPDATE_SHARES']),
+            createJob(2, '9', ['CREATE_AUDIENCE', 'UPDATE_SHARES']),
+            failedJob(),
+          ]
+        ),
+        { enabled: true }
+      );
+
+      expect(
+        mockCampaignManagerService.updateRemarketingList
+      ).toHaveBeenCalledWith({ id: '1', active: true });
+      expect(
+        mockCampaignManagerService.updateRemarketingListShares
+      ).toHaveBeenCalledWith('2', {
+        remarketingListId: '2',
+        sharedAdvertiserIds: ['22'],
+      });
+      expect(
+        mockCampaignManagerService.updateRemarketingList
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ id: '9', name: 'Audience 9', active: false })
+      );
+      expect(
+        mockCampaignManagerService.updateRemarketingListShares
+      ).toHaveBeenCalledWith('9', {
+        remarketingListId: '9',
+        sharedAdvertiserIds: [],
+      });
+      expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+        2,
+        8,
+        'c1',
+        'Audiences'
+      );
+      expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+        3,
+        9,
+        's2',
+        'Audiences'
+      );
+      for (const row of [2, 3, 4]) {
+        expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+          row,
+          7,
+          'Reverted (2023-01-01)',
+          'Audiences'
+        );
+      }
+      expect(job.getLogs().pop()?.message).toEqual(
+        'Reverted 3 of 3 applied audience(s) since 1 audience(s) failed'
+      );
+    });
+
+    it('marks failed audiences as not retryable once reverted', () => {
+      const failed = failedJob();
+      failed.setRetryable(true);
+
+      transactionController.commitAudiences(
+        new Job(
+          0,
+          0,
+          true,
+          [],
+          [createJob(0, '1', ['UPDATE_AUDIENCE']), failed]
+        ),
+        { enabled: true }
+      );
+
+      expect(failed.isRetryable()).toBe(false);
+    });
+
+    it('reports audiences that could not be reverted', () => {
+      mockCampaignManagerService.updateRemarketingList = jest
+        .fn()
+        .mockImplementation(() => {
+          throw new Error('Quota exceeded');
+        });
+
+      const job = transactionController.commitAudiences(
+        new Job(
+          0,
+          0,
+          true,
+          [],
+          [
+            createJob(0, '1', ['UPDATE_AUDIENCE']),
+            createJob(5, '5', ['UPDATE_AUDIENCE']),
+            failedJob(),
+          ]
+        ),
+        { enabled: true }
+      );
+
+      expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+        2,
+        7,
+        'Revert failed! Quota exceeded (2023-01-01)',
+        'Audiences'
+      );
+      expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+        7,
+        7,
+        'Revert failed! No snapshot found (2023-01-01)',
+        'Audiences'
+      );
+      expect(job.getLogs().pop()?.message).toEqual(
+        'Reverted 0 of 2 applied audience(s) since 1 audience(s) failed'
+      );
+    });
+  });
+});
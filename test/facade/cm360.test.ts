@@ -176,6 +176,23 @@ describe('CampaignManagerFacade', () => {
       });
     });
 
+    describe('getAdvertiserIds', () => {
+      it('falls back to the default advertiser', () => {
+        expect(campaignManagerFacade.getAdvertiserIds()).toEqual([
+          accountData.advertiserId,
+        ]);
+      });
+
+      it('returns all configured advertisers', () => {
+        const facade = new CampaignManagerFacade(
+          { ...accountData, advertiserIds: ['1', '2'] },
+          true
+        );
+
+        expect(facade.getAdvertiserIds()).toEqual(['1', '2']);
+      });
+    });
+
     describe('getUserDefinedVariableConfigurations', () => {
       it('calls through to the underlying implementation', () => {
         const mockService = {
@@ -190,11 +207,11 @@ describe('CampaignManagerFacade', () => {
           .mockReturnValue('123');
 
         const result =
-          campaignManagerFacade.getUserDefinedVariableConfigurations();
+          campaignManagerFacade.getUserDefinedVariableConfigurations('789');
 
         expect(
           mockService.getUserDefinedVariableConfigurations
-        ).toHaveBeenCalledWith('123');
+        ).toHaveBeenCalledWith('123', '789');
         expect(result).toEqual([]);
       });
     });
@@ -216,7 +233,10 @@ describe('CampaignManagerFacade', () => {
 
         const result = campaignManagerFacade.getFloodlightActivities();
 
-        expect(mockService.getFloodlightActivities).toHaveBeenCalledWith('123');
+        expect(mockService.getFloodlightActivities).toHaveBeenCalledWith(
+          '123',
+          undefined
+        );
         expect(result).toEqual([]);
       });
     });
@@ -265,9 +285,15 @@ describe('CampaignManagerFacade', () => {
           .spyOn(campaignManagerFacade, 'getUserProfileId')
           .mockReturnValue('123');
 
-        const result = campaignManagerFacade.getRemarketingLists();
+        const result = campaignManagerFacade.getRemarketingLists('789', {
+          active: true,
+        });
 
-        expect(mockService.getRemarketingLists).toHaveBeenCalledWith('123');
+        expect(mockService.getRemarketingLists).toHaveBeenCalledWith(
+          '123',
+          '789',
+          { active: true }
+        );
         expect(result).toEqual([]);
       });
     });
@@ -330,6 +356,29 @@ describe('CampaignManagerFacade', () => {
       });
     });
 
+    describe('getRemarketingList', () => {
+      it('calls through to the underlying implementation', () => {
+        const mockService = {
+          getRemarketingList: jest.fn().mockReturnValue({ id: '456' }),
+        } as unknown as CampaignManagerService;
+
+        jest
+          .spyOn(campaignManagerFacade, 'getCampaignManager')
+          .mockReturnValue(mockService);
+        jest
+          .spyOn(campaignManagerFacade, 'getUserProfileId')
+          .mockReturnValue('123');
+
+        const result = campaignManagerFacade.getRemarketingList('456');
+
+        expect(mockService.getRemarketingList).toHaveBeenCalledWith(
+          '123',
+          '456'
+        );
+        expect(result).toEqual({ id: '456' });
+      });
+    });
+
     describe('getRemarketingListSharesResource', () => {
       it('calls through to the underlying implementation', () => {
         /*const mockService = createSpyObj('MockService', {
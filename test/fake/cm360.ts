@@ -0,0 +1,884 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains an in-memory emulation of the parts of the
+ * CM360 API used by this solution, for end-to-end tests. The same state can be
+ * accessed through a stand-in for the built-in {@link CampaignManager} service
+ * (used by {@link CampaignManagerService}) and through an {@link HttpClient}
+ * serving the REST API (used by {@link CampaignManagerApi}).
+ */
+
+import { type HttpClient, type HttpResponse } from '../../src/api/base';
+
+type Advertiser = GoogleAppsScript.CampaignManager.Advertiser;
+type FloodlightActivity = GoogleAppsScript.CampaignManager.FloodlightActivity;
+type RemarketingList = GoogleAppsScript.CampaignManager.RemarketingList;
+type RemarketingListShare =
+  GoogleAppsScript.CampaignManager.RemarketingListShare;
+type UserDefinedVariableConfiguration =
+  GoogleAppsScript.CampaignManager.UserDefinedVariableConfiguration;
+type UserProfile = GoogleAppsScript.CampaignManager.UserProfile;
+
+/**
+ * The emulated state of a single CM360 network.
+ */
+export interface FakeCampaignManagerState {
+  networkId: string;
+  userProfiles: UserProfile[];
+  advertisers: Advertiser[];
+  floodlightActivities: Array<FloodlightActivity & { advertiserId: string }>;
+  userDefinedVariables: Record<string, UserDefinedVariableConfiguration[]>;
+  remarketingLists: RemarketingList[];
+  shares: Record<string, string[]>;
+}
+
+/**
+ * A request received by the emulated REST API.
+ */
+export interface FakeRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body?: Record<string, unknown>;
+}
+
+const API_PATH = '/dfareporting/v4/';
+const DEFAULT_PAGE_SIZE = 1000;
+const MAX_LIFE_SPAN = 540;
+const DFA_LIST_SOURCE = 'REMARKETING_LIST_SOURCE_DFA';
+const TERM_TYPES = [
+  'CUSTOM_VARIABLE_TERM',
+  'LIST_MEMBERSHIP_TERM',
+  'REFERRER_TERM',
+];
+const OPERATORS = [
+  'NUM_EQUALS',
+  'NUM_LESS_THAN',
+  'NUM_LESS_THAN_EQUAL',
+  'NUM_GREATER_THAN',
+  'NUM_GREATER_THAN_EQUAL',
+  'STRING_EQUALS',
+  'STRING_CONTAINS',
+];
+
+/**
+ * FakeCampaignManagerError representing an error response of the emulated
+ * API.
+ */
+export class FakeCampaignManagerError extends Error {
+  status_: number;
+  reason_: string;
+
+  /**
+   * @constructs an instance of FakeCampaignManagerError.
+   *
+   * @param {number} status The HTTP status code
+   * @param {string} reason The error reason, e.g. 'invalid' or 'notFound'
+   * @param {string} message The error message
+   */
+  constructor(status: number, reason: string, message: string) {
+    super(message);
+    this.name = 'FakeCampaignManagerError';
+    this.status_ = status;
+    this.reason_ = reason;
+  }
+
+  /**
+   * Returns the error payload as returned by Google APIs.
+   *
+   * @returns {!Object}
+   */
+  toPayload() {
+    return {
+      error: {
+        code: this.status_,
+        message: this.message,
+        errors: [
+          { message: this.message, domain: 'global', reason: this.reason_ },
+        ],
+      },
+    };
+  }
+}
+
+/**
+ * FakeCampaignManager representing an in-memory CM360 network.
+ */
+export class FakeCampaignManager {
+  private readonly state_: FakeCampaignManagerState;
+  private readonly requests_: FakeRequest[] = [];
+  private readonly faults_: Array<{
+    status: number;
+    headers: Record<string, string>;
+  }> = [];
+  private nextId_ = 9000000;
+  private pageSize_ = DEFAULT_PAGE_SIZE;
+
+  /**
+   * @constructs an instance of FakeCampaignManager.
+   *
+   * @param {!Partial<!FakeCampaignManagerState>=} state The initial state.
+   *     Defaults to a network '1' with a single user profile '100'
+   */
+  constructor(state: Partial<FakeCampaignManagerState> = {}) {
+    const networkId = state.networkId ?? '1';
+
+    this.state_ = FakeCampaignManager.copy({
+      networkId,
+      userProfiles: [{ accountId: networkId, profileId: '100' }],
+      advertisers: [],
+      floodlightActivities: [],
+      userDefinedVariables: {},
+      remarketingLists: [],
+      shares: {},
+      ...state,
+    });
+  }
+
+  /**
+   * Lists the user profiles of the current user.
+   *
+   * @returns {{items: !Array<!UserProfile>}}
+   */
+  listUserProfiles() {
+    return { items: FakeCampaignManager.copy(this.state_.userProfiles) };
+  }
+
+  /**
+   * Returns the floodlight configuration of the given advertiser.
+   *
+   * @param {string} profileId The user profile ID
+   * @param {string} id The floodlight configuration ID, i.e. the advertiser ID
+   * @returns {{id: string, userDefinedVariableConfigurations: !Array<!Object>}}
+   */
+  getFloodlightConfiguration(profileId: string, id: string) {
+    this.checkProfile_(profileId);
+    this.getAdvertiser_(id);
+
+    return {
+      id,
+      userDefinedVariableConfigurations: FakeCampaignManager.copy(
+        this.state_.userDefinedVariables[id] ?? []
+      ),
+    };
+  }
+
+  /**
+   * Lists the floodlight activities of an advertiser, page by page.
+   *
+   * @param {string} profileId The user profile ID
+   * @param {!Object} options The list options, i.e. 'advertiserId',
+   *     'maxResults' and 'pageToken'
+   * @returns {{floodlightActivities: !Array<!FloodlightActivity>,
+   *     nextPageToken: string}}
+   */
+  listFloodlightActivities(
+    profileId: string,
+    options: Record<string, unknown>
+  ) {
+    this.checkProfile_(profileId);
+    const advertiserId = options.advertiserId as string | undefined;
+
+    if (advertiserId) {
+      this.getAdvertiser_(advertiserId);
+    }
+    const page = this.getPage_(
+      this.state_.floodlightActivities.filter(
+        activity => !advertiserId || activity.advertiserId === advertiserId
+      ),
+      options
+    );
+
+    return {
+      floodlightActivities: page.items,
+      nextPageToken: page.nextPageToken,
+    };
+  }
+
+  /**
+   * Lists the advertisers of the network, page by page.
+   *
+   * @param {string} profileId The user profile ID
+   * @param {!Object} params The list options, i.e. 'ids', 'maxResults',
+   *     'pageToken' and 'sortField'
+   * @returns {{advertisers: !Array<!Advertiser>, nextPageToken: string}}
+   */
+  listAdvertisers(profileId: string, params: Record<string, unknown>) {
+    this.checkProfile_(profileId);
+    const ids = ([] as unknown[]).concat(params.ids ?? []).map(String);
+    const advertisers = this.state_.advertisers
+      .filter(advertiser => ids.length === 0 || ids.includes(advertiser.id))
+      .sort((a, b) =>
+        String(params.sortField ?? 'ID').toUpperCase() === 'NAME'
+          ? a.name.localeCompare(b.name)
+          : Number(a.id) - Number(b.id)
+      );
+    const page = this.getPage_(advertisers, params);
+
+    return {
+      advertisers: page.items,
+      nextPageToken: page.nextPageToken as string,
+    };
+  }
+
+  /**
+   * Lists the remarketing lists of an advertiser, page by page.
+   *
+   * @param {string} profileId The user profile ID
+   * @param {string} advertiserId The advertiser ID
+   * @param {!Object=} params The list options, i.e. 'active',
+   *     'floodlightActivityId', 'maxResults', 'name' and 'pageToken'
+   * @returns {{remarketingLists: !Array<!RemarketingList>,
+   *     nextPageToken: string}}
+   */
+  listRemarketingLists(
+    profileId: string,
+    advertiserId: string,
+    params: Record<string, unknown> = {}
+  ) {
+    this.checkProfile_(profileId);
+    if (!advertiserId) {
+      throw new FakeCampaignManagerError(
+        400,
+        'required',
+        'Required parameter: advertiserId'
+      );
+    }
+    this.getAdvertiser_(advertiserId);
+    const name = String(params.name ?? '')
+      .replace(/\*/g, '')
+      .toLowerCase();
+    const page = this.getPage_(
+      this.state_.remarketingLists.filter(
+        list =>
+          list.advertiserId === advertiserId &&
+          String(list.name).toLowerCase().includes(name) &&
+          (String(params.active ?? '') !== 'true' || list.active) &&
+          (!params.floodlightActivityId ||
+            String(list.listPopulationRule?.floodlightActivityId) ===
+              String(params.floodlightActivityId))
+      ),
+      params
+    );
+
+    return { remarketingLists: page.items, nextPageToken: page.nextPageToken };
+  }
+
+  /**
+   * Returns a single remarketing list.
+   *
+   * @param {string} profileId The user profile ID
+   * @param {string} id The remarketing list ID
+   * @returns {!RemarketingList}
+   */
+  getRemarketingList(profileId: string, id: string) {
+    this.checkProfile_(profileId);
+
+    return FakeCampaignManager.copy(this.getRemarketingList_(id));
+  }
+
+  /**
+   * Creates a remarketing list, assigning a new ID.
+   *
+   * @param {string} profileId The user profile ID
+   * @param {!RemarketingList} resource The remarketing list
+   * @returns {!RemarketingList} The created remarketing list
+   */
+  insertRemarketingList(profileId: string, resource: RemarketingList) {
+    this.checkProfile_(profileId);
+    if (resource.id) {
+      throw new FakeCampaignManagerError(
+        400,
+        'invalid',
+        'Remarketing list ID must not be set when creating a remarketing list'
+      );
+    }
+    const remarketingList: RemarketingList = {
+      ...FakeCampaignManager.copy(resource),
+      active: resource.active ?? true,
+      listSource: resource.listSource ?? DFA_LIST_SOURCE,
+      id: String(this.nextId_++),
+      accountId: this.state_.networkId,
+      kind: 'dfareporting#remarketingList',
+    };
+
+    this.validateRemarketingList_(remarketingList);
+    this.state_.remarketingLists.push(remarketingList);
+
+    return FakeCampaignManager.copy(remarketingList);
+  }
+
+  /**
+   * Replaces an existing remarketing list.
+   *
+   * @param {string} profileId The user profile ID
+   * @param {!RemarketingList} resource The remarketing list
+   * @returns {!RemarketingList} The updated remarketing list
+   */
+  updateRemarketingList(profileId: string, resource: RemarketingList) {
+    this.checkProfile_(profileId);
+    if (!resource.id) {
+      throw new FakeCampaignManagerError(400, 'required', 'Required: id');
+    }
+    const existing = this.getRemarketingList_(String(resource.id));
+
+    if (
+      resource.advertiserId &&
+      resource.advertiserId !== existing.advertiserId
+    ) {
+      throw new FakeCampaignManagerError(
+        400,
+        'invalid',
+        'The advertiser of a remarketing list cannot be changed'
+      );
+    }
+    if (existing.listSource !== DFA_LIST_SOURCE) {
+      throw new FakeCampaignManagerError(
+        403,
+        'forbidden',
+        `Remarketing lists with source ${existing.listSource} cannot be updated`
+      );
+    }
+    const remarketingList: RemarketingList = {
+      ...FakeCampaignManager.copy(resource),
+      id: existing.id,
+      accountId: existing.accountId,
+      advertiserId: existing.advertiserId,
+      listSource: existing.listSource,
+      listSize: existing.listSize,
+      kind: existing.kind,
+    };
+
+    this.validateRemarketingList_(remarketingList);
+    this.state_.remarketingLists.splice(
+      this.state_.remarketingLists.indexOf(existing),
+      1,
+      remarketingList
+    );
+
+    return FakeCampaignManager.copy(remarketingList);
+  }
+
+  /**
+   * Returns the shares of a remarketing list.
+   *
+   * @param {string} profileId The user profile ID
+   * @param {string} remarketingListId The remarketing list ID
+   * @returns {!RemarketingListShare}
+   */
+  getRemarketingListShare(
+    profileId: string,
+    remarketingListId: string
+  ): RemarketingListShare {
+    this.checkProfile_(profileId);
+    this.getRemarketingList_(remarketingListId);
+
+    return {
+      remarketingListId,
+      sharedAdvertiserIds: [...(this.state_.shares[remarketingListId] ?? [])],
+    };
+  }
+
+  /**
+   * Replaces the advertisers a remarketing list is shared with.
+   *
+   * @param {string} profileId The user profile ID
+   * @param {string} remarketingListId The remarketing list ID
+   * @param {!RemarketingListShare} resource The shares resource
+   * @returns {!RemarketingListShare} The updated shares resource
+   */
+  patchRemarketingListShare(
+    profileId: string,
+    remarketingListId: string,
+    resource: Partial<RemarketingListShare>
+  ) {
+    this.checkProfile_(profileId);
+    const remarketingList = this.getRemarketingList_(remarketingListId);
+    const sharedAdvertiserIds = (resource.sharedAdvertiserIds ?? []).map(
+      String
+    );
+
+    for (const advertiserId of sharedAdvertiserIds) {
+      if (advertiserId === remarketingList.advertiserId) {
+        throw new FakeCampaignManagerError(
+          400,
+          'invalid',
+          'A remarketing list cannot be shared with its own advertiser'
+        );
+      }
+      this.getAdvertiser_(advertiserId, 400);
+    }
+    this.state_.shares[remarketingListId] = sharedAdvertiserIds;
+
+    return this.getRemarketingListShare(profileId, remarketingListId);
+  }
+
+  /**
+   * Returns a stand-in for the built-in {@link CampaignManager} service, which
+   * throws errors like Google Apps Script advanced services do.
+   *
+   * @returns {!GoogleAppsScript.CampaignManager.CampaignManager}
+   */
+  getService(): GoogleAppsScript.CampaignManager.CampaignManager {
+    const call =
+      <T>(method: string, fn: () => T) =>
+      () => {
+        try {
+          return fn();
+        } catch (err: unknown) {
+          throw new Error(
+            `API call to dfareporting.${method} failed with error: ` +
+              (err as Error).message
+          );
+        }
+      };
+
+    return {
+      UserProfiles: {
+        list: () => call('userProfiles.list', () => this.listUserProfiles())(),
+      },
+      FloodlightConfigurations: {
+        get: (profileId, advertiserId) =>
+          call('floodlightConfigurations.get', () =>
+            this.getFloodlightConfiguration(profileId, advertiserId)
+          )(),
+      },
+      FloodlightActivities: {
+        list: (profileId, options) =>
+          call('floodlightActivities.list', () =>
+            this.listFloodlightActivities(profileId, options)
+          )(),
+      },
+      Advertisers: {
+        list: (profileId, params) =>
+          call('advertisers.list', () =>
+            this.listAdvertisers(profileId, params)
+          )(),
+      },
+      RemarketingLists: {
+        list: (profileId, advertiserId, params) =>
+          call('remarketingLists.list', () =>
+            this.listRemarketingLists(profileId, advertiserId, params)
+          )(),
+        get: (profileId, id) =>
+          call('remarketingLists.get', () =>
+            this.getRemarketingList(profileId, id)
+          )(),
+        insert: (resource, profileId) =>
+          call('remarketingLists.insert', () =>
+            this.insertRemarketingList(profileId, resource)
+          )(),
+        update: (resource, profileId) =>
+          call('remarketingLists.update', () =>
+            this.updateRemarketingList(profileId, resource)
+          )(),
+      },
+      RemarketingListShares: {
+        get: (profileId, id) =>
+          call('remarketingListShares.get', () =>
+            this.getRemarketingListShare(profileId, id)
+          )(),
+        patch: (resource, profileId, id) =>
+          call('remarketingListShares.patch', () =>
+            this.patchRemarketingListShare(profileId, id, resource)
+          )(),
+      },
+      newRemarketingList: () => ({} as RemarketingList),
+    };
+  }
+
+  /**
+   * Returns an {@link HttpClient} serving the CM360 REST API from this
+   * instance.
+   *
+   * @returns {!HttpClient}
+   */
+  getHttpClient(): HttpClient {
+    return {
+      fetch: (url, params) => this.handleRequest(url, params),
+      sleep: () => undefined,
+    };
+  }
+
+  /**
+   * Handles a single REST API request.
+   *
+   * @param {string} url The URL of the request
+   * @param {!Object} params The {@link UrlFetchApp} options of the request
+   * @returns {!HttpResponse} The response
+   */
+  handleRequest(url: string, params: Record<string, unknown>): HttpResponse {
+    const { pathname, searchParams } = new URL(url);
+    const method = String(params.method ?? 'get').toUpperCase();
+    const headers = (params.headers ?? {}) as Record<string, string>;
+    const request: FakeRequest = {
+      method,
+      path: pathname.startsWith(API_PATH)
+        ? pathname.substring(API_PATH.length)
+        : pathname,
+      query: searchParams,
+    };
+
+    try {
+      if (params.payload !== undefined) {
+        request.body = JSON.parse(String(params.payload));
+      }
+      this.requests_.push(request);
+
+      const fault = this.faults_.shift();
+      if (fault) {
+        return FakeCampaignManager.createResponse(
+          fault.status,
+          new FakeCampaignManagerError(
+            fault.status,
+            fault.status === 429 ? 'rateLimitExceeded' : 'backendError',
+            'Injected failure'
+          ).toPayload(),
+          fault.headers
+        );
+      }
+      if (!/^Bearer \S+$/.test(headers.Authorization ?? '')) {
+        throw new FakeCampaignManagerError(
+          401,
+          'authError',
+          'Request is missing required authentication credential'
+        );
+      }
+      return FakeCampaignManager.createResponse(200, this.route_(request));
+    } catch (err: unknown) {
+      const error =
+        err instanceof FakeCampaignManagerError
+          ? err
+          : new FakeCampaignManagerError(400, 'parseError', String(err));
+
+      return FakeCampaignManager.createResponse(
+        error.status_,
+        error.toPayload()
+      );
+    }
+  }
+
+  /**
+   * Makes the next REST API requests fail with the given status, e.g. to
+   * emulate rate limiting or server errors.
+   *
+   * @param {number} status The HTTP status code
+   * @param {{
+   *     count: number,
+   *     headers: !Object<string, string>
+   * }=} params
+   * @returns {!FakeCampaignManager} This instance
+   */
+  failNext(status: number, { count = 1, headers = {} } = {}) {
+    for (let i = 0; i < count; i++) {
+      this.faults_.push({ status, headers });
+    }
+    return this;
+  }
+
+  /**
+   * Sets the number of items returned per page when requests do not specify
+   * 'maxResults', e.g. to emulate advertisers with more lists than fit a page.
+   *
+   * @param {number} pageSize The page size
+   * @returns {!FakeCampaignManager} This instance
+   */
+  setPageSize(pageSize: number) {
+    this.pageSize_ = pageSize;
+    return this;
+  }
+
+  /**
+   * Returns all REST API requests received so far.
+   *
+   * @returns {!Array<!FakeRequest>}
+   */
+  getRequests() {
+    return this.requests_;
+  }
+
+  /**
+   * Returns a copy of the current state.
+   *
+   * @returns {!FakeCampaignManagerState}
+   */
+  getState() {
+    return FakeCampaignManager.copy(this.state_);
+  }
+
+  /**
+   * Dispatches a REST API request to the matching resource method.
+   *
+   * @param {!FakeRequest} request The request
+   * @returns {!Object} The response payload
+   * @throws {!FakeCampaignManagerError} If there is no matching method or the
+   *     method failed
+   * @private
+   */
+  private route_(request: FakeRequest): unknown {
+    const { method, path, query, body } = request;
+    const segments = path.split('/');
+    const [root, profileId, collection, id] = segments;
+    const params = Object.fromEntries(query.entries());
+
+    if (root === 'userprofiles' && segments.length === 1 && method === 'GET') {
+      return this.listUserProfiles();
+    }
+    if (root === 'userprofiles' && profileId) {
+      const route = `${method} ${collection}${id ? '/:id' : ''}`;
+
+      switch (route) {
+        case 'GET floodlightConfigurations/:id':
+          return this.getFloodlightConfiguration(profileId, id);
+        case 'GET floodlightActivities':
+          return this.listFloodlightActivities(profileId, params);
+        case 'GET advertisers':
+          return this.listAdvertisers(profileId, {
+            ...params,
+            ids: query.getAll('ids'),
+          });
+        case 'GET remarketingLists':
+          return this.listRemarketingLists(
+            profileId,
+            query.get('advertiserId') ?? '',
+            params
+          );
+        case 'GET remarketingLists/:id':
+          return this.getRemarketingList(profileId, id);
+        case 'POST remarketingLists':
+          return this.insertRemarketingList(profileId, body as RemarketingList);
+        case 'PUT remarketingLists':
+          return this.updateRemarketingList(profileId, body as RemarketingList);
+        case 'GET remarketingListShares/:id':
+          return this.getRemarketingListShare(profileId, id);
+        case 'PATCH remarketingListShares':
+          return this.patchRemarketingListShare(
+            profileId,
+            query.get('id') ?? '',
+            body as Partial<RemarketingListShare>
+          );
+      }
+    }
+    throw new FakeCampaignManagerError(
+      404,
+      'notFound',
+      `No route for ${method} ${path}`
+    );
+  }
+
+  /**
+   * Validates a remarketing list before storing it.
+   *
+   * @param {!RemarketingList} remarketingList The remarketing list
+   * @throws {!FakeCampaignManagerError} If the remarketing list is invalid
+   * @private
+   */
+  private validateRemarketingList_(remarketingList: RemarketingList) {
+    const invalid = (message: string) =>
+      new FakeCampaignManagerError(400, 'invalid', message);
+
+    if (!remarketingList.name) {
+      throw invalid('Remarketing list name is required');
+    }
+    if (String(remarketingList.name).length > 128) {
+      throw invalid('Remarketing list name must be at most 128 characters');
+    }
+    if (!remarketingList.advertiserId) {
+      throw invalid('Advertiser ID is required');
+    }
+    this.getAdvertiser_(String(remarketingList.advertiserId), 400);
+
+    const lifeSpan = Number(remarketingList.lifeSpan);
+    if (
+      !Number.isInteger(lifeSpan) ||
+      lifeSpan < 1 ||
+      lifeSpan > MAX_LIFE_SPAN
+    ) {
+      throw invalid(`Life span must be between 1 and ${MAX_LIFE_SPAN} days`);
+    }
+    if (remarketingList.listSource !== DFA_LIST_SOURCE) {
+      return;
+    }
+
+    const rule = remarketingList.listPopulationRule;
+    const floodlightActivity = this.state_.floodlightActivities.find(
+      activity => activity.id === String(rule?.floodlightActivityId ?? '')
+    );
+    if (!floodlightActivity) {
+      throw invalid(
+        `Floodlight activity '${rule?.floodlightActivityId ?? ''}' not found`
+      );
+    }
+    if (floodlightActivity.advertiserId !== remarketingList.advertiserId) {
+      throw invalid(
+        `Floodlight activity '${floodlightActivity.id}' does not belong to ` +
+          `advertiser '${remarketingList.advertiserId}'`
+      );
+    }
+    for (const clause of rule?.listPopulationClauses ?? []) {
+      for (const term of clause.terms ?? []) {
+        if (!TERM_TYPES.includes(term.type)) {
+          throw invalid(`Invalid term type '${term.type}'`);
+        }
+        if (term.type === 'LIST_MEMBERSHIP_TERM') {
+          this.getRemarketingList_(String(term.remarketingListId ?? ''), 400);
+          continue;
+        }
+        if (
+          term.type === 'CUSTOM_VARIABLE_TERM' &&
+          !/^U\d+$/.test(term.variableName ?? '')
+        ) {
+          throw invalid(`Invalid custom variable '${term.variableName ?? ''}'`);
+        }
+        if (!OPERATORS.includes(term.operator ?? '')) {
+          throw invalid(`Invalid operator '${term.operator ?? ''}'`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Throws if the given user profile does not belong to this network.
+   *
+   * @param {string} profileId The user profile ID
+   * @throws {!FakeCampaignManagerError} If the profile is unknown
+   * @private
+   */
+  private checkProfile_(profileId: string) {
+    const profile = this.state_.userProfiles.find(
+      userProfile => userProfile.profileId === String(profileId)
+    );
+
+    if (!profile || profile.accountId !== this.state_.networkId) {
+      throw new FakeCampaignManagerError(
+        403,
+        'insufficientPermissions',
+        `The current user does not have access to profile ID ${profileId}`
+      );
+    }
+  }
+
+  /**
+   * Returns the given advertiser of this network.
+   *
+   * @param {string} advertiserId The advertiser ID
+   * @param {number=} status The status to fail with if the advertiser is
+   *     unknown
+   * @returns {!Advertiser}
+   * @throws {!FakeCampaignManagerError} If the advertiser is unknown
+   * @private
+   */
+  private getAdvertiser_(advertiserId: string, status = 404) {
+    const advertiser = this.state_.advertisers.find(
+      candidate => candidate.id === String(advertiserId)
+    );
+
+    if (!advertiser) {
+      throw new FakeCampaignManagerError(
+        status,
+        status === 404 ? 'notFound' : 'invalid',
+        `Advertiser '${advertiserId}' not found`
+      );
+    }
+    return advertiser;
+  }
+
+  /**
+   * Returns the given remarketing list of this network.
+   *
+   * @param {string} id The remarketing list ID
+   * @param {number=} status The status to fail with if the list is unknown
+   * @returns {!RemarketingList}
+   * @throws {!FakeCampaignManagerError} If the remarketing list is unknown
+   * @private
+   */
+  private getRemarketingList_(id: string, status = 404) {
+    const remarketingList = this.state_.remarketingLists.find(
+      candidate => candidate.id === String(id)
+    );
+
+    if (!remarketingList) {
+      throw new FakeCampaignManagerError(
+        status,
+        status === 404 ? 'notFound' : 'invalid',
+        `Remarketing list '${id}' not found`
+      );
+    }
+    return remarketingList;
+  }
+
+  /**
+   * Returns a single page of the given items.
+   *
+   * @param {!Array<T>} items All items
+   * @param {!Object} params The paging options, i.e. 'maxResults' and
+   *     'pageToken'
+   * @returns {{items: !Array<T>, nextPageToken: (string|undefined)}}
+   * @throws {!FakeCampaignManagerError} If the page token is invalid
+   * @private
+   */
+  private getPage_<T>(items: T[], params: Record<string, unknown>) {
+    const maxResults = Number(params.maxResults ?? this.pageSize_);
+    const offset = Number(params.pageToken ?? 0);
+
+    if (!Number.isInteger(offset) || offset < 0 || offset > items.length) {
+      throw new FakeCampaignManagerError(
+        400,
+        'invalidParameter',
+        `Invalid page token '${params.pageToken}'`
+      );
+    }
+    const end = offset + (maxResults > 0 ? maxResults : this.pageSize_);
+
+    return {
+      items: FakeCampaignManager.copy(items.slice(offset, end)),
+      nextPageToken: end < items.length ? String(end) : undefined,
+    };
+  }
+
+  /**
+   * Creates an {@link HttpResponse} with a JSON payload.
+   *
+   * @param {number} status The HTTP status code
+   * @param {*} payload The payload
+   * @param {!Object<string, string>=} headers The response headers
+   * @returns {!HttpResponse}
+   */
+  static createResponse(
+    status: number,
+    payload: unknown,
+    headers: Record<string, string> = {}
+  ): HttpResponse {
+    const content = payload === undefined ? '' : JSON.stringify(payload);
+
+    return {
+      getResponseCode: () => status,
+      getContentText: () => content,
+      getHeaders: () => headers,
+    };
+  }
+
+  /**
+   * Deep copies the given JSON value, so that callers cannot modify the
+   * emulated state.
+   *
+   * @param {T} value The value
+   * @returns {T} The copy
+   */
+  static copy<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains fixtures shared by the controller tests.
+ */
+
+import { Audience } from '../src/model/audience';
+import { setMD5Digest } from '../src/util/hash';
+
+/**
+ * The checksum of any audience once {@link stubMD5Digest} has been called, as
+ * all inputs then share the same digest.
+ */
+export const CHECKSUM = '00000000000000000000000000000000';
+
+/**
+ * Replaces the MD5 digest, which relies on {@link Utilities}, so that all
+ * checksums equal {@link CHECKSUM}. Meant to be called from `beforeAll`.
+ */
+export const stubMD5Digest = () => setMD5Digest(() => new Array(16).fill(0));
+
+/**
+ * Creates an audience without rules and shares, named after its ID.
+ *
+ * @param {!Object=} params The parameters overriding the defaults
+ * @returns {!Audience} The audience
+ */
+export const createAudience = (
+  params: Partial<ConstructorParameters<typeof Audience>[0]> = {}
+) =>
+  new Audience({
+    id: params.id ?? '1',
+    name: `Audience ${params.id ?? '1'}`,
+    description: 'desc',
+    lifeSpan: 30,
+    floodlightId: '123',
+    rules: [],
+    shares: [],
+    ...params,
+  });
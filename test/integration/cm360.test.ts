@@ -0,0 +1,377 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains end-to-end tests of loading, editing and
+ * processing audiences against the emulated CM360 API, through both the
+ * built-in service and the REST API.
+ */
+
+import { createHash } from 'crypto';
+
+import { ApiError } from '../../src/api/base';
+import { StaticTokenProvider } from '../../src/cli/auth';
+import { AudienceSyncController } from '../../src/cli/sync';
+import { CampaignManagerFacade } from '../../src/facade/cm360';
+import { Audience } from '../../src/model/audience';
+import { Job } from '../../src/model/job';
+import { InMemoryAudienceRepository } from '../../src/repository/memory';
+import { setMD5Digest } from '../../src/util/hash';
+import { FakeCampaignManager } from '../fake/cm360';
+
+const createFake = () =>
+  new FakeCampaignManager({
+    networkId: '1',
+    advertisers: [
+      { id: '1000', name: 'Own' },
+      { id: '2000', name: 'Other' },
+      { id: '3000', name: 'Third' },
+    ],
+    floodlightActivities: [
+      { id: '123', name: 'Checkout', advertiserId: '1000' },
+      { id: '456', name: 'Foreign', advertiserId: '2000' },
+    ],
+    userDefinedVariables: {
+      '1000': [{ variableType: 'U1', reportName: 'category' }],
+    },
+    remarketingLists: [
+      {
+        id: '500',
+        advertiserId: '1000',
+        name: 'Shoe buyers',
+        description: 'desc',
+        lifeSpan: 30,
+        active: true,
+        listSource: 'REMARKETING_LIST_SOURCE_DFA',
+        listPopulationRule: {
+          floodlightActivityId: '123',
+          listPopulationClauses: [
+            {
+              terms: [
+                {
+                  type: 'CUSTOM_VARIABLE_TERM',
+                  variableName: 'U1',
+                  variableFriendlyName: 'category',
+                  operator: 'STRING_EQUALS',
+                  value: 'shoes',
+                },
+              ],
+            },
+          ],
+        },
+      },
+    ],
+    shares: { '500': ['2000'] },
+  });
+
+const backends: Array<
+  [string, (fake: FakeCampaignManager) => CampaignManagerFacade]
+> = [
+  [
+    'CampaignManagerService',
+    fake =>
+      new CampaignManagerFacade(
+        { networkId: '1', advertiserId: '1000' },
+        false,
+        [],
+        fake.getService()
+      ),
+  ],
+  [
+    'CampaignManagerApi',
+    fake =>
+      new CampaignManagerFacade(
+        { networkId: '1', advertiserId: '1000' },
+        true,
+        [],
+        undefined,
+        {
+          httpClient: fake.getHttpClient(),
+          tokenProvider: new StaticTokenProvider('token'),
+        }
+      ),
+  ],
+];
+
+const edit = (audience: Audience, changes: Record<string, unknown>) =>
+  Audience.fromJson({ ...JSON.parse(audience.toJson()), ...changes });
+
+describe.each(backends)('End-to-end with %s', (_, createFacade) => {
+  let fake: FakeCampaignManager;
+  let repository: InMemoryAudienceRepository;
+  let controller: AudienceSyncController;
+
+  beforeAll(() => {
+    setMD5Digest(input => [
+      ...createHash('md5').update(input, 'utf8').digest(),
+    ]);
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    fake = createFake();
+    repository = new InMemoryAudienceRepository();
+    controller = new AudienceSyncController(repository, createFacade(fake));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('loads audiences with their rules and shares', () => {
+    controller.load(new Job());
+
+    const [synced] = repository.getAudiences();
+    expect(synced.audience.getId()).toEqual('500');
+    expect(synced.audience.getFloodlightName()).toEqual('Checkout');
+    expect(synced.audience.getShares()).toEqual(['2000']);
+    expect(synced.audience.getRules()).toEqual([
+      expect.objectContaining({
+        variableName: 'U1',
+        operator: 'STRING_EQUALS',
+        value: 'shoes',
+      }),
+    ]);
+    expect(repository.getAdvertisers()).toEqual([
+      { id: '2000', name: 'Other' },
+      { id: '3000', name: 'Third' },
+    ]);
+  });
+
+  it('pushes edited and new audiences and reloads them unchanged', () => {
+    controller.load(new Job());
+    const loaded = repository.getAudiences()[0].audience;
+    const audiences = [
+      edit(loaded, { lifeSpan_: 60, shares_: ['2000', '3000'] }),
+      edit(loaded, {
+        id_: undefined,
+        name_: 'Boot buyers',
+        shares_: [],
+      }),
+    ];
+
+    const job = controller.apply(new Job(), audiences);
+
+    expect(job.getJobs().map(audienceJob => audienceJob.getError())).toEqual([
+      '',
+      '',
+    ]);
+    const state = fake.getState();
+    expect(state.remarketingLists).toHaveLength(2);
+    expect(state.remarketingLists[0].lifeSpan).toEqual(60);
+    expect(state.shares['500']).toEqual(['2000', '3000']);
+    expect(state.remarketingLists[1]).toEqual(
+      expect.objectContaining({
+        id: audiences[1].getId(),
+        name: 'Boot buyers',
+        advertiserId: '1000',
+      })
+    );
+
+    controller.load(new Job());
+
+    expect(controller.plan(audiences)).toEqual([]);
+  });
+
+  it('reports CM360 errors and keeps the synced state', () => {
+    controller.load(new Job());
+    const synced = repository.getAudiences()[0];
+
+    const job = controller.apply(new Job(), [
+      edit(synced.audience, { shares_: ['9999'] }),
+    ]);
+
+    expect(job.getJobs()[0].getError()).toContain(
+      "Advertiser '9999' not found"
+    );
+    expect(repository.getAudiences()[0].sharesChecksum).toEqual(
+      synced.sharesChecksum
+    );
+    expect(fake.getState().shares['500']).toEqual(['2000']);
+  });
+
+  it('rejects floodlight activities of other advertisers', () => {
+    controller.load(new Job());
+    repository.saveFloodlightActivities([
+      ...repository.getFloodlightActivities(),
+      { id: '456', name: 'Foreign' },
+    ]);
+
+    const job = controller.apply(new Job(), [
+      new Audience({
+        name: 'Foreign buyers',
+        description: '',
+        lifeSpan: 30,
+        floodlightId: '456',
+        rules: [],
+        shares: [],
+      }),
+    ]);
+
+    expect(job.getJobs()[0].getError()).toContain(
+      "Floodlight activity '456' does not belong to advertiser '1000'"
+    );
+    expect(fake.getState().remarketingLists).toHaveLength(1);
+  });
+
+  it('pages through remarketing lists and floodlight activities', () => {
+    const state = fake.getState();
+    fake = new FakeCampaignManager({
+      ...state,
+      floodlightActivities: [
+        ...state.floodlightActivities,
+        { id: '789', name: 'Signup', advertiserId: '1000' },
+      ],
+    }).setPageSize(1);
+    const service = fake.getService();
+    ['Boot buyers', 'Signups'].forEach((name, idx) =>
+      service.RemarketingLists.insert(
+        {
+          name,
+          description: '',
+          lifeSpan: 30,
+          active: idx === 0,
+          advertiserId: '1000',
+          listSource: 'REMARKETING_LIST_SOURCE_DFA',
+          listPopulationRule: {
+            floodlightActivityId: idx === 0 ? '123' : '789',
+            listPopulationClauses: [],
+          },
+        },
+        '100'
+      )
+    );
+    const facade = createFacade(fake);
+    const names = (filter = {}) =>
+      facade.getRemarketingLists('1000', filter).map(list => list.name);
+
+    expect(names()).toEqual(['Shoe buyers', 'Boot buyers', 'Signups']);
+    expect(names({ name: 'buyers', active: true })).toEqual([
+      'Shoe buyers',
+      'Boot buyers',
+    ]);
+    expect(names({ floodlightActivityId: '789' })).toEqual(['Signups']);
+    expect(
+      facade.getFloodlightActivities('1000').map(activity => activity.id)
+    ).toEqual(['123', '789']);
+  });
+});
+
+describe('FakeCampaignManager', () => {
+  let fake: FakeCampaignManager;
+  let facade: CampaignManagerFacade;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    fake = createFake();
+    facade = new CampaignManagerFacade(
+      { networkId: '1', advertiserId: '1000' },
+      true,
+      [],
+      undefined,
+      {
+        httpClient: fake.getHttpClient(),
+        tokenProvider: new StaticTokenProvider('token'),
+      }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('pages through advertisers', () => {
+    const pages: string[][] = [];
+
+    facade.getAdvertisers(2, advertisers =>
+      pages.push(advertisers.map(advertiser => advertiser.name))
+    );
+
+    expect(pages).toEqual([['Other', 'Own'], ['Third']]);
+  });
+
+  it('retries injected rate limiting errors', () => {
+    fake.failNext(429, { headers: { 'Retry-After': '0' } });
+
+    expect(facade.getRemarketingLists().map(list => list.id)).toEqual(['500']);
+    expect(fake.getRequests().map(request => request.path)).toEqual([
+      'userprofiles',
+      'userprofiles',
+      'userprofiles/100/remarketingLists',
+    ]);
+  });
+
+  it('returns Google API error payloads', () => {
+    let error: ApiError | undefined;
+
+    try {
+      facade.getRemarketingListSharesResource('404');
+    } catch (err: unknown) {
+      error = err as ApiError;
+    }
+
+    expect(error?.getStatus()).toEqual(404);
+    expect(error?.message).toEqual(
+      "Request failed with status 404: Remarketing list '404' not found"
+    );
+  });
+
+  it('rejects requests without credentials', () => {
+    const response = fake.handleRequest(
+      'https://www.googleapis.com/dfareporting/v4/userprofiles',
+      { method: 'get' }
+    );
+
+    expect(response.getResponseCode()).toEqual(401);
+  });
+
+  it('rejects user profiles of other networks', () => {
+    expect(() =>
+      fake.getService().RemarketingLists.list('999', '1000')
+    ).toThrow(
+      'API call to dfareporting.remarketingLists.list failed with error: ' +
+        'The current user does not have access to profile ID 999'
+    );
+  });
+
+  it('rejects updates of lists from other sources', () => {
+    const service = fake.getService();
+    const created = service.RemarketingLists.insert(
+      {
+        name: 'Imported',
+        description: '',
+        lifeSpan: 30,
+        active: true,
+        advertiserId: '1000',
+        listSource: 'REMARKETING_LIST_SOURCE_GA',
+      },
+      '100'
+    );
+
+    expect(() =>
+      service.RemarketingLists.update({ ...created, lifeSpan: 60 }, '100')
+    ).toThrow(
+      'Remarketing lists with source REMARKETING_LIST_SOURCE_GA cannot be ' +
+        'updated'
+    );
+  });
+});
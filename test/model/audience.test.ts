@@ -0,0 +1,212 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for Audience.
+ */
+
+import { Audience } from '../../src/model/audience';
+
+jest.mock('../../src/util/hash', () => {
+  return {
+    generateMD5Hash: jest.fn().mockImplementation((input: string) => input),
+  };
+});
+
+describe('Audience', () => {
+  const rule = {
+    group: 0,
+    variableName: 'U1',
+    variableFriendlyName: 'u1',
+    operator: 'STRING_EQUALS',
+    value: 'val',
+    negation: false,
+  };
+
+  it('serializes and deserializes correctly', () => {
+    const audience = new Audience({
+      id: 'id',
+      name: 'name',
+      description: 'description',
+      lifeSpan: 30,
+      floodlightId: '1',
+      floodlightName: 'floodlight',
+      rules: [rule],
+      shares: ['1', '2'],
+    });
+
+    expect(Audience.fromJson(JSON.parse(audience.toJson()))).toEqual(audience);
+  });
+
+  it('ignores the default term type in the checksum', () => {
+    const params = {
+      name: 'name',
+      lifeSpan: 30,
+      shares: [],
+    };
+    const audience = new Audience({ ...params, rules: [rule] });
+    const typedAudience = new Audience({
+      ...params,
+      rules: [{ ...rule, type: 'CUSTOM_VARIABLE_TERM' }],
+    });
+    const listAudience = new Audience({
+      ...params,
+      rules: [{ ...rule, type: 'LIST_MEMBERSHIP_TERM' }],
+    });
+
+    expect(typedAudience.getChecksum()).toEqual(audience.getChecksum());
+    expect(listAudience.getChecksum()).not.toEqual(audience.getChecksum());
+    expect(audience.getChecksum()).toContain(JSON.stringify([rule]));
+  });
+
+  it('keeps the list size out of the checksum', () => {
+    const params = {
+      name: 'name',
+      lifeSpan: 30,
+      rules: [rule],
+      shares: [],
+    };
+    const audience = new Audience(params);
+    const loadedAudience = new Audience({ ...params, listSize: 1200 });
+
+    expect(loadedAudience.getChecksum()).toEqual(audience.getChecksum());
+    expect(
+      Audience.fromJson(JSON.parse(loadedAudience.toJson())).getListSize()
+    ).toEqual(1200);
+  });
+
+  it('only pushes the shares of locked audiences', () => {
+    const params = {
+      id: 'id',
+      name: 'name',
+      lifeSpan: 30,
+      rules: [rule],
+      shares: ['1'],
+    };
+    const audience = new Audience({
+      ...params,
+      listSource: 'REMARKETING_LIST_SOURCE_DFA',
+    });
+    const lockedAudience = new Audience({
+      ...params,
+      listSource: 'REMARKETING_LIST_SOURCE_DBM',
+    });
+
+    expect(audience.isLocked()).toBe(false);
+    expect(new Audience(params).isLocked()).toBe(false);
+    expect(lockedAudience.isLocked()).toBe(true);
+    expect(audience.getPendingActions('old', 'old')).toEqual([
+      'UPDATE_AUDIENCE',
+      'UPDATE_SHARES',
+    ]);
+    expect(lockedAudience.getPendingActions('old', 'old', true)).toEqual([
+      'UPDATE_SHARES',
+    ]);
+    expect(
+      Audience.fromJson(JSON.parse(lockedAudience.toJson())).getListSource()
+    ).toEqual('REMARKETING_LIST_SOURCE_DBM');
+  });
+
+  describe('getChanges', () => {
+    it('reports every field as changed without a previous version', () => {
+      const audience = new Audience({
+        name: 'name',
+        lifeSpan: 30,
+        rules: [rule],
+        shares: ['1'],
+      });
+
+      expect(audience.getChanges()).toEqual([
+        { field: 'name', oldValue: '', newValue: 'name' },
+        { field: 'lifeSpan', oldValue: '', newValue: '30' },
+        { field: 'rules', oldValue: '', newValue: '0: U1 STRING_EQUALS val' },
+        { field: 'shares', oldValue: '', newValue: '1' },
+        { field: 'active', oldValue: '', newValue: 'true' },
+      ]);
+    });
+
+    it('reports only changed fields', () => {
+      const previous = new Audience({
+        id: 'id',
+        name: 'name',
+        lifeSpan: 30,
+        rules: [rule],
+        shares: ['2', '1'],
+      });
+      const audience = new Audience({
+        id: 'id',
+        name: 'name',
+        lifeSpan: 60,
+        rules: [{ ...rule, negation: true }],
+        shares: ['1', '2'],
+      });
+
+      expect(audience.getChanges(previous)).toEqual([
+        { field: 'lifeSpan', oldValue: '30', newValue: '60' },
+        {
+          field: 'rules',
+          oldValue: '0: U1 STRING_EQUALS val',
+          newValue: '0: NOT U1 STRING_EQUALS val',
+        },
+      ]);
+    });
+  });
+
+  describe('splitRuleValues', () => {
+    it('creates one rule per separated value', () => {
+      expect(
+        Audience.splitRuleValues([{ ...rule, value: 'a,b' }, rule])
+      ).toEqual([{ ...rule, value: 'a' }, { ...rule, value: 'b' }, rule]);
+    });
+
+    it('keeps backslashes which do not precede a separator', () => {
+      expect(
+        Audience.splitRuleValues([{ ...rule, value: 'C:\\a\\\\b,\\d\\' }])
+      ).toEqual([
+        { ...rule, value: 'C:\\a\\\\b' },
+        { ...rule, value: '\\d\\' },
+      ]);
+    });
+
+    it('keeps escaped separators within values', () => {
+      expect(Audience.splitRuleValues([{ ...rule, value: 'a\\,b,c' }])).toEqual(
+        [
+          { ...rule, value: 'a,b' },
+          { ...rule, value: 'c' },
+        ]
+      );
+    });
+  });
+
+  describe('escapeRuleValue', () => {
+    it.each(['a,b', 'a\\b', 'a\\\\b', 'a\\,b', 'a\\', ''])(
+      'round-trips %s with splitRuleValue',
+      value => {
+        expect(
+          Audience.splitRuleValue(Audience.escapeRuleValue(value))
+        ).toEqual([value]);
+      }
+    );
+
+    it('keeps values without separators as they are', () => {
+      expect(Audience.escapeRuleValue('a\\b')).toEqual('a\\b');
+      expect(Audience.escapeRuleValue('a\\\\b\\')).toEqual('a\\\\b\\');
+    });
+
+    it('escapes separators', () => {
+      expect(Audience.escapeRuleValue('a,b\\,c')).toEqual('a\\,b\\\\,c');
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for JsonFileAudienceRepository.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { Audience } from '../../src/model/audience';
+import { JsonFileAudienceRepository } from '../../src/repository/json';
+
+describe('JsonFileAudienceRepository', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audiences-'));
+    filePath = path.join(dir, 'audiences.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('starts empty if the file does not exist', () => {
+    const repository = new JsonFileAudienceRepository(filePath);
+
+    expect(repository.getAudiences()).toEqual([]);
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+
+  it('writes every change and reads it back', () => {
+    const audience = new Audience({
+      id: '1',
+      name: 'Shoe buyers',
+      description: 'desc',
+      lifeSpan: 30,
+      floodlightId: '123',
+      rules: [],
+      shares: [],
+      advertiserId: '1000',
+    });
+
+    const repository = new JsonFileAudienceRepository(filePath);
+    repository.saveAudiences([
+      {
+        audience,
+        checksum: 'checksum',
+        sharesChecksum: 'sharesChecksum',
+        json: '{}',
+        status: 'Fetched',
+      },
+    ]);
+    repository.saveAdvertisers([{ id: '11', name: 'Other' }]);
+    repository.appendLogs([{ date: '2023-01-01', message: 'Loaded' }]);
+
+    const reloaded = new JsonFileAudienceRepository(filePath);
+
+    expect(reloaded.getAudiences()[0].audience).toEqual(audience);
+    expect(reloaded.getAudiences()[0].checksum).toEqual('checksum');
+    expect(reloaded.getAdvertisers()).toEqual([{ id: '11', name: 'Other' }]);
+    expect(reloaded.getLogs()).toEqual([
+      { date: '2023-01-01', message: 'Loaded' },
+    ]);
+  });
+
+  it('throws for invalid files', () => {
+    fs.writeFileSync(filePath, 'not json');
+
+    expect(() => new JsonFileAudienceRepository(filePath)).toThrow();
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for InMemoryAudienceRepository.
+ */
+
+import { Audience } from '../../src/model/audience';
+import { InMemoryAudienceRepository } from '../../src/repository/memory';
+
+describe('InMemoryAudienceRepository', () => {
+  let repository: InMemoryAudienceRepository;
+
+  const rule = {
+    group: 0,
+    variableName: 'u1',
+    variableFriendlyName: 'Product',
+    operator: 'STRING_EQUALS',
+    value: 'shoes',
+    negation: false,
+  };
+  const createAudience = (
+    params: Partial<ConstructorParameters<typeof Audience>[0]> = {}
+  ) =>
+    new Audience({
+      id: '1',
+      name: 'Shoe buyers',
+      description: 'desc',
+      lifeSpan: 30,
+      floodlightId: '123',
+      floodlightName: 'Purchase',
+      rules: [rule],
+      shares: ['11'],
+      advertiserId: '1000',
+      ...params,
+    });
+  const synced = (audience: Audience, status = 'Fetched') => ({
+    audience,
+    checksum: 'checksum',
+    sharesChecksum: 'sharesChecksum',
+    json: '{}',
+    status,
+  });
+
+  beforeEach(() => {
+    repository = new InMemoryAudienceRepository();
+  });
+
+  describe('saveAudiences', () => {
+    it('stores audiences along with their rules and synced state', () => {
+      const audience = createAudience();
+
+      repository.saveAudiences([synced(audience)]);
+
+      expect(repository.getAudiences()).toEqual([synced(audience)]);
+      expect(repository.getRules('1')).toEqual([rule]);
+      expect(repository.getState().audiences[0]).not.toHaveProperty('rules');
+    });
+
+    it('replaces audiences by ID and always adds new audiences', () => {
+      repository.saveAudiences([
+        synced(createAudience()),
+        synced(createAudience({ id: '2' })),
+      ]);
+
+      repository.saveAudiences([
+        synced(createAudience({ lifeSpan: 60, rules: [] }), 'Updated'),
+        synced(createAudience({ id: undefined, name: 'New' })),
+        synced(createAudience({ id: undefined, name: 'Other' })),
+      ]);
+
+      const audiences = repository.getAudiences();
+      expect(
+        audiences.map(({ audience, status }) => [
+          audience.getId(),
+          audience.getName(),
+          audience.getLifeSpan(),
+          status,
+        ])
+      ).toEqual([
+        ['1', 'Shoe buyers', 60, 'Updated'],
+        ['2', 'Shoe buyers', 30, 'Fetched'],
+        [undefined, 'New', 30, 'Fetched'],
+        [undefined, 'Other', 30, 'Fetched'],
+      ]);
+      expect(audiences[0].audience.getRules()).toEqual([]);
+      expect(audiences[1].audience.getRules()).toEqual([rule]);
+    });
+  });
+
+  describe('saveSyncState', () => {
+    it('updates the given fields and moves the rules to a new ID', () => {
+      const [index] = repository.saveAudiences([
+        synced(createAudience({ id: 'New' })),
+      ]);
+
+      repository.saveSyncState(index, '2', {
+        checksum: 'new',
+        status: 'Success',
+      });
+
+      expect(repository.getSyncState(index)).toEqual({
+        checksum: 'new',
+        sharesChecksum: 'sharesChecksum',
+        json: '{}',
+        status: 'Success',
+      });
+      expect(repository.getAudiences()[index].audience.getId()).toEqual('2');
+      expect(repository.getRules('2')).toEqual([rule]);
+      expect(repository.getRules('New')).toEqual([]);
+    });
+
+    it('ignores unknown indices', () => {
+      repository.saveSyncState(0, '1', { status: 'Success' });
+
+      expect(repository.getSyncState(0)).toBeUndefined();
+      expect(repository.getAudiences()).toEqual([]);
+    });
+  });
+
+  describe('saveRules', () => {
+    it('replaces the rules of the given audiences only', () => {
+      repository.saveAudiences([
+        synced(createAudience()),
+        synced(createAudience({ id: '2' })),
+      ]);
+
+      repository.saveRules([createAudience({ id: '2', rules: [] })]);
+
+      expect(repository.getRules('1')).toEqual([rule]);
+      expect(repository.getRules('2')).toEqual([]);
+    });
+  });
+
+  describe('reference data and logs', () => {
+    it('replaces advertisers and floodlight activities', () => {
+      repository.saveAdvertisers([{ id: '11', name: 'Other' }]);
+      repository.saveFloodlightActivities([{ id: '123', name: 'Purchase' }]);
+      repository.saveAdvertisers([{ id: '12', name: 'Another' }]);
+
+      expect(repository.getAdvertisers()).toEqual([
+        { id: '12', name: 'Another' },
+      ]);
+      expect(repository.getFloodlightActivities()).toEqual([
+        { id: '123', name: 'Purchase' },
+      ]);
+    });
+
+    it('replaces custom variables', () => {
+      repository.saveCustomVariables([{ id: 'U1', name: 'category' }]);
+      repository.saveCustomVariables([{ id: 'U2', name: 'brand' }]);
+
+      expect(repository.getCustomVariables()).toEqual([
+        { id: 'U2', name: 'brand' },
+      ]);
+    });
+
+    it('appends and clears logs', () => {
+      repository.appendLogs([{ date: '2023-01-01', message: 'First' }]);
+      repository.appendLogs([{ date: '2023-01-02', message: 'Second' }]);
+
+      expect(repository.getLogs().map(log => log.message)).toEqual([
+        'First',
+        'Second',
+      ]);
+
+      repository.clearLogs();
+
+      expect(repository.getLogs()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for SheetsAudienceRepository.
+ */
+
+import { AudienceProcessJobController } from '../../src/controller/audienceProcessJob';
+import { AudiencesController } from '../../src/controller/audiences';
+import { CampaignManagerFacade } from '../../src/facade/cm360';
+import { Audience } from '../../src/model/audience';
+import { SheetsAudienceRepository } from '../../src/repository/sheets';
+import { SheetsService } from '../../src/service/sheets';
+
+describe('SheetsAudienceRepository', () => {
+  let mockSheetsService: SheetsService;
+  let repository: SheetsAudienceRepository;
+  let sheets: Record<string, Array<Array<string | number | boolean>>>;
+
+  const createAudience = (
+    params: Partial<ConstructorParameters<typeof Audience>[0]> = {}
+  ) =>
+    new Audience({
+      id: '1',
+      name: 'Shoe buyers',
+      description: 'desc',
+      lifeSpan: 30,
+      floodlightId: '123',
+      floodlightName: 'Purchase',
+      rules: [],
+      shares: [],
+      active: true,
+      advertiserId: '',
+      ...params,
+    });
+
+  beforeEach(() => {
+    sheets = {
+      Audiences: [
+        [
+          '1',
+          'Shoe buyers',
+          'desc',
+          30,
+          'Purchase (123)',
+          '',
+          'Fetched',
+          'checksum',
+          'sharesChecksum',
+          '{}',
+          true,
+          '',
+        ],
+        ['', '', '', '', '', '', '', '', '', '', '', ''],
+      ],
+      advertisers: [
+        ['11', 'Other (11)'],
+        ['12', 'Another (12)'],
+      ],
+      Log: [['2023-01-01', 'Loaded']],
+    };
+    mockSheetsService = {
+      getRangeData: jest
+        .fn()
+        .mockImplementation((sheetName: string) => sheets[sheetName] ?? [[]]),
+      clearDefinedRange: jest.fn().mockReturnValue(undefined),
+      setValuesInDefinedRange: jest.fn().mockReturnValue(undefined),
+      clearRange: jest.fn().mockReturnValue(undefined),
+      getCellValue: jest.fn().mockReturnValue('New'),
+      setCellValue: jest.fn().mockReturnValue(undefined),
+      findAndReplace: jest.fn().mockReturnValue(undefined),
+    } as unknown as SheetsService;
+
+    repository = new SheetsAudienceRepository(
+      mockSheetsService,
+      {} as unknown as CampaignManagerFacade
+    );
+    jest
+      .spyOn(AudiencesController.prototype, 'replaceAudienceRules')
+      .mockReturnValue(undefined);
+    jest
+      .spyOn(AudienceProcessJobController.prototype, 'getAudienceRules')
+      .mockReturnValue([]);
+  });
+
+  describe('getAudiences', () => {
+    it('reads the audiences and their synced state from the sheet', () => {
+      const audiences = repository.getAudiences();
+
+      expect(audiences).toEqual([
+        {
+          audience: createAudience({ floodlightName: undefined }),
+          checksum: 'checksum',
+          sharesChecksum: 'sharesChecksum',
+          json: '{}',
+          status: 'Fetched',
+        },
+      ]);
+      expect(
+        AudienceProcessJobController.prototype.getAudienceRules
+      ).toHaveBeenCalledWith('1', '');
+    });
+  });
+
+  describe('saveAudiences', () => {
+    it('replaces existing rows and appends new audiences', () => {
+      const updated = createAudience({ lifeSpan: 60 });
+      const created = createAudience({ id: undefined, name: 'New' });
+
+      repository.saveAudiences([
+        {
+          audience: updated,
+          checksum: 'c1',
+          sharesChecksum: 's1',
+          json: 'j1',
+          status: 'Updated',
+        },
+        {
+          audience: created,
+          checksum: '',
+          sharesChecksum: '',
+          json: '',
+          status: 'Imported',
+        },
+      ]);
+
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'Audiences',
+        2,
+        1,
+        [
+          [
+            '1',
+            'Shoe buyers',
+            'desc',
+            60,
+            'Purchase (123)',
+            '',
+            'Updated',
+            'c1',
+            's1',
+            'j1',
+            true,
+            '',
+            '',
+            '',
+            '',
+            '',
+          ],
+        ]
+      );
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'Audiences',
+        4,
+        1,
+        [expect.arrayContaining(['', 'New', 'Imported'])]
+      );
+      expect(
+        AudiencesController.prototype.replaceAudienceRules
+      ).toHaveBeenCalledWith([updated, created]);
+    });
+  });
+
+  describe('getSyncState', () => {
+    it('reads the synced state from the row of the audience', () => {
+      expect(repository.getSyncState(0)).toEqual({
+        checksum: 'checksum',
+        sharesChecksum: 'sharesChecksum',
+        json: '{}',
+        status: 'Fetched',
+      });
+      expect(mockSheetsService.getRangeData).toHaveBeenCalledWith(
+        'Audiences',
+        2,
+        1,
+        1
+      );
+    });
+  });
+
+  describe('saveSyncState', () => {
+    it('writes the given cells and replaces a changed ID in the rules', () => {
+      repository.saveSyncState(1, '2', { checksum: 'new', status: 'Success' });
+
+      expect(mockSheetsService.getCellValue).toHaveBeenCalledWith(
+        'Audiences',
+        3,
+        1
+      );
+      expect(mockSheetsService.findAndReplace).toHaveBeenCalledWith(
+        'Rules',
+        'New',
+        '2'
+      );
+      expect((mockSheetsService.setCellValue as jest.Mock).mock.calls).toEqual([
+        [3, 1, '2', 'Audiences'],
+        [3, 8, 'new', 'Audiences'],
+        [3, 14, '', 'Audiences'],
+        [3, 15, '', 'Audiences'],
+        [3, 7, 'Success', 'Audiences'],
+      ]);
+    });
+
+    it('only writes the status of unchanged audiences', () => {
+      repository.saveSyncState(1, 'New', { status: 'Error!' });
+
+      expect(mockSheetsService.findAndReplace).not.toHaveBeenCalled();
+      expect(mockSheetsService.setCellValue).toHaveBeenCalledTimes(1);
+      expect(mockSheetsService.setCellValue).toHaveBeenCalledWith(
+        3,
+        7,
+        'Error!',
+        'Audiences'
+      );
+    });
+  });
+
+  describe('reference data and logs', () => {
+    it('reads and replaces custom variables as type and name pairs', () => {
+      sheets.aux = [['U1:category'], ['U2:a:b'], ['']];
+
+      expect(repository.getCustomVariables()).toEqual([
+        { id: 'U1', name: 'category' },
+        { id: 'U2', name: 'a:b' },
+      ]);
+
+      repository.saveCustomVariables([{ id: 'U3', name: 'brand' }]);
+
+      expect(mockSheetsService.clearDefinedRange).toHaveBeenCalledWith(
+        'aux',
+        2,
+        1
+      );
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'aux',
+        2,
+        1,
+        [['U3:brand']]
+      );
+    });
+
+    it('reads and replaces advertisers as ID and name pairs', () => {
+      expect(repository.getAdvertisers()).toEqual([
+        { id: '11', name: 'Other' },
+        { id: '12', name: 'Another' },
+      ]);
+
+      repository.saveFloodlightActivities([{ id: '123', name: 'Purchase' }]);
+
+      expect(mockSheetsService.clearDefinedRange).toHaveBeenCalledWith(
+        'floodlights',
+        2,
+        1
+      );
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'floodlights',
+        2,
+        1,
+        [['123', 'Purchase (123)']]
+      );
+    });
+
+    it('appends logs after the existing ones and clears them', () => {
+      repository.appendLogs([{ date: '2023-01-02', message: 'Processed' }]);
+      repository.clearLogs();
+
+      expect(repository.getLogs()).toEqual([
+        { date: '2023-01-01', message: 'Loaded' },
+      ]);
+      expect(mockSheetsService.setValuesInDefinedRange).toHaveBeenCalledWith(
+        'Log',
+        2,
+        1,
+        [['2023-01-02', 'Processed']]
+      );
+      expect(mockSheetsService.clearRange).toHaveBeenCalledWith('Log', 'A1:B');
+    });
+  });
+});
@@ -104,21 +104,16 @@ describe('CampaignManagerService', () => {
     });
 
     describe('getFloodlightActivities', () => {
-      it('calls through to the underlying service', () => {
-        /*const floodlightConfig = createSpyObj('FloodlightActivities', {
-          list: { floodlightActivities: [] },
-        });
-        const campaignManager = createSpyObj(
-          'CampaignManager',
-          {},
-          {
-            FloodlightActivities: floodlightConfig,
-          }
-        );*/
-
+      it('pages through the underlying service', () => {
         const campaignManager: typeof CampaignManager = {
           FloodlightActivities: {
-            list: jest.fn().mockReturnValue({ floodlightActivities: [] }),
+            list: jest
+              .fn()
+              .mockReturnValueOnce({
+                floodlightActivities: [{ id: '1' }],
+                nextPageToken: 'next',
+              })
+              .mockReturnValueOnce({ floodlightActivities: [{ id: '2' }] }),
           },
         } as unknown as typeof CampaignManager;
 
@@ -133,9 +128,17 @@ describe('CampaignManagerService', () => {
           '123',
           {
             advertiserId: '1234',
+            pageToken: undefined,
           }
         );
-        expect(result).toEqual([]);
+        expect(campaignManager.FloodlightActivities.list).toHaveBeenCalledWith(
+          '123',
+          {
+            advertiserId: '1234',
+            pageToken: 'next',
+          }
+        );
+        expect(result).toEqual([{ id: '1' }, { id: '2' }]);
       });
     });
 
@@ -250,18 +253,40 @@ describe('CampaignManagerService', () => {
     });
 
     describe('getRemarketingLists', () => {
-      it('calls through to the underlying service', () => {
-        /*const remarketingLists = createSpyObj('RemarketingLists', {
-          list: { remarketingLists: [] },
-        });
-        const campaignManager = createSpyObj(
-          'CampaignManager',
-          {},
-          {
-            RemarketingLists: remarketingLists,
-          }
-        );*/
+      it('pages through the underlying service', () => {
+        const campaignManager: typeof CampaignManager = {
+          RemarketingLists: {
+            list: jest
+              .fn()
+              .mockReturnValueOnce({
+                remarketingLists: [{ id: '1' }],
+                nextPageToken: 'next',
+              })
+              .mockReturnValueOnce({ remarketingLists: [{ id: '2' }] }),
+          },
+        } as unknown as typeof CampaignManager;
+
+        const campaignManagerService = new CampaignManagerService(
+          advertiserId,
+          campaignManager
+        );
+
+        const result = campaignManagerService.getRemarketingLists('123');
+
+        expect(campaignManager.RemarketingLists.list).toHaveBeenCalledWith(
+          '123',
+          '1234',
+          { pageToken: undefined }
+        );
+        expect(campaignManager.RemarketingLists.list).toHaveBeenCalledWith(
+          '123',
+          '1234',
+          { pageToken: 'next' }
+        );
+        expect(result).toEqual([{ id: '1' }, { id: '2' }]);
+      });
 
+      it('passes the given filters through', () => {
         const campaignManager: typeof CampaignManager = {
           RemarketingLists: {
             list: jest.fn().mockReturnValue({ remarketingLists: [] }),
@@ -273,13 +298,22 @@ describe('CampaignManagerService', () => {
           campaignManager
         );
 
-        const result = campaignManagerService.getRemarketingLists('123');
+        campaignManagerService.getRemarketingLists('123', '789', {
+          name: 'Shoe buyers',
+          active: true,
+          floodlightActivityId: '456',
+        });
 
         expect(campaignManager.RemarketingLists.list).toHaveBeenCalledWith(
           '123',
-          '1234'
+          '789',
+          {
+            pageToken: undefined,
+            name: 'Shoe buyers',
+            active: true,
+            floodlightActivityId: '456',
+          }
         );
-        expect(result).toEqual([]);
       });
     });
 
@@ -360,6 +394,29 @@ describe('CampaignManagerService', () => {
       });
     });
 
+    describe('getRemarketingList', () => {
+      it('calls through to the underlying service', () => {
+        const campaignManager: typeof CampaignManager = {
+          RemarketingLists: {
+            get: jest.fn().mockReturnValue({ id: '456' }),
+          },
+        } as unknown as typeof CampaignManager;
+
+        const campaignManagerService = new CampaignManagerService(
+          advertiserId,
+          campaignManager
+        );
+
+        const result = campaignManagerService.getRemarketingList('123', '456');
+
+        expect(campaignManager.RemarketingLists.get).toHaveBeenCalledWith(
+          '123',
+          '456'
+        );
+        expect(result).toEqual({ id: '456' });
+      });
+    });
+
     describe('getRemarketingListSharesResource', () => {
       it('calls through to the underlying service', () => {
         /*const remarketingListShares = createSpyObj('RemarketingListShares', {
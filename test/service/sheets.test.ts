@@ -434,6 +434,69 @@ describe('SheetsService', () => {
       });
     });
 
+    describe('getOrCreateSheet', () => {
+      it('returns the existing sheet', () => {
+        const fakeSheet = {} as unknown as GoogleAppsScript.Spreadsheet.Sheet;
+        spreadsheet.insertSheet = jest.fn();
+        jest.spyOn(spreadsheet, 'getSheetByName').mockReturnValue(fakeSheet);
+
+        const result = sheetsService.getOrCreateSheet('sheetName', ['a']);
+
+        expect(result).toBe(fakeSheet);
+        expect(spreadsheet.insertSheet).not.toHaveBeenCalled();
+      });
+
+      it('creates the sheet with the given headers if missing', () => {
+        const fakeRange = {
+          setValues: jest.fn(),
+          setFontWeight: jest.fn(),
+        } as unknown as GoogleAppsScript.Spreadsheet.Range;
+        jest.spyOn(fakeRange, 'setValues').mockReturnValue(fakeRange);
+
+        const fakeSheet = {
+          getRange: jest.fn().mockReturnValue(fakeRange),
+          setFrozenRows: jest.fn(),
+        } as unknown as GoogleAppsScript.Spreadsheet.Sheet;
+
+        spreadsheet.insertSheet = jest.fn().mockReturnValue(fakeSheet);
+        jest.spyOn(spreadsheet, 'getSheetByName').mockReturnValue(null);
+
+        const result = sheetsService.getOrCreateSheet('sheetName', ['a', 'b']);
+
+        expect(result).toBe(fakeSheet);
+        expect(spreadsheet.insertSheet).toHaveBeenCalledWith('sheetName');
+        expect(fakeSheet.getRange).toHaveBeenCalledWith(1, 1, 1, 2);
+        expect(fakeRange.setValues).toHaveBeenCalledWith([['a', 'b']]);
+        expect(fakeSheet.setFrozenRows).toHaveBeenCalledWith(1);
+      });
+    });
+
+    describe('findAndReplace', () => {
+      it('replaces whole cells only', () => {
+        const textFinder = {
+          matchEntireCell: jest.fn(),
+          matchCase: jest.fn(),
+          matchFormulaText: jest.fn(),
+          ignoreDiacritics: jest.fn(),
+          replaceAllWith: jest.fn(),
+        };
+        textFinder.matchEntireCell.mockReturnValue(textFinder);
+        textFinder.matchCase.mockReturnValue(textFinder);
+        textFinder.matchFormulaText.mockReturnValue(textFinder);
+        textFinder.ignoreDiacritics.mockReturnValue(textFinder);
+        const fakeSheet = {
+          createTextFinder: jest.fn().mockReturnValue(textFinder),
+        } as unknown as GoogleAppsScript.Spreadsheet.Sheet;
+        jest.spyOn(spreadsheet, 'getSheetByName').mockReturnValue(fakeSheet);
+
+        sheetsService.findAndReplace('sheetName', 'a(1)', 'b');
+
+        expect(fakeSheet.createTextFinder).toHaveBeenCalledWith('a(1)');
+        expect(textFinder.matchEntireCell).toHaveBeenCalledWith(true);
+        expect(textFinder.replaceAllWith).toHaveBeenCalledWith('b');
+      });
+    });
+
     describe('getRangeData', () => {
       const fakeRange = {
         setValues: jest.fn(),
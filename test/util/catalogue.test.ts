@@ -0,0 +1,184 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for CatalogueUtil.
+ */
+
+import { Audience } from '../../src/model/audience';
+import { CatalogueError, CatalogueUtil } from '../../src/util/catalogue';
+
+jest.mock('../../src/util/hash', () => {
+  return {
+    generateMD5Hash: jest.fn().mockReturnValue('md5Hash'),
+  };
+});
+
+describe('CatalogueUtil', () => {
+  const audiences = [
+    new Audience({
+      id: '1',
+      name: 'Shoe, "boot" and sock buyers',
+      description: 'line 1\nline 2',
+      lifeSpan: 30,
+      floodlightId: '123',
+      floodlightName: 'Purchase',
+      rules: [
+        {
+          group: 0,
+          variableName: 'U1',
+          variableFriendlyName: 'category',
+          operator: 'STRING_EQUALS',
+          value: 'shoes,boots',
+          negation: false,
+        },
+        {
+          group: 1,
+          variableName: '',
+          variableFriendlyName: '',
+          operator: '',
+          value: '456',
+          negation: true,
+          type: 'LIST_MEMBERSHIP_TERM',
+        },
+      ],
+      shares: ['11', '22'],
+      active: false,
+      advertiserId: '99',
+    }),
+    new Audience({
+      id: '2',
+      name: 'All visitors',
+      lifeSpan: 90,
+      floodlightId: '789',
+      floodlightName: 'Visit',
+      rules: [],
+      shares: [],
+    }),
+  ];
+
+  describe('JSON', () => {
+    it('round-trips audiences', () => {
+      const json = CatalogueUtil.toJson(audiences, '42', '2023-01-01');
+
+      expect(JSON.parse(json)).toEqual(
+        expect.objectContaining({
+          version: 1,
+          exportedAt: '2023-01-01',
+          networkId: '42',
+        })
+      );
+      expect(CatalogueUtil.fromJson(json)).toEqual(audiences);
+    });
+
+    it('rejects malformed JSON', () => {
+      expect(() => CatalogueUtil.fromJson('{')).toThrow(CatalogueError);
+    });
+
+    it('rejects unsupported versions', () => {
+      expect(() =>
+        CatalogueUtil.fromJson(JSON.stringify({ version: 2, audiences: [] }))
+      ).toThrow("Unsupported version '2', expected 1 to 1");
+    });
+
+    it('reports all structural errors with their location', () => {
+      let error: CatalogueError | undefined;
+
+      try {
+        CatalogueUtil.fromJson(
+          JSON.stringify({
+            version: 1,
+            audiences: [
+              { name: '', lifeSpan: 'x', shares: [], rules: [] },
+              {
+                name: 'a',
+                lifeSpan: 1,
+                shares: [1],
+                rules: [{ group: -1, value: 'v', negation: 'no' }],
+              },
+            ],
+          })
+        );
+      } catch (err: unknown) {
+        error = err as CatalogueError;
+      }
+
+      expect(error?.getErrors()).toEqual([
+        'audiences[0]: name must be a non-empty string',
+        'audiences[0]: lifeSpan must be a number',
+        'audiences[1]: shares must be an array of strings',
+        'audiences[1]: rules[0].group must be a non-negative integer',
+        'audiences[1]: rules[0].negation must be a boolean',
+      ]);
+    });
+  });
+
+  describe('CSV', () => {
+    it('writes one line per rule with quoted values', () => {
+      const lines = CatalogueUtil.toCsv(audiences).split('\n');
+
+      expect(lines[0]).toEqual(
+        'id,name,description,lifeSpan,floodlightId,floodlightName,active,' +
+          'advertiserId,shares,group,variableName,variableFriendlyName,' +
+          'operator,value,negation,type,contextVariable'
+      );
+      expect(lines[1]).toEqual('1,"Shoe, ""boot"" and sock buyers","line 1');
+      expect(lines[2]).toEqual(
+        'line 2",30,123,Purchase,false,99,"11,22",0,U1,category,' +
+          'STRING_EQUALS,"shoes,boots",false,,'
+      );
+      expect(lines[5]).toEqual('2,All visitors,,90,789,Visit,true,,,,,,,,,,');
+    });
+
+    it('round-trips audiences', () => {
+      expect(CatalogueUtil.fromCsv(CatalogueUtil.toCsv(audiences))).toEqual(
+        audiences
+      );
+    });
+
+    it('accepts CRLF line breaks and reordered columns', () => {
+      const csv =
+        'name,lifeSpan,floodlightId,id,description,floodlightName,active,' +
+        'advertiserId,shares,group,variableName,variableFriendlyName,' +
+        'operator,value,negation,type,contextVariable\r\n' +
+        'All visitors,90,789,2,,Visit,,,,,,,,,,,\r\n';
+
+      expect(CatalogueUtil.fromCsv(csv)).toEqual([audiences[1]]);
+    });
+
+    it('rejects missing columns', () => {
+      expect(() => CatalogueUtil.fromCsv('id,name\n1,a')).toThrow(
+        'Missing column(s) description, lifeSpan'
+      );
+    });
+
+    it('reports errors by line number', () => {
+      const csv = CatalogueUtil.toCsv([audiences[1]]).replace(',90,', ',,');
+
+      expect(() => CatalogueUtil.fromCsv(csv)).toThrow(
+        'line 2: lifeSpan must be a number'
+      );
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('handles quoted separators, quotes and line breaks', () => {
+      expect(CatalogueUtil.parseCsv('a,"b,c","d""e"\n"f\ng",')).toEqual([
+        ['a', 'b,c', 'd"e'],
+        ['f\ng', ''],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for ErrorUtil.
+ */
+
+import { ApiError } from '../../src/api/base';
+import { ErrorUtil } from '../../src/util/error';
+
+describe('ErrorUtil', () => {
+  describe('isRetryable', () => {
+    it('classifies API errors by their status code', () => {
+      expect(ErrorUtil.isRetryable(new ApiError('Rate limited', 429))).toBe(
+        true
+      );
+      expect(ErrorUtil.isRetryable(new ApiError('Unavailable', 503))).toBe(
+        true
+      );
+      expect(ErrorUtil.isRetryable(new ApiError('Network error', 0))).toBe(
+        true
+      );
+      expect(ErrorUtil.isRetryable(new ApiError('Bad request', 400))).toBe(
+        false
+      );
+      expect(
+        ErrorUtil.isRetryable(
+          new ApiError('Forbidden', 403, {
+            error: { errors: [{ reason: 'rateLimitExceeded' }] },
+          })
+        )
+      ).toBe(true);
+    });
+
+    it('retries 403 errors of exhausted quota', () => {
+      const forbidden = (error: object) =>
+        new ApiError('Forbidden', 403, { error: { code: 403, ...error } });
+
+      expect(
+        ErrorUtil.isRetryable(
+          forbidden({ errors: [{ reason: 'userRateLimitExceeded' }] })
+        )
+      ).toBe(true);
+      expect(
+        ErrorUtil.isRetryable(
+          forbidden({ errors: [{ reason: 'quotaExceeded' }] })
+        )
+      ).toBe(true);
+      expect(
+        ErrorUtil.isRetryable(forbidden({ status: 'RESOURCE_EXHAUSTED' }))
+      ).toBe(true);
+      expect(ErrorUtil.isRetryable(new ApiError('Forbidden', 403))).toBe(false);
+      expect(
+        ErrorUtil.isRetryable(
+          forbidden({
+            status: 'PERMISSION_DENIED',
+            errors: [{ reason: 'insufficientPermissions' }],
+          })
+        )
+      ).toBe(false);
+    });
+
+    it('classifies errors of the built-in services by their message', () => {
+      const serviceError = (message: string) =>
+        new Error(
+          'API call to dfareporting.remarketingLists.insert failed with ' +
+            `error: ${message}`
+        );
+
+      expect(ErrorUtil.isRetryable(serviceError('Rate Limit Exceeded'))).toBe(
+        true
+      );
+      expect(ErrorUtil.isRetryable(serviceError('Backend Error'))).toBe(true);
+      expect(
+        ErrorUtil.isRetryable(serviceError('Invalid floodlight activity'))
+      ).toBe(false);
+    });
+
+    it('classifies error messages and empty errors', () => {
+      expect(ErrorUtil.isRetryable('Request timed out')).toBe(true);
+      expect(ErrorUtil.isRetryable('Invalid name')).toBe(false);
+      expect(ErrorUtil.isRetryable(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for RuleExpressionUtil.
+ */
+
+import { type AudienceRule } from '../../src/model/audience';
+import {
+  RuleExpressionError,
+  RuleExpressionUtil,
+} from '../../src/util/expression';
+import { RemarketingListUtil } from '../../src/util/remarketingList';
+
+describe('RuleExpressionUtil', () => {
+  const rules: AudienceRule[] = [
+    {
+      group: 0,
+      variableName: 'U1',
+      variableFriendlyName: 'category',
+      operator: 'STRING_EQUALS',
+      value: 'shoes',
+      negation: false,
+    },
+    {
+      group: 0,
+      variableName: 'U1',
+      variableFriendlyName: 'category',
+      operator: 'STRING_EQUALS',
+      value: 'boots',
+      negation: false,
+    },
+    {
+      group: 1,
+      variableName: 'U3',
+      variableFriendlyName: '',
+      operator: 'STRING_CONTAINS',
+      value: 'test',
+      negation: true,
+    },
+  ];
+  const expression =
+    '(U1 EQUALS "shoes" OR U1 EQUALS "boots") AND NOT U3 CONTAINS "test"';
+
+  describe('parse', () => {
+    it('parses clauses and terms into grouped rules', () => {
+      const result = RuleExpressionUtil.parse(
+        '(u1 EQUALS "shoes" OR u1 equals "boots") AND NOT u3 CONTAINS "test"',
+        { U1: 'category' }
+      );
+
+      expect(result).toEqual(rules);
+    });
+
+    it('resolves numeric operators for unquoted values', () => {
+      const result = RuleExpressionUtil.parse(
+        'u2 EQUALS 5 OR u2 LESS_THAN_EQUAL 3 OR u2 NUM_GREATER_THAN "7"'
+      );
+
+      expect(result.map(rule => [rule.operator, rule.value])).toEqual([
+        ['NUM_EQUALS', '5'],
+        ['NUM_LESS_THAN_EQUAL', '3'],
+        ['NUM_GREATER_THAN', '7'],
+      ]);
+    });
+
+    it('parses list membership and referrer terms', () => {
+      const result = RuleExpressionUtil.parse(
+        'NOT IN_LIST 123 AND REFERRER u4 CONTAINS "example.com"'
+      );
+
+      expect(result).toEqual([
+        {
+          group: 0,
+          variableName: '',
+          variableFriendlyName: '',
+          operator: '',
+          value: '123',
+          negation: true,
+          type: 'LIST_MEMBERSHIP_TERM',
+        },
+        {
+          group: 1,
+          variableName: 'U4',
+          variableFriendlyName: '',
+          operator: 'STRING_CONTAINS',
+          value: 'example.com',
+          negation: false,
+          type: 'REFERRER_TERM',
+        },
+      ]);
+    });
+
+    it('unescapes quoted values', () => {
+      const result = RuleExpressionUtil.parse('u1 EQUALS "a \\"b\\" \\\\ c"');
+
+      expect(result[0].value).toEqual('a "b" \\ c');
+    });
+
+    it('accepts terms joined by OR without AND or in parentheses', () => {
+      expect(
+        RuleExpressionUtil.parse('u1 EQUALS "a" OR u2 EQUALS "b"').map(
+          rule => rule.group
+        )
+      ).toEqual([0, 0]);
+      expect(
+        RuleExpressionUtil.parse(
+          '(u1 EQUALS "a" OR u2 EQUALS "b") AND u3 EQUALS "c"'
+        ).map(rule => rule.group)
+      ).toEqual([0, 0, 1]);
+    });
+
+    it('returns no rules for empty expressions', () => {
+      expect(RuleExpressionUtil.parse('  ')).toEqual([]);
+    });
+
+    it.each([
+      ['u1 LIKE "a"', "Invalid operator 'LIKE' at position 3"],
+      ['u1 EQUALS', 'Expected value but reached the end at position 9'],
+      ['(u1 EQUALS "a"', "Expected ')' but reached the end at position 14"],
+      ['u1 EQUALS "a', 'Unterminated string at position 10'],
+      ['u1 EQUALS "a" u2', "Unexpected 'u2' at position 14"],
+      ['IN_LIST abc', "Invalid remarketing list ID 'abc' at position 8"],
+      [
+        'u1 EQUALS "a" OR u2 EQUALS "b" AND u3 EQUALS "c"',
+        'Ambiguous OR, terms joined by OR must be enclosed in parentheses ' +
+          'when combined with AND at position 14',
+      ],
+      [
+        '(u1 EQUALS "a") AND u2 EQUALS "b" OR u3 EQUALS "c"',
+        'Ambiguous OR, terms joined by OR must be enclosed in parentheses ' +
+          'when combined with AND at position 34',
+      ],
+    ])('throws for invalid expression %s', (input, message) => {
+      expect(() => RuleExpressionUtil.parse(input)).toThrow(
+        RuleExpressionError
+      );
+      expect(() => RuleExpressionUtil.parse(input)).toThrow(message);
+    });
+  });
+
+  describe('print', () => {
+    it('renders grouped rules as expression', () => {
+      expect(RuleExpressionUtil.print(rules)).toEqual(expression);
+    });
+
+    it('renders one term per separated value', () => {
+      const result = RuleExpressionUtil.print([
+        { ...rules[0], value: 'shoes,boots' },
+      ]);
+
+      expect(result).toEqual('U1 EQUALS "shoes" OR U1 EQUALS "boots"');
+    });
+
+    it('keeps full operator names if values do not match them', () => {
+      const result = RuleExpressionUtil.print([
+        { ...rules[0], operator: 'NUM_EQUALS', value: '5' },
+        { ...rules[0], group: 1, operator: 'NUM_EQUALS', value: 'x' },
+        { ...rules[0], group: 2, value: '5' },
+      ]);
+
+      expect(result).toEqual(
+        'U1 EQUALS 5 AND U1 NUM_EQUALS "x" AND U1 EQUALS "5"'
+      );
+    });
+
+    it('round-trips with parse', () => {
+      const printed = RuleExpressionUtil.print(rules);
+
+      expect(RuleExpressionUtil.parse(printed, { U1: 'category' })).toEqual(
+        rules
+      );
+    });
+
+    it('round-trips values holding the separator through CM360', () => {
+      const input = 'U1 EQUALS "a,b" OR U1 EQUALS "c\\\\"';
+      const listPopulationRule = RemarketingListUtil.createListPopulationRule(
+        '1',
+        RuleExpressionUtil.parse(input)
+      );
+
+      expect(
+        listPopulationRule.listPopulationClauses?.[0].terms.map(
+          term => term.value
+        )
+      ).toEqual(['a,b', 'c\\']);
+      expect(
+        RuleExpressionUtil.print(
+          RemarketingListUtil.parseAudienceRules(
+            {
+              listPopulationRule,
+            } as GoogleAppsScript.CampaignManager.RemarketingList,
+            []
+          )
+        )
+      ).toEqual(input);
+    });
+  });
+});
@@ -14,6 +14,7 @@
  * limitations under the License.
  */
 import { Audience } from '../../src/model/audience';
+import { AudienceLoadJob } from '../../src/model/audienceLoadJob';
 import { AudienceProcessJob } from '../../src/model/audienceProcessJob';
 import { Job } from '../../src/model/job';
 import { JobUtil } from '../../src/util/job';
@@ -198,4 +199,64 @@ describe('JobUtil', () => {
     expect(parsedJob.isError()).toBe(true);
     expect(parsedJob.getIndex()).toEqual(2);
   });
+
+  it('deserializes retryable AudienceProcessJob properly', () => {
+    const retryableJob = new AudienceProcessJob({
+      idx: 1,
+      audience: audience,
+      actions: ['CREATE_AUDIENCE'],
+      runId: 'run',
+    });
+    retryableJob.error('Rate limit exceeded');
+    retryableJob.setRetryable(true);
+
+    const parsedJob = JobUtil.fromJson(
+      JSON.parse(JSON.stringify(retryableJob))
+    ) as AudienceProcessJob;
+
+    expect(parsedJob).toEqual(retryableJob);
+    expect(parsedJob.isRetryable()).toBe(true);
+  });
+
+  it('keeps the stats of loaded audiences', () => {
+    const loadedAudience = Audience.fromJson({
+      ...JSON.parse(audience.toJson()),
+      listSize_: 1200,
+      listSource_: 'REMARKETING_LIST_SOURCE_DBM',
+    });
+
+    checkParsedJsonEquals(
+      new AudienceLoadJob({ idx: 1, audience: loadedAudience }),
+      new AudienceLoadJob({ idx: 1, audience: loadedAudience })
+    );
+    checkParsedJsonEquals(
+      new AudienceProcessJob({
+        idx: 1,
+        audience: loadedAudience,
+        actions: ['UPDATE_SHARES'],
+      }),
+      new AudienceProcessJob({
+        idx: 1,
+        audience: loadedAudience,
+        actions: ['UPDATE_SHARES'],
+      })
+    );
+    expect(
+      (
+        JobUtil.fromJson(
+          JSON.parse(
+            JSON.stringify(
+              new AudienceProcessJob({
+                idx: 1,
+                audience: loadedAudience,
+                actions: ['UPDATE_SHARES'],
+              })
+            )
+          )
+        ) as AudienceProcessJob
+      )
+        .getAudience()
+        .isLocked()
+    ).toBe(true);
+  });
 });
@@ -0,0 +1,136 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview This file contains tests for LoadFilterUtil.
+ */
+
+import { LoadFilterUtil } from '../../src/util/loadFilter';
+
+describe('LoadFilterUtil', () => {
+  const remarketingList = (
+    params: Partial<GoogleAppsScript.CampaignManager.RemarketingList> = {}
+  ) =>
+    ({
+      id: '1',
+      name: 'Shoe buyers',
+      active: true,
+      listSource: 'REMARKETING_LIST_SOURCE_DFA',
+      listPopulationRule: { floodlightActivityId: '123' },
+      ...params,
+    } as GoogleAppsScript.CampaignManager.RemarketingList);
+
+  describe('normalize', () => {
+    it('removes empty values', () => {
+      expect(
+        LoadFilterUtil.normalize({
+          name: ' shoe ',
+          floodlightActivityId: '',
+          status: 'active',
+          listSource: '',
+          createdByTool: false,
+        })
+      ).toEqual({ name: 'shoe', status: 'ACTIVE' });
+    });
+
+    it('rejects invalid regular expressions and statuses', () => {
+      expect(() => LoadFilterUtil.normalize({ name: '/[/' })).toThrow(
+        "Invalid name filter '/[/'"
+      );
+      expect(() => LoadFilterUtil.normalize({ status: 'DELETED' })).toThrow(
+        'Status must be one of ACTIVE, INACTIVE'
+      );
+    });
+  });
+
+  describe('toRemarketingListsFilter', () => {
+    it('passes the filters supported by the API through', () => {
+      expect(
+        LoadFilterUtil.toRemarketingListsFilter({
+          name: 'shoe',
+          floodlightActivityId: '123',
+          status: 'ACTIVE',
+          listSource: 'REMARKETING_LIST_SOURCE_DFA',
+          createdByTool: true,
+        })
+      ).toEqual({ name: 'shoe', active: true, floodlightActivityId: '123' });
+    });
+
+    it('leaves regular expressions and inactive lists to the client', () => {
+      expect(
+        LoadFilterUtil.toRemarketingListsFilter({
+          name: '/^shoe/i',
+          status: 'INACTIVE',
+        })
+      ).toEqual({});
+    });
+  });
+
+  describe('matches', () => {
+    it('matches names by substring or regular expression', () => {
+      expect(
+        LoadFilterUtil.matches(remarketingList(), { name: 'BUYERS' })
+      ).toBe(true);
+      expect(
+        LoadFilterUtil.matches(remarketingList(), { name: '/^shoe/i' })
+      ).toBe(true);
+      expect(
+        LoadFilterUtil.matches(remarketingList(), { name: '/^buyers/' })
+      ).toBe(false);
+    });
+
+    it('matches floodlight activity, status and list source', () => {
+      expect(
+        LoadFilterUtil.matches(remarketingList(), {
+          floodlightActivityId: '123',
+          status: 'ACTIVE',
+          listSource: 'REMARKETING_LIST_SOURCE_DFA',
+        })
+      ).toBe(true);
+      expect(
+        LoadFilterUtil.matches(remarketingList(), {
+          floodlightActivityId: '456',
+        })
+      ).toBe(false);
+      expect(
+        LoadFilterUtil.matches(remarketingList(), { status: 'INACTIVE' })
+      ).toBe(false);
+      expect(
+        LoadFilterUtil.matches(remarketingList({ active: false }), {
+          status: 'INACTIVE',
+        })
+      ).toBe(true);
+      expect(
+        LoadFilterUtil.matches(remarketingList(), {
+          listSource: 'REMARKETING_LIST_SOURCE_GA',
+        })
+      ).toBe(false);
+    });
+
+    it('matches lists created through the spreadsheet', () => {
+      expect(
+        LoadFilterUtil.matches(
+          remarketingList(),
+          { createdByTool: true },
+          new Set(['1'])
+        )
+      ).toBe(true);
+      expect(
+        LoadFilterUtil.matches(remarketingList(), { createdByTool: true })
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview This file contains tests for AudienceValidator.
+ */
+
+import { Audience } from '../../src/model/audience';
+import { AudienceValidator } from '../../src/util/validator';
+
+jest.mock('../../src/util/hash', () => {
+  return {
+    generateMD5Hash: jest.fn().mockReturnValue('md5Hash'),
+  };
+});
+
+describe('AudienceValidator', () => {
+  const validator = new AudienceValidator(['U1', 'U2'], ['1']);
+
+  describe('validateRule', () => {
+    it('accepts valid rules', () => {
+      expect(
+        validator.validateRule(['1', 0, 'u1:var', 'STRING_EQUALS', 'a,b'])
+      ).toEqual([]);
+      expect(
+        validator.validateRule([
+          '1',
+          1,
+          '',
+          '',
+          '123',
+          false,
+          '',
+          'LIST_MEMBERSHIP_TERM',
+        ])
+      ).toEqual([]);
+    });
+
+    it('reports unknown variables and invalid operators', () => {
+      expect(
+        validator.validateRule(['1', 0, 'U99:var', 'STRING_LIKE', 'a'])
+      ).toEqual(["Unknown variable 'U99'", "Invalid operator 'STRING_LIKE'"]);
+    });
+
+    it('reports non-numeric values for numeric operators', () => {
+      expect(
+        validator.validateRule(['1', 0, 'U1:var', 'NUM_LESS_THAN', '1,a'])
+      ).toEqual(["Operator 'NUM_LESS_THAN' requires numeric values"]);
+    });
+
+    it('reports empty values and invalid groups', () => {
+      expect(
+        validator.validateRule(['1', 'x', 'U1:var', 'STRING_EQUALS', ''])
+      ).toEqual(["Invalid group 'x'", 'Empty value']);
+    });
+
+    it('skips the variable check if no variables are known', () => {
+      expect(
+        new AudienceValidator([], []).validateRule([
+          '1',
+          0,
+          'U99:var',
+          'STRING_EQUALS',
+          'a',
+        ])
+      ).toEqual([]);
+    });
+  });
+
+  describe('validateAudience', () => {
+    const rule = {
+      variableName: 'U1',
+      variableFriendlyName: 'var',
+      operator: 'STRING_EQUALS',
+      value: 'a',
+      negation: false,
+    };
+
+    it('accepts valid audiences', () => {
+      const audience = new Audience({
+        name: 'name',
+        lifeSpan: 30,
+        floodlightId: '1',
+        rules: [
+          { ...rule, group: 0 },
+          { ...rule, group: 1 },
+        ],
+        shares: [],
+      });
+
+      expect(validator.validateAudience(audience)).toEqual([]);
+    });
+
+    it('reports invalid lifespans, floodlights and group gaps', () => {
+      const audience = new Audience({
+        name: 'name',
+        lifeSpan: 0,
+        floodlightId: '2',
+        rules: [
+          { ...rule, group: 0 },
+          { ...rule, group: 2 },
+        ],
+        shares: [],
+      });
+
+      expect(validator.validateAudience(audience)).toEqual([
+        'Lifespan must be between 1 and 540 days',
+        "Unknown floodlight activity '2'",
+        'Rule groups must be consecutive starting at 0, got 0, 2',
+      ]);
+    });
+  });
+});
@@ -26,11 +26,15 @@ declare namespace GoogleAppsScript {
     }
 
     interface ListPopulationTerm {
-      variableName: string;
+      variableName?: string;
+      variableFriendlyName?: string;
       type: string;
-      operator: string;
-      value: string;
-      negation: boolean;
+      operator?: string;
+      value?: string;
+      negation?: boolean;
+      contains?: boolean;
+      remarketingListId?: string;
+      contextVariable?: string;
     }
 
     interface ListPopulationClause {
@@ -51,6 +55,7 @@ declare namespace GoogleAppsScript {
       listPopulationRule?: ListPopulationRule;
       active: boolean;
       listSource: string;
+      listSize?: string;
       [key: string]: unknown;
     }
 
@@ -91,8 +96,9 @@ declare namespace GoogleAppsScript {
     interface FloodlightActivities {
       list(
         profileId: string,
-        options: Record<string, string>
+        options: Record<string, unknown>
       ): {
+        nextPageToken?: string;
         floodlightActivities: FloodlightActivity[];
       };
     }
@@ -115,8 +121,10 @@ declare namespace GoogleAppsScript {
     interface RemarketingLists {
       list(
         profileId: string,
-        advertiserId: string
+        advertiserId: string,
+        params?: Record<string, unknown>
       ): {
+        nextPageToken?: string;
         remarketingLists: RemarketingList[];
       };
       update(resource: RemarketingList, profileId: string): RemarketingList;